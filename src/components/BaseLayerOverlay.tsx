@@ -0,0 +1,48 @@
+import type { BaseLayer, BaseLayerKind } from "@/utils/mapTypes";
+
+interface BaseLayerOverlayProps {
+  layer: BaseLayer;
+  width: number;
+  height: number;
+}
+
+const SHAPE_STYLES: Record<BaseLayerKind, { fill: string; stroke: string; strokeWidth: number }> = {
+  "pedestrian-area": { fill: "rgba(226, 232, 240, 0.9)", stroke: "rgb(203, 213, 225)", strokeWidth: 1 },
+  building: { fill: "rgba(148, 163, 184, 0.9)", stroke: "rgb(100, 116, 139)", strokeWidth: 1 },
+  footway: { fill: "none", stroke: "rgb(241, 245, 249)", strokeWidth: 6 },
+  barrier: { fill: "none", stroke: "rgb(71, 85, 105)", strokeWidth: 2 },
+};
+
+// Areas first so walkways and barriers stay visible on top of them.
+const DRAW_ORDER: BaseLayerKind[] = ["pedestrian-area", "building", "footway", "barrier"];
+
+// Imported OpenStreetMap outlines, drawn in image pixels under the layout.
+export const BaseLayerOverlay = ({ layer, width, height }: BaseLayerOverlayProps) => (
+  <svg
+    className="absolute inset-0 w-full h-full pointer-events-none"
+    viewBox={`0 0 ${width} ${height}`}
+    preserveAspectRatio="none"
+  >
+    {DRAW_ORDER.flatMap((kind) =>
+      layer.shapes
+        .filter((shape) => shape.kind === kind)
+        .map((shape, idx) => {
+          const style = SHAPE_STYLES[kind];
+          const points = shape.points.map((p) => `${p.x},${p.y}`).join(" ");
+          const Shape = shape.closed && style.fill !== "none" ? "polygon" : "polyline";
+          return (
+            <Shape
+              key={`${kind}-${idx}`}
+              points={points}
+              fill={Shape === "polygon" ? style.fill : "none"}
+              stroke={style.stroke}
+              strokeWidth={style.strokeWidth}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          );
+        })
+    )}
+  </svg>
+);
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import type { CrowdDensityEstimate } from "@/utils/crowdDensity";
+import { heatColor } from "@/utils/trafficHeatmap";
+
+interface CrowdDensityOverlayProps {
+  estimate: CrowdDensityEstimate;
+  width: number;
+  height: number;
+}
+
+// Shades each grid cell by its share of the busiest cell's occupancy.
+export const CrowdDensityOverlay = ({ estimate, width, height }: CrowdDensityOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    const { gridSize, rows, cols, occupancy, peakOccupancy } = estimate;
+    if (peakOccupancy <= 0) return;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const value = occupancy[r * cols + c] / peakOccupancy;
+        if (value <= 0) continue;
+        const [red, green, blue, alpha] = heatColor(value);
+        ctx.fillStyle = `rgba(${red}, ${green}, ${blue}, ${alpha / 255})`;
+        ctx.fillRect(c * gridSize, r * gridSize, gridSize, gridSize);
+      }
+    }
+  }, [estimate, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+};
@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { Download, Eye, EyeOff, Users } from "lucide-react";
+import type { CrowdDensityEstimate } from "@/utils/crowdDensity";
+
+interface CrowdDensityPanelProps {
+  // Only computed while the overlay is shown.
+  estimate: CrowdDensityEstimate | null;
+  showOverlay: boolean;
+  onToggleOverlay: () => void;
+  onExport: () => void;
+}
+
+export const CrowdDensityPanel = ({ estimate, showOverlay, onToggleOverlay, onExport }: CrowdDensityPanelProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+      <Users className="h-4 w-4" />
+      Estimated Crowd Density
+    </h3>
+    <p className="text-xs text-muted-foreground">
+      Spreads the attendance over the map by walking distance to vendors and entries, with walkways and
+      painted walkable areas (e.g. seating) drawing a steady share.
+    </p>
+    {estimate &&
+      (estimate.totalOccupancy > 0 ? (
+        <p className="text-xs text-muted-foreground">
+          About {Math.round(estimate.totalOccupancy)} people on site at once; the busiest cell holds{" "}
+          {estimate.peakOccupancy.toFixed(1)}.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">Add vendors, entries or walkways to estimate the crowd.</p>
+      ))}
+    <div className="grid grid-cols-2 gap-1">
+      <Button variant="outline" size="sm" className="text-xs px-1" onClick={onToggleOverlay}>
+        {showOverlay ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+        {showOverlay ? "Hide Overlay" : "Show Overlay"}
+      </Button>
+      <Button variant="outline" size="sm" className="text-xs px-1" onClick={onExport}>
+        <Download className="h-3 w-3 mr-1" />
+        Export CSV
+      </Button>
+    </div>
+  </div>
+);
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, ChevronDown, ChevronRight } from "lucide-react";
+import type { EventTimeline, Node, TimelineInterval } from "@/utils/mapTypes";
+import {
+  INTERVAL_LENGTH_OPTIONS,
+  PHASE_PRESETS,
+  createDefaultTimeline,
+  formatClockTime,
+  intervalStartMinutes,
+  resizeTimeline,
+} from "@/utils/eventTimeline";
+
+interface EventTimelineEditorProps {
+  timeline: EventTimeline | null;
+  vendors: Node[];
+  onChange: (timeline: EventTimeline | null) => void;
+}
+
+const parseMultiplier = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+export const EventTimelineEditor = ({ timeline, vendors, onChange }: EventTimelineEditorProps) => {
+  const [expandedInterval, setExpandedInterval] = useState<number | null>(null);
+
+  const updateInterval = (index: number, changes: Partial<TimelineInterval>) => {
+    if (!timeline) return;
+    onChange({
+      ...timeline,
+      intervals: timeline.intervals.map((interval, idx) =>
+        idx === index ? { ...interval, ...changes } : interval
+      ),
+    });
+  };
+
+  const updateVendorMultiplier = (index: number, vendorId: string, value: string) => {
+    const interval = timeline?.intervals[index];
+    if (!interval) return;
+    const { [vendorId]: _previous, ...rest } = interval.vendorSalesMultipliers;
+    updateInterval(index, {
+      vendorSalesMultipliers: value === "" ? rest : { ...rest, [vendorId]: parseMultiplier(value) },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Event Timeline
+        </h3>
+        <label className="flex items-center gap-1 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={timeline !== null}
+            onChange={(e) => onChange(e.target.checked ? createDefaultTimeline() : null)}
+            className="rounded"
+          />
+          <span>Enabled</span>
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {timeline
+          ? "Multipliers scale people and vendor sales per hour for each interval."
+          : "Off: the planning inputs describe one steady-state hour."}
+      </p>
+
+      {timeline && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-xs">Start</Label>
+              <Input
+                type="time"
+                value={timeline.startTime}
+                onChange={(e) => e.target.value && onChange(resizeTimeline(timeline, { startTime: e.target.value }))}
+                className="h-8 text-xs px-1"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">End</Label>
+              <Input
+                type="time"
+                value={timeline.endTime}
+                onChange={(e) => e.target.value && onChange(resizeTimeline(timeline, { endTime: e.target.value }))}
+                className="h-8 text-xs px-1"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Interval</Label>
+              <Select
+                value={String(timeline.intervalMinutes)}
+                onValueChange={(value) =>
+                  onChange(resizeTimeline(timeline, { intervalMinutes: parseInt(value, 10) }))
+                }
+              >
+                <SelectTrigger className="h-8 text-xs px-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTERVAL_LENGTH_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)} className="text-xs">
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <datalist id="timeline-phase-presets">
+            {PHASE_PRESETS.map((phase) => (
+              <option key={phase} value={phase} />
+            ))}
+          </datalist>
+
+          <div className="grid grid-cols-[3rem_1fr_3.5rem_3.5rem_1.5rem] gap-1 text-[10px] text-muted-foreground">
+            <span>Time</span>
+            <span>Phase</span>
+            <span>People ×</span>
+            <span>Sales ×</span>
+            <span />
+          </div>
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {timeline.intervals.map((interval, idx) => {
+              const isExpanded = expandedInterval === idx;
+              const overrideCount = Object.keys(interval.vendorSalesMultipliers).length;
+              return (
+                <div key={idx} className="space-y-1">
+                  <div className="grid grid-cols-[3rem_1fr_3.5rem_3.5rem_1.5rem] gap-1 items-center">
+                    <span className="text-xs tabular-nums">
+                      {formatClockTime(intervalStartMinutes(timeline, idx))}
+                    </span>
+                    <Input
+                      value={interval.phase}
+                      list="timeline-phase-presets"
+                      onChange={(e) => updateInterval(idx, { phase: e.target.value })}
+                      className="h-7 text-xs px-1"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={interval.attendanceMultiplier}
+                      onChange={(e) => updateInterval(idx, { attendanceMultiplier: parseMultiplier(e.target.value) })}
+                      className="h-7 text-xs px-1"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={interval.salesMultiplier}
+                      onChange={(e) => updateInterval(idx, { salesMultiplier: parseMultiplier(e.target.value) })}
+                      className="h-7 text-xs px-1"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-6 p-0"
+                      disabled={vendors.length === 0}
+                      onClick={() => setExpandedInterval(isExpanded ? null : idx)}
+                      title={`Per-vendor sales${overrideCount > 0 ? ` (${overrideCount} set)` : ""}`}
+                    >
+                      {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    </Button>
+                  </div>
+                  {isExpanded && (
+                    <div className="ml-12 space-y-1 rounded border p-1">
+                      {vendors.map((vendor) => (
+                        <div key={vendor.id} className="flex items-center gap-1">
+                          <span className="flex-1 truncate text-xs">{vendor.label}</span>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            placeholder={String(interval.salesMultiplier)}
+                            value={interval.vendorSalesMultipliers[vendor.id] ?? ""}
+                            onChange={(e) => updateVendorMultiplier(idx, vendor.id, e.target.value)}
+                            className="h-7 w-16 text-xs px-1"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
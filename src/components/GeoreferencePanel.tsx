@@ -0,0 +1,144 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Globe, MapPin, Trash2, X } from "lucide-react";
+import type { GeoControlPoint, Georeference } from "@/utils/mapTypes";
+import { MIN_CONTROL_POINTS, controlPointErrors } from "@/utils/georeference";
+
+interface GeoreferencePanelProps {
+  georeference: Georeference | null;
+  // Pins being edited; lat/lon are NaN until typed in.
+  pins: GeoControlPoint[];
+  onPinsChange: (pins: GeoControlPoint[]) => void;
+  kind: Georeference["kind"];
+  onKindChange: (kind: Georeference["kind"]) => void;
+  isPinning: boolean;
+  onTogglePinning: () => void;
+  onApply: () => void;
+  onClear: () => void;
+}
+
+const KIND_LABELS: Record<Georeference["kind"], string> = {
+  affine: "Affine",
+  projective: "Projective",
+};
+
+const coordinateText = (value: number) => (Number.isFinite(value) ? String(value) : "");
+
+export const GeoreferencePanel = ({
+  georeference,
+  pins,
+  onPinsChange,
+  kind,
+  onKindChange,
+  isPinning,
+  onTogglePinning,
+  onApply,
+  onClear,
+}: GeoreferencePanelProps) => {
+  const errors = georeference ? controlPointErrors(georeference) : [];
+  const rmsError = errors.length > 0 ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length) : 0;
+  const completePins = pins.filter((pin) => Number.isFinite(pin.lat) && Number.isFinite(pin.lon)).length;
+
+  const updatePin = (index: number, field: "lat" | "lon", text: string) =>
+    onPinsChange(pins.map((pin, idx) => (idx === index ? { ...pin, [field]: parseFloat(text) } : pin)));
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+        <Globe className="h-4 w-4" />
+        Georeference
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Pin at least {MIN_CONTROL_POINTS.affine} map points (4 for a projective fit, which corrects a photo taken
+        at an angle) and enter their latitude and longitude. Distances, GeoJSON and OpenStreetMap imports then use
+        real coordinates.
+      </p>
+      <div className="grid grid-cols-2 gap-1">
+        {(Object.keys(KIND_LABELS) as Georeference["kind"][]).map((option) => (
+          <Button
+            key={option}
+            variant={kind === option ? "secondary" : "outline"}
+            size="sm"
+            className="text-xs"
+            onClick={() => onKindChange(option)}
+          >
+            {KIND_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+      {pins.map((pin, idx) => (
+        <div key={idx} className="flex items-end gap-1">
+          <span className="text-xs font-medium w-4 pb-2">{idx + 1}</span>
+          <div className="flex-1">
+            <Label className="text-xs">Lat</Label>
+            <Input
+              type="number"
+              step="any"
+              value={coordinateText(pin.lat)}
+              onChange={(e) => updatePin(idx, "lat", e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex-1">
+            <Label className="text-xs">Lon</Label>
+            <Input
+              type="number"
+              step="any"
+              value={coordinateText(pin.lon)}
+              onChange={(e) => updatePin(idx, "lon", e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onPinsChange(pins.filter((_, other) => other !== idx))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {isPinning && <p className="text-xs text-muted-foreground">Click a recognisable spot on the map to pin it.</p>}
+      {georeference ? (
+        <p className="text-xs text-muted-foreground">
+          {KIND_LABELS[georeference.kind]} fit through {georeference.controlPoints.length} pins; they land within{" "}
+          {Math.round(rmsError * 100) / 100} m (RMS) of where they were placed.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">Not georeferenced: coordinates are image pixels.</p>
+      )}
+      <div className="grid grid-cols-3 gap-1">
+        <Button
+          variant={isPinning ? "default" : "outline"}
+          size="sm"
+          className="text-xs px-1"
+          onClick={onTogglePinning}
+        >
+          <MapPin className="h-3 w-3 mr-1" />
+          {isPinning ? "Done" : "Pin"}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs px-1"
+          onClick={onApply}
+          disabled={completePins < MIN_CONTROL_POINTS[kind]}
+        >
+          Apply
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs px-1"
+          onClick={onClear}
+          disabled={!georeference && pins.length === 0}
+        >
+          <Trash2 className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
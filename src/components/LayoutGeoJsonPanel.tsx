@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, FileJson } from "lucide-react";
+
+export type LayoutImportMode = "merge" | "replace";
+
+interface LayoutGeoJsonPanelProps {
+  importMode: LayoutImportMode;
+  onImportModeChange: (mode: LayoutImportMode) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  // Per-feature problems from the last import.
+  importErrors: string[];
+}
+
+export const LayoutGeoJsonPanel = ({
+  importMode,
+  onImportModeChange,
+  onImport,
+  onExport,
+  importErrors,
+}: LayoutGeoJsonPanelProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+      <FileJson className="h-4 w-4" />
+      GeoJSON Layout
+    </h3>
+    <p className="text-xs text-muted-foreground">
+      Vendors, entries, bins, walkways and painted areas as features with a <code>kind</code> property.
+      Imports can be undone.
+    </p>
+    <div className="grid grid-cols-2 gap-1">
+      {(
+        [
+          ["merge", "Merge"],
+          ["replace", "Replace"],
+        ] as [LayoutImportMode, string][]
+      ).map(([mode, label]) => (
+        <Button
+          key={mode}
+          variant={importMode === mode ? "secondary" : "outline"}
+          size="sm"
+          className="text-xs"
+          onClick={() => onImportModeChange(mode)}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+    <Input
+      type="file"
+      accept=".geojson,.json,application/geo+json,application/json"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = "";
+      }}
+      className="h-8 text-xs cursor-pointer"
+    />
+    <Button variant="outline" size="sm" className="w-full text-xs" onClick={onExport}>
+      <Download className="h-3 w-3 mr-1" />
+      Export GeoJSON
+    </Button>
+    {importErrors.length > 0 && (
+      <ul className="text-[10px] text-destructive space-y-0.5 max-h-24 overflow-y-auto">
+        {importErrors.map((error, idx) => (
+          <li key={idx}>{error}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
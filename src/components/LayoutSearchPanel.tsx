@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Check, Search, Square } from "lucide-react";
+import type {
+  LayoutCandidate,
+  LayoutSearchOptions,
+  LayoutSearchProgress,
+  LayoutSearchResult,
+  LayoutScore,
+} from "@/utils/layoutSearch";
+
+export type LayoutSearchSettings = Omit<LayoutSearchOptions, "seed"> & { budget: number };
+
+interface LayoutSearchPanelProps {
+  isSearching: boolean;
+  progress: LayoutSearchProgress | null;
+  result: LayoutSearchResult | null;
+  error: string | null;
+  defaultBudget: number;
+  // Why a search cannot start yet, if it cannot.
+  blockedReason: string | null;
+  onStart: (settings: LayoutSearchSettings) => void;
+  onCancel: () => void;
+  onApply: (candidate: LayoutCandidate) => void;
+  // Formats a map distance in the project's unit.
+  formatLength: (pixels: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const parseCount = (value: string, min: number) => Math.max(min, parseInt(value, 10) || min);
+
+const ScoreSummary = ({ score, formatLength }: { score: LayoutScore; formatLength: (pixels: number) => string }) => (
+  <div className="space-y-1 text-xs">
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Bins / Cost:</span>
+      <span className="font-medium">
+        {score.binCount} / ${score.cost.toLocaleString()}
+      </span>
+    </div>
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Binned / Littered:</span>
+      <span className="font-medium">
+        {percent(score.captureRate)} / {percent(score.litterRate)}
+      </span>
+    </div>
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Overflow:</span>
+      <span className="font-medium">{score.overflowPerHour.toFixed(1)} L/h</span>
+    </div>
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Avg Walk to Bin:</span>
+      <span className="font-medium">{formatLength(score.avgWalkToBin)}</span>
+    </div>
+  </div>
+);
+
+// Searches bin layouts by simulating each candidate with littering on.
+export const LayoutSearchPanel = ({
+  isSearching,
+  progress,
+  result,
+  error,
+  defaultBudget,
+  blockedReason,
+  onStart,
+  onCancel,
+  onApply,
+  formatLength,
+}: LayoutSearchPanelProps) => {
+  const [iterations, setIterations] = useState(50);
+  const [replications, setReplications] = useState(3);
+  const [stepsPerReplication, setStepsPerReplication] = useState(300);
+  const [budget, setBudget] = useState<number | null>(null);
+  const best = result?.best ?? progress?.best ?? null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <h3 className="text-sm font-semibold flex items-center gap-2">
+        <Search className="h-4 w-4" />
+        Simulation Layout Search
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Moves, adds and removes bins along the walkways and keeps the layout whose simulated
+        crowd litters least, within the bin limit and budget.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Iterations</Label>
+          <Input
+            type="number"
+            min="1"
+            value={iterations}
+            disabled={isSearching}
+            onChange={(e) => setIterations(parseCount(e.target.value, 1))}
+            className="h-8 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Replications</Label>
+          <Input
+            type="number"
+            min="1"
+            value={replications}
+            disabled={isSearching}
+            onChange={(e) => setReplications(parseCount(e.target.value, 1))}
+            className="h-8 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Steps per replication</Label>
+          <Input
+            type="number"
+            min="10"
+            value={stepsPerReplication}
+            disabled={isSearching}
+            onChange={(e) => setStepsPerReplication(parseCount(e.target.value, 10))}
+            className="h-8 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Budget ($)</Label>
+          <Input
+            type="number"
+            min="0"
+            value={budget ?? defaultBudget}
+            disabled={isSearching}
+            onChange={(e) => setBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="h-8 text-xs"
+          />
+        </div>
+      </div>
+
+      {blockedReason && <p className="text-xs text-destructive">{blockedReason}</p>}
+
+      {isSearching ? (
+        <Button onClick={onCancel} variant="secondary" size="sm" className="w-full">
+          <Square className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+      ) : (
+        <Button
+          onClick={() =>
+            onStart({ iterations, replications, stepsPerReplication, budget: budget ?? defaultBudget })
+          }
+          size="sm"
+          className="w-full"
+          disabled={Boolean(blockedReason)}
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Search layouts
+        </Button>
+      )}
+
+      {(isSearching || progress) && (
+        <div className="space-y-1">
+          <Progress value={progress ? (progress.iteration / progress.iterations) * 100 : 0} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {progress ? `Iteration ${progress.iteration} of ${progress.iterations}` : "Scoring the starting layout…"}
+            {result?.cancelled ? " (cancelled)" : ""}
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {best && (
+        <>
+          <ScoreSummary score={best.score} formatLength={formatLength} />
+          <Button
+            onClick={() => onApply(best)}
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={isSearching}
+          >
+            <Check className="h-4 w-4 mr-2" />
+            Apply best layout
+          </Button>
+        </>
+      )}
+    </Card>
+  );
+};
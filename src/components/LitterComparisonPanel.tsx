@@ -0,0 +1,78 @@
+import { Card } from "@/components/ui/card";
+import { Trash } from "lucide-react";
+import type { Node, OptimizationReport } from "@/utils/mapTypes";
+
+interface LitterComparisonPanelProps {
+  binIds: string[];
+  binDeposits: Uint32Array;
+  itemsLittered: number;
+  nodes: Node[];
+  report: OptimizationReport | null;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Compares where simulated agents actually dropped their items with the
+// optimizer's analytic capture estimate for the same bins.
+export const LitterComparisonPanel = ({
+  binIds,
+  binDeposits,
+  itemsLittered,
+  nodes,
+  report,
+}: LitterComparisonPanelProps) => {
+  const totalDeposits = binDeposits.reduce((sum, count) => sum + count, 0);
+  const totalItems = totalDeposits + itemsLittered;
+  const estimates = new Map(report?.recommendedBins.map((bin) => [bin.id, bin.capturePerHour]) ?? []);
+  const totalEstimate = Array.from(estimates.values()).reduce((sum, value) => sum + value, 0);
+
+  return (
+    <Card className="p-4 space-y-2">
+      <h3 className="text-sm font-semibold flex items-center gap-2">
+        <Trash className="h-4 w-4" />
+        Deposits vs. Optimizer
+      </h3>
+      {totalItems === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Run the simulation with littering on to collect deposits per bin.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Agents binned {percent(totalDeposits / totalItems)} of {totalItems} items
+            {report ? `; the optimizer expects ${percent(report.captureRate)} capture` : ""}.
+          </p>
+          {binIds.length > 0 && (
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-normal">Bin</th>
+                  <th className="text-right font-normal">Deposits</th>
+                  <th className="text-right font-normal">Share</th>
+                  <th className="text-right font-normal">Optimizer</th>
+                </tr>
+              </thead>
+              <tbody>
+                {binIds.map((binId, idx) => {
+                  const estimate = estimates.get(binId);
+                  return (
+                    <tr key={binId}>
+                      <td className="truncate">{nodes.find((node) => node.id === binId)?.label ?? binId}</td>
+                      <td className="text-right tabular-nums">{binDeposits[idx]}</td>
+                      <td className="text-right tabular-nums">
+                        {totalDeposits === 0 ? "—" : percent(binDeposits[idx] / totalDeposits)}
+                      </td>
+                      <td className="text-right tabular-nums">
+                        {estimate === undefined || totalEstimate === 0 ? "—" : percent(estimate / totalEstimate)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -1,5 +1,24 @@
 import { useState, useRef, useEffect, useMemo } from "react";
-import { MapPin, Footprints, Move, Trash2, Undo, Redo, DoorOpen, Star, Settings2, MessageSquare } from "lucide-react";
+import {
+  MapPin,
+  Footprints,
+  Move,
+  Trash2,
+  Undo,
+  Redo,
+  DoorOpen,
+  Star,
+  Settings2,
+  MessageSquare,
+  Activity,
+  Paintbrush,
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  Grid3x3,
+  Repeat,
+  ChartScatter,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
@@ -7,73 +26,123 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import mapImage from "@/assets/coliseum_grid_overlay.png";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SimulationCanvas } from "@/components/SimulationCanvas";
+import { SimulationControls } from "@/components/SimulationControls";
+import { LitterComparisonPanel } from "@/components/LitterComparisonPanel";
+import { EventTimelineEditor } from "@/components/EventTimelineEditor";
+import { ServiceCrewsEditor } from "@/components/ServiceCrewsEditor";
+import { MinutesInput } from "@/components/MinutesInput";
+import { LayoutSearchPanel, type LayoutSearchSettings } from "@/components/LayoutSearchPanel";
+import { ParetoFrontChart } from "@/components/ParetoFrontChart";
+import { TrafficHeatmapOverlay } from "@/components/TrafficHeatmapOverlay";
+import { CrowdDensityOverlay } from "@/components/CrowdDensityOverlay";
+import { CrowdDensityPanel } from "@/components/CrowdDensityPanel";
+import { TrafficHeatmapPanel } from "@/components/TrafficHeatmapPanel";
+import { MapScalePanel } from "@/components/MapScalePanel";
+import { LayoutGeoJsonPanel, type LayoutImportMode } from "@/components/LayoutGeoJsonPanel";
+import { OsmImportPanel } from "@/components/OsmImportPanel";
+import { GeoreferencePanel } from "@/components/GeoreferencePanel";
+import { ReportExportPanel } from "@/components/ReportExportPanel";
+import { PlanSpreadsheetPanel, type PlanTableName } from "@/components/PlanSpreadsheetPanel";
+import { BaseLayerOverlay } from "@/components/BaseLayerOverlay";
+import { DEFAULT_SIMULATION_PARAMS, useSimulation } from "@/hooks/use-simulation";
+import { useLayoutSearch } from "@/hooks/use-layout-search";
+import { DEFAULT_PURCHASE_PROBABILITY } from "@/utils/simulationEngine";
 import { toast } from "sonner";
-
-type ToolType = "select" | "vendor" | "walkway" | "entry-exit" | "bin";
-
-type Point = { x: number; y: number };
-
-interface Node {
-  id: string;
-  x: number;
-  y: number;
-  type: "vendor" | "entry-exit" | "bin";
-  label: string;
-}
-
-interface Path {
-  id: string;
-  points: { x: number; y: number }[];
-  type: "walkway";
-  label: string;
-  capacity: number; // people per minute
-}
-
-interface MapState {
-  nodes: Node[];
-  paths: Path[];
-}
-
-interface PlanningParams {
-  peoplePerHour: number;
-  costPerBin: number;
-  binCapacity: number;
-  vendorSalesPerHour: number;
-  maxBins: number;
-  targetUtilization: number; // percentage
+import {
+  CELL_NO_GO,
+  CELL_UNPAINTED,
+  CELL_WALKABLE,
+  CELL_WALL,
+  DEFAULT_PLANNING_PARAMS,
+  type BaseLayer,
+  type CellKind,
+  type DistanceUnit,
+  type EventTimeline,
+  type GeoControlPoint,
+  type Georeference,
+  type MapScale,
+  type MapState,
+  type Node,
+  type ObstacleLayer,
+  type OptimizationReport,
+  type Path,
+  type PlanningParams,
+  type Point,
+  type RecommendedBin,
+  type ServiceCrew,
+  type TrafficHeatmap,
+  type WalkwayFlow,
+} from "@/utils/mapTypes";
+import { MAP_DOCUMENT_VERSION, type MapDocument } from "@/utils/mapDocument";
+import {
+  MAX_PARTNER_DISTANCE_M,
+  estimateHourlyWaste,
+  evaluateReportStreams,
+  optimizeBinPlacement,
+} from "@/utils/optimizer";
+import { collectCandidateSites, type LayoutCandidate } from "@/utils/layoutSearch";
+import { sweepBinBudgets, type ParetoPoint } from "@/utils/paretoFront";
+import { buildWalkwayGraph, walkingDistance } from "@/utils/walkwayGraph";
+import { isBottleneck } from "@/utils/walkwayFlow";
+import { heatmapCellDensity, loadTrafficHeatmap } from "@/utils/trafficHeatmap";
+import { formatDistance, pixelsPerMeter, referenceLength } from "@/utils/mapScale";
+import { applyImportedLayout, layoutToGeoJson, parseLayoutGeoJson } from "@/utils/layoutGeoJson";
+import { loadOsmFile, osmToLayout, type GeoBounds } from "@/utils/osmImport";
+import { fitGeoreference, georeferenceScale } from "@/utils/georeference";
+import { layoutPlanningReport, loadReportImage, planningReportFileName } from "@/utils/planningReport";
+import { buildPdf, type PdfImage } from "@/utils/pdfWriter";
+import { buildPlanTables } from "@/utils/planTables";
+import { buildXlsx, tableToCsv } from "@/utils/spreadsheet";
+import { crowdDensityToCsv, estimateCrowdDensity } from "@/utils/crowdDensity";
+import { downloadFile } from "@/utils/download";
+import { MIN_EMPTY_EVERY_MINUTES, evaluateBinService } from "@/utils/binFill";
+import { formatClockTime, intervalStartMinutes } from "@/utils/eventTimeline";
+import {
+  BIN_STREAM_OPTIONS,
+  MENU_PROFILES,
+  WASTE_STREAM_LABELS,
+  binStreamOf,
+} from "@/utils/wasteStreams";
+import { buildObstacleMap, gridDimensions, toObstacleMask } from "@/utils/obstacleGrid";
+import {
+  createObstacleLayer,
+  floodFill,
+  paintBrush,
+  paintPolygon,
+  paintRectangle,
+  pointToCell,
+  resizeObstacleLayer,
+} from "@/utils/obstacleLayer";
+import { ObstacleOverlay } from "@/components/ObstacleOverlay";
+import { WalkableExtractionPanel } from "@/components/WalkableExtractionPanel";
+import {
+  DEFAULT_EXTRACTION_OPTIONS,
+  extractWalkableLayer,
+  loadImagePixels,
+  sampleColor,
+} from "@/utils/walkableExtraction";
+
+type ToolType = "select" | "vendor" | "walkway" | "entry-exit" | "bin" | "paint";
+
+type PaintMaterial = "wall" | "no-go" | "walkable" | "erase";
+
+type PaintMode = "brush" | "rectangle" | "polygon" | "fill";
+
+// An in-progress drag of the heatmap's placement, from where the mouse went down.
+interface HeatmapDrag {
+  mode: "move" | "scale";
+  start: Point;
+  origin: TrafficHeatmap;
 }
 
-interface RecommendedBin {
-  id: string;
-  label: string;
-  capacity: number;
-  averageDistanceToVendors: number;
-  nearestEntryDistance: number;
-  walkwayDistance: number;
-  capturePerHour: number;
-  utilization: number;
-  position: { x: number; y: number };
-  source: "user" | "auto";
-}
-
-interface OptimizationReport {
-  totalVendors: number;
-  totalEntries: number;
-  totalBinsAvailable: number;
-  binsNeeded: number;
-  maxBinsAllowed: number;
-  capacityDrivenBins: number;
-  totalWastePerHour: number;
-  estimatedCapturePerHour: number;
-  captureRate: number;
-  totalCost: number;
-  walkwayLength: number;
-  averageUtilization: number;
-  targetUtilization: number;
-  recommendedBins: RecommendedBin[];
-  notes: string[];
-}
+const PAINT_VALUES: Record<PaintMaterial, CellKind> = {
+  wall: CELL_WALL,
+  "no-go": CELL_NO_GO,
+  walkable: CELL_WALKABLE,
+  erase: CELL_UNPAINTED,
+};
 
 interface ChatMessage {
   id: string;
@@ -82,59 +151,259 @@ interface ChatMessage {
   timestamp: number;
 }
 
-interface WalkwaySample {
-  pathId: string | null;
-  point: Point;
-  distanceAlong: number;
-  weight: number;
-  wasteUnits: number;
+// Green while a bin has room, shading to red as it fills.
+const fillLevelColor = (level: number) =>
+  `hsl(${Math.round(120 * (1 - Math.min(1, level)))}, 70%, ${level >= 1 ? 40 : 50}%)`;
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Clock time with a timeline, otherwise time since the event started.
+const formatEventTime = (report: OptimizationReport, minutes: number) =>
+  report.timeline && report.timeline.intervals.length > 0
+    ? formatClockTime(report.timeline.intervals[0].startMinutes + minutes)
+    : `+${formatDuration(minutes)}`;
+
+const FALLBACK_MAP_SIZE = { width: 1200, height: 800 };
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+interface MapEditorProps {
+  projectName?: string;
+  imageUrl?: string;
+  gridSize?: number;
+  gridOverlay?: boolean;
+  initialDocument?: MapDocument;
+  onDocumentChange?: (document: MapDocument) => void;
 }
 
-const BIN_CAPACITY_UNITS = 1;
-const OVERLOAD_THRESHOLD = 1;
-const UNDER_UTILIZATION_THRESHOLD = 0.8;
-const MIN_NEW_BIN_UTILIZATION = 0.5;
-const MAX_PARTNER_DISTANCE = 50;
-const WALKWAY_SAMPLE_SPACING = 20;
-const VENDOR_INFLUENCE_RADIUS = 200;
-const WEIGHT_DISTANCE_FACTOR = 120;
-const WASTE_PER_SALE_BIN_UNITS = 0.01;
-
-export const MapEditor = () => {
+// All node and walkway coordinates are stored in image pixels of the project map,
+// so layouts stay put regardless of window size or zoom.
+export const MapEditor = ({
+  projectName = "Untitled project",
+  imageUrl,
+  gridSize = 20,
+  gridOverlay = false,
+  initialDocument,
+  onDocumentChange,
+}: MapEditorProps) => {
   const [tool, setTool] = useState<ToolType>("select");
-  const [nodes, setNodes] = useState<Node[]>([]);
-  const [paths, setPaths] = useState<Path[]>([]);
+  const [nodes, setNodes] = useState<Node[]>(initialDocument?.nodes ?? []);
+  const [paths, setPaths] = useState<Path[]>(initialDocument?.paths ?? []);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [selectedPath, setSelectedPath] = useState<string | null>(null);
   const [draggingNode, setDraggingNode] = useState<string | null>(null);
   const [drawingPath, setDrawingPath] = useState<{ x: number; y: number }[]>([]);
-  const [planningParams, setPlanningParams] = useState<PlanningParams>({
-    peoplePerHour: 300,
-    costPerBin: 450,
-    binCapacity: 120,
-    vendorSalesPerHour: 60,
-    maxBins: 3,
-    targetUtilization: 80,
-  });
+  const [planningParams, setPlanningParams] = useState<PlanningParams>(
+    initialDocument?.planningParams ?? DEFAULT_PLANNING_PARAMS
+  );
+
+  const [obstacles, setObstacles] = useState<ObstacleLayer | null>(initialDocument?.obstacles ?? null);
+  const [timeline, setTimeline] = useState<EventTimeline | null>(initialDocument?.timeline ?? null);
+  const [crews, setCrews] = useState<ServiceCrew[]>(initialDocument?.crews ?? []);
+  const [heatmap, setHeatmap] = useState<TrafficHeatmap | null>(initialDocument?.heatmap ?? null);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [isAligningHeatmap, setIsAligningHeatmap] = useState(false);
+  const [isLoadingHeatmap, setIsLoadingHeatmap] = useState(false);
+  const [heatmapDrag, setHeatmapDrag] = useState<HeatmapDrag | null>(null);
+  const [showCrowdDensity, setShowCrowdDensity] = useState(false);
+  // Named apart from the view's zoom `scale`: the real-world size of a map pixel.
+  const [mapScale, setMapScale] = useState<MapScale | null>(initialDocument?.scale ?? null);
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>(initialDocument?.distanceUnit ?? "meters");
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [referenceLine, setReferenceLine] = useState<Point[]>([]);
+  const [layoutImportMode, setLayoutImportMode] = useState<LayoutImportMode>("merge");
+  const [layoutImportErrors, setLayoutImportErrors] = useState<string[]>([]);
+  const [baseLayer, setBaseLayer] = useState<BaseLayer | null>(initialDocument?.baseLayer ?? null);
+  const [showBaseLayer, setShowBaseLayer] = useState(true);
+  const [isLoadingOsm, setIsLoadingOsm] = useState(false);
+  const [georeference, setGeoreference] = useState<Georeference | null>(initialDocument?.georeference ?? null);
+  // Pins being placed or edited; applied to `georeference` only once they fit.
+  const [geoPins, setGeoPins] = useState<GeoControlPoint[]>(initialDocument?.georeference?.controlPoints ?? []);
+  const [geoKind, setGeoKind] = useState<Georeference["kind"]>(initialDocument?.georeference?.kind ?? "affine");
+  const [isPinningGeo, setIsPinningGeo] = useState(false);
+  const [reportHeaderTitle, setReportHeaderTitle] = useState("");
+  const [reportLogo, setReportLogo] = useState<PdfImage | null>(null);
+  const [isExportingReport, setIsExportingReport] = useState(false);
+  const [paintMaterial, setPaintMaterial] = useState<PaintMaterial>("wall");
+  const [paintMode, setPaintMode] = useState<PaintMode>("brush");
+  const [brushSize, setBrushSize] = useState(1);
+  const [isPainting, setIsPainting] = useState(false);
+  const [paintRect, setPaintRect] = useState<{ start: Point; end: Point } | null>(null);
+  const [drawingPolygon, setDrawingPolygon] = useState<Point[]>([]);
+  const [proposedObstacles, setProposedObstacles] = useState<ObstacleLayer | null>(null);
+  const [extractionOptions, setExtractionOptions] = useState(DEFAULT_EXTRACTION_OPTIONS);
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // History for undo/redo
-  const [history, setHistory] = useState<MapState[]>([{ nodes: [], paths: [] }]);
+  const [history, setHistory] = useState<MapState[]>([{ nodes, paths, obstacles }]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
-  const [report, setReport] = useState<OptimizationReport | null>(null);
+  const [optimizerReport, setOptimizerReport] = useState<OptimizationReport | null>(
+    initialDocument?.report ?? null
+  );
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [paretoPoints, setParetoPoints] = useState<ParetoPoint[] | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState("");
   const [isAssistantThinking, setIsAssistantThinking] = useState(false);
 
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [showGrid, setShowGrid] = useState(gridOverlay);
+  const [sidebarTab, setSidebarTab] = useState("editor");
+  const [showAgents, setShowAgents] = useState(true);
+  const [showTrails, setShowTrails] = useState(true);
+  const [showLitter, setShowLitter] = useState(true);
+
   const canvasRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const imagePixelsRef = useRef<{ url: string; pixels: Awaited<ReturnType<typeof loadImagePixels>> } | null>(
+    null
+  );
   const assistantTimerRef = useRef<number | null>(null);
   const pendingAssistantRef = useRef<{ question: string; report: OptimizationReport } | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl) {
+      setImageSize(FALLBACK_MAP_SIZE);
+      return;
+    }
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      if (cancelled) return;
+      toast.error("Failed to load the project map image.");
+      setImageSize(FALLBACK_MAP_SIZE);
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // Painted cells follow the real image size once it is known.
+  useEffect(() => {
+    if (!imageSize) return;
+    const { rows, cols } = gridDimensions(imageSize.width, imageSize.height, gridSize);
+    setObstacles((current) =>
+      current && current.gridSize === gridSize ? resizeObstacleLayer(current, rows, cols) : current
+    );
+  }, [imageSize, gridSize]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  const mapSize = imageSize ?? FALLBACK_MAP_SIZE;
+  const fitScale =
+    viewportSize.width > 0 && viewportSize.height > 0
+      ? Math.min(viewportSize.width / mapSize.width, viewportSize.height / mapSize.height)
+      : 1;
+  const scale = fitScale * zoom;
+  const stageWidth = mapSize.width * scale;
+  const stageHeight = mapSize.height * scale;
+
+  const isSimulating = sidebarTab === "simulate";
+  const simulation = useSimulation({
+    enabled: isSimulating,
+    nodes,
+    paths,
+    obstacles,
+    timeline,
+    heatmap,
+    mapWidth: mapSize.width,
+    mapHeight: mapSize.height,
+    gridSize,
+  });
+  const layoutSearch = useLayoutSearch();
+
+  const toImagePoint = (e: React.MouseEvent): Point | null => {
+    if (!canvasRef.current) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    return {
+      x: Math.min(mapSize.width, Math.max(0, (e.clientX - rect.left) / scale)),
+      y: Math.min(mapSize.height, Math.max(0, (e.clientY - rect.top) / scale)),
+    };
+  };
+
+  const changeZoom = (factor: number) => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * factor)));
+  };
+
+  // A georeference fixes the scale itself; otherwise the calibrated reference line does.
+  const distanceScale = useMemo(
+    () => (georeference ? georeferenceScale(georeference, mapSize) : mapScale),
+    [georeference, mapSize, mapScale]
+  );
+
+  // Emptying schedules and bin streams can change after a run, so fill,
+  // overflow and sorting figures are re-evaluated against the current crews
+  // and bin settings.
+  const report = useMemo(
+    () =>
+      optimizerReport
+        ? evaluateReportStreams(
+          evaluateBinService(optimizerReport, {
+            binCapacityLiters: planningParams.binCapacity,
+            defaultEmptyEveryMinutes: planningParams.emptyEveryMinutes,
+            crews,
+            nodes,
+          }),
+          { defaultStream: planningParams.binStream, nodes, scale: distanceScale }
+        )
+        : null,
+    [
+      optimizerReport,
+      planningParams.binCapacity,
+      planningParams.emptyEveryMinutes,
+      planningParams.binStream,
+      crews,
+      nodes,
+      distanceScale,
+    ]
+  );
+
+  const walkwayGraph = useMemo(() => buildWalkwayGraph(paths, distanceScale), [paths, distanceScale]);
+
+  // Map distances are image pixels; everything shown to the user goes through this.
+  const formatLength = (pixels: number) => formatDistance(pixels, distanceScale, distanceUnit);
+
+  // Re-estimated on every layout change, so only while the overlay is shown.
+  const crowdDensity = useMemo(
+    () =>
+      showCrowdDensity
+        ? estimateCrowdDensity({ nodes, paths, obstacles }, planningParams.peoplePerHour, mapSize, gridSize)
+        : null,
+    [showCrowdDensity, nodes, paths, obstacles, planningParams.peoplePerHour, mapSize, gridSize]
+  );
+
+  const walkwayFlowById = useMemo(
+    () => new Map((report?.walkwayFlows ?? []).map((flow) => [flow.pathId, flow])),
+    [report]
+  );
+
   const recommendedBinIds = useMemo(() => {
     if (!report) return new Set<string>();
     return new Set(report.recommendedBins.map((bin) => bin.id));
   }, [report]);
 
+  const selectedNodeData = nodes.find((node) => node.id === selectedNode) ?? null;
+
   const recommendedBinDetails = useMemo(() => {
     if (!report) return new Map<string, RecommendedBin>();
     return new Map(report.recommendedBins.map((bin) => [bin.id, bin]));
@@ -163,6 +432,39 @@ export const MapEditor = () => {
     }
   }, [report]);
 
+  // Node drags update state on every mouse move; the autosave hook debounces these.
+  useEffect(() => {
+    onDocumentChange?.({
+      version: MAP_DOCUMENT_VERSION,
+      nodes,
+      paths,
+      planningParams,
+      obstacles,
+      timeline,
+      crews,
+      heatmap,
+      scale: mapScale,
+      distanceUnit,
+      baseLayer,
+      georeference,
+      report,
+    });
+  }, [
+    nodes,
+    paths,
+    planningParams,
+    obstacles,
+    timeline,
+    crews,
+    heatmap,
+    mapScale,
+    distanceUnit,
+    baseLayer,
+    georeference,
+    report,
+    onDocumentChange,
+  ]);
+
   useEffect(() => {
     return () => {
       if (assistantTimerRef.current) {
@@ -172,9 +474,9 @@ export const MapEditor = () => {
     };
   }, []);
 
-  const saveToHistory = (newNodes: Node[], newPaths: Path[]) => {
+  const saveToHistory = (newNodes: Node[], newPaths: Path[], newObstacles = obstacles) => {
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push({ nodes: newNodes, paths: newPaths });
+    newHistory.push({ nodes: newNodes, paths: newPaths, obstacles: newObstacles });
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
   };
@@ -185,6 +487,7 @@ export const MapEditor = () => {
       setHistoryIndex(newIndex);
       setNodes(history[newIndex].nodes);
       setPaths(history[newIndex].paths);
+      setObstacles(history[newIndex].obstacles);
       toast.success("Undone");
     }
   };
@@ -195,16 +498,348 @@ export const MapEditor = () => {
       setHistoryIndex(newIndex);
       setNodes(history[newIndex].nodes);
       setPaths(history[newIndex].paths);
+      setObstacles(history[newIndex].obstacles);
       toast.success("Redone");
     }
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!canvasRef.current) return;
+  // While a detected proposal is previewed, paint tools correct the proposal instead.
+  const getPaintLayer = () => {
+    if (proposedObstacles) return proposedObstacles;
+    return obstacles && obstacles.gridSize === gridSize
+      ? obstacles
+      : createObstacleLayer(mapSize.width, mapSize.height, gridSize);
+  };
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  const setPaintLayer = (layer: ObstacleLayer) => {
+    if (proposedObstacles) {
+      setProposedObstacles(layer);
+    } else {
+      setObstacles(layer);
+    }
+  };
+
+  const commitObstacles = (layer: ObstacleLayer) => {
+    if (proposedObstacles) {
+      setProposedObstacles(layer);
+      return;
+    }
+    setObstacles(layer);
+    saveToHistory(nodes, paths, layer);
+  };
+
+  const getImagePixels = async () => {
+    if (!imageUrl) throw new Error("This project has no map image to analyze.");
+    if (imagePixelsRef.current?.url !== imageUrl) {
+      imagePixelsRef.current = { url: imageUrl, pixels: await loadImagePixels(imageUrl) };
+    }
+    return imagePixelsRef.current.pixels;
+  };
+
+  const pickWalkableColor = async (point: Point) => {
+    setIsPickingColor(false);
+    try {
+      const color = sampleColor(await getImagePixels(), point);
+      setExtractionOptions((current) => ({
+        ...current,
+        walkableColors: [...current.walkableColors, color],
+      }));
+      toast.success(`Picked rgb(${color.join(", ")}) as walkable`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not read colors from the map image.");
+    }
+  };
+
+  const previewExtraction = async () => {
+    setIsAnalyzing(true);
+    try {
+      const pixels = await getImagePixels();
+      // Let the "Analyzing..." state paint before the synchronous pass.
+      await new Promise((resolve) => window.setTimeout(resolve, 0));
+      setProposedObstacles(extractWalkableLayer(pixels, { ...extractionOptions, gridSize }));
+      toast.success("Walkable areas detected. Review and correct before accepting.");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Walkable-area detection failed.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const acceptProposal = () => {
+    if (!proposedObstacles) return;
+    const layer = proposedObstacles;
+    setProposedObstacles(null);
+    setObstacles(layer);
+    saveToHistory(nodes, paths, layer);
+    toast.success("Detected areas applied");
+  };
+
+  const uploadHeatmap = async (file: File) => {
+    setIsLoadingHeatmap(true);
+    try {
+      const loaded = await loadTrafficHeatmap(file, mapSize);
+      setHeatmap(loaded);
+      setShowHeatmap(true);
+      setIsAligningHeatmap(true);
+      toast.success("Heatmap loaded. Drag and scale it to line up with the venue.");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not read the heatmap.");
+    } finally {
+      setIsLoadingHeatmap(false);
+    }
+  };
+
+  // The second click closes the reference line. Its length starts at what the
+  // current scale reads so only the real length needs typing in.
+  const addReferencePoint = (point: Point) => {
+    if (referenceLine.length === 0) {
+      setReferenceLine([point]);
+      return;
+    }
+    const line = { start: referenceLine[0], end: point, meters: 0 };
+    setReferenceLine([]);
+    setIsCalibrating(false);
+    const length = referenceLength(line);
+    if (length === 0) {
+      toast.error("Draw the reference line between two different points.");
+      return;
+    }
+    setMapScale({ ...line, meters: length / pixelsPerMeter(mapScale) });
+    toast.success("Reference line drawn. Enter its real length under Map Scale.");
+  };
+
+  const applyGeoreference = () => {
+    const pins = geoPins.filter((pin) => Number.isFinite(pin.lat) && Number.isFinite(pin.lon));
+    try {
+      const fitted = fitGeoreference(pins, geoKind);
+      setGeoreference(fitted);
+      setGeoPins(fitted.controlPoints);
+      setIsPinningGeo(false);
+      toast.success(`Map georeferenced from ${pins.length} pins.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not georeference the map.");
+    }
+  };
+
+  const uploadReportLogo = async (file: File) => {
+    try {
+      setReportLogo(await loadReportImage(file, 400));
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not read the logo image.");
+    }
+  };
+
+  const exportReportPdf = async () => {
+    if (!report) return;
+    setIsExportingReport(true);
+    try {
+      let background: PdfImage | null = null;
+      if (imageUrl) {
+        try {
+          background = await loadReportImage(imageUrl);
+        } catch (error) {
+          console.error(error);
+          toast.error("The map image could not be embedded; the report shows the layout only.");
+        }
+      }
+      const generatedAt = new Date();
+      const pages = layoutPlanningReport({
+        projectName,
+        generatedAt,
+        header: { title: reportHeaderTitle.trim(), logo: reportLogo },
+        report,
+        planningParams,
+        nodes,
+        paths,
+        map: { ...mapSize, background },
+        conversation: chatMessages.map(({ role, content }) => ({ role, content })),
+        formatLength,
+      });
+      const pdf = buildPdf(pages, { title: `${projectName} planning report`, createdAt: generatedAt });
+      downloadFile(planningReportFileName(projectName, generatedAt), pdf, "application/pdf");
+      toast.success(`Exported a ${pages.length}-page planning report.`);
+    } catch (error) {
+      console.error(error);
+      toast.error("Could not build the PDF report.");
+    } finally {
+      setIsExportingReport(false);
+    }
+  };
+
+  const planTables = () => buildPlanTables({ report, nodes, paths, scale: distanceScale, distanceUnit, georeference });
+
+  const exportPlanCsv = (name: PlanTableName) => {
+    const table = planTables().find((candidate) => candidate.name === name);
+    if (!table) return;
+    downloadFile(`${name.toLowerCase()}.csv`, tableToCsv(table), "text/csv");
+    toast.success(`Exported ${table.rows.length} ${name.toLowerCase()}.`);
+  };
+
+  const exportPlanXlsx = () => {
+    const tables = planTables();
+    downloadFile("plan.xlsx", buildXlsx(tables), "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    toast.success(`Exported ${tables.map((table) => `${table.rows.length} ${table.name.toLowerCase()}`).join(", ")}.`);
+  };
+
+  const exportLayout = () => {
+    const collection = layoutToGeoJson({ nodes, paths, obstacles }, planningParams.binCapacity, georeference);
+    downloadFile("layout.geojson", JSON.stringify(collection, null, 2), "application/geo+json");
+    toast.success(`Exported ${collection.features.length} features.`);
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      const imported = parseLayoutGeoJson(await file.text(), `import-${Date.now()}`, georeference);
+      setLayoutImportErrors(imported.errors);
+      const featureCount = imported.nodes.length + imported.paths.length + imported.obstacles.length;
+      if (featureCount === 0) {
+        toast.error("No usable features found in the file.");
+        return;
+      }
+      const baseLayer =
+        obstacles && obstacles.gridSize === gridSize
+          ? obstacles
+          : createObstacleLayer(mapSize.width, mapSize.height, gridSize);
+      const next = applyImportedLayout({ nodes, paths, obstacles }, imported, layoutImportMode, baseLayer);
+      setNodes(next.nodes);
+      setPaths(next.paths);
+      setObstacles(next.obstacles);
+      saveToHistory(next.nodes, next.paths, next.obstacles);
+      setSelectedNode(null);
+      setSelectedPath(null);
+      const skipped = imported.errors.length > 0 ? `, skipped ${imported.errors.length} invalid` : "";
+      toast.success(`Imported ${featureCount} features${skipped}.`);
+    } catch (error) {
+      console.error(error);
+      setLayoutImportErrors([]);
+      toast.error(error instanceof Error ? error.message : "Could not read the GeoJSON file.");
+    }
+  };
+
+  const importOsm = async (file: File, bounds: GeoBounds | null) => {
+    setIsLoadingOsm(true);
+    try {
+      const imported = osmToLayout(await loadOsmFile(file), mapSize, file.name, bounds, georeference);
+      const next = applyImportedLayout(
+        { nodes, paths, obstacles },
+        imported,
+        "replace",
+        createObstacleLayer(mapSize.width, mapSize.height, gridSize)
+      );
+      setNodes(next.nodes);
+      setPaths(next.paths);
+      setObstacles(next.obstacles);
+      saveToHistory(next.nodes, next.paths, next.obstacles);
+      setSelectedNode(null);
+      setSelectedPath(null);
+      setBaseLayer(imported.baseLayer);
+      setShowBaseLayer(true);
+      // A georeferenced map keeps its own scale.
+      if (imported.scale) setMapScale(imported.scale);
+      toast.success(
+        `Imported ${imported.paths.length} walkways, ${imported.nodes.length} points and ${imported.baseLayer.shapes.length} outlines.`
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Could not read the OpenStreetMap extract.");
+    } finally {
+      setIsLoadingOsm(false);
+    }
+  };
+
+  const exportCrowdDensity = () => {
+    const estimate =
+      crowdDensity ??
+      estimateCrowdDensity({ nodes, paths, obstacles }, planningParams.peoplePerHour, mapSize, gridSize);
+    if (estimate.totalOccupancy <= 0) {
+      toast.error("Add vendors, entries or walkways before exporting a crowd estimate.");
+      return;
+    }
+    downloadFile("crowd-density.csv", crowdDensityToCsv(estimate), "text/csv");
+    toast.success(`Exported a ${estimate.cols}×${estimate.rows} grid of ${formatLength(gridSize)} cells.`);
+  };
+
+  const startHeatmapDrag = (mode: HeatmapDrag["mode"], e: React.MouseEvent) => {
+    e.stopPropagation();
+    const point = toImagePoint(e);
+    if (!point || !heatmap || e.button !== 0) return;
+    setHeatmapDrag({ mode, start: point, origin: heatmap });
+  };
+
+  const handlePaintMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (tool !== "paint" || isSimulating || isPickingColor || e.button !== 0) return;
+    const point = toImagePoint(e);
+    if (!point) return;
+    const layer = getPaintLayer();
+    const value = PAINT_VALUES[paintMaterial];
+
+    if (paintMode === "brush") {
+      setPaintLayer(paintBrush(layer, pointToCell(layer, point), brushSize, value));
+      setIsPainting(true);
+    } else if (paintMode === "rectangle") {
+      setPaintRect({ start: point, end: point });
+    } else if (paintMode === "fill") {
+      commitObstacles(floodFill(layer, pointToCell(layer, point), value));
+    } else if (paintMode === "polygon") {
+      setDrawingPolygon([...drawingPolygon, point]);
+    }
+  };
+
+  const finishPaintStroke = () => {
+    if (isPainting) {
+      setIsPainting(false);
+      if (obstacles && !proposedObstacles) saveToHistory(nodes, paths, obstacles);
+    }
+    if (paintRect) {
+      const layer = getPaintLayer();
+      commitObstacles(
+        paintRectangle(
+          layer,
+          pointToCell(layer, paintRect.start),
+          pointToCell(layer, paintRect.end),
+          PAINT_VALUES[paintMaterial]
+        )
+      );
+      setPaintRect(null);
+    }
+  };
+
+  const finishPolygon = () => {
+    if (drawingPolygon.length >= 3) {
+      commitObstacles(paintPolygon(getPaintLayer(), drawingPolygon, PAINT_VALUES[paintMaterial]));
+      toast.success("Area painted");
+    }
+    setDrawingPolygon([]);
+  };
+
+  const clearObstacles = () => {
+    if (!obstacles) return;
+    commitObstacles({ ...obstacles, cells: obstacles.cells.map(() => CELL_UNPAINTED) });
+    toast.success("Painted areas cleared");
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isSimulating) return;
+    const point = toImagePoint(e);
+    if (!point) return;
+    if (isPickingColor) {
+      void pickWalkableColor(point);
+      return;
+    }
+    if (isCalibrating) {
+      addReferencePoint(point);
+      return;
+    }
+    if (isPinningGeo) {
+      setGeoPins([...geoPins, { image: point, lat: NaN, lon: NaN }]);
+      return;
+    }
+    if (tool === "paint") return;
+    const { x, y } = point;
 
     if (tool === "vendor") {
       const newNode: Node = {
@@ -266,18 +901,42 @@ export const MapEditor = () => {
 
   const handleNodeMouseDown = (nodeId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (tool === "select") {
+    if (tool === "select" && !isSimulating) {
       setDraggingNode(nodeId);
       setSelectedNode(nodeId);
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!draggingNode || !canvasRef.current) return;
+    if (heatmapDrag) {
+      const point = toImagePoint(e);
+      if (!point) return;
+      const { mode, start, origin } = heatmapDrag;
+      const dx = point.x - start.x;
+      const dy = point.y - start.y;
+      setHeatmap(
+        mode === "move"
+          ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+          : { ...origin, width: Math.max(gridSize, origin.width + dx), height: Math.max(gridSize, origin.height + dy) }
+      );
+      return;
+    }
+    if (tool === "paint" && (isPainting || paintRect)) {
+      const point = toImagePoint(e);
+      if (!point) return;
+      if (isPainting) {
+        const layer = getPaintLayer();
+        setPaintLayer(paintBrush(layer, pointToCell(layer, point), brushSize, PAINT_VALUES[paintMaterial]));
+      } else if (paintRect) {
+        setPaintRect({ ...paintRect, end: point });
+      }
+      return;
+    }
+    if (!draggingNode) return;
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const point = toImagePoint(e);
+    if (!point) return;
+    const { x, y } = point;
 
     setNodes(nodes.map(node =>
       node.id === draggingNode ? { ...node, x, y } : node
@@ -286,6 +945,8 @@ export const MapEditor = () => {
 
   const handleMouseUp = () => {
     setDraggingNode(null);
+    setHeatmapDrag(null);
+    finishPaintStroke();
   };
 
   const deleteSelected = () => {
@@ -305,6 +966,12 @@ export const MapEditor = () => {
     }
   };
 
+  const updateNode = (nodeId: string, changes: Partial<Node>) => {
+    const newNodes = nodes.map((node) => (node.id === nodeId ? { ...node, ...changes } : node));
+    setNodes(newNodes);
+    saveToHistory(newNodes, paths);
+  };
+
   const updatePathCapacity = (pathId: string, capacity: number) => {
     const newPaths = paths.map(p => p.id === pathId ? { ...p, capacity } : p);
     setPaths(newPaths);
@@ -319,607 +986,236 @@ export const MapEditor = () => {
     }
   };
 
-  const getPathColor = () => {
-    return "hsl(var(--node-walkway))";
-  };
-
-  const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
-    Math.hypot(a.x - b.x, a.y - b.y);
-
-  const computeAverageDistanceToVendors = (point: Point, vendorNodes: Node[]) => {
-    if (vendorNodes.length === 0) return 0;
-    const total = vendorNodes.reduce((sum, vendor) => sum + distance(point, vendor), 0);
-    return total / vendorNodes.length;
-  };
-
-  const computeWalkwayLength = (pathList: Path[]) =>
-    pathList.reduce((total, path) => {
-      if (path.points.length < 2) return total;
-      const length = path.points.slice(1).reduce((sum, point, index) => {
-        const prev = path.points[index];
-        return sum + distance(prev, point);
-      }, 0);
-      return total + length;
-    }, 0);
-
-  const distancePointToSegment = (
-    px: number,
-    py: number,
-    x1: number,
-    y1: number,
-    x2: number,
-    y2: number
-  ) => {
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    if (dx === 0 && dy === 0) {
-      return Math.hypot(px - x1, py - y1);
-    }
-    const t = Math.max(
-      0,
-      Math.min(1, ((px - x1) * dx + (py - y1) * dy) / (dx * dx + dy * dy))
-    );
-    const closestX = x1 + t * dx;
-    const closestY = y1 + t * dy;
-    return Math.hypot(px - closestX, py - closestY);
-  };
-
-  const computeClosestWalkwayDistance = (point: Point, pathList: Path[]) => {
-    if (pathList.length === 0) return Infinity;
-    let minDistance = Infinity;
-    pathList.forEach((path) => {
-      if (path.points.length < 2) return;
-      for (let i = 0; i < path.points.length - 1; i++) {
-        const start = path.points[i];
-        const end = path.points[i + 1];
-        const dist = distancePointToSegment(point.x, point.y, start.x, start.y, end.x, end.y);
-        if (dist < minDistance) {
-          minDistance = dist;
-        }
-      }
-    });
-    return minDistance;
-  };
-
-  const computeNearestEntryDistance = (point: Point, entryNodes: Node[]) => {
-    if (entryNodes.length === 0) return Infinity;
-    return entryNodes.reduce((min, entry) => {
-      const dist = distance(point, entry);
-      return dist < min ? dist : min;
-    }, Infinity);
+  const getPathColor = (pathId?: string) => {
+    const flow = pathId ? walkwayFlowById.get(pathId) : undefined;
+    return flow && isBottleneck(flow) ? "hsl(var(--destructive))" : "hsl(var(--node-walkway))";
   };
 
   const summarizeReportIntro = (result: OptimizationReport) => {
     const capturePercent = Math.round(result.captureRate * 100);
     const binCount = result.recommendedBins.length;
     const binsPhrase = binCount === 1 ? "bin" : "bins";
-    return `Optimized ${binCount} ${binsPhrase} (budget ${result.maxBinsAllowed}) to capture roughly ${capturePercent}% of hourly waste while averaging ${Math.round(result.averageUtilization * 100)}% utilization against the 80% relocation threshold. Let me know what you'd like to tweak next.`;
+    return `Optimized ${binCount} ${binsPhrase} (budget ${result.maxBinsAllowed}) to capture roughly ${capturePercent}% of the ${result.totalWastePerHour.toFixed(1)} L/h of waste while averaging ${Math.round(result.averageUtilization * 100)}% utilization against the ${Math.round(result.targetUtilization * 100)}% target. Let me know what you'd like to tweak next.`;
   };
 
-  const handleGenerateReport = () => {
-    setIsGeneratingReport(true);
-    try {
-      const vendors = nodes.filter((node) => node.type === "vendor");
-      const existingBins = nodes.filter((node) => node.type === "bin");
-      const entries = nodes.filter((node) => node.type === "entry-exit");
-
-      const walkwayLength = computeWalkwayLength(paths);
-      const totalVendorSalesPerHour = vendors.length * planningParams.vendorSalesPerHour;
-      const totalWasteUnits = totalVendorSalesPerHour * WASTE_PER_SALE_BIN_UNITS;
-
-      const notes: string[] = [];
-
-      if (vendors.length === 0) {
-        notes.push("Add at least one vendor/source to estimate waste generation.");
-      }
-      if (entries.length === 0) {
-        notes.push("Entry/exit points help contextualize pedestrian distribution.");
-      }
-      if (paths.length === 0) {
-        notes.push("Draw walkways to outline pedestrian flow for more realistic coverage.");
-      }
-      if (existingBins.length === 0) {
-        notes.push("No existing bins were detected; the optimizer will propose fresh placements.");
-      }
-
-      notes.push("Loads are normalized to a one-unit-per-hour bin capacity.");
-      notes.push("Capture metrics are reported in bin-hours (one unit equals one full bin per hour).");
-      notes.push("Bins below 80% utilization are nudged toward supporting overloaded bins.");
-
-      const samples: WalkwaySample[] = [];
-
-      const addSample = (sample: WalkwaySample) => {
-        samples.push(sample);
-      };
-
-      paths.forEach((path) => {
-        if (path.points.length < 2) return;
-        let cumulative = 0;
-        for (let i = 0; i < path.points.length - 1; i++) {
-          const start = path.points[i];
-          const end = path.points[i + 1];
-          const segmentLength = distance(start, end);
-          if (segmentLength === 0) continue;
-          const segmentSteps = Math.max(1, Math.round(segmentLength / WALKWAY_SAMPLE_SPACING));
-          for (let step = 0; step < segmentSteps; step++) {
-            const t = (step + 0.5) / segmentSteps;
-            addSample({
-              pathId: path.id,
-              point: {
-                x: start.x + (end.x - start.x) * t,
-                y: start.y + (end.y - start.y) * t,
-              },
-              distanceAlong: cumulative + segmentLength * t,
-              weight: 0,
-              wasteUnits: 0,
-            });
-          }
-          cumulative += segmentLength;
-        }
-      });
-
-      if (samples.length === 0 && vendors.length > 0) {
-        vendors.forEach((vendor) => {
-          addSample({
-            pathId: null,
-            point: { x: vendor.x, y: vendor.y },
-            distanceAlong: 0,
-            weight: 0,
-            wasteUnits: 0,
-          });
-        });
-        notes.push("Using vendor positions as provisional sampling points until walkways are drawn.");
-      }
-
-      samples.forEach((sample) => {
-        let weight = 0;
-        vendors.forEach((vendor) => {
-          const dist = distance(sample.point, vendor);
-          if (dist <= VENDOR_INFLUENCE_RADIUS) {
-            weight += Math.max(0, 1 - dist / VENDOR_INFLUENCE_RADIUS);
-          }
-        });
-        sample.weight = weight;
-      });
-
-      let totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
-
-      if (totalWeight === 0 && vendors.length > 0 && samples.length > 0) {
-        vendors.forEach((vendor) => {
-          let bestIndex = -1;
-          let bestDistance = Infinity;
-          samples.forEach((sample, idx) => {
-            const dist = distance(sample.point, vendor);
-            if (dist < bestDistance) {
-              bestDistance = dist;
-              bestIndex = idx;
-            }
-          });
-          if (bestIndex !== -1) {
-            samples[bestIndex].weight += 1;
-          }
-        });
-        totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
-      }
-
-      if (totalWeight === 0 && samples.length > 0) {
-        totalWeight = samples.length;
-        samples.forEach((sample) => {
-          sample.weight = 1;
-        });
-      }
-
-      samples.forEach((sample) => {
-        sample.wasteUnits =
-          totalWeight === 0 ? 0 : (sample.weight / totalWeight) * totalWasteUnits;
-      });
-
-      if (samples.length === 0) {
-        notes.push("No sampling points available; add walkways and vendors to evaluate bin placement.");
-      }
-
-      const capacityDrivenBins =
-        totalWasteUnits <= 0 ? 0 : Math.ceil(totalWasteUnits / BIN_CAPACITY_UNITS);
-
-      let plannedBinCount = 0;
-      if (totalWasteUnits > 0 && samples.length > 0) {
-        const requiredBins = Math.ceil(totalWasteUnits / BIN_CAPACITY_UNITS);
-        const utilLimitedBins = Math.floor(totalWasteUnits / MIN_NEW_BIN_UTILIZATION);
-        plannedBinCount = Math.min(planningParams.maxBins, requiredBins);
-        if (utilLimitedBins > 0) {
-          plannedBinCount = Math.min(plannedBinCount, utilLimitedBins);
-        } else if (totalWasteUnits < MIN_NEW_BIN_UTILIZATION) {
-          plannedBinCount = 0;
-          notes.push("Projected waste is below 50% of a bin; deployment skipped per utilization rule.");
-        }
-        plannedBinCount = Math.min(plannedBinCount, samples.length);
-      }
-
-      const selectedIndices: number[] = [];
-      const sampleIndices = samples.map((_, idx) => idx);
-
-      if (plannedBinCount > 0 && samples.length > 0) {
-        const byDemand = [...sampleIndices].sort(
-          (a, b) => samples[b].wasteUnits - samples[a].wasteUnits
-        );
-        if (byDemand.length > 0) {
-          selectedIndices.push(byDemand[0]);
-        }
-        while (selectedIndices.length < plannedBinCount) {
-          let bestCandidate: number | null = null;
-          let bestScore = -Infinity;
-          for (const idx of sampleIndices) {
-            if (selectedIndices.includes(idx)) continue;
-            const sample = samples[idx];
-            const spacingScore = selectedIndices.reduce((minDist, selectedIdx) => {
-              const dist = distance(sample.point, samples[selectedIdx].point);
-              return dist < minDist ? dist : minDist;
-            }, Number.POSITIVE_INFINITY);
-            const weightRatio = totalWasteUnits === 0 ? 0 : sample.wasteUnits / totalWasteUnits;
-            const score =
-              (Number.isFinite(spacingScore) ? spacingScore : 0) + weightRatio * WEIGHT_DISTANCE_FACTOR;
-            if (score > bestScore) {
-              bestScore = score;
-              bestCandidate = idx;
-            }
-          }
-          if (bestCandidate === null) break;
-          selectedIndices.push(bestCandidate);
-        }
-      }
-
-      const assignSamplesToBins = (indices: number[]) => {
-        const assignments = new Array(samples.length).fill(-1);
-        const loads = indices.map(() => 0);
-        const grouped = indices.map(() => [] as number[]);
-        if (indices.length === 0) {
-          return { loads, assignments, grouped };
-        }
-        samples.forEach((sample, sampleIdx) => {
-          if (sample.wasteUnits <= 0) return;
-          let closestBin = 0;
-          let closestDistance = Infinity;
-          indices.forEach((selectedIdx, binIdx) => {
-            const dist = distance(sample.point, samples[selectedIdx].point);
-            if (dist < closestDistance) {
-              closestDistance = dist;
-              closestBin = binIdx;
-            }
-          });
-          assignments[sampleIdx] = closestBin;
-          loads[closestBin] += sample.wasteUnits;
-          grouped[closestBin].push(sampleIdx);
-        });
-        return { loads, assignments, grouped };
-      };
-
-      let assignment = assignSamplesToBins(selectedIndices);
-
-      let repositionAttempts = 0;
-      while (selectedIndices.length > 0 && repositionAttempts < 5) {
-        let moved = false;
-        selectedIndices.forEach((sampleIndex, binIdx) => {
-          const assignedSamples = assignment.grouped[binIdx];
-          if (!assignedSamples || assignedSamples.length === 0) return;
-          let sumX = 0;
-          let sumY = 0;
-          let sumWeight = 0;
-          assignedSamples.forEach((sampleIdx) => {
-            const sample = samples[sampleIdx];
-            sumX += sample.point.x * sample.wasteUnits;
-            sumY += sample.point.y * sample.wasteUnits;
-            sumWeight += sample.wasteUnits;
-          });
-          if (sumWeight === 0) return;
-          const centroid = { x: sumX / sumWeight, y: sumY / sumWeight };
-          let bestCandidate = sampleIndex;
-          let bestDistance = Math.hypot(
-            samples[sampleIndex].point.x - centroid.x,
-            samples[sampleIndex].point.y - centroid.y
-          );
-          assignedSamples.forEach((sampleIdx) => {
-            if (
-              selectedIndices.some(
-                (otherIdx, otherBinIdx) => otherBinIdx !== binIdx && otherIdx === sampleIdx
-              )
-            ) {
-              return;
-            }
-            const sample = samples[sampleIdx];
-            const dist = Math.hypot(sample.point.x - centroid.x, sample.point.y - centroid.y);
-            if (dist < bestDistance) {
-              bestDistance = dist;
-              bestCandidate = sampleIdx;
-            }
-          });
-          if (bestCandidate !== sampleIndex) {
-            selectedIndices[binIdx] = bestCandidate;
-            moved = true;
-          }
-        });
-        if (!moved) break;
-        assignment = assignSamplesToBins(selectedIndices);
-        repositionAttempts += 1;
-      }
-
-      let extraCapacity = Math.max(0, planningParams.maxBins - selectedIndices.length);
-      const unmatchedOverloads: number[] = [];
-
-      const tryAddPartner = (overloadedIdx: number) => {
-        if (extraCapacity <= 0) return false;
-        const overloadedSampleIdx = selectedIndices[overloadedIdx];
-        if (overloadedSampleIdx === undefined) return false;
-        const overloadedSample = samples[overloadedSampleIdx];
-        const candidates = samples
-          .map((sample, idx) => ({
-            idx,
-            waste: sample.wasteUnits,
-            dist: distance(sample.point, overloadedSample.point),
-          }))
-          .filter(
-            (candidate) =>
-              candidate.dist > 0 &&
-              candidate.dist <= MAX_PARTNER_DISTANCE &&
-              !selectedIndices.includes(candidate.idx) &&
-              candidate.waste > 0
-          )
-          .sort((a, b) => {
-            if (b.waste !== a.waste) return b.waste - a.waste;
-            return a.dist - b.dist;
-          });
-        for (const candidate of candidates) {
-          const nextSelection = [...selectedIndices, candidate.idx];
-          const nextAssignment = assignSamplesToBins(nextSelection);
-          const newBinLoad = nextAssignment.loads[nextSelection.length - 1];
-          if (newBinLoad >= MIN_NEW_BIN_UTILIZATION) {
-            selectedIndices.push(candidate.idx);
-            assignment = nextAssignment;
-            extraCapacity -= 1;
-            notes.push(
-              `Added a partner bin ${Math.round(candidate.dist)} units from overloaded bin ${overloadedIdx + 1}.`
-            );
-            return true;
-          }
-        }
-        if (candidates.length > 0) {
-          notes.push(
-            `Skipped adding a partner near bin ${overloadedIdx + 1} because projected utilization stayed under 50%.`
-          );
-        }
-        return false;
-      };
-
-      const tryRelocateUnderutilized = (overloaded: number[], underutilized: number[]) => {
-        for (const overloadedIdx of overloaded) {
-          const overloadedSampleIdx = selectedIndices[overloadedIdx];
-          if (overloadedSampleIdx === undefined) continue;
-          const overloadedSample = samples[overloadedSampleIdx];
-          const orderedUnder = [...underutilized].sort((a, b) => {
-            const aIdx = selectedIndices[a];
-            const bIdx = selectedIndices[b];
-            const aDist =
-              aIdx === undefined ? Infinity : distance(samples[aIdx].point, overloadedSample.point);
-            const bDist =
-              bIdx === undefined ? Infinity : distance(samples[bIdx].point, overloadedSample.point);
-            return aDist - bDist;
-          });
-          for (const underIdx of orderedUnder) {
-            const originalSampleIdx = selectedIndices[underIdx];
-            const candidatePositions = samples
-              .map((sample, idx) => ({
-                idx,
-                waste: sample.wasteUnits,
-                dist: distance(sample.point, overloadedSample.point),
-              }))
-              .filter(
-                (candidate) =>
-                  candidate.dist <= MAX_PARTNER_DISTANCE &&
-                  !selectedIndices.some(
-                    (selIdx, selBinIdx) => selBinIdx !== underIdx && selIdx === candidate.idx
-                  )
-              )
-              .sort((a, b) => {
-                if (b.waste !== a.waste) return b.waste - a.waste;
-                return a.dist - b.dist;
-              });
-            for (const candidate of candidatePositions) {
-              if (candidate.idx === originalSampleIdx) continue;
-              selectedIndices[underIdx] = candidate.idx;
-              const nextAssignment = assignSamplesToBins(selectedIndices);
-              const newUnderLoad = nextAssignment.loads[underIdx];
-              const newOverLoad = nextAssignment.loads[overloadedIdx];
-              if (
-                newUnderLoad >= MIN_NEW_BIN_UTILIZATION &&
-                newOverLoad <= assignment.loads[overloadedIdx]
-              ) {
-                assignment = nextAssignment;
-                notes.push(
-                  `Relocated bin ${underIdx + 1} toward overloaded bin ${overloadedIdx + 1} to balance demand.`
-                );
-                return true;
-              }
-            }
-            selectedIndices[underIdx] = originalSampleIdx;
-          }
-        }
-        return false;
-      };
+  // Puts a report's bins on the map and restarts the assistant on it.
+  const loadOptimizationResult = (result: OptimizationReport) => {
+    const optimizedNodes: Node[] = [
+      ...nodes.filter((node) => node.type !== "bin"),
+      ...result.recommendedBins.map((bin) => ({
+        id: bin.id,
+        x: bin.position.x,
+        y: bin.position.y,
+        type: "bin" as const,
+        label: bin.label,
+        stream: bin.stream,
+      })),
+    ];
+
+    setNodes(optimizedNodes);
+    saveToHistory(optimizedNodes, paths);
+
+    setOptimizerReport(result);
+    if (assistantTimerRef.current) {
+      window.clearTimeout(assistantTimerRef.current);
+      assistantTimerRef.current = null;
+    }
+    pendingAssistantRef.current = null;
+    setIsAssistantThinking(false);
+    setChatMessages([
+      {
+        id: `assistant-${Date.now()}`,
+        role: "assistant",
+        content: summarizeReportIntro(result),
+        timestamp: Date.now(),
+      },
+    ]);
+    setChatInput("");
+  };
 
-      if (selectedIndices.length > 0) {
-        let safety = 0;
-        while (safety < 10) {
-          safety += 1;
-          const overloadedIndices = assignment.loads
-            .map((load, idx) => (load > OVERLOAD_THRESHOLD + 1e-6 ? idx : -1))
-            .filter((idx) => idx !== -1);
-          if (overloadedIndices.length === 0) break;
-          let handled = false;
-          if (extraCapacity > 0) {
-            for (const overloadedIdx of overloadedIndices) {
-              if (tryAddPartner(overloadedIdx)) {
-                handled = true;
-                break;
-              }
-            }
-            if (handled) continue;
-          }
-          const underutilizedIndices = assignment.loads
-            .map((load, idx) => (load > 0 && load < UNDER_UTILIZATION_THRESHOLD ? idx : -1))
-            .filter((idx) => idx !== -1);
-          if (underutilizedIndices.length > 0 && tryRelocateUnderutilized(overloadedIndices, underutilizedIndices)) {
-            handled = true;
-          }
-          if (!handled) {
-            overloadedIndices.forEach((idx) => {
-              if (!unmatchedOverloads.includes(idx)) {
-                unmatchedOverloads.push(idx);
-              }
-            });
-            break;
-          }
-        }
-      }
+  // Bins from the previous run are its output, not layout input, so replays match.
+  const optimizerLayoutNodes = () => nodes.filter((node) => !recommendedBinIds.has(node.id));
 
-      const timestamp = Date.now();
-      const recommendedBins: RecommendedBin[] = selectedIndices.map((sampleIdx, binIdx) => {
-        const sample = samples[sampleIdx];
-        const loadUnits = assignment.loads[binIdx] ?? 0;
-        const capturedUnits = Math.min(loadUnits, BIN_CAPACITY_UNITS);
-        return {
-          id: `auto-bin-${timestamp}-${binIdx + 1}`,
-          label: `Bin ${binIdx + 1}`,
-          capacity: BIN_CAPACITY_UNITS,
-          averageDistanceToVendors: computeAverageDistanceToVendors(sample.point, vendors),
-          nearestEntryDistance: computeNearestEntryDistance(sample.point, entries),
-          walkwayDistance: computeClosestWalkwayDistance(sample.point, paths),
-          capturePerHour: capturedUnits,
-          utilization: loadUnits,
-          position: { x: sample.point.x, y: sample.point.y },
-          source: "auto",
-        };
+  // Pass the previous report's seed to replay it; omit for a fresh run.
+  const handleGenerateReport = (seed?: number) => {
+    setIsGeneratingReport(true);
+    try {
+      const result = optimizeBinPlacement({ nodes: optimizerLayoutNodes(), paths, obstacles }, planningParams, {
+        seed,
+        timeline,
+        heatmap,
+        scale: distanceScale,
+        distanceUnit,
       });
+      loadOptimizationResult(result);
+      setParetoPoints(null);
+      toast.success(seed === undefined ? "Optimization report generated." : `Replayed run with seed ${seed}.`);
+    } catch (error: any) {
+      console.error(error);
+      toast.error("Failed to generate optimization report.");
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
 
-      unmatchedOverloads.forEach((idx) => {
-        const overload = assignment.loads[idx] ?? 0;
-        if (overload > 1) {
-          notes.push(
-            `Bin ${idx + 1} remains overloaded by ${Math.round((overload - 1) * 100)}% because the bin budget is exhausted.`
-          );
-        }
+  const handleSweepBudgets = () => {
+    setIsGeneratingReport(true);
+    try {
+      const points = sweepBinBudgets({ nodes: optimizerLayoutNodes(), paths, obstacles }, planningParams, {
+        timeline,
+        heatmap,
+        scale: distanceScale,
+        distanceUnit,
       });
-
-      if (capacityDrivenBins > planningParams.maxBins) {
-        notes.push(
-          `Current bin budget (${planningParams.maxBins}) is below the ${capacityDrivenBins} bins required to capture all projected waste.`
-        );
-      } else if (selectedIndices.length < capacityDrivenBins) {
-        notes.push(
-          `Only ${selectedIndices.length} bins meet the 50% utilization rule; ${capacityDrivenBins} bins would cover the full demand.`
-        );
-      }
-
-      const totalCapturedUnits = assignment.loads.reduce(
-        (sum, load) => sum + Math.min(load, BIN_CAPACITY_UNITS),
-        0
-      );
-      const estimatedCapturePerHour = totalCapturedUnits;
-      const captureRate =
-        totalWasteUnits === 0 ? 0 : Math.min(1, estimatedCapturePerHour / totalWasteUnits);
-      const averageUtilization =
-        assignment.loads.length === 0
-          ? 0
-          : assignment.loads.reduce((sum, load) => sum + Math.min(load, 1), 0) /
-          assignment.loads.length;
-      const totalCost = recommendedBins.length * planningParams.costPerBin;
-
-      const optimizedNodes: Node[] = [
-        ...nodes.filter((node) => node.type !== "bin"),
-        ...recommendedBins.map((bin) => ({
-          id: bin.id,
-          x: bin.position.x,
-          y: bin.position.y,
-          type: "bin" as const,
-          label: bin.label,
-        })),
-      ];
-
-      setNodes(optimizedNodes);
-      saveToHistory(optimizedNodes, paths);
-
-      const result: OptimizationReport = {
-        totalVendors: vendors.length,
-        totalEntries: entries.length,
-        totalBinsAvailable: existingBins.length,
-        binsNeeded: recommendedBins.length,
-        maxBinsAllowed: planningParams.maxBins,
-        capacityDrivenBins,
-        totalWastePerHour: totalWasteUnits,
-        estimatedCapturePerHour,
-        captureRate,
-        totalCost,
-        walkwayLength,
-        averageUtilization,
-        targetUtilization: UNDER_UTILIZATION_THRESHOLD,
-        recommendedBins,
-        notes,
-      };
-
-      setReport(result);
-      if (assistantTimerRef.current) {
-        window.clearTimeout(assistantTimerRef.current);
-        assistantTimerRef.current = null;
-      }
-      pendingAssistantRef.current = null;
-      setIsAssistantThinking(false);
-      setChatMessages([
-        {
-          id: `assistant-${Date.now()}`,
-          role: "assistant",
-          content: summarizeReportIntro(result),
-          timestamp: Date.now(),
-        },
-      ]);
-      toast.success("Optimization report generated.");
-      setChatInput("");
-    } catch (error: any) {
+      setParetoPoints(points);
+      if (points.length === 0) {
+        toast.error("Add vendors and walkways before comparing bin budgets.");
+      } else {
+        toast.success(`Compared ${points.length} bin budgets. Click a point to load its layout.`);
+      }
+    } catch (error) {
       console.error(error);
-      toast.error("Failed to generate optimization report.");
+      toast.error("Failed to compare bin budgets.");
     } finally {
       setIsGeneratingReport(false);
     }
   };
 
+  const handleSelectParetoPoint = (point: ParetoPoint) => {
+    loadOptimizationResult(point.report);
+    toast.success(`Loaded the ${point.binCount}-bin layout.`);
+  };
+
+  const layoutSearchBlockedReason = !heatmap && !nodes.some((node) => node.type === "entry-exit")
+    ? "Add an entry/exit point or a foot-traffic heatmap so agents can spawn."
+    : !nodes.some((node) => node.type === "vendor")
+      ? "Add a vendor so agents have items to discard."
+      : null;
+
+  const handleStartLayoutSearch = ({ budget, ...options }: LayoutSearchSettings) => {
+    const { rows, cols } = gridDimensions(mapSize.width, mapSize.height, gridSize);
+    const layoutNodes = nodes.filter((node) => node.type !== "bin");
+    const obstacleMask = toObstacleMask(
+      buildObstacleMap(obstacles, paths, layoutNodes, mapSize.width, mapSize.height, gridSize)
+    );
+    const sites = collectCandidateSites(paths, obstacleMask, gridSize, cols, distanceScale);
+    if (sites.length === 0) {
+      toast.error("No open space left to place bins.");
+      return;
+    }
+    const { seed, littering, ...behavior } = simulation.params;
+    layoutSearch.start(
+      {
+        simulation: {
+          ...behavior,
+          gridSize,
+          mapWidth: mapSize.width,
+          mapHeight: mapSize.height,
+          spawnDensity: heatmap && heatmapCellDensity(heatmap, rows, cols, gridSize),
+        },
+        littering: littering ?? DEFAULT_SIMULATION_PARAMS.littering,
+        nodes: layoutNodes.map(({ id, x, y, type, purchaseProbability }) => ({ id, x, y, type, purchaseProbability })),
+        obstacles: obstacleMask,
+        sites,
+        maxBins: planningParams.maxBins,
+        costPerBin: planningParams.costPerBin,
+        budget,
+        binCapacityPerHour: (planningParams.binCapacity * 60) / planningParams.emptyEveryMinutes,
+        wastePerHour: estimateHourlyWaste(
+          layoutNodes.filter((node) => node.type === "vendor").length,
+          planningParams
+        ).totalWastePerHour,
+        scale: distanceScale,
+      },
+      { ...options, seed },
+      nodes.filter((node) => node.type === "bin").map(({ x, y }) => ({ x, y }))
+    );
+  };
+
+  const handleApplyLayoutSearch = ({ bins }: LayoutCandidate) => {
+    const stamp = Date.now();
+    const searchedNodes: Node[] = [
+      ...nodes.filter((node) => node.type !== "bin"),
+      ...bins.map((bin, idx) => ({
+        id: `search-bin-${stamp}-${idx + 1}`,
+        x: bin.x,
+        y: bin.y,
+        type: "bin" as const,
+        label: `Bin ${idx + 1}`,
+        stream: planningParams.binStream,
+      })),
+    ];
+    setNodes(searchedNodes);
+    saveToHistory(searchedNodes, paths);
+    // The optimizer's bins were just replaced, so its report no longer applies.
+    setOptimizerReport(null);
+    layoutSearch.clear();
+    toast.success(`Applied the searched layout with ${bins.length} bin${bins.length === 1 ? "" : "s"}.`);
+  };
+
   const generateAssistantResponse = (question: string, result: OptimizationReport) => {
     const normalized = question.toLowerCase();
     const capturePercent = Math.round(result.captureRate * 100);
     const totalCost = `$${result.totalCost.toFixed(2)}`;
     const averageUtilPercent = Math.round(result.averageUtilization * 100);
+    const targetPercent = Math.round(result.targetUtilization * 100);
     const overloadedBins = result.recommendedBins.filter((bin) => bin.utilization > 1);
+    const partnerDistance = formatLength(MAX_PARTNER_DISTANCE_M * pixelsPerMeter(distanceScale));
     const underutilizedBins = result.recommendedBins.filter(
-      (bin) => bin.utilization > 0 && bin.utilization < UNDER_UTILIZATION_THRESHOLD
+      (bin) => bin.utilization > 0 && bin.utilization < result.targetUtilization
     );
     const finiteEntryDistances = result.recommendedBins
       .map((bin) => bin.nearestEntryDistance)
       .filter((value) => Number.isFinite(value)) as number[];
+    const finiteVendorDistances = result.recommendedBins
+      .map((bin) => bin.averageDistanceToVendors)
+      .filter((value) => Number.isFinite(value));
     const averageVendorDistance =
-      result.recommendedBins.length === 0
-        ? 0
-        : result.recommendedBins.reduce((sum, bin) => sum + bin.averageDistanceToVendors, 0) /
-        result.recommendedBins.length;
+      finiteVendorDistances.length === 0
+        ? null
+        : finiteVendorDistances.reduce((sum, value) => sum + value, 0) / finiteVendorDistances.length;
     const averageEntryDistance =
       finiteEntryDistances.length === 0
         ? null
         : finiteEntryDistances.reduce((sum, value) => sum + value, 0) / finiteEntryDistances.length;
     const entryWalkSentence =
-      averageEntryDistance === null ? "" : `, and entries are about ${Math.round(averageEntryDistance)}px away`;
+      averageEntryDistance === null ? "" : `, and entries are about ${formatLength(averageEntryDistance)} walk away`;
 
     const responses: string[] = [];
 
     if (normalized.includes("capture") || normalized.includes("waste")) {
       responses.push(
         `The layout captures about ${capturePercent}% of hourly waste (${result.estimatedCapturePerHour.toFixed(
-          2
-        )} units) while keeping every bin within the one-unit capacity ceiling.`
+          1
+        )} of ${result.totalWastePerHour.toFixed(1)} L/h; ${result.vendorWastePerHour.toFixed(
+          1
+        )} L/h from vendors and ${result.attendeeWastePerHour.toFixed(1)} L/h from attendees), counting no more than each bin's hourly capacity.`
+      );
+    }
+
+    if (
+      normalized.includes("recycl") ||
+      normalized.includes("compost") ||
+      normalized.includes("divert") ||
+      normalized.includes("diversion") ||
+      normalized.includes("contamin") ||
+      normalized.includes("stream")
+    ) {
+      const divertedStreams = result.streams
+        .filter((stream) => stream.stream !== "landfill" && stream.generatedPerHour > 0)
+        .map(
+          (stream) =>
+            `${WASTE_STREAM_LABELS[stream.stream].toLowerCase()} ${Math.round(stream.captureRate * 100)}%`
+        );
+      const riskyBins = result.recommendedBins.filter((bin) => bin.contaminationRisk >= 0.15);
+      responses.push(
+        `About ${Math.round(result.diversionRate * 100)}% of generated waste is diverted from landfill${
+          divertedStreams.length > 0 ? ` (sorted capture: ${divertedStreams.join(", ")})` : ""
+        }.${
+          riskyBins.length > 0
+            ? ` ${riskyBins.map((bin) => bin.label).join(", ")} ${riskyBins.length === 1 ? "is" : "are"} at risk of contamination because some streams have no bin nearby.`
+            : ""
+        }`
       );
     }
 
@@ -940,7 +1236,7 @@ export const MapEditor = () => {
           let nearest = Infinity;
           result.recommendedBins.forEach((other, otherIdx) => {
             if (idx === otherIdx) return;
-            const dist = Math.hypot(bin.position.x - other.position.x, bin.position.y - other.position.y);
+            const dist = walkingDistance(walkwayGraph, bin.position, other.position);
             if (dist < nearest) {
               nearest = dist;
             }
@@ -950,44 +1246,86 @@ export const MapEditor = () => {
           }
         });
         if (nearestDistances.length > 0) {
-          const avgSpacing = Math.round(
-            nearestDistances.reduce((sum, value) => sum + value, 0) / nearestDistances.length
-          );
+          const avgSpacing = nearestDistances.reduce((sum, value) => sum + value, 0) / nearestDistances.length;
           responses.push(
-            `Bins are spaced with an average nearest-neighbour gap of ${avgSpacing}px along the walkway while still respecting utilization limits.`
+            `Bins are spaced with an average nearest-neighbour gap of ${formatLength(avgSpacing)} along the walkway while still respecting utilization limits.`
           );
         }
       } else if (result.recommendedBins.length === 1) {
         responses.push("A single bin sits near the highest vendor demand cluster on the walkway.");
       }
       responses.push(
-        `Vendors reach a bin in roughly ${Math.round(averageVendorDistance)}px on average${entryWalkSentence}.`
+        averageVendorDistance === null
+          ? "No walkway connects the bins to the vendors yet, so walking distances can't be measured."
+          : `Vendors reach a bin in roughly ${formatLength(averageVendorDistance)} on average walking along the walkways${entryWalkSentence}.`
+      );
+    }
+
+    if (
+      normalized.includes("bottleneck") ||
+      normalized.includes("congest") ||
+      normalized.includes("traffic") ||
+      normalized.includes("crowd")
+    ) {
+      const bottlenecks = result.walkwayFlows.filter(isBottleneck);
+      const busiest = result.walkwayFlows.reduce<WalkwayFlow | null>(
+        (best, flow) => (!best || flow.loadRatio > best.loadRatio ? flow : best),
+        null
       );
+      if (!busiest) {
+        responses.push("Add entries, vendors and connected walkways so foot traffic can be routed between them.");
+      } else if (bottlenecks.length > 0) {
+        responses.push(
+          `${bottlenecks.map((flow) => `${flow.label} (${Math.round(flow.flowPerMinute)} of ${flow.capacityPerMinute} people/min)`).join(", ")} ${bottlenecks.length === 1 ? "is" : "are"} over capacity; widen ${bottlenecks.length === 1 ? "it" : "them"} or add a parallel route.`
+        );
+      } else {
+        responses.push(
+          `No walkway is over capacity; the busiest is ${busiest.label} at ${Math.round(busiest.loadRatio * 100)}% (${Math.round(busiest.flowPerMinute)} people/min).`
+        );
+      }
     }
 
     if (normalized.includes("overload") || normalized.includes("overflow")) {
       if (overloadedBins.length > 0) {
         responses.push(
-          `${overloadedBins.length} bin${overloadedBins.length === 1 ? " remains" : "s remain"} over capacity; each was paired with a backup within 50 units whenever the budget allowed.`
+          `${overloadedBins.length} bin${overloadedBins.length === 1 ? " remains" : "s remain"} over capacity; each was paired with a backup within ${partnerDistance} whenever the budget allowed.`
         );
       } else {
         responses.push("All bins are at or below 100% utilization after adding local support bins.");
       }
     }
 
+    if (
+      normalized.includes("overflow") ||
+      normalized.includes("litter") ||
+      normalized.includes("empt") ||
+      normalized.includes("crew")
+    ) {
+      const firstFull = result.recommendedBins
+        .filter((bin) => bin.timeToFullMinutes !== null)
+        .sort((a, b) => a.timeToFullMinutes - b.timeToFullMinutes)[0];
+      responses.push(
+        result.overflowIncidents.length === 0
+          ? `On the current emptying schedule no bin overflows across the ${formatDuration(result.serviceHorizonMinutes)} simulated.`
+          : `On the current emptying schedule there are ${result.overflowIncidents.length} overflow incidents across the ${formatDuration(result.serviceHorizonMinutes)} simulated, spilling ${result.overflowLiters.toFixed(1)} L of which about ${result.litterLiters.toFixed(1)} L ends up as litter.${
+            firstFull ? ` ${firstFull.label} fills first, at ${formatEventTime(result, firstFull.timeToFullMinutes)}.` : ""
+          } Emptying the worst bins more often or assigning them to a faster crew cuts this down.`
+      );
+    }
+
     if (normalized.includes("underutil") || normalized.includes("low util")) {
       if (underutilizedBins.length > 0) {
         responses.push(
-          `Bins with utilization under 80% (${underutilizedBins.map((bin) => bin.label).join(", ")}) were moved toward the nearest overload; any position that would have fallen below 50% was discarded.`
+          `Bins with utilization under the ${targetPercent}% target (${underutilizedBins.map((bin) => bin.label).join(", ")}) were moved toward the nearest overload; any position that would have fallen below 50% was discarded.`
         );
       } else {
-        responses.push("No bins are sitting below the 80% relocation threshold in this scenario.");
+        responses.push(`No bins are sitting below the ${targetPercent}% utilization target in this scenario.`);
       }
     }
 
     if (normalized.includes("why") || normalized.includes("how")) {
       responses.push(
-        "The optimizer samples the walkway, applies a vendor-weighted demand gradient, then selects well-spaced bins that satisfy the 50% utilization rule and adds partner bins within 50 units wherever overloads appear."
+        `The optimizer samples the walkway, applies a vendor-weighted demand gradient, then selects well-spaced bins that satisfy the 50% utilization rule and adds partner bins within ${partnerDistance} wherever overloads appear.`
       );
     }
 
@@ -1003,7 +1341,7 @@ export const MapEditor = () => {
 
     if (responses.length === 0) {
       responses.push(
-        `We landed on ${result.binsNeeded} bin${result.binsNeeded === 1 ? "" : "s"}, capturing ${capturePercent}% of hourly waste at about ${averageUtilPercent}% average utilization while enforcing 80% relocation and 50% deployment rules. Ask about spacing, overloads, or cost if you want more detail.`
+        `We landed on ${result.binsNeeded} bin${result.binsNeeded === 1 ? "" : "s"}, capturing ${capturePercent}% of hourly waste at about ${averageUtilPercent}% average utilization while balancing toward the ${targetPercent}% target and enforcing the 50% deployment rule. Ask about spacing, overloads, or cost if you want more detail.`
       );
     }
 
@@ -1081,10 +1419,16 @@ export const MapEditor = () => {
         deleteSelected();
       } else if (e.key === "Escape") {
         setDrawingPath([]);
+        setDrawingPolygon([]);
+        setReferenceLine([]);
+        setIsCalibrating(false);
+        setIsPinningGeo(false);
         setSelectedNode(null);
         setSelectedPath(null);
       } else if (e.key === "Enter" && drawingPath.length > 0) {
         finishPath();
+      } else if (e.key === "Enter" && drawingPolygon.length > 0) {
+        finishPolygon();
       } else if (e.ctrlKey && e.key === "z" && !e.shiftKey) {
         e.preventDefault();
         undo();
@@ -1096,7 +1440,7 @@ export const MapEditor = () => {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedNode, selectedPath, drawingPath, historyIndex, history]);
+  }, [selectedNode, selectedPath, drawingPath, drawingPolygon, historyIndex, history]);
 
   return (
     <div className="flex h-screen bg-background">
@@ -1107,12 +1451,16 @@ export const MapEditor = () => {
           <p className="text-sm text-muted-foreground">Urban planning tools</p>
         </div>
 
-        <Tabs defaultValue="editor" className="flex-1 flex flex-col">
+        <Tabs value={sidebarTab} onValueChange={setSidebarTab} className="flex-1 flex flex-col">
           <div className="pl-4 pr-6 mt-4">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="editor">Editor</TabsTrigger>
+              <TabsTrigger value="simulate">
+                <Activity className="h-4 w-4 mr-1" />
+                Simulate
+              </TabsTrigger>
               <TabsTrigger value="assistant">
-                <MessageSquare className="h-4 w-4 mr-2" />
+                <MessageSquare className="h-4 w-4 mr-1" />
                 Assistant
               </TabsTrigger>
             </TabsList>
@@ -1152,7 +1500,10 @@ export const MapEditor = () => {
                   <Button
                     variant={tool === "select" ? "default" : "ghost"}
                     className="w-full justify-start"
-                    onClick={() => setTool("select")}
+                    onClick={() => {
+                      setTool("select");
+                      setDrawingPolygon([]);
+                    }}
                   >
                     <Move className="mr-2 h-4 w-4" />
                     Select & Move
@@ -1160,7 +1511,10 @@ export const MapEditor = () => {
                   <Button
                     variant={tool === "vendor" ? "default" : "ghost"}
                     className="w-full justify-start"
-                    onClick={() => setTool("vendor")}
+                    onClick={() => {
+                      setTool("vendor");
+                      setDrawingPolygon([]);
+                    }}
                   >
                     <MapPin className="mr-2 h-4 w-4" />
                     Vendor / Source
@@ -1168,7 +1522,10 @@ export const MapEditor = () => {
                   <Button
                     variant={tool === "entry-exit" ? "default" : "ghost"}
                     className="w-full justify-start"
-                    onClick={() => setTool("entry-exit")}
+                    onClick={() => {
+                      setTool("entry-exit");
+                      setDrawingPolygon([]);
+                    }}
                   >
                     <DoorOpen className="mr-2 h-4 w-4" />
                     Entry/Exit Point
@@ -1176,7 +1533,10 @@ export const MapEditor = () => {
                   <Button
                     variant={tool === "bin" ? "default" : "ghost"}
                     className="w-full justify-start"
-                    onClick={() => setTool("bin")}
+                    onClick={() => {
+                      setTool("bin");
+                      setDrawingPolygon([]);
+                    }}
                   >
                     <Star className="mr-2 h-4 w-4" />
                     Bins / Collection
@@ -1208,14 +1568,351 @@ export const MapEditor = () => {
                       </Button>
                     </div>
                   )}
+                  <Button
+                    variant={tool === "paint" ? "default" : "ghost"}
+                    className="w-full justify-start"
+                    onClick={() => {
+                      setTool("paint");
+                      setDrawingPolygon([]);
+                    }}
+                  >
+                    <Paintbrush className="mr-2 h-4 w-4" />
+                    Paint Obstacles
+                  </Button>
+                  {tool === "paint" && (
+                    <div className="space-y-2 pt-2">
+                      <div className="grid grid-cols-2 gap-1">
+                        {(
+                          [
+                            ["wall", "Wall"],
+                            ["no-go", "No-go zone"],
+                            ["walkable", "Walkable"],
+                            ["erase", "Erase"],
+                          ] as [PaintMaterial, string][]
+                        ).map(([material, label]) => (
+                          <Button
+                            key={material}
+                            variant={paintMaterial === material ? "secondary" : "outline"}
+                            size="sm"
+                            className="text-xs"
+                            onClick={() => setPaintMaterial(material)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-4 gap-1">
+                        {(
+                          [
+                            ["brush", "Brush"],
+                            ["rectangle", "Rect"],
+                            ["polygon", "Poly"],
+                            ["fill", "Fill"],
+                          ] as [PaintMode, string][]
+                        ).map(([mode, label]) => (
+                          <Button
+                            key={mode}
+                            variant={paintMode === mode ? "secondary" : "outline"}
+                            size="sm"
+                            className="text-xs px-1"
+                            onClick={() => {
+                              setPaintMode(mode);
+                              setDrawingPolygon([]);
+                            }}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      {paintMode === "brush" && (
+                        <div>
+                          <Label className="text-xs">
+                            Brush size: {brushSize} cell{brushSize === 1 ? "" : "s"}
+                          </Label>
+                          <input
+                            type="range"
+                            min="1"
+                            max="10"
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(parseInt(e.target.value, 10) || 1)}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                      {paintMode === "polygon" && (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            {drawingPolygon.length} point(s). Press Enter or use the button to fill, Esc to cancel.
+                          </p>
+                          <Button
+                            variant="default"
+                            size="sm"
+                            className="w-full"
+                            onClick={finishPolygon}
+                            disabled={drawingPolygon.length < 3}
+                          >
+                            Fill Polygon
+                          </Button>
+                        </>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Cells follow the project grid ({gridSize}px). Walls and no-go zones block
+                        agents; walkable areas open cells off the walkways.
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={clearObstacles}
+                        disabled={!obstacles || !!proposedObstacles}
+                      >
+                        Clear Painted Areas
+                      </Button>
+                      {imageUrl && (
+                        <WalkableExtractionPanel
+                          options={extractionOptions}
+                          onOptionsChange={setExtractionOptions}
+                          isPickingColor={isPickingColor}
+                          onTogglePicking={() => setIsPickingColor(!isPickingColor)}
+                          isAnalyzing={isAnalyzing}
+                          hasProposal={!!proposedObstacles}
+                          onPreview={previewExtraction}
+                          onAccept={acceptProposal}
+                          onDiscard={() => setProposedObstacles(null)}
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
 
               <Separator />
 
-              {selectedNode && (
-                <div className="pb-3">
-                  <h3 className="text-sm font-medium mb-2 text-foreground">Selected Node</h3>
+              <div className="pb-3">
+                <MapScalePanel
+                  scale={mapScale}
+                  distanceUnit={distanceUnit}
+                  onDistanceUnitChange={setDistanceUnit}
+                  isGeoreferenced={georeference !== null}
+                  isCalibrating={isCalibrating}
+                  onToggleCalibrating={() => {
+                    setIsCalibrating(!isCalibrating);
+                    setIsPinningGeo(false);
+                    setReferenceLine([]);
+                  }}
+                  referenceLine={referenceLine}
+                  onChange={setMapScale}
+                  onRemove={() => {
+                    setMapScale(null);
+                    toast.success("Map scale reset");
+                  }}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <GeoreferencePanel
+                  georeference={georeference}
+                  pins={geoPins}
+                  onPinsChange={setGeoPins}
+                  kind={geoKind}
+                  onKindChange={setGeoKind}
+                  isPinning={isPinningGeo}
+                  onTogglePinning={() => {
+                    setIsPinningGeo(!isPinningGeo);
+                    setIsCalibrating(false);
+                    setReferenceLine([]);
+                  }}
+                  onApply={applyGeoreference}
+                  onClear={() => {
+                    setGeoreference(null);
+                    setGeoPins([]);
+                    setIsPinningGeo(false);
+                    toast.success("Georeference cleared");
+                  }}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <TrafficHeatmapPanel
+                  heatmap={heatmap}
+                  isLoading={isLoadingHeatmap}
+                  showOverlay={showHeatmap}
+                  onToggleOverlay={() => setShowHeatmap(!showHeatmap)}
+                  isAligning={isAligningHeatmap}
+                  onToggleAligning={() => {
+                    setIsAligningHeatmap(!isAligningHeatmap);
+                    setShowHeatmap(true);
+                  }}
+                  onUpload={(file) => void uploadHeatmap(file)}
+                  onChange={setHeatmap}
+                  onRemove={() => {
+                    setHeatmap(null);
+                    setIsAligningHeatmap(false);
+                    toast.success("Heatmap removed");
+                  }}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <OsmImportPanel
+                  baseLayer={baseLayer}
+                  isLoading={isLoadingOsm}
+                  showBaseLayer={showBaseLayer}
+                  onToggleBaseLayer={() => setShowBaseLayer(!showBaseLayer)}
+                  onImport={(file, bounds) => void importOsm(file, bounds)}
+                  onRemove={() => {
+                    setBaseLayer(null);
+                    toast.success("Base layer removed");
+                  }}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <LayoutGeoJsonPanel
+                  importMode={layoutImportMode}
+                  onImportModeChange={setLayoutImportMode}
+                  onImport={(file) => void importLayout(file)}
+                  onExport={exportLayout}
+                  importErrors={layoutImportErrors}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <PlanSpreadsheetPanel
+                  hasReport={report !== null}
+                  onExportCsv={exportPlanCsv}
+                  onExportXlsx={exportPlanXlsx}
+                />
+              </div>
+
+              <Separator />
+
+              <div className="pb-3">
+                <CrowdDensityPanel
+                  estimate={crowdDensity}
+                  showOverlay={showCrowdDensity}
+                  onToggleOverlay={() => setShowCrowdDensity(!showCrowdDensity)}
+                  onExport={exportCrowdDensity}
+                />
+              </div>
+
+              <Separator />
+
+              {selectedNodeData && (
+                <div className="pb-3 space-y-2">
+                  <h3 className="text-sm font-medium text-foreground">Selected Node</h3>
+                  {selectedNodeData.type === "vendor" && (
+                    <div>
+                      <Label className="text-xs">Menu type</Label>
+                      <Select
+                        value={selectedNodeData.menuType ?? "general"}
+                        onValueChange={(value) =>
+                          updateNode(selectedNodeData.id, { menuType: value as Node["menuType"] })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(MENU_PROFILES).map(([menuType, profile]) => (
+                            <SelectItem key={menuType} value={menuType} className="text-xs">
+                              {profile.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {selectedNodeData.type === "vendor" && (
+                    <div>
+                      <Label className="text-xs">Purchase chance per simulated visit (%)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={Math.round((selectedNodeData.purchaseProbability ?? DEFAULT_PURCHASE_PROBABILITY) * 100)}
+                        onChange={(e) =>
+                          updateNode(selectedNodeData.id, {
+                            purchaseProbability: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100,
+                          })
+                        }
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                  )}
+                  {selectedNodeData.type === "bin" && (
+                    <div>
+                      <Label className="text-xs">Waste stream</Label>
+                      <Select
+                        value={binStreamOf(selectedNodeData)}
+                        onValueChange={(value) =>
+                          updateNode(selectedNodeData.id, { stream: value as Node["stream"] })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(BIN_STREAM_OPTIONS).map(([stream, option]) => (
+                            <SelectItem key={stream} value={stream} className="text-xs">
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {selectedNodeData.type === "bin" && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label className="text-xs">Service crew</Label>
+                        <Select
+                          value={selectedNodeData.crewId ?? "none"}
+                          onValueChange={(value) =>
+                            updateNode(selectedNodeData.id, { crewId: value === "none" ? undefined : value })
+                          }
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none" className="text-xs">
+                              Default round
+                            </SelectItem>
+                            {crews.map((crew) => (
+                              <SelectItem key={crew.id} value={crew.id} className="text-xs">
+                                {crew.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label className="text-xs">Empty every (min)</Label>
+                        <MinutesInput
+                          min={MIN_EMPTY_EVERY_MINUTES}
+                          optional
+                          placeholder={String(
+                            crews.find((crew) => crew.id === selectedNodeData.crewId)?.emptyEveryMinutes ??
+                            planningParams.emptyEveryMinutes
+                          )}
+                          value={selectedNodeData.emptyEveryMinutes}
+                          onChange={(emptyEveryMinutes) => updateNode(selectedNodeData.id, { emptyEveryMinutes })}
+                          className="h-8 text-xs"
+                        />
+                      </div>
+                    </div>
+                  )}
                   <Button
                     variant="destructive"
                     size="sm"
@@ -1268,7 +1965,7 @@ export const MapEditor = () => {
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Bin capacity</Label>
+                    <Label className="text-xs">Bin capacity (liters)</Label>
                     <Input
                       type="number"
                       min="1"
@@ -1283,7 +1980,7 @@ export const MapEditor = () => {
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Vendor output per hour</Label>
+                    <Label className="text-xs">Vendor sales per hour</Label>
                     <Input
                       type="number"
                       min="0"
@@ -1312,6 +2009,40 @@ export const MapEditor = () => {
                       className="h-8 text-xs"
                     />
                   </div>
+                  <div>
+                    <Label className="text-xs">Stream setup for new bins</Label>
+                    <Select
+                      value={planningParams.binStream}
+                      onValueChange={(value) =>
+                        setPlanningParams({ ...planningParams, binStream: value as PlanningParams["binStream"] })
+                      }
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(BIN_STREAM_OPTIONS).map(([stream, option]) => (
+                          <SelectItem key={stream} value={stream} className="text-xs">
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">Empty bins every (minutes)</Label>
+                    <MinutesInput
+                      min={MIN_EMPTY_EVERY_MINUTES}
+                      value={planningParams.emptyEveryMinutes}
+                      onChange={(emptyEveryMinutes) =>
+                        setPlanningParams({
+                          ...planningParams,
+                          emptyEveryMinutes: emptyEveryMinutes ?? MIN_EMPTY_EVERY_MINUTES,
+                        })
+                      }
+                      className="h-8 text-xs"
+                    />
+                  </div>
                   <div>
                     <Label className="text-xs">Target bin utilization (%)</Label>
                     <Input
@@ -1334,6 +2065,23 @@ export const MapEditor = () => {
                 </div>
               </div>
 
+              <Separator />
+
+              <EventTimelineEditor
+                timeline={timeline}
+                vendors={nodes.filter((node) => node.type === "vendor")}
+                onChange={setTimeline}
+              />
+
+              <Separator />
+
+              <ServiceCrewsEditor
+                crews={crews}
+                bins={nodes.filter((node) => node.type === "bin")}
+                defaultEmptyEveryMinutes={planningParams.emptyEveryMinutes}
+                onChange={setCrews}
+              />
+
               {selectedPath && (
                 <>
                   <Separator />
@@ -1344,14 +2092,28 @@ export const MapEditor = () => {
                         <Label className="text-xs">Capacity (people/min)</Label>
                         <Input
                           type="number"
-                          min="1"
-                          value={paths.find((p) => p.id === selectedPath)?.capacity || 50}
-                          onChange={(e) =>
-                            updatePathCapacity(selectedPath, parseInt(e.target.value, 10) || 50)
-                          }
+                          min="0"
+                          value={paths.find((p) => p.id === selectedPath)?.capacity ?? 50}
+                          onChange={(e) => {
+                            // 0 leaves the walkway unconstrained.
+                            const capacity = parseInt(e.target.value, 10);
+                            updatePathCapacity(selectedPath, Number.isFinite(capacity) ? Math.max(0, capacity) : 0);
+                          }}
                           className="h-8"
                         />
                       </div>
+                      {walkwayFlowById.has(selectedPath) && (
+                        <p
+                          className={`text-xs ${
+                            isBottleneck(walkwayFlowById.get(selectedPath))
+                              ? "text-destructive"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          Modelled peak flow: {Math.round(walkwayFlowById.get(selectedPath).flowPerMinute)} people/min (
+                          {Math.round(walkwayFlowById.get(selectedPath).loadRatio * 100)}% of capacity).
+                        </p>
+                      )}
                       <Button
                         variant="destructive"
                         size="sm"
@@ -1369,18 +2131,58 @@ export const MapEditor = () => {
               <Separator />
 
               <div className="space-y-2">
-                <Button onClick={handleGenerateReport} disabled={isGeneratingReport} className="w-full">
+                <Button onClick={() => handleGenerateReport()} disabled={isGeneratingReport} className="w-full">
                   {isGeneratingReport
                     ? "Calculating..."
                     : report
                       ? "Recalculate Report"
                       : "Generate Report"}
                 </Button>
+                {report?.seed != null && (
+                  <Button
+                    onClick={() => handleGenerateReport(report.seed)}
+                    disabled={isGeneratingReport}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  >
+                    <Repeat className="h-4 w-4 mr-2" />
+                    Replay this run (seed {report.seed})
+                  </Button>
+                )}
+                <Button
+                  onClick={handleSweepBudgets}
+                  disabled={isGeneratingReport}
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                >
+                  <ChartScatter className="h-4 w-4 mr-2" />
+                  Compare bin budgets
+                </Button>
                 <p className="text-xs text-muted-foreground">
                   Place vendors, walkways, and candidate bins, then generate the optimization report.
                 </p>
               </div>
 
+              {paretoPoints && paretoPoints.length > 0 && (
+                <div className="space-y-2">
+                  <div>
+                    <h3 className="text-sm font-medium text-foreground">Budget Trade-offs</h3>
+                    <p className="text-xs text-muted-foreground">
+                      One layout per bin count. Larger dots mean longer walks from vendors to the nearest
+                      bin; faded points are beaten on cost, capture and walking by another layout.
+                    </p>
+                  </div>
+                  <ParetoFrontChart
+                    points={paretoPoints}
+                    activeBinCount={paretoPoints.find((point) => point.report === optimizerReport)?.binCount ?? null}
+                    onSelect={handleSelectParetoPoint}
+                    formatLength={formatLength}
+                  />
+                </div>
+              )}
+
               {report && (
                 <>
                   <Separator />
@@ -1419,13 +2221,13 @@ export const MapEditor = () => {
                       <div className="rounded border px-2 py-1">
                         <span className="block text-muted-foreground">Waste captured</span>
                         <span className="text-foreground font-semibold">
-                          {report.estimatedCapturePerHour.toFixed(2)}
+                          {report.estimatedCapturePerHour.toFixed(1)} / {report.totalWastePerHour.toFixed(1)} L/h
                         </span>
                       </div>
                       <div className="rounded border px-2 py-1">
                         <span className="block text-muted-foreground">Walkway length</span>
                         <span className="text-foreground font-semibold">
-                          {Math.round(report.walkwayLength)} px
+                          {formatLength(report.walkwayLength)}
                         </span>
                       </div>
                       <div className="rounded border px-2 py-1">
@@ -1444,7 +2246,162 @@ export const MapEditor = () => {
                         <span className="block text-muted-foreground">Vendors assessed</span>
                         <span className="text-foreground font-semibold">{report.totalVendors}</span>
                       </div>
+                      <div className="rounded border px-2 py-1">
+                        <span className="block text-muted-foreground">Diversion rate</span>
+                        <span className="text-foreground font-semibold">
+                          {Math.round(report.diversionRate * 100)}%
+                        </span>
+                      </div>
                     </div>
+                    {report.streams.length > 0 && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold text-foreground">Waste streams (L/h)</h4>
+                        <table className="w-full text-xs">
+                          <thead className="text-muted-foreground">
+                            <tr>
+                              <th className="text-left font-normal">Stream</th>
+                              <th className="text-right font-normal">Generated</th>
+                              <th className="text-right font-normal">Sorted</th>
+                              <th className="text-right font-normal">Mixed</th>
+                              <th className="text-right font-normal">Contam.</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {report.streams.map((stream) => (
+                              <tr key={stream.stream}>
+                                <td>{WASTE_STREAM_LABELS[stream.stream]}</td>
+                                <td className="text-right tabular-nums">{stream.generatedPerHour.toFixed(1)}</td>
+                                <td className="text-right tabular-nums">
+                                  {stream.capturedPerHour.toFixed(1)} ({Math.round(stream.captureRate * 100)}%)
+                                </td>
+                                <td className="text-right tabular-nums">{stream.mixedPerHour.toFixed(1)}</td>
+                                <td className="text-right tabular-nums">{stream.contaminationPerHour.toFixed(1)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    {report.walkwayFlows.length > 0 && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold text-foreground">Walkway flow (people/min)</h4>
+                        <table className="w-full text-xs">
+                          <thead className="text-muted-foreground">
+                            <tr>
+                              <th className="text-left font-normal">Walkway</th>
+                              <th className="text-right font-normal">Peak</th>
+                              <th className="text-right font-normal">Capacity</th>
+                              <th className="text-right font-normal">Load</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {report.walkwayFlows.map((flow) => (
+                              <tr key={flow.pathId} className={isBottleneck(flow) ? "text-destructive" : undefined}>
+                                <td className="truncate">{flow.label}</td>
+                                <td className="text-right tabular-nums">{flow.flowPerMinute.toFixed(1)}</td>
+                                <td className="text-right tabular-nums">{flow.capacityPerMinute}</td>
+                                <td className="text-right tabular-nums">{Math.round(flow.loadRatio * 100)}%</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    {report.timeline && report.recommendedBins.length > 0 && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold text-foreground">Fill levels over the event</h4>
+                        <div className="flex gap-px pl-[3.25rem] pr-[3.75rem] text-[9px] text-muted-foreground">
+                          {report.timeline.intervals.map((interval, idx) => (
+                            <span
+                              key={idx}
+                              className={`flex-1 truncate ${idx === report.timeline.peakIntervalIndex ? "font-semibold text-foreground" : ""}`}
+                              title={`${interval.phase} • ${interval.wastePerHour.toFixed(1)} L/h • ${interval.overflowLiters.toFixed(1)} L overflow`}
+                            >
+                              {idx % 2 === 0 ? formatClockTime(interval.startMinutes) : ""}
+                            </span>
+                          ))}
+                        </div>
+                        {report.recommendedBins.map((bin) => (
+                          <div key={bin.id} className="flex items-center gap-1 text-[10px]">
+                            <span className="w-12 shrink-0 truncate" title={bin.label}>
+                              {bin.label}
+                            </span>
+                            <div className="flex flex-1 gap-px">
+                              {bin.fillTimeline.map((level, idx) => (
+                                <div
+                                  key={idx}
+                                  className="h-3 flex-1 rounded-sm"
+                                  style={{ backgroundColor: fillLevelColor(level) }}
+                                  title={`${formatClockTime(report.timeline.intervals[idx]?.startMinutes ?? 0)}: ${Math.round(level * 100)}% full`}
+                                />
+                              ))}
+                            </div>
+                            <span
+                              className={`w-14 shrink-0 text-right tabular-nums ${bin.peakOverflowPerHour > 0 ? "text-destructive" : "text-muted-foreground"}`}
+                              title="Peak overflow"
+                            >
+                              {bin.peakOverflowPerHour.toFixed(1)} L/h
+                            </span>
+                          </div>
+                        ))}
+                        <p className="text-[10px] text-muted-foreground">
+                          Peak: {report.timeline.intervals[report.timeline.peakIntervalIndex]?.phase} •{" "}
+                          {report.timeline.totalOverflowLiters.toFixed(1)} L overflow in total
+                        </p>
+                      </div>
+                    )}
+                    {report.recommendedBins.length > 0 && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold text-foreground">
+                          Bin service over {formatDuration(report.serviceHorizonMinutes)}
+                        </h4>
+                        <table className="w-full text-xs">
+                          <thead className="text-muted-foreground">
+                            <tr>
+                              <th className="text-left font-normal">Bin</th>
+                              <th className="text-right font-normal">Every</th>
+                              <th className="text-right font-normal">Full at</th>
+                              <th className="text-right font-normal">Overflow</th>
+                              <th className="text-right font-normal">Litter</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {report.recommendedBins.map((bin) => (
+                              <tr key={bin.id} className={bin.overflowLiters > 0 ? "text-destructive" : undefined}>
+                                <td className="truncate">{bin.label}</td>
+                                <td className="text-right tabular-nums">{bin.emptyEveryMinutes} min</td>
+                                <td className="text-right tabular-nums">
+                                  {bin.timeToFullMinutes === null ? "—" : formatEventTime(report, bin.timeToFullMinutes)}
+                                </td>
+                                <td className="text-right tabular-nums" title={`${bin.overflowMinutes} min overflowing`}>
+                                  {bin.overflowLiters.toFixed(1)} L
+                                </td>
+                                <td className="text-right tabular-nums">{bin.litterLiters.toFixed(1)} L</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="text-[10px] text-muted-foreground">
+                          {report.overflowIncidents.length === 0
+                            ? "No overflow incidents on the current emptying schedule."
+                            : `${report.overflowIncidents.length} overflow incidents • ${report.overflowLiters.toFixed(1)} L overflow • ${report.litterLiters.toFixed(1)} L littered`}
+                        </p>
+                        {report.overflowIncidents.length > 0 && (
+                          <ul className="text-[10px] text-muted-foreground space-y-0.5 max-h-24 overflow-y-auto">
+                            {report.overflowIncidents.map((incident, idx) => (
+                              <li key={idx} className="flex justify-between gap-2">
+                                <span>
+                                  {formatEventTime(report, incident.startMinutes)} • {incident.label}
+                                </span>
+                                <span className="tabular-nums">
+                                  {incident.durationMinutes} min • {incident.overflowLiters.toFixed(1)} L
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                     {report.notes.length > 0 && (
                       <div className="space-y-1">
                         <h4 className="text-xs font-semibold text-foreground">Notes</h4>
@@ -1456,11 +2413,86 @@ export const MapEditor = () => {
                       </div>
                     )}
                   </div>
+                  <Separator />
+                  <ReportExportPanel
+                    headerTitle={reportHeaderTitle}
+                    onHeaderTitleChange={setReportHeaderTitle}
+                    logo={reportLogo}
+                    onLogoUpload={(file) => void uploadReportLogo(file)}
+                    onLogoRemove={() => setReportLogo(null)}
+                    isExporting={isExportingReport}
+                    onExport={() => void exportReportPdf()}
+                  />
                 </>
               )}
             </div>
           </TabsContent>
 
+          <TabsContent value="simulate" className="flex-1 overflow-y-auto">
+            <div className="pl-4 pr-6 pt-4 pb-4 space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Agents spawn at entry/exit points (or across the foot-traffic heatmap, when one is
+                loaded) and walk the drawn walkways using the floor-field pedestrian model. Editing
+                is paused while this tab is open.
+              </p>
+              {!heatmap && !nodes.some((node) => node.type === "entry-exit") && (
+                <p className="text-xs text-destructive">
+                  Add at least one entry/exit point or a foot-traffic heatmap to spawn agents.
+                </p>
+              )}
+              <SimulationControls
+                isRunning={simulation.isRunning}
+                onStart={simulation.start}
+                onPause={simulation.pause}
+                onReset={simulation.reset}
+                onReplay={simulation.replay}
+                onStep={simulation.step}
+                stepsPerFrame={simulation.stepsPerFrame}
+                onStepsPerFrameChange={simulation.setStepsPerFrame}
+                statistics={simulation.statistics}
+                phaseLabel={
+                  timeline && simulation.statistics.intervalIndex >= 0
+                    ? `${timeline.intervals[simulation.statistics.intervalIndex]?.phase} (${formatClockTime(
+                      intervalStartMinutes(timeline, simulation.statistics.intervalIndex)
+                    )})`
+                    : null
+                }
+                params={simulation.params}
+                defaultLittering={DEFAULT_SIMULATION_PARAMS.littering}
+                onParamsChange={simulation.setParams}
+                showTrails={showTrails}
+                showAgents={showAgents}
+                showLitter={showLitter}
+                onShowTrailsChange={setShowTrails}
+                onShowAgentsChange={setShowAgents}
+                onShowLitterChange={setShowLitter}
+                scale={distanceScale}
+                distanceUnit={distanceUnit}
+              />
+              {simulation.params.littering && (
+                <LitterComparisonPanel
+                  binIds={simulation.binIds}
+                  binDeposits={simulation.binDeposits}
+                  itemsLittered={simulation.statistics.itemsLittered}
+                  nodes={nodes}
+                  report={report}
+                />
+              )}
+              <LayoutSearchPanel
+                isSearching={layoutSearch.isSearching}
+                progress={layoutSearch.progress}
+                result={layoutSearch.result}
+                error={layoutSearch.error}
+                defaultBudget={planningParams.maxBins * planningParams.costPerBin}
+                blockedReason={layoutSearchBlockedReason}
+                onStart={handleStartLayoutSearch}
+                onCancel={layoutSearch.cancel}
+                onApply={handleApplyLayoutSearch}
+                formatLength={formatLength}
+              />
+            </div>
+          </TabsContent>
+
           <TabsContent value="assistant" className="flex-1 overflow-hidden">
             <div className="pl-4 pr-6 pt-4 pb-4 h-full flex flex-col gap-4">
               {report ? (
@@ -1513,143 +2545,341 @@ export const MapEditor = () => {
       </Card>
 
       {/* Canvas */}
-      <div className="flex-1 overflow-hidden bg-canvas-bg">
-        <div
-          ref={canvasRef}
-          className="relative w-full h-full cursor-crosshair"
-          onClick={handleCanvasClick}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          style={{
-            backgroundImage: `url(${mapImage})`,
-            backgroundSize: "contain",
-            backgroundPosition: "center",
-            backgroundRepeat: "no-repeat",
-          }}
-        >
-          <svg className="absolute inset-0 w-full h-full pointer-events-none">
-            {/* Draw paths */}
-            {paths.map((path) => {
-              const pathString = path.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
-              return (
-                <g key={path.id}>
+      <div className="flex-1 relative overflow-hidden bg-canvas-bg">
+        <div ref={viewportRef} className="absolute inset-0 overflow-auto">
+          <div
+            className="flex items-center justify-center"
+            style={{
+              width: Math.max(viewportSize.width, stageWidth),
+              height: Math.max(viewportSize.height, stageHeight),
+            }}
+          >
+            <div
+              ref={canvasRef}
+              className={`relative shrink-0 ${isSimulating ? "cursor-default" : isPickingColor ? "cursor-copy" : "cursor-crosshair"}`}
+              onClick={handleCanvasClick}
+              onMouseDown={handlePaintMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              style={{
+                width: stageWidth,
+                height: stageHeight,
+                backgroundImage: imageUrl ? `url(${imageUrl})` : undefined,
+                backgroundSize: "100% 100%",
+                backgroundRepeat: "no-repeat",
+              }}
+            >
+              {baseLayer && showBaseLayer && (
+                <BaseLayerOverlay layer={baseLayer} width={mapSize.width} height={mapSize.height} />
+              )}
+
+              {proposedObstacles ? (
+                <ObstacleOverlay layer={proposedObstacles} width={mapSize.width} height={mapSize.height} />
+              ) : (
+                obstacles &&
+                obstacles.gridSize === gridSize && (
+                  <ObstacleOverlay
+                    layer={obstacles}
+                    width={mapSize.width}
+                    height={mapSize.height}
+                    opacity={tool === "paint" ? 1 : 0.6}
+                  />
+                )
+              )}
+
+              {crowdDensity && (
+                <CrowdDensityOverlay estimate={crowdDensity} width={mapSize.width} height={mapSize.height} />
+              )}
+
+              {heatmap && showHeatmap && (
+                <TrafficHeatmapOverlay
+                  heatmap={heatmap}
+                  mapWidth={mapSize.width}
+                  mapHeight={mapSize.height}
+                  isAligning={isAligningHeatmap && !isSimulating}
+                  onMoveStart={(e) => startHeatmapDrag("move", e)}
+                  onScaleStart={(e) => startHeatmapDrag("scale", e)}
+                />
+              )}
+
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${mapSize.width} ${mapSize.height}`}
+                preserveAspectRatio="none"
+              >
+                {showGrid && gridSize > 0 && (
+                  <>
+                    <defs>
+                      <pattern
+                        id="map-grid"
+                        width={gridSize}
+                        height={gridSize}
+                        patternUnits="userSpaceOnUse"
+                      >
+                        <path
+                          d={`M ${gridSize} 0 L 0 0 0 ${gridSize}`}
+                          fill="none"
+                          stroke="rgba(59, 130, 246, 0.5)"
+                          strokeWidth={1 / scale}
+                        />
+                      </pattern>
+                    </defs>
+                    <rect width={mapSize.width} height={mapSize.height} fill="url(#map-grid)" />
+                  </>
+                )}
+
+                {/* Draw paths */}
+                {paths.map((path) => {
+                  const pathString = path.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+                  return (
+                    <g key={path.id}>
+                      <path
+                        d={pathString}
+                        stroke={getPathColor(path.id)}
+                        strokeWidth="3"
+                        fill="none"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        opacity="0.8"
+                        vectorEffect="non-scaling-stroke"
+                      />
+                      <path
+                        d={pathString}
+                        stroke="transparent"
+                        strokeWidth="15"
+                        fill="none"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        vectorEffect="non-scaling-stroke"
+                        style={{ cursor: tool === "select" ? "pointer" : "inherit", pointerEvents: "stroke" }}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (tool === "select") {
+                            setSelectedPath(path.id);
+                            setSelectedNode(null);
+                          }
+                        }}
+                        className={selectedPath === path.id ? "stroke-primary/20" : ""}
+                      />
+                    </g>
+                  );
+                })}
+
+                {/* Draw current path being drawn */}
+                {drawingPath.length > 0 && (
                   <path
-                    d={pathString}
+                    d={drawingPath.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')}
                     stroke={getPathColor()}
                     strokeWidth="3"
                     fill="none"
                     strokeLinecap="round"
                     strokeLinejoin="round"
-                    opacity="0.8"
+                    opacity="0.5"
+                    strokeDasharray="5,5"
+                    vectorEffect="non-scaling-stroke"
                   />
-                  <path
-                    d={pathString}
-                    stroke="transparent"
-                    strokeWidth="15"
-                    fill="none"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    style={{ cursor: tool === "select" ? "pointer" : "inherit", pointerEvents: "stroke" }}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      if (tool === "select") {
-                        setSelectedPath(path.id);
-                        setSelectedNode(null);
-                      }
-                    }}
-                    className={selectedPath === path.id ? "stroke-primary/20" : ""}
+                )}
+
+                {/* Paint previews, snapped to grid cells */}
+                {paintRect && (
+                  <rect
+                    x={Math.floor(Math.min(paintRect.start.x, paintRect.end.x) / gridSize) * gridSize}
+                    y={Math.floor(Math.min(paintRect.start.y, paintRect.end.y) / gridSize) * gridSize}
+                    width={
+                      (Math.floor(Math.max(paintRect.start.x, paintRect.end.x) / gridSize) -
+                        Math.floor(Math.min(paintRect.start.x, paintRect.end.x) / gridSize) +
+                        1) *
+                      gridSize
+                    }
+                    height={
+                      (Math.floor(Math.max(paintRect.start.y, paintRect.end.y) / gridSize) -
+                        Math.floor(Math.min(paintRect.start.y, paintRect.end.y) / gridSize) +
+                        1) *
+                      gridSize
+                    }
+                    fill="rgba(59, 130, 246, 0.2)"
+                    stroke="rgb(59, 130, 246)"
+                    strokeDasharray="4,4"
+                    vectorEffect="non-scaling-stroke"
                   />
-                </g>
-              );
-            })}
-
-            {/* Draw current path being drawn */}
-            {drawingPath.length > 0 && (
-              <path
-                d={drawingPath.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')}
-                stroke={getPathColor()}
-                strokeWidth="3"
-                fill="none"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                opacity="0.5"
-                strokeDasharray="5,5"
-              />
-            )}
-          </svg>
-
-          {/* Draw nodes */}
-          {nodes.map((node) => {
-            const isRecommended = recommendedBinIds.has(node.id);
-            const isSelected = selectedNode === node.id;
-            const outlineClass = isSelected
-              ? "outline outline-2 outline-primary/60"
-              : isRecommended
-                ? "outline outline-1 outline-accent/60"
-                : "";
-            const binDetails = recommendedBinDetails.get(node.id);
-            return (
-              <div
-                key={node.id}
-                className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-auto cursor-move group"
-                style={{
-                  left: node.x,
-                  top: node.y,
-                  width: 12,
-                  height: 12,
-                }}
-                onMouseDown={(e) => handleNodeMouseDown(node.id, e)}
-              >
-                <div
-                  className={`w-full h-full rounded-full border border-white shadow ${outlineClass}`}
-                  style={{ backgroundColor: getNodeColor(node.type) }}
+                )}
+                {/* Map scale reference line: the calibrated one, or the start of a new one */}
+                {mapScale && !georeference && referenceLine.length === 0 && (
+                  <line
+                    x1={mapScale.start.x}
+                    y1={mapScale.start.y}
+                    x2={mapScale.end.x}
+                    y2={mapScale.end.y}
+                    stroke="rgb(234, 88, 12)"
+                    strokeWidth="2"
+                    strokeDasharray="6,3"
+                    opacity={isCalibrating ? 0.4 : 0.8}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {referenceLine.map((point, idx) => (
+                  <circle
+                    key={idx}
+                    cx={point.x}
+                    cy={point.y}
+                    r={4 / scale}
+                    fill="rgb(234, 88, 12)"
+                  />
+                ))}
+                {/* Georeference pins, numbered as in the sidebar */}
+                {geoPins.map((pin, idx) => (
+                  <g key={`geo-pin-${idx}`}>
+                    <circle cx={pin.image.x} cy={pin.image.y} r={5 / scale} fill="rgb(13, 148, 136)" />
+                    <text
+                      x={pin.image.x + 7 / scale}
+                      y={pin.image.y - 7 / scale}
+                      fontSize={12 / scale}
+                      fontWeight="600"
+                      fill="rgb(13, 148, 136)"
+                    >
+                      {idx + 1}
+                    </text>
+                  </g>
+                ))}
+                {drawingPolygon.length > 0 && (
+                  <polygon
+                    points={drawingPolygon.map((p) => `${p.x},${p.y}`).join(" ")}
+                    fill="rgba(59, 130, 246, 0.2)"
+                    stroke="rgb(59, 130, 246)"
+                    strokeDasharray="4,4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+
+              {isSimulating && (
+                <SimulationCanvas
+                  agentPositions={simulation.agentPositions}
+                  trailField={simulation.trailField}
+                  litterField={simulation.litterField}
+                  gridCols={simulation.gridCols}
+                  gridSize={gridSize}
+                  width={mapSize.width}
+                  height={mapSize.height}
+                  showTrails={showTrails}
+                  showAgents={showAgents}
+                  showLitter={showLitter && Boolean(simulation.params.littering)}
                 />
-                <div className="pointer-events-none absolute -top-8 left-1/2 -translate-x-1/2 whitespace-nowrap px-1.5 py-1 rounded bg-card/95 text-[10px] text-foreground shadow opacity-0 group-hover:opacity-100 transition-opacity">
-                  <span className="font-semibold">{node.label}</span>
-                  {binDetails && (
-                    <span className="block text-[9px] text-muted-foreground/80">
-                      {Math.round(binDetails.utilization * 100)}% util • {binDetails.capturePerHour.toFixed(1)} cap/hr
+              )}
+
+              {/* Draw nodes */}
+              {nodes.map((node) => {
+                const isRecommended = recommendedBinIds.has(node.id);
+                const isSelected = selectedNode === node.id;
+                const outlineClass = isSelected
+                  ? "outline outline-2 outline-primary/60"
+                  : isRecommended
+                    ? "outline outline-1 outline-accent/60"
+                    : "";
+                const binDetails = recommendedBinDetails.get(node.id);
+                return (
+                  <div
+                    key={node.id}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-auto cursor-move group"
+                    style={{
+                      left: node.x * scale,
+                      top: node.y * scale,
+                      width: 12,
+                      height: 12,
+                    }}
+                    onMouseDown={(e) => handleNodeMouseDown(node.id, e)}
+                  >
+                    <div
+                      className={`w-full h-full rounded-full border border-white shadow ${outlineClass}`}
+                      style={{ backgroundColor: getNodeColor(node.type) }}
+                    />
+                    <div className="pointer-events-none absolute -top-8 left-1/2 -translate-x-1/2 whitespace-nowrap px-1.5 py-1 rounded bg-card/95 text-[10px] text-foreground shadow opacity-0 group-hover:opacity-100 transition-opacity">
+                      <span className="font-semibold">{node.label}</span>
+                      {binDetails && (
+                        <span className="block text-[9px] text-muted-foreground/80">
+                          {Math.round(binDetails.utilization * 100)}% util • {binDetails.capturePerHour.toFixed(1)} L/hr
+                          {binDetails.averageDistanceToVendors > 0 && Number.isFinite(binDetails.averageDistanceToVendors) &&
+                            ` • ${formatLength(binDetails.averageDistanceToVendors)} walk to vendors`}
+                        </span>
+                      )}
+                      {node.type === "bin" && (
+                        <span className="block text-[9px] text-muted-foreground/80">
+                          {BIN_STREAM_OPTIONS[binStreamOf(node)].label}
+                          {binDetails && binDetails.contaminationRisk > 0 &&
+                            ` • ${Math.round(binDetails.contaminationRisk * 100)}% contamination risk`}
+                        </span>
+                      )}
+                      {node.type === "vendor" && (
+                        <span className="block text-[9px] text-muted-foreground/80">
+                          {MENU_PROFILES[node.menuType ?? "general"].label}
+                        </span>
+                      )}
+                    </div>
+                    {isRecommended && node.type === "bin" && (
+                      <div className="pointer-events-none absolute top-full left-1/2 mt-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-accent text-accent-foreground text-[10px] font-semibold shadow opacity-0 group-hover:opacity-100 transition-opacity">
+                        Preferred
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {autoRecommendedBins.map((bin) => (
+                <div
+                  key={bin.id}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                  style={{
+                    left: bin.position.x * scale,
+                    top: bin.position.y * scale,
+                  }}
+                >
+                  <div className="w-3 h-3 rounded-full border border-dashed border-accent bg-accent/40 shadow" />
+                  <div className="mt-1 text-[10px] text-accent-foreground bg-accent/80 px-1.5 py-0.5 rounded shadow text-center">
+                    {bin.label}
+                    <span className="block text-[9px] text-accent-foreground/90">
+                      {Math.round(bin.utilization * 100)}% util • {bin.capturePerHour.toFixed(1)} L/hr
                     </span>
-                  )}
-                </div>
-                {isRecommended && node.type === "bin" && (
-                  <div className="pointer-events-none absolute top-full left-1/2 mt-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-accent text-accent-foreground text-[10px] font-semibold shadow opacity-0 group-hover:opacity-100 transition-opacity">
-                    Preferred
                   </div>
-                )}
-              </div>
-            );
-          })}
+                </div>
+              ))}
 
-          {autoRecommendedBins.map((bin) => (
-            <div
-              key={bin.id}
-              className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
-              style={{
-                left: bin.position.x,
-                top: bin.position.y,
-              }}
-            >
-              <div className="w-3 h-3 rounded-full border border-dashed border-accent bg-accent/40 shadow" />
-              <div className="mt-1 text-[10px] text-accent-foreground bg-accent/80 px-1.5 py-0.5 rounded shadow text-center">
-                {bin.label}
-                <span className="block text-[9px] text-accent-foreground/90">
-                  {Math.round(bin.utilization * 100)}% util • {bin.capturePerHour.toFixed(1)} cap/hr
-                </span>
-              </div>
+              {/* Draw points for current path */}
+              {drawingPath.map((point, i) => (
+                <div
+                  key={i}
+                  className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                  style={{ left: point.x * scale, top: point.y * scale }}
+                >
+                  <div className="w-3 h-3 rounded-full bg-white border-2 border-primary shadow-lg" />
+                </div>
+              ))}
             </div>
-          ))}
+          </div>
+        </div>
 
-          {/* Draw points for current path */}
-          {drawingPath.map((point, i) => (
-            <div
-              key={i}
-              className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
-              style={{ left: point.x, top: point.y }}
-            >
-              <div className="w-3 h-3 rounded-full bg-white border-2 border-primary shadow-lg" />
-            </div>
-          ))}
+        {/* View controls */}
+        <div className="absolute top-3 right-3 flex gap-1 rounded border bg-card/95 p-1 shadow">
+          <Button variant="ghost" size="sm" onClick={() => changeZoom(1 / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="px-1 self-center text-xs tabular-nums text-muted-foreground w-12 text-center">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setZoom(1)} title="Fit to screen">
+            <Maximize className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={showGrid ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setShowGrid(!showGrid)}
+            title={`Grid overlay (${gridSize}px)`}
+          >
+            <Grid3x3 className="h-4 w-4" />
+          </Button>
         </div>
       </div>
     </div>
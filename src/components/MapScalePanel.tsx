@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Ruler, Trash2 } from "lucide-react";
+import type { DistanceUnit, MapScale, Point } from "@/utils/mapTypes";
+import { UNIT_LABELS, metersToUnit, pixelsPerMeter, referenceLength, unitToMeters } from "@/utils/mapScale";
+
+interface MapScalePanelProps {
+  scale: MapScale | null;
+  distanceUnit: DistanceUnit;
+  onDistanceUnitChange: (unit: DistanceUnit) => void;
+  // A georeference sets the scale; the reference line is then ignored.
+  isGeoreferenced: boolean;
+  isCalibrating: boolean;
+  onToggleCalibrating: () => void;
+  // Points of the reference line drawn so far (at most two).
+  referenceLine: Point[];
+  onChange: (scale: MapScale) => void;
+  onRemove: () => void;
+}
+
+export const MapScalePanel = ({
+  scale,
+  distanceUnit,
+  onDistanceUnitChange,
+  isGeoreferenced,
+  isCalibrating,
+  onToggleCalibrating,
+  referenceLine,
+  onChange,
+  onRemove,
+}: MapScalePanelProps) => {
+  const unit = UNIT_LABELS[distanceUnit];
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+        <Ruler className="h-4 w-4" />
+        Map Scale
+      </h3>
+      <div className="grid grid-cols-2 gap-1">
+        {(Object.keys(UNIT_LABELS) as DistanceUnit[]).map((option) => (
+          <Button
+            key={option}
+            variant={distanceUnit === option ? "secondary" : "outline"}
+            size="sm"
+            className="text-xs"
+            onClick={() => onDistanceUnitChange(option)}
+          >
+            {UNIT_LABELS[option].long}
+          </Button>
+        ))}
+      </div>
+      {isGeoreferenced ? (
+        <p className="text-xs text-muted-foreground">
+          The scale comes from the georeference. Distances, costs and the assistant use {unit.long}.
+        </p>
+      ) : scale ? (
+        <>
+          <div>
+            <Label className="text-xs">Reference line length ({unit.short})</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={Math.round(metersToUnit(scale.meters, distanceUnit) * 10) / 10}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!Number.isFinite(value) || value <= 0) return;
+                onChange({ ...scale, meters: unitToMeters(value, distanceUnit) });
+              }}
+              className="h-8 text-xs"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The reference line spans {Math.round(referenceLength(scale))} px, so the map has{" "}
+            {Math.round(pixelsPerMeter(scale) * 10) / 10} px per meter. Distances, costs and the assistant use{" "}
+            {unit.long}.
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Not calibrated: distances assume {pixelsPerMeter(null)} px per meter. Draw a line over something of known
+          length, such as a tent or a marked lane, and enter its real length.
+        </p>
+      )}
+      {isCalibrating && !isGeoreferenced && (
+        <p className="text-xs text-muted-foreground">
+          {referenceLine.length === 0
+            ? "Click the start of the reference line on the map."
+            : "Click the end of the reference line."}
+        </p>
+      )}
+      {!isGeoreferenced && (
+        <div className="grid grid-cols-2 gap-1">
+          <Button
+            variant={isCalibrating ? "default" : "outline"}
+            size="sm"
+            className="text-xs px-1"
+            onClick={onToggleCalibrating}
+          >
+            <Ruler className="h-3 w-3 mr-1" />
+            {isCalibrating ? "Cancel" : scale ? "Redraw" : "Calibrate"}
+          </Button>
+          <Button variant="outline" size="sm" className="text-xs px-1" onClick={onRemove} disabled={!scale}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+
+interface MinutesInputProps {
+  // undefined shows the placeholder; only reachable with `optional`.
+  value: number | undefined;
+  min: number;
+  onChange: (value: number | undefined) => void;
+  // Clearing the field commits undefined instead of the minimum.
+  optional?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+const textOf = (value: number | undefined) => (value === undefined ? "" : String(value));
+
+// Keeps what is typed until the field loses focus, so "15" can be typed even
+// though "1" alone is below the minimum. Values in range apply as they are typed.
+export const MinutesInput = ({ value, min, onChange, optional = false, placeholder, className }: MinutesInputProps) => {
+  const [text, setText] = useState(textOf(value));
+
+  useEffect(() => setText(textOf(value)), [value]);
+
+  const commit = () => {
+    const parsed = parseInt(text, 10);
+    const next = text.trim() === "" && optional ? undefined : Math.max(min, Number.isNaN(parsed) ? min : parsed);
+    setText(textOf(next));
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={min}
+      placeholder={placeholder}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseInt(e.target.value, 10);
+        if (parsed >= min && parsed !== value) onChange(parsed);
+      }}
+      onBlur={commit}
+      className={className}
+    />
+  );
+};
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+import {
+  CELL_NO_GO,
+  CELL_WALKABLE,
+  CELL_WALL,
+  type CellKind,
+  type ObstacleLayer,
+} from "@/utils/mapTypes";
+
+interface ObstacleOverlayProps {
+  layer: ObstacleLayer;
+  width: number;
+  height: number;
+  opacity?: number;
+}
+
+const CELL_COLORS: Partial<Record<CellKind, string>> = {
+  [CELL_WALL]: "rgba(30, 30, 30, 0.6)",
+  [CELL_NO_GO]: "rgba(220, 38, 38, 0.4)",
+  [CELL_WALKABLE]: "rgba(34, 197, 94, 0.35)",
+};
+
+export const ObstacleOverlay = ({ layer, width, height, opacity = 1 }: ObstacleOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+
+    const { gridSize, rows, cols, cells } = layer;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const color = CELL_COLORS[cells[r * cols + c]];
+        if (color) {
+          ctx.fillStyle = color;
+          ctx.fillRect(c * gridSize, r * gridSize, gridSize, gridSize);
+        }
+      }
+    }
+  }, [layer, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ opacity }}
+    />
+  );
+};
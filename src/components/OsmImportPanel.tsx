@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff, Map as MapIcon, Trash2 } from "lucide-react";
+import type { BaseLayer } from "@/utils/mapTypes";
+import type { GeoBounds } from "@/utils/osmImport";
+
+interface OsmImportPanelProps {
+  baseLayer: BaseLayer | null;
+  isLoading: boolean;
+  showBaseLayer: boolean;
+  onToggleBaseLayer: () => void;
+  // `bounds` is null to use the extract's own bounds.
+  onImport: (file: File, bounds: GeoBounds | null) => void;
+  onRemove: () => void;
+}
+
+const BOUND_FIELDS: [keyof GeoBounds, string][] = [
+  ["minLat", "South (lat)"],
+  ["maxLat", "North (lat)"],
+  ["minLon", "West (lon)"],
+  ["maxLon", "East (lon)"],
+];
+
+export const OsmImportPanel = ({
+  baseLayer,
+  isLoading,
+  showBaseLayer,
+  onToggleBaseLayer,
+  onImport,
+  onRemove,
+}: OsmImportPanelProps) => {
+  const [bounds, setBounds] = useState<Record<keyof GeoBounds, string>>({
+    minLat: "",
+    maxLat: "",
+    minLon: "",
+    maxLon: "",
+  });
+
+  const parsedBounds = (): GeoBounds | null => {
+    const values = BOUND_FIELDS.map(([field]) => parseFloat(bounds[field]));
+    if (values.some((value) => !Number.isFinite(value))) return null;
+    const [minLat, maxLat, minLon, maxLon] = values;
+    return { minLat, maxLat, minLon, maxLon };
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+        <MapIcon className="h-4 w-4" />
+        OpenStreetMap Import
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Load an .osm or .pbf extract. Footways become walkways, plazas walkable areas, buildings and barriers
+        walls, and waste baskets, recycling points, food vendors and entrances become nodes. This replaces the
+        current layout (undo restores it) and sets the map scale.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {BOUND_FIELDS.map(([field, label]) => (
+          <div key={field}>
+            <Label className="text-xs">{label}</Label>
+            <Input
+              type="number"
+              step="any"
+              value={bounds[field]}
+              placeholder="From file"
+              onChange={(e) => setBounds({ ...bounds, [field]: e.target.value })}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <Input
+        type="file"
+        accept=".osm,.xml,.pbf"
+        disabled={isLoading}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file, parsedBounds());
+          e.target.value = "";
+        }}
+        className="h-8 text-xs cursor-pointer"
+      />
+      {baseLayer && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Base layer: {baseLayer.name} ({baseLayer.shapes.length} outlines).
+          </p>
+          <div className="grid grid-cols-2 gap-1">
+            <Button variant="outline" size="sm" className="text-xs px-1" onClick={onToggleBaseLayer}>
+              {showBaseLayer ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+              {showBaseLayer ? "Hide" : "Show"}
+            </Button>
+            <Button variant="outline" size="sm" className="text-xs px-1" onClick={onRemove}>
+              <Trash2 className="h-3 w-3 mr-1" />
+              Remove
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import type { ParetoPoint } from "@/utils/paretoFront";
+
+interface ParetoFrontChartProps {
+  points: ParetoPoint[];
+  // Bin count of the layout currently on the map, if it came from the sweep.
+  activeBinCount: number | null;
+  onSelect: (point: ParetoPoint) => void;
+  formatLength: (pixels: number) => string;
+}
+
+const chartConfig = {
+  front: { label: "Pareto front", color: "hsl(var(--primary))" },
+  dominated: { label: "Dominated", color: "hsl(var(--muted-foreground))" },
+  loaded: { label: "On map", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+interface ChartPoint extends ParetoPoint {
+  capturePercent: number;
+  walkLabel: string;
+}
+
+const ParetoTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: ChartPoint }[] }) => {
+  const point = active ? payload?.[0]?.payload : null;
+  if (!point) return null;
+  return (
+    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-0.5">
+      <div className="font-medium">
+        {point.binCount} bin{point.binCount === 1 ? "" : "s"}
+        {point.dominated ? " (dominated)" : ""}
+      </div>
+      <div className="text-muted-foreground">Cost: ${point.totalCost.toLocaleString()}</div>
+      <div className="text-muted-foreground">Capture: {point.capturePercent}%</div>
+      <div className="text-muted-foreground">Avg walk to bin: {point.walkLabel}</div>
+      <div className="text-muted-foreground">Click to load this layout</div>
+    </div>
+  );
+};
+
+// Cost against capture for each swept bin count; dot size follows the walk
+// from vendors to the nearest bin.
+export const ParetoFrontChart = ({ points, activeBinCount, onSelect, formatLength }: ParetoFrontChartProps) => {
+  const data: ChartPoint[] = points.map((point) => ({
+    ...point,
+    capturePercent: Math.round(point.captureRate * 100),
+    walkLabel: formatLength(point.averageWalkingDistance),
+  }));
+  const select = (entry: { payload?: ChartPoint }) => {
+    if (entry.payload) onSelect(entry.payload);
+  };
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+      <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="totalCost"
+          name="Cost"
+          tickFormatter={(value: number) => `$${value.toLocaleString()}`}
+          domain={["dataMin", "dataMax"]}
+        />
+        <YAxis type="number" dataKey="capturePercent" name="Capture" unit="%" domain={[0, 100]} />
+        <ZAxis type="number" dataKey="averageWalkingDistance" range={[40, 200]} />
+        <ChartTooltip cursor={false} content={<ParetoTooltip />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Scatter
+          name="front"
+          data={data.filter((point) => !point.dominated)}
+          fill="var(--color-front)"
+          line={{ stroke: "var(--color-front)" }}
+          className="cursor-pointer"
+          onClick={select}
+        />
+        <Scatter
+          name="dominated"
+          data={data.filter((point) => point.dominated)}
+          fill="var(--color-dominated)"
+          className="cursor-pointer"
+          onClick={select}
+        />
+        <Scatter
+          name="loaded"
+          data={data.filter((point) => point.binCount === activeBinCount)}
+          fill="none"
+          stroke="var(--color-loaded)"
+          strokeWidth={2}
+          className="cursor-pointer"
+          onClick={select}
+        />
+      </ScatterChart>
+    </ChartContainer>
+  );
+};
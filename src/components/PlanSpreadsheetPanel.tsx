@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { Download, FileSpreadsheet } from "lucide-react";
+
+export type PlanTableName = "Bins" | "Vendors" | "Walkways";
+
+interface PlanSpreadsheetPanelProps {
+  hasReport: boolean;
+  onExportCsv: (table: PlanTableName) => void;
+  onExportXlsx: () => void;
+}
+
+const TABLES: PlanTableName[] = ["Bins", "Vendors", "Walkways"];
+
+export const PlanSpreadsheetPanel = ({ hasReport, onExportCsv, onExportXlsx }: PlanSpreadsheetPanelProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+      <FileSpreadsheet className="h-4 w-4" />
+      Spreadsheet Export
+    </h3>
+    <p className="text-xs text-muted-foreground">
+      Bins with their capacity, capture, utilization and distances, plus vendors and walkways. Each table has a units
+      row under its headers.
+      {!hasReport && " Generate a report to fill in the bin metrics."}
+    </p>
+    <div className="grid grid-cols-3 gap-1">
+      {TABLES.map((table) => (
+        <Button key={table} variant="outline" size="sm" className="text-xs px-1" onClick={() => onExportCsv(table)}>
+          {table} CSV
+        </Button>
+      ))}
+    </div>
+    <Button variant="outline" size="sm" className="w-full text-xs" onClick={onExportXlsx}>
+      <Download className="h-3 w-3 mr-1" />
+      Export workbook (XLSX)
+    </Button>
+  </div>
+);
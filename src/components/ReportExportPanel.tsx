@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileDown, Trash2 } from "lucide-react";
+import type { PdfImage } from "@/utils/pdfWriter";
+
+interface ReportExportPanelProps {
+  headerTitle: string;
+  onHeaderTitleChange: (title: string) => void;
+  logo: PdfImage | null;
+  onLogoUpload: (file: File) => void;
+  onLogoRemove: () => void;
+  isExporting: boolean;
+  onExport: () => void;
+}
+
+export const ReportExportPanel = ({
+  headerTitle,
+  onHeaderTitleChange,
+  logo,
+  onLogoUpload,
+  onLogoRemove,
+  isExporting,
+  onExport,
+}: ReportExportPanelProps) => (
+  <div className="space-y-2">
+    <div>
+      <h3 className="text-sm font-medium text-foreground">Planning Report</h3>
+      <p className="text-xs text-muted-foreground">
+        A printable PDF with the annotated map, these metrics, the per-bin table, notes, planning inputs and the
+        assistant&apos;s explanation.
+      </p>
+    </div>
+    <div>
+      <Label className="text-xs">Header title</Label>
+      <Input
+        value={headerTitle}
+        placeholder="e.g. your organization"
+        onChange={(e) => onHeaderTitleChange(e.target.value)}
+        className="h-8 text-xs"
+      />
+    </div>
+    <div>
+      <Label className="text-xs">Header logo</Label>
+      {logo ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            Logo set ({logo.width}×{logo.height} px)
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 text-xs px-2" onClick={onLogoRemove}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <Input
+          type="file"
+          accept="image/png,image/jpeg,image/webp,image/svg+xml"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLogoUpload(file);
+            e.target.value = "";
+          }}
+          className="h-8 text-xs cursor-pointer"
+        />
+      )}
+    </div>
+    <Button size="sm" className="w-full text-xs" onClick={onExport} disabled={isExporting}>
+      <FileDown className="h-3 w-3 mr-1" />
+      {isExporting ? "Building PDF..." : "Download PDF report"}
+    </Button>
+  </div>
+);
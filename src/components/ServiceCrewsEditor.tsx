@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MinutesInput } from "@/components/MinutesInput";
+import { Plus, Trash2, Truck } from "lucide-react";
+import type { Node, ServiceCrew } from "@/utils/mapTypes";
+import { MIN_EMPTY_EVERY_MINUTES } from "@/utils/binFill";
+
+interface ServiceCrewsEditorProps {
+  crews: ServiceCrew[];
+  bins: Node[];
+  defaultEmptyEveryMinutes: number;
+  onChange: (crews: ServiceCrew[]) => void;
+}
+
+const parseMinutes = (value: string, min: number) => Math.max(min, parseInt(value, 10) || min);
+
+export const ServiceCrewsEditor = ({ crews, bins, defaultEmptyEveryMinutes, onChange }: ServiceCrewsEditorProps) => {
+  const updateCrew = (crewId: string, changes: Partial<ServiceCrew>) => {
+    onChange(crews.map((crew) => (crew.id === crewId ? { ...crew, ...changes } : crew)));
+  };
+
+  const addCrew = () => {
+    onChange([
+      ...crews,
+      {
+        id: `crew-${Date.now()}`,
+        name: `Crew ${crews.length + 1}`,
+        emptyEveryMinutes: defaultEmptyEveryMinutes,
+        firstEmptyingMinutes: defaultEmptyEveryMinutes,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          Service Crews
+        </h3>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addCrew}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add crew
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {crews.length === 0
+          ? `Every bin is emptied every ${defaultEmptyEveryMinutes} min. Add crews to run separate rounds.`
+          : "Assign bins to a crew from the Selected Node panel; unassigned bins use the default interval."}
+      </p>
+
+      {crews.length > 0 && (
+        <>
+          <div className="grid grid-cols-[1fr_3.5rem_3.5rem_2rem_1.5rem] gap-1 text-[10px] text-muted-foreground">
+            <span>Name</span>
+            <span>Every (min)</span>
+            <span>First at</span>
+            <span>Bins</span>
+            <span />
+          </div>
+          <div className="space-y-1">
+            {crews.map((crew) => (
+              <div key={crew.id} className="grid grid-cols-[1fr_3.5rem_3.5rem_2rem_1.5rem] gap-1 items-center">
+                <Input
+                  value={crew.name}
+                  onChange={(e) => updateCrew(crew.id, { name: e.target.value })}
+                  className="h-7 text-xs px-1"
+                />
+                <MinutesInput
+                  min={MIN_EMPTY_EVERY_MINUTES}
+                  value={crew.emptyEveryMinutes}
+                  onChange={(emptyEveryMinutes) =>
+                    updateCrew(crew.id, { emptyEveryMinutes: emptyEveryMinutes ?? MIN_EMPTY_EVERY_MINUTES })
+                  }
+                  className="h-7 text-xs px-1"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  value={crew.firstEmptyingMinutes}
+                  onChange={(e) => updateCrew(crew.id, { firstEmptyingMinutes: parseMinutes(e.target.value, 0) })}
+                  className="h-7 text-xs px-1"
+                />
+                <span className="text-xs tabular-nums text-center">
+                  {bins.filter((bin) => bin.crewId === crew.id).length}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-6 p-0"
+                  onClick={() => onChange(crews.filter((candidate) => candidate.id !== crew.id))}
+                  title={`Remove ${crew.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,31 +1,32 @@
 import { useEffect, useRef } from "react";
 
-interface Agent {
-  id: string;
-  x: number;
-  y: number;
-  targetNodeId: string;
-  path: { x: number; y: number }[];
-}
-
 interface SimulationCanvasProps {
-  agents: Agent[];
-  trailField: number[][];
+  // Interleaved [x0, y0, x1, y1, ...] in image pixels.
+  agentPositions: Float32Array;
+  // Row-major trail intensities, `gridCols` cells per row.
+  trailField: Float32Array;
+  // Row-major litter counts on the same grid.
+  litterField: Float32Array;
+  gridCols: number;
   gridSize: number;
   width: number;
   height: number;
   showTrails: boolean;
   showAgents: boolean;
+  showLitter: boolean;
 }
 
 export const SimulationCanvas = ({
-  agents,
+  agentPositions,
   trailField,
+  litterField,
+  gridCols,
   gridSize,
   width,
   height,
   showTrails,
-  showAgents
+  showAgents,
+  showLitter
 }: SimulationCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -40,46 +41,70 @@ export const SimulationCanvas = ({
     ctx.clearRect(0, 0, width, height);
 
     // Draw trail heatmap
-    if (showTrails && trailField.length > 0) {
-      const maxTrail = Math.max(...trailField.flat());
-      
-      for (let r = 0; r < trailField.length; r++) {
-        for (let c = 0; c < trailField[r].length; c++) {
-          const intensity = trailField[r][c] / (maxTrail || 1);
-          if (intensity > 0.01) {
-            const alpha = Math.min(intensity, 0.7);
-            ctx.fillStyle = `rgba(255, 100, 0, ${alpha})`;
-            ctx.fillRect(
-              c * gridSize,
-              r * gridSize,
-              gridSize,
-              gridSize
-            );
-          }
+    if (showTrails && trailField.length > 0 && gridCols > 0) {
+      let maxTrail = 0;
+      for (let i = 0; i < trailField.length; i++) {
+        if (trailField[i] > maxTrail) maxTrail = trailField[i];
+      }
+
+      for (let i = 0; i < trailField.length; i++) {
+        const intensity = trailField[i] / (maxTrail || 1);
+        if (intensity > 0.01) {
+          const alpha = Math.min(intensity, 0.7);
+          ctx.fillStyle = `rgba(255, 100, 0, ${alpha})`;
+          ctx.fillRect(
+            (i % gridCols) * gridSize,
+            Math.floor(i / gridCols) * gridSize,
+            gridSize,
+            gridSize
+          );
         }
       }
     }
 
-    // Draw agents
-    if (showAgents) {
-      agents.forEach(agent => {
-        ctx.beginPath();
-        ctx.arc(agent.x, agent.y, 4, 0, Math.PI * 2);
-        ctx.fillStyle = 'hsl(210, 100%, 50%)';
-        ctx.fill();
-        ctx.strokeStyle = 'white';
-        ctx.lineWidth = 1;
-        ctx.stroke();
-      });
+    // Draw litter hotspots on top of the trails
+    if (showLitter && litterField.length > 0 && gridCols > 0) {
+      let maxLitter = 0;
+      for (let i = 0; i < litterField.length; i++) {
+        if (litterField[i] > maxLitter) maxLitter = litterField[i];
+      }
+
+      for (let i = 0; i < litterField.length; i++) {
+        if (litterField[i] === 0) continue;
+        const alpha = 0.25 + 0.6 * (litterField[i] / maxLitter);
+        ctx.fillStyle = `rgba(140, 0, 160, ${alpha})`;
+        ctx.fillRect(
+          (i % gridCols) * gridSize,
+          Math.floor(i / gridCols) * gridSize,
+          gridSize,
+          gridSize
+        );
+      }
+    }
+
+    // Draw agents as a single path so thousands of them stay cheap to paint
+    if (showAgents && agentPositions.length > 0) {
+      ctx.beginPath();
+      for (let i = 0; i < agentPositions.length; i += 2) {
+        const x = agentPositions[i];
+        const y = agentPositions[i + 1];
+        ctx.moveTo(x + 4, y);
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+      }
+      ctx.fillStyle = 'hsl(210, 100%, 50%)';
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 1;
+      ctx.stroke();
     }
-  }, [agents, trailField, gridSize, width, height, showTrails, showAgents]);
+  }, [agentPositions, trailField, litterField, gridCols, gridSize, width, height, showTrails, showAgents, showLitter]);
 
   return (
     <canvas
       ref={canvasRef}
       width={width}
       height={height}
-      className="absolute inset-0 pointer-events-none"
+      className="absolute inset-0 w-full h-full pointer-events-none"
       style={{ mixBlendMode: 'multiply' }}
     />
   );
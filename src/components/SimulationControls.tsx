@@ -4,8 +4,12 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import { Play, Pause, RotateCcw, BarChart3, Settings2 } from "lucide-react";
+import { Play, Pause, RotateCcw, StepForward, BarChart3, Settings2, Dices, Repeat } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { normalizeSeed, randomSeed } from "@/utils/random";
+import type { LitteringParams } from "@/utils/simulationEngine";
+import type { DistanceUnit, MapScale } from "@/utils/mapTypes";
+import { UNIT_LABELS, formatDistance, pixelsToUnit, unitToPixels } from "@/utils/mapScale";
 import {
   Collapsible,
   CollapsibleContent,
@@ -17,13 +21,22 @@ interface SimulationControlsProps {
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
+  onReplay: () => void;
+  onStep: () => void;
+  stepsPerFrame: number;
+  onStepsPerFrameChange: (steps: number) => void;
   statistics: {
     stepCount: number;
     totalAgents: number;
     avgDistanceTraveled: string;
     maxCongestion: number;
     avgCongestion: string;
+    itemsAcquired: number;
+    itemsDeposited: number;
+    itemsLittered: number;
   };
+  // Current event timeline phase, when the layout has a timeline.
+  phaseLabel?: string | null;
   params: {
     numAgents: number;
     staticWeight: number;
@@ -31,12 +44,21 @@ interface SimulationControlsProps {
     randomness: number;
     decayRate: number;
     diffusionRate: number;
+    seed: number;
+    littering?: LitteringParams | null;
   };
-  onParamsChange: (params: any) => void;
+  // Used when littering is switched back on.
+  defaultLittering: LitteringParams;
+  onParamsChange: (params: SimulationControlsProps["params"]) => void;
   showTrails: boolean;
   showAgents: boolean;
+  showLitter: boolean;
   onShowTrailsChange: (show: boolean) => void;
   onShowAgentsChange: (show: boolean) => void;
+  onShowLitterChange: (show: boolean) => void;
+  // Distances are simulated in map pixels and shown in the project's unit.
+  scale: MapScale | null;
+  distanceUnit: DistanceUnit;
 }
 
 export const SimulationControls = ({
@@ -44,15 +66,31 @@ export const SimulationControls = ({
   onStart,
   onPause,
   onReset,
+  onReplay,
+  onStep,
+  stepsPerFrame,
+  onStepsPerFrameChange,
   statistics,
+  phaseLabel,
   params,
+  defaultLittering,
   onParamsChange,
   showTrails,
   showAgents,
+  showLitter,
   onShowTrailsChange,
   onShowAgentsChange,
+  onShowLitterChange,
+  scale,
+  distanceUnit,
 }: SimulationControlsProps) => {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const { littering } = params;
+
+  const updateLittering = (changes: Partial<LitteringParams>) => {
+    if (!littering) return;
+    onParamsChange({ ...params, littering: { ...littering, ...changes } });
+  };
 
   return (
     <Card className="p-4 space-y-4">
@@ -74,11 +112,53 @@ export const SimulationControls = ({
               Pause
             </Button>
           )}
-          <Button onClick={onReset} variant="outline" size="sm">
+          <Button onClick={onStep} variant="outline" size="sm" disabled={isRunning} title="Step once">
+            <StepForward className="h-4 w-4" />
+          </Button>
+          <Button onClick={onReset} variant="outline" size="sm" title="Reset">
             <RotateCcw className="h-4 w-4" />
           </Button>
         </div>
 
+        <div className="mb-4 space-y-1">
+          <Label className="text-xs">Seed</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="0"
+              value={params.seed}
+              onChange={(e) => onParamsChange({ ...params, seed: normalizeSeed(parseInt(e.target.value) || 0) })}
+              className="h-8 text-xs"
+            />
+            <Button
+              onClick={() => onParamsChange({ ...params, seed: randomSeed() })}
+              variant="outline"
+              size="sm"
+              title="New random seed"
+            >
+              <Dices className="h-4 w-4" />
+            </Button>
+            <Button onClick={onReplay} variant="outline" size="sm" title="Replay this run from step 0">
+              <Repeat className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The same layout, parameters and seed always replay the same run.
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <Label className="text-xs">Speed: {stepsPerFrame} step{stepsPerFrame === 1 ? "" : "s"}/frame</Label>
+          <input
+            type="range"
+            min="1"
+            max="20"
+            value={stepsPerFrame}
+            onChange={(e) => onStepsPerFrameChange(parseInt(e.target.value) || 1)}
+            className="w-full"
+          />
+        </div>
+
         <div className="space-y-2 mb-4">
           <label className="flex items-center space-x-2 cursor-pointer text-sm">
             <input
@@ -98,6 +178,16 @@ export const SimulationControls = ({
             />
             <span>Show Trails</span>
           </label>
+          <label className="flex items-center space-x-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={showLitter}
+              disabled={!littering}
+              onChange={(e) => onShowLitterChange(e.target.checked)}
+              className="rounded"
+            />
+            <span>Show Litter</span>
+          </label>
         </div>
       </div>
 
@@ -113,13 +203,19 @@ export const SimulationControls = ({
             <span className="text-muted-foreground">Step:</span>
             <Badge variant="secondary">{statistics.stepCount}</Badge>
           </div>
+          {phaseLabel && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Phase:</span>
+              <span className="font-medium">{phaseLabel}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-muted-foreground">Agents:</span>
             <span className="font-medium">{statistics.totalAgents}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Avg Distance:</span>
-            <span className="font-medium">{statistics.avgDistanceTraveled}px</span>
+            <span className="font-medium">{formatDistance(parseFloat(statistics.avgDistanceTraveled), scale, distanceUnit)}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Max Congestion:</span>
@@ -129,6 +225,20 @@ export const SimulationControls = ({
             <span className="text-muted-foreground">Avg Congestion:</span>
             <span className="font-medium">{statistics.avgCongestion}</span>
           </div>
+          {littering && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Items Bought:</span>
+                <span className="font-medium">{statistics.itemsAcquired}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Binned / Littered:</span>
+                <span className="font-medium">
+                  {statistics.itemsDeposited} / {statistics.itemsLittered}
+                </span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -147,7 +257,7 @@ export const SimulationControls = ({
             <Input
               type="number"
               min="1"
-              max="500"
+              max="20000"
               value={params.numAgents}
               onChange={(e) => onParamsChange({ ...params, numAgents: parseInt(e.target.value) || 50 })}
               className="h-8 text-xs"
@@ -207,6 +317,55 @@ export const SimulationControls = ({
               className="h-8 text-xs"
             />
           </div>
+          <label className="flex items-center space-x-2 cursor-pointer text-xs">
+            <input
+              type="checkbox"
+              checked={Boolean(littering)}
+              onChange={(e) => onParamsChange({ ...params, littering: e.target.checked ? defaultLittering : null })}
+              className="rounded"
+            />
+            <span>Agents buy and discard items</span>
+          </label>
+          {littering && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs">Carry min (steps)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={littering.carryStepsMin}
+                    onChange={(e) => updateLittering({ carryStepsMin: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Carry max (steps)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={littering.carryStepsMax}
+                    onChange={(e) => updateLittering({ carryStepsMax: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs">Willingness to walk to a bin ({UNIT_LABELS[distanceUnit].short})</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={Math.round(pixelsToUnit(littering.willingnessToWalk, scale, distanceUnit))}
+                  onChange={(e) =>
+                    updateLittering({
+                      willingnessToWalk: unitToPixels(Math.max(0, parseFloat(e.target.value) || 0), scale, distanceUnit),
+                    })
+                  }
+                  className="h-8 text-xs"
+                />
+              </div>
+            </>
+          )}
         </CollapsibleContent>
       </Collapsible>
     </Card>
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import type { TrafficHeatmap } from "@/utils/mapTypes";
+import { heatColor } from "@/utils/trafficHeatmap";
+
+interface TrafficHeatmapOverlayProps {
+  heatmap: TrafficHeatmap;
+  mapWidth: number;
+  mapHeight: number;
+  // Shows the move area and scale handle used to register the heatmap.
+  isAligning: boolean;
+  onMoveStart: (e: React.MouseEvent) => void;
+  onScaleStart: (e: React.MouseEvent) => void;
+}
+
+export const TrafficHeatmapOverlay = ({
+  heatmap,
+  mapWidth,
+  mapHeight,
+  isAligning,
+  onMoveStart,
+  onScaleStart,
+}: TrafficHeatmapOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    // One canvas pixel per heatmap cell; the browser smooths it when stretched.
+    const { rows, cols, values } = heatmap;
+    const image = ctx.createImageData(cols, rows);
+    values.forEach((value, idx) => {
+      image.data.set(heatColor(value), idx * 4);
+    });
+    ctx.putImageData(image, 0, 0);
+  }, [heatmap]);
+
+  return (
+    <div
+      className={`absolute ${isAligning ? "cursor-move outline outline-2 outline-primary" : "pointer-events-none"}`}
+      style={{
+        left: `${(heatmap.x / mapWidth) * 100}%`,
+        top: `${(heatmap.y / mapHeight) * 100}%`,
+        width: `${(heatmap.width / mapWidth) * 100}%`,
+        height: `${(heatmap.height / mapHeight) * 100}%`,
+      }}
+      onMouseDown={isAligning ? onMoveStart : undefined}
+      onClick={(e) => isAligning && e.stopPropagation()}
+    >
+      <canvas
+        ref={canvasRef}
+        width={heatmap.cols}
+        height={heatmap.rows}
+        className="w-full h-full opacity-60"
+      />
+      {isAligning && (
+        <div
+          className="absolute -bottom-1.5 -right-1.5 h-3 w-3 rounded-sm border border-background bg-primary cursor-nwse-resize"
+          onMouseDown={onScaleStart}
+        />
+      )}
+    </div>
+  );
+};
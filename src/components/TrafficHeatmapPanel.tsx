@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff, Flame, Move, Trash2 } from "lucide-react";
+import type { TrafficHeatmap } from "@/utils/mapTypes";
+
+interface TrafficHeatmapPanelProps {
+  heatmap: TrafficHeatmap | null;
+  isLoading: boolean;
+  showOverlay: boolean;
+  onToggleOverlay: () => void;
+  isAligning: boolean;
+  onToggleAligning: () => void;
+  onUpload: (file: File) => void;
+  onChange: (heatmap: TrafficHeatmap) => void;
+  onRemove: () => void;
+}
+
+const PLACEMENT_FIELDS: [keyof Pick<TrafficHeatmap, "x" | "y" | "width" | "height">, string][] = [
+  ["x", "Offset X (px)"],
+  ["y", "Offset Y (px)"],
+  ["width", "Width (px)"],
+  ["height", "Height (px)"],
+];
+
+export const TrafficHeatmapPanel = ({
+  heatmap,
+  isLoading,
+  showOverlay,
+  onToggleOverlay,
+  isAligning,
+  onToggleAligning,
+  onUpload,
+  onChange,
+  onRemove,
+}: TrafficHeatmapPanelProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground flex items-center gap-1">
+      <Flame className="h-4 w-4" />
+      Foot-traffic Heatmap
+    </h3>
+    <Input
+      type="file"
+      accept="image/*,.csv,.tsv,.txt"
+      disabled={isLoading}
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) onUpload(file);
+        e.target.value = "";
+      }}
+      className="h-8 text-xs cursor-pointer"
+    />
+    {heatmap ? (
+      <>
+        <p className="text-xs text-muted-foreground">
+          {heatmap.name} ({heatmap.source === "csv" ? "CSV" : "image"}, {heatmap.cols}×{heatmap.rows} cells). Attendee
+          waste and simulated arrivals follow its density.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {PLACEMENT_FIELDS.map(([field, label]) => (
+            <div key={field}>
+              <Label className="text-xs">{label}</Label>
+              <Input
+                type="number"
+                min={field === "width" || field === "height" ? "1" : undefined}
+                value={Math.round(heatmap[field])}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!Number.isFinite(value)) return;
+                  const isSize = field === "width" || field === "height";
+                  onChange({ ...heatmap, [field]: isSize ? Math.max(1, value) : value });
+                }}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          <Button variant={isAligning ? "default" : "outline"} size="sm" className="text-xs px-1" onClick={onToggleAligning}>
+            <Move className="h-3 w-3 mr-1" />
+            Align
+          </Button>
+          <Button variant="outline" size="sm" className="text-xs px-1" onClick={onToggleOverlay}>
+            {showOverlay ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+            {showOverlay ? "Hide" : "Show"}
+          </Button>
+          <Button variant="outline" size="sm" className="text-xs px-1" onClick={onRemove}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Remove
+          </Button>
+        </div>
+        {isAligning && (
+          <p className="text-xs text-muted-foreground">
+            Drag the heatmap to move it and its corner handle to scale it over the venue.
+          </p>
+        )}
+      </>
+    ) : (
+      <p className="text-xs text-muted-foreground">
+        Upload a heatmap image (blue = quiet, red = busy) or a CSV grid of counts. Without one, attendee waste
+        follows the foot traffic routed from entries to vendors.
+      </p>
+    )}
+  </div>
+);
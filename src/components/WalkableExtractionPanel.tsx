@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Pipette, Wand2, X } from "lucide-react";
+import type { ExtractionMethod, ExtractionOptions, RGB } from "@/utils/walkableExtraction";
+
+type PanelOptions = Omit<ExtractionOptions, "gridSize">;
+
+interface WalkableExtractionPanelProps {
+  options: PanelOptions;
+  onOptionsChange: (options: PanelOptions) => void;
+  isPickingColor: boolean;
+  onTogglePicking: () => void;
+  isAnalyzing: boolean;
+  hasProposal: boolean;
+  onPreview: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const METHODS: [ExtractionMethod, string][] = [
+  ["color", "Color"],
+  ["edges", "Edges"],
+  ["combined", "Both"],
+];
+
+const toCss = ([r, g, b]: RGB) => `rgb(${r}, ${g}, ${b})`;
+
+export const WalkableExtractionPanel = ({
+  options,
+  onOptionsChange,
+  isPickingColor,
+  onTogglePicking,
+  isAnalyzing,
+  hasProposal,
+  onPreview,
+  onAccept,
+  onDiscard,
+}: WalkableExtractionPanelProps) => {
+  const needsColors = options.method !== "edges";
+
+  return (
+    <div className="space-y-2 rounded border p-2">
+      <h4 className="text-xs font-semibold text-foreground flex items-center gap-1">
+        <Wand2 className="h-3 w-3" />
+        Detect from image
+      </h4>
+
+      <div className="grid grid-cols-3 gap-1">
+        {METHODS.map(([method, label]) => (
+          <Button
+            key={method}
+            variant={options.method === method ? "secondary" : "outline"}
+            size="sm"
+            className="text-xs px-1"
+            onClick={() => onOptionsChange({ ...options, method })}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {needsColors && (
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-1">
+            {options.walkableColors.map((color, idx) => (
+              <button
+                key={`${color.join("-")}-${idx}`}
+                type="button"
+                className="group relative h-5 w-5 rounded border"
+                style={{ backgroundColor: toCss(color) }}
+                title={`Remove ${toCss(color)}`}
+                onClick={() =>
+                  onOptionsChange({
+                    ...options,
+                    walkableColors: options.walkableColors.filter((_, i) => i !== idx),
+                  })
+                }
+              >
+                <X className="h-3 w-3 absolute inset-0 m-auto text-white opacity-0 group-hover:opacity-100" />
+              </button>
+            ))}
+            <Button
+              variant={isPickingColor ? "default" : "outline"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={onTogglePicking}
+            >
+              <Pipette className="h-3 w-3 mr-1" />
+              {isPickingColor ? "Click the map..." : "Pick walkable color"}
+            </Button>
+          </div>
+          <Label className="text-xs">Color tolerance: {options.colorTolerance}%</Label>
+          <input
+            type="range"
+            min="1"
+            max="60"
+            value={options.colorTolerance}
+            onChange={(e) => onOptionsChange({ ...options, colorTolerance: parseInt(e.target.value, 10) || 1 })}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {options.method !== "color" && (
+        <div>
+          <Label className="text-xs">Edge sensitivity: {options.edgeSensitivity}%</Label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={options.edgeSensitivity}
+            onChange={(e) => onOptionsChange({ ...options, edgeSensitivity: parseInt(e.target.value, 10) || 0 })}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={onPreview}
+        disabled={isAnalyzing || (needsColors && options.walkableColors.length === 0)}
+      >
+        {isAnalyzing ? "Analyzing..." : hasProposal ? "Re-run Detection" : "Preview Detection"}
+      </Button>
+
+      {hasProposal && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Previewing the proposed grid. Paint tools now edit the proposal; accept to use it.
+          </p>
+          <div className="flex gap-1">
+            <Button size="sm" className="flex-1" onClick={onAccept}>
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={onDiscard}>
+              Discard
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Point } from "@/utils/mapTypes";
+import type {
+  LayoutSearchContext,
+  LayoutSearchOptions,
+  LayoutSearchProgress,
+  LayoutSearchResult,
+} from "@/utils/layoutSearch";
+import type { LayoutSearchWorkerRequest, LayoutSearchWorkerResponse } from "@/workers/layoutSearchMessages";
+
+// Runs one layout search at a time in its own worker. Cancelling keeps the
+// best layout found so far; starting again discards the previous run.
+export function useLayoutSearch() {
+  const [progress, setProgress] = useState<LayoutSearchProgress | null>(null);
+  const [result, setResult] = useState<LayoutSearchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const start = useCallback(
+    (context: LayoutSearchContext, options: LayoutSearchOptions, initialBins: Point[]) => {
+      stopWorker();
+      const worker = new Worker(new URL("../workers/layoutSearch.worker.ts", import.meta.url), {
+        type: "module",
+      });
+      worker.onmessage = (event: MessageEvent<LayoutSearchWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          setProgress(message.progress);
+          return;
+        }
+        if (message.type === "done") {
+          setResult(message.result);
+        } else {
+          setError(message.message);
+        }
+        setIsSearching(false);
+        if (workerRef.current === worker) stopWorker();
+      };
+      workerRef.current = worker;
+      setProgress(null);
+      setResult(null);
+      setError(null);
+      setIsSearching(true);
+      worker.postMessage({ type: "start", context, options, initialBins } satisfies LayoutSearchWorkerRequest);
+    },
+    [stopWorker]
+  );
+
+  const cancel = useCallback(() => {
+    workerRef.current?.postMessage({ type: "cancel" } satisfies LayoutSearchWorkerRequest);
+  }, []);
+
+  const clear = useCallback(() => {
+    stopWorker();
+    setIsSearching(false);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+  }, [stopWorker]);
+
+  return { progress, result, error, isSearching, start, cancel, clear };
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { serializeMapDocument, type MapDocument } from "@/utils/mapDocument";
+
+const AUTOSAVE_DELAY_MS = 1500;
+// Serializing copies the whole document, obstacles and heatmap included, so it
+// waits for edits to pause: node drags change the document on every mouse move.
+const SETTLE_DELAY_MS = 300;
+
+const snapshotOf = (document: MapDocument | null) =>
+  document ? JSON.stringify(serializeMapDocument(document)) : null;
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "failed" | "conflict";
+
+interface UseMapAutosaveOptions {
+  projectId: string;
+  document: MapDocument | null;
+  // updated_at of the row this document was loaded from.
+  updatedAt: string;
+}
+
+export function useMapAutosave({ projectId, document, updatedAt }: UseMapAutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [isDirty, setIsDirty] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  const [settledDocument, setSettledDocument] = useState(document);
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSettledDocument(document), SETTLE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [document]);
+  const serialized = useMemo(() => snapshotOf(settledDocument), [settledDocument]);
+
+  const savedSnapshotRef = useRef<string | null>(null);
+  const updatedAtRef = useRef(updatedAt);
+  const pendingRef = useRef<string | null>(null);
+  const inFlightRef = useRef(false);
+  const conflictRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+
+  // A freshly loaded row becomes the new baseline.
+  useEffect(() => {
+    updatedAtRef.current = updatedAt;
+    savedSnapshotRef.current = snapshotOf(document);
+    setSettledDocument(document);
+    pendingRef.current = null;
+    conflictRef.current = false;
+    setStatus("idle");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, updatedAt]);
+
+  const persist = useCallback(
+    async (snapshot: string, force = false) => {
+      if (inFlightRef.current) {
+        pendingRef.current = snapshot;
+        return;
+      }
+      inFlightRef.current = true;
+      setStatus("saving");
+
+      let query = supabase
+        .from("projects")
+        .update({ map_data: JSON.parse(snapshot) })
+        .eq("id", projectId);
+      if (!force) {
+        // Optimistic concurrency: only write if nobody else saved since we loaded.
+        query = query.eq("updated_at", updatedAtRef.current);
+      }
+      const { data, error } = await query.select("updated_at");
+      inFlightRef.current = false;
+
+      if (error) {
+        console.error(error);
+        setStatus("failed");
+        return;
+      }
+      if (!data || data.length === 0) {
+        conflictRef.current = true;
+        setStatus("conflict");
+        return;
+      }
+
+      updatedAtRef.current = data[0].updated_at;
+      savedSnapshotRef.current = snapshot;
+      conflictRef.current = false;
+      setLastSavedAt(data[0].updated_at);
+
+      const queued = pendingRef.current;
+      pendingRef.current = null;
+      if (queued && queued !== snapshot) {
+        void persist(queued);
+      } else {
+        setStatus("saved");
+        setIsDirty(false);
+      }
+    },
+    [projectId]
+  );
+
+  useEffect(() => {
+    if (serialized === null) return;
+    const dirty = serialized !== savedSnapshotRef.current;
+    setIsDirty(dirty);
+    if (!dirty || conflictRef.current) return;
+
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      void persist(serialized);
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      if (timerRef.current) {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [serialized, persist]);
+
+  // Flush unsaved edits when leaving the editor, and warn on tab close. These
+  // serialize the latest document rather than wait for it to settle.
+  const latestRef = useRef(document);
+  latestRef.current = document;
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      const latest = snapshotOf(latestRef.current);
+      if (latest !== null && latest !== savedSnapshotRef.current) {
+        e.preventDefault();
+        e.returnValue = "";
+      }
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      const latest = snapshotOf(latestRef.current);
+      if (latest !== null && latest !== savedSnapshotRef.current && !conflictRef.current) {
+        void persist(latest);
+      }
+    };
+  }, [persist]);
+
+  const saveNow = useCallback(() => {
+    const latest = snapshotOf(latestRef.current);
+    if (latest === null || conflictRef.current) return;
+    if (timerRef.current) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    void persist(latest);
+  }, [persist]);
+
+  // Resolves a conflict by overwriting the other tab's changes with ours.
+  const overwrite = useCallback(() => {
+    const latest = snapshotOf(latestRef.current);
+    if (latest === null) return;
+    conflictRef.current = false;
+    void persist(latest, true);
+  }, [persist]);
+
+  return { status, isDirty, lastSavedAt, saveNow, overwrite };
+}
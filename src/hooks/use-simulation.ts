@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SimulationParams, SimulationSnapshot, SimulationStatistics } from "@/utils/simulationEngine";
+import { buildObstacleMap, gridDimensions, toObstacleMask } from "@/utils/obstacleGrid";
+import type { EventTimeline, Node, ObstacleLayer, Path, TrafficHeatmap } from "@/utils/mapTypes";
+import { randomSeed } from "@/utils/random";
+import { heatmapCellDensity } from "@/utils/trafficHeatmap";
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from "@/workers/simulationMessages";
+
+export type SimulationBehaviorParams = Omit<
+  SimulationParams,
+  "gridSize" | "mapWidth" | "mapHeight" | "timeline" | "spawnDensity"
+>;
+
+// Engine steps spent in each event timeline interval.
+const STEPS_PER_TIMELINE_INTERVAL = 150;
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationBehaviorParams = {
+  numAgents: 100,
+  staticWeight: 1,
+  dynamicWeight: 0.5,
+  randomness: 0.2,
+  decayRate: 0.95,
+  diffusionRate: 0.1,
+  seed: 1,
+  littering: {
+    carryStepsMin: 20,
+    carryStepsMax: 120,
+    willingnessToWalk: 150,
+  },
+};
+
+const EMPTY_STATISTICS: SimulationStatistics = {
+  stepCount: 0,
+  totalAgents: 0,
+  intervalIndex: -1,
+  avgDistanceTraveled: "0.00",
+  maxCongestion: 0,
+  avgCongestion: "0.00",
+  itemsAcquired: 0,
+  itemsDeposited: 0,
+  itemsLittered: 0,
+  avgWalkToBin: 0,
+};
+
+const EMPTY_SNAPSHOT: SimulationSnapshot = {
+  rows: 0,
+  cols: 0,
+  positions: new Float32Array(0),
+  trailField: new Float32Array(0),
+  litterField: new Float32Array(0),
+  binIds: [],
+  binDeposits: new Uint32Array(0),
+  statistics: EMPTY_STATISTICS,
+};
+
+interface UseSimulationOptions {
+  enabled: boolean;
+  nodes: Node[];
+  paths: Path[];
+  obstacles: ObstacleLayer | null;
+  timeline: EventTimeline | null;
+  // Agents spawn in proportion to the heatmap's density instead of at entries.
+  heatmap: TrafficHeatmap | null;
+  mapWidth: number;
+  mapHeight: number;
+  gridSize: number;
+}
+
+// Drives a SimulationEngine in a dedicated worker built from the current layout.
+// The worker streams one snapshot per frame and waits for an ack before the next.
+export function useSimulation({
+  enabled,
+  nodes,
+  paths,
+  obstacles,
+  timeline,
+  heatmap,
+  mapWidth,
+  mapHeight,
+  gridSize,
+}: UseSimulationOptions) {
+  const [params, setParams] = useState<SimulationBehaviorParams>(() => ({
+    ...DEFAULT_SIMULATION_PARAMS,
+    seed: randomSeed(),
+  }));
+  const [stepsPerFrame, setStepsPerFrame] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [snapshot, setSnapshot] = useState<SimulationSnapshot>(EMPTY_SNAPSHOT);
+
+  const workerRef = useRef<Worker | null>(null);
+  const generationRef = useRef(0);
+  const stepsPerFrameRef = useRef(stepsPerFrame);
+  stepsPerFrameRef.current = stepsPerFrame;
+
+  const post = useCallback((message: SimulationWorkerRequest, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(message, transfer);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const worker = new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    let ackRequest: number | null = null;
+    worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+      const { generation, snapshot: next } = event.data;
+      if (generation !== generationRef.current) return;
+      setSnapshot(next);
+      // Ack after the browser has had a chance to paint this frame.
+      ackRequest = window.requestAnimationFrame(() => {
+        ackRequest = null;
+        worker.postMessage({ type: "ack" } satisfies SimulationWorkerRequest);
+      });
+    };
+    workerRef.current = worker;
+    return () => {
+      if (ackRequest !== null) window.cancelAnimationFrame(ackRequest);
+      worker.terminate();
+      workerRef.current = null;
+      setIsRunning(false);
+      setSnapshot(EMPTY_SNAPSHOT);
+    };
+  }, [enabled]);
+
+  // Rebuild whenever the layout or model parameters change; edits are only
+  // possible outside simulate mode, so this never interrupts a running loop.
+  useEffect(() => {
+    if (!enabled) return;
+    const obstacleMask = toObstacleMask(
+      buildObstacleMap(obstacles, paths, nodes, mapWidth, mapHeight, gridSize)
+    );
+    const { rows, cols } = gridDimensions(mapWidth, mapHeight, gridSize);
+    const spawnDensity = heatmap && heatmapCellDensity(heatmap, rows, cols, gridSize);
+    generationRef.current += 1;
+    post(
+      {
+        type: "init",
+        generation: generationRef.current,
+        params: {
+          ...params,
+          gridSize,
+          mapWidth,
+          mapHeight,
+          timeline: timeline && {
+            attendance: timeline.intervals.map((interval) => interval.attendanceMultiplier),
+            stepsPerInterval: STEPS_PER_TIMELINE_INTERVAL,
+          },
+          spawnDensity,
+        },
+        nodes: nodes.map(({ id, x, y, type, purchaseProbability }) => ({ id, x, y, type, purchaseProbability })),
+        obstacles: obstacleMask,
+      },
+      spawnDensity ? [obstacleMask.buffer, spawnDensity.buffer] : [obstacleMask.buffer]
+    );
+    setIsRunning(false);
+  }, [enabled, nodes, paths, obstacles, timeline, heatmap, params, mapWidth, mapHeight, gridSize, post]);
+
+  useEffect(() => {
+    post({ type: "set-steps-per-frame", stepsPerFrame });
+  }, [stepsPerFrame, post]);
+
+  const start = useCallback(() => {
+    post({ type: "start", stepsPerFrame: stepsPerFrameRef.current });
+    setIsRunning(true);
+  }, [post]);
+
+  const pause = useCallback(() => {
+    post({ type: "pause" });
+    setIsRunning(false);
+  }, [post]);
+
+  const step = useCallback(() => post({ type: "step" }), [post]);
+
+  const reset = useCallback(() => {
+    post({ type: "reset" });
+    setIsRunning(false);
+  }, [post]);
+
+  // Re-runs from step 0 with the same seed, reproducing the previous run.
+  const replay = useCallback(() => {
+    post({ type: "reset" });
+    post({ type: "start", stepsPerFrame: stepsPerFrameRef.current });
+    setIsRunning(true);
+  }, [post]);
+
+  return {
+    agentPositions: snapshot.positions,
+    trailField: snapshot.trailField,
+    litterField: snapshot.litterField,
+    binIds: snapshot.binIds,
+    binDeposits: snapshot.binDeposits,
+    gridCols: snapshot.cols,
+    statistics: snapshot.statistics,
+    params,
+    setParams,
+    stepsPerFrame,
+    setStepsPerFrame,
+    isRunning,
+    start,
+    pause,
+    step,
+    reset,
+    replay,
+  };
+}
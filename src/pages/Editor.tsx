@@ -1,19 +1,31 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { MapEditor } from "@/components/MapEditor";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, AlertTriangle, Check, CloudOff, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import type { User } from "@supabase/supabase-js";
+import { parseMapDocument, type MapDocument } from "@/utils/mapDocument";
+import { useMapAutosave } from "@/hooks/use-map-autosave";
 
 export default function Editor() {
   const { projectId } = useParams();
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
-  const [project, setProject] = useState<any>(null);
+  const [project, setProject] = useState<Tables<"projects"> | null>(null);
+  const [mapDocument, setMapDocument] = useState<MapDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editorKey, setEditorKey] = useState(0);
   const [loading, setLoading] = useState(true);
 
+  const autosave = useMapAutosave({
+    projectId: projectId ?? "",
+    document: loadError ? null : mapDocument,
+    updatedAt: project?.updated_at ?? "",
+  });
+
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
@@ -50,7 +62,16 @@ export default function Editor() {
       toast.error("Project not found");
       navigate("/projects");
     } else {
+      try {
+        setMapDocument(parseMapDocument(data.map_data));
+        setLoadError(null);
+      } catch (parseError) {
+        console.error(parseError);
+        setMapDocument(null);
+        setLoadError(parseError instanceof Error ? parseError.message : "Map data could not be read.");
+      }
       setProject(data);
+      setEditorKey((key) => key + 1);
     }
     setLoading(false);
   };
@@ -70,9 +91,66 @@ export default function Editor() {
             <p className="text-xs text-muted-foreground">Urban Flow Mapper</p>
           </div>
         </div>
+        {!loadError && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {autosave.status === "saving" && (
+              <>
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Saving...
+              </>
+            )}
+            {autosave.status !== "saving" && autosave.status !== "conflict" && autosave.status !== "failed" && (
+              autosave.isDirty ? (
+                <span>Unsaved changes</span>
+              ) : (
+                <>
+                  <Check className="h-3 w-3" />
+                  Saved
+                </>
+              )
+            )}
+            {autosave.status === "failed" && (
+              <>
+                <CloudOff className="h-3 w-3 text-destructive" />
+                <span className="text-destructive">Save failed</span>
+                <Button variant="outline" size="sm" onClick={autosave.saveNow}>
+                  Retry
+                </Button>
+              </>
+            )}
+            {autosave.status === "conflict" && (
+              <>
+                <AlertTriangle className="h-3 w-3 text-destructive" />
+                <span className="text-destructive">Changed in another tab</span>
+                <Button variant="outline" size="sm" onClick={fetchProject}>
+                  Reload
+                </Button>
+                <Button variant="outline" size="sm" onClick={autosave.overwrite}>
+                  Keep mine
+                </Button>
+              </>
+            )}
+          </div>
+        )}
       </header>
       <div className="flex-1">
-        <MapEditor />
+        {loadError ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            {loadError}
+          </div>
+        ) : (
+          mapDocument && (
+            <MapEditor
+              key={editorKey}
+              projectName={project?.name}
+              imageUrl={project?.original_image_url}
+              gridSize={project?.grid_size ?? 20}
+              gridOverlay={project?.grid_overlay_applied ?? false}
+              initialDocument={mapDocument}
+              onDocumentChange={setMapDocument}
+            />
+          )
+        )}
       </div>
     </div>
   );
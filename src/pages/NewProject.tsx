@@ -9,6 +9,8 @@ import { Card } from "@/components/ui/card";
 import { ArrowLeft, Upload, Grid3x3 } from "lucide-react";
 import { toast } from "sonner";
 import type { User } from "@supabase/supabase-js";
+import { createEmptyMapDocument, serializeMapDocument } from "@/utils/mapDocument";
+import { loadTrafficHeatmap } from "@/utils/trafficHeatmap";
 
 export default function NewProject() {
   const navigate = useNavigate();
@@ -17,6 +19,8 @@ export default function NewProject() {
   const [description, setDescription] = useState("");
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [heatmapFile, setHeatmapFile] = useState<File | null>(null);
   const [gridSize, setGridSize] = useState(20);
   const [showGrid, setShowGrid] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -70,6 +74,7 @@ export default function NewProject() {
 
       canvas.width = img.width;
       canvas.height = img.height;
+      setImageSize({ width: img.width, height: img.height });
       ctx.drawImage(img, 0, 0);
 
       if (showGrid) {
@@ -106,6 +111,11 @@ export default function NewProject() {
     setLoading(true);
 
     try {
+      // Read the heatmap first so a bad file fails before anything is uploaded.
+      // It starts stretched over the whole map and is aligned in the editor.
+      if (heatmapFile && !imageSize) throw new Error("The map image is still loading; try again.");
+      const heatmap = heatmapFile ? await loadTrafficHeatmap(heatmapFile, imageSize) : null;
+
       const fileExt = imageFile.name.split(".").pop();
       const fileName = `${user.id}/${Date.now()}.${fileExt}`;
 
@@ -126,6 +136,7 @@ export default function NewProject() {
         original_image_url: publicUrl,
         grid_overlay_applied: showGrid,
         grid_size: gridSize,
+        ...(heatmap && { map_data: serializeMapDocument({ ...createEmptyMapDocument(), heatmap }) }),
       });
 
       if (insertError) throw insertError;
@@ -194,6 +205,23 @@ export default function NewProject() {
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="heatmap">Foot-traffic Heatmap (Optional)</Label>
+                <div className="mt-2">
+                  <Input
+                    id="heatmap"
+                    type="file"
+                    accept="image/*,.csv,.tsv,.txt"
+                    onChange={(e) => setHeatmapFile(e.target.files?.[0] ?? null)}
+                    className="cursor-pointer"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  A heatmap image (blue = quiet, red = busy) or a CSV grid of counts. You can align it to the
+                  venue in the editor.
+                </p>
+              </div>
+
               {imagePreview && (
                 <>
                   <div className="space-y-4">
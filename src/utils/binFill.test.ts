@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  LITTER_SHARE_OF_OVERFLOW,
+  evaluateBinService,
+  resolveSchedule,
+  simulateBinFill,
+} from "@/utils/binFill";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { DEFAULT_PLANNING_PARAMS, type MapState, type ServiceCrew } from "@/utils/mapTypes";
+
+const hourly = { emptyEveryMinutes: 60, firstEmptyingMinutes: 60 };
+
+describe("simulateBinFill", () => {
+  it("never overflows when the bin is emptied before it fills", () => {
+    const result = simulateBinFill(120, [{ durationMinutes: 180, litersPerHour: 100 }], hourly);
+
+    expect(result.timeToFullMinutes).toBeNull();
+    expect(result.overflowLiters).toBe(0);
+    expect(result.incidents).toEqual([]);
+  });
+
+  it("reports time to full, overflow and litter for an undersized round", () => {
+    // 180 L/h into a 120 L bin fills it after 40 minutes of each hour.
+    const result = simulateBinFill(120, [{ durationMinutes: 120, litersPerHour: 180 }], hourly);
+
+    expect(result.timeToFullMinutes).toBe(40);
+    expect(result.overflowMinutes).toBe(40);
+    expect(result.overflowLiters).toBeCloseTo(120);
+    expect(result.litterLiters).toBeCloseTo(120 * LITTER_SHARE_OF_OVERFLOW);
+    expect(result.incidents.map((incident) => incident.startMinutes)).toEqual([40, 100]);
+    expect(result.incidents[0].durationMinutes).toBe(20);
+  });
+
+  it("records the level at each segment end before emptying", () => {
+    const result = simulateBinFill(
+      120,
+      [
+        { durationMinutes: 60, litersPerHour: 60 },
+        { durationMinutes: 60, litersPerHour: 240 },
+      ],
+      hourly
+    );
+
+    expect(result.fillAtSegmentEnd[0]).toBeCloseTo(0.5);
+    expect(result.fillAtSegmentEnd[1]).toBe(1);
+    expect(result.overflowBySegment[0]).toBe(0);
+    expect(result.overflowBySegment[1]).toBeCloseTo(120);
+  });
+});
+
+describe("resolveSchedule", () => {
+  const crews: ServiceCrew[] = [{ id: "c1", name: "North", emptyEveryMinutes: 30, firstEmptyingMinutes: 15 }];
+
+  it("prefers the bin's own interval, then its crew, then the default", () => {
+    expect(resolveSchedule({ crewId: "c1", emptyEveryMinutes: 20 }, crews, 60)).toEqual({
+      emptyEveryMinutes: 20,
+      firstEmptyingMinutes: 15,
+    });
+    expect(resolveSchedule({ crewId: "c1" }, crews, 60)).toEqual({ emptyEveryMinutes: 30, firstEmptyingMinutes: 15 });
+    expect(resolveSchedule({ crewId: "gone" }, crews, 60)).toEqual(hourly);
+    expect(resolveSchedule(undefined, crews, 45)).toEqual({ emptyEveryMinutes: 45, firstEmptyingMinutes: 45 });
+  });
+});
+
+describe("evaluateBinService", () => {
+  const stall: MapState = {
+    nodes: [{ id: "v1", x: 100, y: 100, type: "vendor", label: "Stall" }],
+    paths: [{ id: "p1", type: "walkway", label: "Main", capacity: 60, points: [{ x: 0, y: 120 }, { x: 200, y: 120 }] }],
+    obstacles: null,
+  };
+  const params = { ...DEFAULT_PLANNING_PARAMS, peoplePerHour: 0, vendorSalesPerHour: 300, maxBins: 1 };
+
+  it("turns an overloaded bin into overflow incidents", () => {
+    const report = optimizeBinPlacement(stall, params, { seed: 1 });
+
+    expect(report.recommendedBins).toHaveLength(1);
+    expect(report.overflowIncidents.length).toBeGreaterThan(0);
+    expect(report.overflowLiters).toBeGreaterThan(0);
+    expect(report.notes.some((note) => note.includes("overflow on the default 60 min emptying round"))).toBe(true);
+  });
+
+  it("re-simulates against a faster crew assigned to the bin", () => {
+    const report = optimizeBinPlacement(stall, params, { seed: 1 });
+    const binId = report.recommendedBins[0].id;
+    const crews: ServiceCrew[] = [{ id: "fast", name: "Fast", emptyEveryMinutes: 20, firstEmptyingMinutes: 20 }];
+
+    const serviced = evaluateBinService(report, {
+      binCapacityLiters: params.binCapacity,
+      defaultEmptyEveryMinutes: 60,
+      crews,
+      nodes: [{ id: binId, x: 0, y: 0, type: "bin", label: "Bin 1", crewId: "fast" }],
+    });
+
+    expect(serviced.recommendedBins[0].emptyEveryMinutes).toBe(20);
+    expect(serviced.overflowIncidents).toEqual([]);
+    expect(serviced.litterLiters).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+// Discrete-time bin fill simulation. Each bin fills minute by minute at its
+// catchment's arrival rate, overflows once full, and is emptied on its
+// crew's (or its own) schedule. Overflowing volume partly ends up as litter.
+// Pure: no React, no I/O.
+
+import type {
+  Node,
+  OptimizationReport,
+  OverflowIncident,
+  RecommendedBin,
+  ServiceCrew,
+} from "@/utils/mapTypes";
+
+// Without a timeline the steady-state hour is replayed over a typical event length.
+export const STEADY_STATE_HORIZON_MINUTES = 240;
+// Share of overflowing volume that lands on the ground rather than being
+// carried to another bin or stacked on the lid.
+export const LITTER_SHARE_OF_OVERFLOW = 0.5;
+export const MIN_EMPTY_EVERY_MINUTES = 5;
+
+export interface EmptyingSchedule {
+  emptyEveryMinutes: number;
+  // Minutes after the event start of the first emptying.
+  firstEmptyingMinutes: number;
+}
+
+export interface InflowSegment {
+  durationMinutes: number;
+  litersPerHour: number;
+}
+
+export interface BinFillResult {
+  // Minutes after the event start the bin first reaches capacity; null if it never does.
+  timeToFullMinutes: number | null;
+  overflowMinutes: number;
+  overflowLiters: number;
+  litterLiters: number;
+  // Fill level (share of capacity) at the end of each segment, before any
+  // emptying due at that moment.
+  fillAtSegmentEnd: number[];
+  overflowBySegment: number[];
+  incidents: Omit<OverflowIncident, "binId" | "label">[];
+}
+
+// Report fields produced by the fill simulation.
+type ServiceFields = "serviceHorizonMinutes" | "overflowIncidents" | "overflowLiters" | "litterLiters";
+
+export interface BinServiceContext {
+  binCapacityLiters: number;
+  defaultEmptyEveryMinutes: number;
+  crews: ServiceCrew[];
+  // Current bin nodes, for per-bin crew assignments and schedule overrides.
+  nodes: Node[];
+}
+
+const clampInterval = (minutes: number) =>
+  Math.max(MIN_EMPTY_EVERY_MINUTES, Math.round(minutes) || MIN_EMPTY_EVERY_MINUTES);
+
+/**
+ * Picks a bin's emptying schedule: its own interval wins, then its crew's,
+ * then the planning default.
+ */
+export const resolveSchedule = (
+  bin: Pick<Node, "crewId" | "emptyEveryMinutes"> | undefined,
+  crews: ServiceCrew[],
+  defaultEmptyEveryMinutes: number
+): EmptyingSchedule => {
+  const crew = bin?.crewId ? crews.find((candidate) => candidate.id === bin.crewId) : undefined;
+  if (bin?.emptyEveryMinutes) {
+    const every = clampInterval(bin.emptyEveryMinutes);
+    return { emptyEveryMinutes: every, firstEmptyingMinutes: crew?.firstEmptyingMinutes ?? every };
+  }
+  if (crew) {
+    return {
+      emptyEveryMinutes: clampInterval(crew.emptyEveryMinutes),
+      firstEmptyingMinutes: Math.max(0, Math.round(crew.firstEmptyingMinutes)),
+    };
+  }
+  const every = clampInterval(defaultEmptyEveryMinutes);
+  return { emptyEveryMinutes: every, firstEmptyingMinutes: every };
+};
+
+const isEmptyingMinute = (minute: number, { emptyEveryMinutes, firstEmptyingMinutes }: EmptyingSchedule) =>
+  minute >= firstEmptyingMinutes && (minute - firstEmptyingMinutes) % emptyEveryMinutes === 0;
+
+/**
+ * Steps one bin through its inflow segments a minute at a time. Each
+ * contiguous run of full minutes with waste still arriving is one incident.
+ */
+export const simulateBinFill = (
+  capacityLiters: number,
+  segments: InflowSegment[],
+  schedule: EmptyingSchedule
+): BinFillResult => {
+  let fill = 0;
+  let minute = 0;
+  let timeToFullMinutes: number | null = null;
+  let overflowMinutes = 0;
+  let overflowLiters = 0;
+  const fillAtSegmentEnd: number[] = [];
+  const overflowBySegment: number[] = [];
+  const incidents: BinFillResult["incidents"] = [];
+  let openIncident: BinFillResult["incidents"][number] | null = null;
+
+  segments.forEach((segment) => {
+    const perMinute = Math.max(0, segment.litersPerHour) / 60;
+    const end = minute + Math.max(0, Math.round(segment.durationMinutes));
+    let segmentOverflow = 0;
+    for (; minute < end; minute++) {
+      if (minute > 0 && isEmptyingMinute(minute, schedule)) fill = 0;
+      fill += perMinute;
+      if (fill >= capacityLiters && perMinute > 0 && timeToFullMinutes === null) {
+        timeToFullMinutes = minute + 1;
+      }
+      const spilled = fill - capacityLiters;
+      if (spilled > 1e-9) {
+        fill = capacityLiters;
+        segmentOverflow += spilled;
+        overflowMinutes += 1;
+        if (!openIncident) {
+          openIncident = { startMinutes: minute, durationMinutes: 0, overflowLiters: 0 };
+          incidents.push(openIncident);
+        }
+        openIncident.durationMinutes += 1;
+        openIncident.overflowLiters += spilled;
+      } else {
+        openIncident = null;
+      }
+    }
+    overflowLiters += segmentOverflow;
+    overflowBySegment.push(segmentOverflow);
+    fillAtSegmentEnd.push(capacityLiters <= 0 ? 0 : fill / capacityLiters);
+  });
+
+  return {
+    timeToFullMinutes,
+    overflowMinutes,
+    overflowLiters,
+    litterLiters: overflowLiters * LITTER_SHARE_OF_OVERFLOW,
+    fillAtSegmentEnd,
+    overflowBySegment,
+    incidents,
+  };
+};
+
+// Arrival rate into the bin, including what it could not hold.
+const steadyLoadPerHour = (bin: RecommendedBin) => bin.utilization * bin.capacity;
+
+/**
+ * Replays every recommended bin through the event on its emptying schedule
+ * and folds the fill, overflow and litter figures back into the report.
+ */
+export const evaluateBinService = (
+  report: Omit<OptimizationReport, ServiceFields>,
+  context: BinServiceContext
+): OptimizationReport => {
+  const timelineIntervals = report.timeline?.intervals ?? [];
+  const horizonMinutes =
+    timelineIntervals.length > 0
+      ? timelineIntervals.reduce((sum, interval) => sum + interval.durationMinutes, 0)
+      : STEADY_STATE_HORIZON_MINUTES;
+  const intervalOverflow = timelineIntervals.map(() => 0);
+  const overflowIncidents: OverflowIncident[] = [];
+
+  const recommendedBins = report.recommendedBins.map((bin) => {
+    const node = context.nodes.find((candidate) => candidate.id === bin.id);
+    const schedule = resolveSchedule(node, context.crews, context.defaultEmptyEveryMinutes);
+    const segments: InflowSegment[] =
+      timelineIntervals.length > 0
+        ? timelineIntervals.map((interval, idx) => ({
+          durationMinutes: interval.durationMinutes,
+          litersPerHour: bin.loadTimeline[idx] ?? steadyLoadPerHour(bin),
+        }))
+        : [{ durationMinutes: STEADY_STATE_HORIZON_MINUTES, litersPerHour: steadyLoadPerHour(bin) }];
+    const result = simulateBinFill(context.binCapacityLiters, segments, schedule);
+
+    result.overflowBySegment.forEach((liters, idx) => {
+      if (idx < intervalOverflow.length) intervalOverflow[idx] += liters;
+    });
+    result.incidents.forEach((incident) =>
+      overflowIncidents.push({ ...incident, binId: bin.id, label: bin.label })
+    );
+
+    return {
+      ...bin,
+      emptyEveryMinutes: schedule.emptyEveryMinutes,
+      timeToFullMinutes: result.timeToFullMinutes,
+      overflowMinutes: result.overflowMinutes,
+      overflowLiters: result.overflowLiters,
+      litterLiters: result.litterLiters,
+      peakOverflowPerHour:
+        timelineIntervals.length > 0
+          ? Math.max(
+            0,
+            ...result.overflowBySegment.map((liters, idx) =>
+              segments[idx].durationMinutes > 0 ? liters / (segments[idx].durationMinutes / 60) : 0
+            )
+          )
+          : 0,
+      fillTimeline: timelineIntervals.length > 0 ? result.fillAtSegmentEnd : [],
+    };
+  });
+
+  overflowIncidents.sort((a, b) => a.startMinutes - b.startMinutes || a.label.localeCompare(b.label));
+  const overflowLiters = recommendedBins.reduce((sum, bin) => sum + bin.overflowLiters, 0);
+
+  return {
+    ...report,
+    recommendedBins,
+    timeline: report.timeline
+      ? {
+        ...report.timeline,
+        intervals: report.timeline.intervals.map((interval, idx) => ({
+          ...interval,
+          overflowLiters: intervalOverflow[idx],
+        })),
+        totalOverflowLiters: overflowLiters,
+      }
+      : null,
+    serviceHorizonMinutes: horizonMinutes,
+    overflowIncidents,
+    overflowLiters,
+    litterLiters: overflowLiters * LITTER_SHARE_OF_OVERFLOW,
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { crowdDensityToCsv, estimateCrowdDensity } from "@/utils/crowdDensity";
+import { parseHeatmapCsv } from "@/utils/trafficHeatmap";
+import { CELL_WALKABLE, CELL_WALL, type Node } from "@/utils/mapTypes";
+import { createObstacleLayer } from "@/utils/obstacleLayer";
+
+const mapSize = { width: 100, height: 50 };
+const vendor: Node = { id: "v1", x: 5, y: 5, type: "vendor", label: "Stall" };
+const entry: Node = { id: "e1", x: 95, y: 45, type: "entry-exit", label: "Gate" };
+
+describe("crowdDensity", () => {
+  it("spreads everyone on site over the map, densest at vendors", () => {
+    const estimate = estimateCrowdDensity({ nodes: [vendor, entry], paths: [], obstacles: null }, 600, mapSize, 10, {
+      dwellMinutes: 30,
+    });
+    const total = estimate.occupancy.reduce((sum, value) => sum + value, 0);
+
+    expect([estimate.rows, estimate.cols]).toEqual([5, 10]);
+    expect(estimate.totalOccupancy).toBe(300);
+    expect(total).toBeCloseTo(300, 2);
+    expect(estimate.occupancy[0]).toBe(estimate.peakOccupancy);
+    expect(estimate.occupancy[0]).toBeGreaterThan(estimate.occupancy[49]);
+    expect(estimate.occupancy[49]).toBeGreaterThan(estimate.occupancy[25]);
+  });
+
+  it("keeps people out of walls and draws them to painted walkable areas", () => {
+    const layer = createObstacleLayer(mapSize.width, mapSize.height, 10);
+    layer.cells[5] = CELL_WALL;
+    layer.cells[45] = CELL_WALKABLE;
+    const estimate = estimateCrowdDensity({ nodes: [vendor], paths: [], obstacles: layer }, 100, mapSize, 10);
+
+    expect(estimate.occupancy[5]).toBe(0);
+    expect(estimate.occupancy[45]).toBeGreaterThan(estimate.occupancy[44]);
+  });
+
+  it("is empty without anything that draws a crowd", () => {
+    const estimate = estimateCrowdDensity({ nodes: [], paths: [], obstacles: null }, 100, mapSize, 10);
+
+    expect(estimate.totalOccupancy).toBe(0);
+    expect(estimate.peakOccupancy).toBe(0);
+  });
+
+  it("exports a CSV grid that loads back as a heatmap", () => {
+    const estimate = estimateCrowdDensity({ nodes: [vendor], paths: [], obstacles: null }, 100, mapSize, 10);
+    const grid = parseHeatmapCsv(crowdDensityToCsv(estimate));
+
+    expect([grid.rows, grid.cols]).toEqual([5, 10]);
+    expect(grid.values[0]).toBeCloseTo(estimate.occupancy[0], 3);
+  });
+});
@@ -0,0 +1,129 @@
+// Estimates where the crowd stands when no foot-traffic data was uploaded.
+// A gravity model scores each open grid cell by its walking distance (around
+// obstacles) to vendors and entries, plus a base draw for walkway corridors
+// and painted walkable areas such as seating, then scales the scores so the
+// grid holds everyone expected on site at once. Pure: no React, no I/O.
+
+import { CELL_WALKABLE, type MapState, type Point } from "@/utils/mapTypes";
+import { buildObstacleMap, gridDimensions, rasterizeWalkways, toObstacleMask } from "@/utils/obstacleGrid";
+
+export interface CrowdDensityEstimate {
+  gridSize: number;
+  rows: number;
+  cols: number;
+  // Expected people in each cell at any moment, row-major.
+  occupancy: Float32Array;
+  totalOccupancy: number;
+  peakOccupancy: number;
+}
+
+export interface CrowdDensityOptions {
+  // Average time an attendee spends on site; sets how many are present at once.
+  dwellMinutes?: number;
+}
+
+export const DEFAULT_DWELL_MINUTES = 60;
+
+// Distance (in cells) over which each attractor's pull falls to 1/e.
+const VENDOR_DECAY_CELLS = 4;
+const ENTRY_DECAY_CELLS = 3;
+// Relative pull of one vendor's queue, one entry, and a cell of open space.
+const VENDOR_WEIGHT = 1;
+const ENTRY_WEIGHT = 0.6;
+const WALKWAY_WEIGHT = 0.15;
+const SEATING_WEIGHT = 0.3;
+
+const NEIGHBOR_ROWS = [-1, -1, -1, 0, 0, 1, 1, 1];
+const NEIGHBOR_COLS = [-1, 0, 1, -1, 1, -1, 0, 1];
+
+// Cell steps from `origin` to every open cell; Infinity where blocked or cut off.
+const walkingSteps = (blocked: Uint8Array, rows: number, cols: number, origin: Point, gridSize: number) => {
+  const steps = new Float32Array(rows * cols).fill(Infinity);
+  const row = Math.floor(origin.y / gridSize);
+  const col = Math.floor(origin.x / gridSize);
+  if (row < 0 || row >= rows || col < 0 || col >= cols) return steps;
+
+  const queue = new Int32Array(rows * cols);
+  let head = 0;
+  let tail = 0;
+  steps[row * cols + col] = 0;
+  queue[tail++] = row * cols + col;
+  while (head < tail) {
+    const cell = queue[head++];
+    const r = Math.floor(cell / cols);
+    const c = cell - r * cols;
+    for (let n = 0; n < NEIGHBOR_ROWS.length; n++) {
+      const nr = r + NEIGHBOR_ROWS[n];
+      const nc = c + NEIGHBOR_COLS[n];
+      if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+      const neighbor = nr * cols + nc;
+      if (steps[neighbor] !== Infinity || blocked[neighbor]) continue;
+      steps[neighbor] = steps[cell] + 1;
+      queue[tail++] = neighbor;
+    }
+  }
+  return steps;
+};
+
+/**
+ * Expected occupancy per grid cell for `peoplePerHour` attendees. Returns an
+ * all-zero grid when nothing on the map draws a crowd.
+ */
+export const estimateCrowdDensity = (
+  { nodes, paths, obstacles }: MapState,
+  peoplePerHour: number,
+  mapSize: { width: number; height: number },
+  gridSize: number,
+  { dwellMinutes = DEFAULT_DWELL_MINUTES }: CrowdDensityOptions = {}
+): CrowdDensityEstimate => {
+  const { rows, cols } = gridDimensions(mapSize.width, mapSize.height, gridSize);
+  const blocked = toObstacleMask(buildObstacleMap(obstacles, paths, nodes, mapSize.width, mapSize.height, gridSize));
+  const scores = new Float64Array(rows * cols);
+
+  const addAttractor = (node: Point, weight: number, decayCells: number) => {
+    const steps = walkingSteps(blocked, rows, cols, node, gridSize);
+    steps.forEach((step, cell) => {
+      if (step !== Infinity) scores[cell] += weight * Math.exp(-step / decayCells);
+    });
+  };
+  nodes.filter((node) => node.type === "vendor").forEach((node) => addAttractor(node, VENDOR_WEIGHT, VENDOR_DECAY_CELLS));
+  nodes.filter((node) => node.type === "entry-exit").forEach((node) => addAttractor(node, ENTRY_WEIGHT, ENTRY_DECAY_CELLS));
+
+  if (paths.some((path) => path.points.length >= 2)) {
+    rasterizeWalkways(paths, [], mapSize.width, mapSize.height, gridSize).forEach((rowCells, row) => {
+      rowCells.forEach((isBlocked, col) => {
+        if (!isBlocked && !blocked[row * cols + col]) scores[row * cols + col] += WALKWAY_WEIGHT;
+      });
+    });
+  }
+  if (obstacles && obstacles.gridSize === gridSize) {
+    obstacles.cells.forEach((kind, idx) => {
+      const row = Math.floor(idx / obstacles.cols);
+      const col = idx - row * obstacles.cols;
+      if (kind === CELL_WALKABLE && row < rows && col < cols) scores[row * cols + col] += SEATING_WEIGHT;
+    });
+  }
+
+  const totalScore = scores.reduce((sum, score) => sum + score, 0);
+  const totalOccupancy = totalScore > 0 ? (Math.max(0, peoplePerHour) * dwellMinutes) / 60 : 0;
+  const occupancy = new Float32Array(rows * cols);
+  let peakOccupancy = 0;
+  if (totalScore > 0) {
+    scores.forEach((score, cell) => {
+      occupancy[cell] = (score / totalScore) * totalOccupancy;
+      peakOccupancy = Math.max(peakOccupancy, occupancy[cell]);
+    });
+  }
+  return { gridSize, rows, cols, occupancy, totalOccupancy, peakOccupancy };
+};
+
+// Row-major CSV of people per cell; loads back in as a foot-traffic heatmap.
+export const crowdDensityToCsv = ({ rows, cols, occupancy }: CrowdDensityEstimate) => {
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    lines.push(
+      Array.from(occupancy.subarray(row * cols, (row + 1) * cols), (value) => Number(value.toFixed(3))).join(",")
+    );
+  }
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,13 @@
+// Saves generated content (exports, reports) as a file in the browser.
+
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled so the download can start.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
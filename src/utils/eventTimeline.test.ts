@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDefaultTimeline,
+  formatClockTime,
+  intervalDurationMinutes,
+  parseClockTime,
+  resizeTimeline,
+  timelineDurationMinutes,
+} from "@/utils/eventTimeline";
+
+describe("eventTimeline", () => {
+  it("parses and formats clock times", () => {
+    expect(parseClockTime("18:30")).toBe(18 * 60 + 30);
+    expect(parseClockTime("24:00")).toBeNull();
+    expect(formatClockTime(25 * 60 + 5)).toBe("01:05");
+  });
+
+  it("rolls events past midnight", () => {
+    expect(timelineDurationMinutes("22:00", "01:30")).toBe(210);
+  });
+
+  it("keeps intervals by position when resized", () => {
+    const timeline = createDefaultTimeline();
+    const longer = resizeTimeline(timeline, { endTime: "22:00" });
+
+    expect(longer.intervals).toHaveLength(8);
+    expect(longer.intervals[0]).toEqual(timeline.intervals[0]);
+    expect(longer.intervals[7].phase).toBe("egress");
+
+    const hourly = resizeTimeline(timeline, { intervalMinutes: 60 });
+    expect(hourly.intervals).toHaveLength(3);
+  });
+
+  it("cuts the last interval short at the end time", () => {
+    const timeline = resizeTimeline(createDefaultTimeline(), { endTime: "20:45", intervalMinutes: 60 });
+
+    expect(timeline.intervals).toHaveLength(3);
+    expect(intervalDurationMinutes(timeline, 2)).toBe(45);
+  });
+});
@@ -0,0 +1,83 @@
+// Event timeline helpers: clock-time parsing and keeping the interval list in
+// step with the start/end times and interval length.
+
+import type { EventTimeline, TimelineInterval } from "@/utils/mapTypes";
+
+export const PHASE_PRESETS = ["ingress", "pre-event", "main", "halftime", "post-event", "egress"];
+
+export const INTERVAL_LENGTH_OPTIONS = [15, 30, 60];
+
+const MINUTES_PER_DAY = 24 * 60;
+// Caps the interval count so a typo like 00:00-23:59 at 15 min stays editable.
+export const MAX_TIMELINE_INTERVALS = 96;
+
+export const parseClockTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatClockTime = (minutes: number) => {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  return `${String(hours).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+};
+
+// Event length in minutes; an end before the start rolls over midnight.
+export const timelineDurationMinutes = (startTime: string, endTime: string) => {
+  const start = parseClockTime(startTime);
+  const end = parseClockTime(endTime);
+  if (start === null || end === null) return 0;
+  const duration = end - start;
+  return duration <= 0 ? duration + MINUTES_PER_DAY : duration;
+};
+
+export const createTimelineInterval = (phase = "main"): TimelineInterval => ({
+  phase,
+  attendanceMultiplier: 1,
+  salesMultiplier: 1,
+  vendorSalesMultipliers: {},
+});
+
+/**
+ * Rebuilds the interval list after the start/end time or interval length
+ * changes. Existing intervals keep their settings by position; new ones copy
+ * the last interval so extending an event continues its final phase.
+ */
+export const resizeTimeline = (timeline: EventTimeline, changes: Partial<EventTimeline>): EventTimeline => {
+  const next = { ...timeline, ...changes };
+  const duration = timelineDurationMinutes(next.startTime, next.endTime);
+  const count = Math.min(MAX_TIMELINE_INTERVALS, Math.max(1, Math.ceil(duration / next.intervalMinutes)));
+  const last = timeline.intervals[timeline.intervals.length - 1] ?? createTimelineInterval();
+  const intervals = Array.from({ length: count }, (_, idx) => timeline.intervals[idx] ?? { ...last });
+  return { ...next, intervals };
+};
+
+export const createDefaultTimeline = (): EventTimeline => {
+  const phases = ["ingress", "main", "main", "halftime", "main", "egress"];
+  return {
+    startTime: "18:00",
+    endTime: "21:00",
+    intervalMinutes: 30,
+    intervals: phases.map((phase) => ({
+      ...createTimelineInterval(phase),
+      attendanceMultiplier: phase === "ingress" ? 1.5 : phase === "egress" ? 1.2 : 1,
+      salesMultiplier: phase === "halftime" ? 2.5 : phase === "egress" ? 0.3 : 1,
+    })),
+  };
+};
+
+export const intervalStartMinutes = (timeline: EventTimeline, index: number) =>
+  (parseClockTime(timeline.startTime) ?? 0) + index * timeline.intervalMinutes;
+
+// Length of an interval; the last one may be cut short by the end time.
+export const intervalDurationMinutes = (timeline: EventTimeline, index: number) => {
+  const total = timelineDurationMinutes(timeline.startTime, timeline.endTime);
+  return Math.max(0, Math.min(timeline.intervalMinutes, total - index * timeline.intervalMinutes));
+};
+
+export const vendorSalesMultiplier = (interval: TimelineInterval, vendorId: string) =>
+  interval.vendorSalesMultipliers[vendorId] ?? interval.salesMultiplier;
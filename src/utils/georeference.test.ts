@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  controlPointErrors,
+  fitGeoreference,
+  geoToImage,
+  georeferenceScale,
+  imageToGeo,
+  localToGeo,
+} from "@/utils/georeference";
+import type { GeoControlPoint, Point } from "@/utils/mapTypes";
+import { pixelsPerMeter } from "@/utils/mapScale";
+
+const origin = { lat: 51.5, lon: -0.12 };
+
+// An image at 2 px per meter, rotated 30° from north and with y pointing down.
+const pin = (image: Point): GeoControlPoint => {
+  const angle = Math.PI / 6;
+  const east = (image.x * Math.cos(angle) + image.y * Math.sin(angle)) / 2;
+  const north = (image.x * Math.sin(angle) - image.y * Math.cos(angle)) / 2;
+  return { image, ...localToGeo(origin, { x: east, y: north }) };
+};
+
+describe("georeference", () => {
+  it("fits an affine transform through three pins", () => {
+    const georeference = fitGeoreference([pin({ x: 0, y: 0 }), pin({ x: 400, y: 0 }), pin({ x: 0, y: 300 })], "affine");
+    const position = imageToGeo(georeference, { x: 200, y: 150 });
+
+    expect(position.lat).toBeCloseTo(pin({ x: 200, y: 150 }).lat, 9);
+    expect(position.lon).toBeCloseTo(pin({ x: 200, y: 150 }).lon, 9);
+    const back = geoToImage(georeference, position);
+    expect(back.x).toBeCloseTo(200, 6);
+    expect(back.y).toBeCloseTo(150, 6);
+    controlPointErrors(georeference).forEach((error) => expect(error).toBeLessThan(1e-6));
+    expect(pixelsPerMeter(georeferenceScale(georeference, { width: 400, height: 300 }))).toBeCloseTo(2, 4);
+  });
+
+  it("fits a projective transform and reports residuals for extra pins", () => {
+    const pins = [pin({ x: 0, y: 0 }), pin({ x: 400, y: 0 }), pin({ x: 400, y: 300 }), pin({ x: 0, y: 300 })];
+    const exact = fitGeoreference(pins, "projective");
+    controlPointErrors(exact).forEach((error) => expect(error).toBeLessThan(1e-6));
+
+    // A pin 4 m (8 px) off shows up in the least-squares residuals.
+    const misplaced = { ...pin({ x: 200, y: 150 }), image: { x: 208, y: 150 } };
+    const errors = controlPointErrors(fitGeoreference([...pins, misplaced], "affine"));
+    expect(Math.max(...errors)).toBeGreaterThan(1);
+    expect(Math.max(...errors)).toBeLessThan(4);
+  });
+
+  it("rejects too few or collinear pins", () => {
+    expect(() => fitGeoreference([pin({ x: 0, y: 0 }), pin({ x: 10, y: 0 })], "affine")).toThrow("at least 3");
+    expect(() =>
+      fitGeoreference([pin({ x: 0, y: 0 }), pin({ x: 10, y: 0 }), pin({ x: 20, y: 0 })], "affine")
+    ).toThrow("do not fix a transform");
+  });
+});
@@ -0,0 +1,160 @@
+// Fits and applies the transform between image pixels and latitude/longitude.
+// Positions are handled in a local tangent plane (meters east and north of the
+// pins' centroid), which is exact enough at venue scale and keeps the fit well
+// conditioned. Affine fits need three pins, projective fits four; extra pins
+// are fitted by least squares. Pure: no React, no I/O.
+
+import type { GeoControlPoint, GeoPosition, Georeference, MapScale, Point } from "@/utils/mapTypes";
+
+export const METERS_PER_DEGREE_LAT = 110_540;
+export const METERS_PER_DEGREE_LON = 111_320;
+
+export const MIN_CONTROL_POINTS: Record<Georeference["kind"], number> = {
+  affine: 3,
+  projective: 4,
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Meters east/north of `origin`.
+export const geoToLocal = (origin: GeoPosition, { lat, lon }: GeoPosition): Point => ({
+  x: (lon - origin.lon) * Math.cos(toRadians(origin.lat)) * METERS_PER_DEGREE_LON,
+  y: (lat - origin.lat) * METERS_PER_DEGREE_LAT,
+});
+
+export const localToGeo = (origin: GeoPosition, { x, y }: Point): GeoPosition => ({
+  lat: origin.lat + y / METERS_PER_DEGREE_LAT,
+  lon: origin.lon + x / (Math.cos(toRadians(origin.lat)) * METERS_PER_DEGREE_LON),
+});
+
+/** Solves `matrix · x = rhs` by Gaussian elimination; null when singular. */
+const solveLinearSystem = (matrix: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const rows = matrix.map((row, idx) => [...row, rhs[idx]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, idx) => row[n] / row[idx]);
+};
+
+// Least squares through the normal equations: (AᵀA) x = Aᵀb.
+const leastSquares = (equations: number[][], targets: number[]) => {
+  const size = equations[0].length;
+  const normal = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => equations.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const rhs = Array.from({ length: size }, (_, i) =>
+    equations.reduce((sum, row, idx) => sum + row[i] * targets[idx], 0)
+  );
+  return solveLinearSystem(normal, rhs);
+};
+
+const multiply = (a: number[], b: number[]) =>
+  Array.from({ length: 9 }, (_, idx) => {
+    const row = Math.floor(idx / 3);
+    const col = idx % 3;
+    return a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col];
+  });
+
+const invert = (m: number[]) => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const cofactors = [e * i - f * h, c * h - b * i, b * f - c * e, f * g - d * i, a * i - c * g, c * d - a * f, d * h - e * g, b * g - a * h, a * e - b * d];
+  const determinant = a * cofactors[0] + b * cofactors[3] + c * cofactors[6];
+  return cofactors.map((value) => value / determinant);
+};
+
+const apply = (m: number[], { x, y }: Point): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+/**
+ * Fits the pins. Throws when there are too few of them or they cannot fix a
+ * transform (e.g. all on one line).
+ */
+export const fitGeoreference = (controlPoints: GeoControlPoint[], kind: Georeference["kind"]): Georeference => {
+  const needed = MIN_CONTROL_POINTS[kind];
+  if (controlPoints.length < needed) {
+    throw new Error(`An ${kind} georeference needs at least ${needed} pinned points.`);
+  }
+  const origin = {
+    lat: controlPoints.reduce((sum, point) => sum + point.lat, 0) / controlPoints.length,
+    lon: controlPoints.reduce((sum, point) => sum + point.lon, 0) / controlPoints.length,
+  };
+  // Image points are centred too; the shift is folded back into the matrix.
+  const cx = controlPoints.reduce((sum, point) => sum + point.image.x, 0) / controlPoints.length;
+  const cy = controlPoints.reduce((sum, point) => sum + point.image.y, 0) / controlPoints.length;
+  const pairs = controlPoints.map((point) => ({
+    image: { x: point.image.x - cx, y: point.image.y - cy },
+    local: geoToLocal(origin, point),
+  }));
+
+  let centred: number[] | null;
+  if (kind === "affine") {
+    const rows = pairs.map(({ image }) => [image.x, image.y, 1]);
+    const east = leastSquares(rows, pairs.map(({ local }) => local.x));
+    const north = leastSquares(rows, pairs.map(({ local }) => local.y));
+    centred = east && north ? [...east, ...north, 0, 0, 1] : null;
+  } else {
+    // x' = (a x + b y + c) / (g x + h y + 1), linearised per coordinate.
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    pairs.forEach(({ image: { x, y }, local }) => {
+      rows.push([x, y, 1, 0, 0, 0, -x * local.x, -y * local.x]);
+      targets.push(local.x);
+      rows.push([0, 0, 0, x, y, 1, -x * local.y, -y * local.y]);
+      targets.push(local.y);
+    });
+    const solution = leastSquares(rows, targets);
+    centred = solution ? [...solution, 1] : null;
+  }
+  if (!centred || centred.some((value) => !Number.isFinite(value))) {
+    throw new Error("The pinned points do not fix a transform; spread them out and avoid putting them in a line.");
+  }
+
+  return {
+    kind,
+    controlPoints,
+    origin,
+    matrix: multiply(centred, [1, 0, -cx, 0, 1, -cy, 0, 0, 1]),
+  };
+};
+
+export const imageToGeo = (georeference: Georeference, point: Point): GeoPosition =>
+  localToGeo(georeference.origin, apply(georeference.matrix, point));
+
+export const geoToImage = (georeference: Georeference, position: GeoPosition): Point =>
+  apply(invert(georeference.matrix), geoToLocal(georeference.origin, position));
+
+// Meters between where each pin lands under the fit and where it was placed.
+export const controlPointErrors = (georeference: Georeference) =>
+  georeference.controlPoints.map((point) => {
+    const fitted = apply(georeference.matrix, point.image);
+    const placed = geoToLocal(georeference.origin, point);
+    return Math.hypot(fitted.x - placed.x, fitted.y - placed.y);
+  });
+
+/**
+ * The map scale a georeference implies, measured along a line across the
+ * middle of the map (projective fits vary a little over the image).
+ */
+export const georeferenceScale = (
+  georeference: Georeference,
+  mapSize: { width: number; height: number }
+): MapScale => {
+  const start = { x: 0, y: mapSize.height / 2 };
+  const end = { x: mapSize.width, y: mapSize.height / 2 };
+  const a = apply(georeference.matrix, start);
+  const b = apply(georeference.matrix, end);
+  return { start, end, meters: Math.hypot(b.x - a.x, b.y - a.y) };
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { applyImportedLayout, layoutToGeoJson, parseLayoutGeoJson } from "@/utils/layoutGeoJson";
+import { CELL_NO_GO, CELL_WALL, type MapState } from "@/utils/mapTypes";
+import { createObstacleLayer, paintRectangle } from "@/utils/obstacleLayer";
+import { fitGeoreference } from "@/utils/georeference";
+
+const blankLayer = () => createObstacleLayer(100, 60, 10);
+
+const layout = (): MapState => {
+  let obstacles = paintRectangle(blankLayer(), { row: 1, col: 1 }, { row: 3, col: 4 }, CELL_WALL);
+  obstacles = paintRectangle(obstacles, { row: 2, col: 6 }, { row: 2, col: 6 }, CELL_NO_GO);
+  return {
+    nodes: [
+      { id: "v1", x: 10, y: 20, type: "vendor", label: "Tacos", menuType: "fast-food" },
+      { id: "e1", x: 0, y: 50, type: "entry-exit", label: "Gate" },
+      { id: "b1", x: 40, y: 20, type: "bin", label: "Bin 1", stream: "station", emptyEveryMinutes: 30 },
+    ],
+    paths: [{ id: "p1", points: [{ x: 0, y: 50 }, { x: 90, y: 50 }], type: "walkway", label: "Main", capacity: 80 }],
+    obstacles,
+  };
+};
+
+describe("layoutGeoJson", () => {
+  it("round-trips nodes, walkways and painted cells", () => {
+    const original = layout();
+    const collection = layoutToGeoJson(original, 120);
+    const bin = collection.features.find((feature) => feature.properties.id === "b1");
+    expect(bin?.properties).toMatchObject({ kind: "bin", stream: "station", capacityLiters: 120 });
+    expect(collection.features.filter((feature) => feature.properties.kind === "obstacle")).toHaveLength(2);
+
+    const imported = parseLayoutGeoJson(JSON.stringify(collection));
+    expect(imported.errors).toEqual([]);
+    const restored = applyImportedLayout({ nodes: [], paths: [], obstacles: null }, imported, "replace", blankLayer());
+    expect(restored.nodes).toEqual(original.nodes);
+    expect(restored.paths).toEqual(original.paths);
+    expect(restored.obstacles?.cells).toEqual(original.obstacles?.cells);
+  });
+
+  it("round-trips walkways without a capacity limit", () => {
+    const original: MapState = {
+      nodes: [],
+      paths: [{ id: "p1", points: [{ x: 0, y: 50 }, { x: 90, y: 50 }], type: "walkway", label: "Open", capacity: 0 }],
+      obstacles: null,
+    };
+    const imported = parseLayoutGeoJson(JSON.stringify(layoutToGeoJson(original, 120)));
+
+    expect(imported.errors).toEqual([]);
+    expect(applyImportedLayout(original, imported, "replace", blankLayer()).paths).toEqual(original.paths);
+  });
+
+  it("reports invalid features and keeps the rest", () => {
+    const imported = parseLayoutGeoJson(
+      JSON.stringify({
+        type: "FeatureCollection",
+        coordinateSpace: "image-pixels",
+        features: [
+          { type: "Feature", geometry: { type: "Point", coordinates: [5, 5] }, properties: { kind: "bin" } },
+          { type: "Feature", geometry: { type: "Point", coordinates: [5, 5] }, properties: { kind: "tree" } },
+          { type: "Feature", geometry: { type: "Point", coordinates: [5, 5] }, properties: { kind: "walkway" } },
+          { type: "Feature", geometry: null, properties: { kind: "vendor" } },
+        ],
+      })
+    );
+    expect(imported.nodes).toEqual([{ id: "import-1", x: 5, y: 5, type: "bin", label: "Bin 1" }]);
+    expect(imported.errors).toHaveLength(3);
+    expect(imported.errors[0]).toMatch(/^Feature 2 at "kind"/);
+    expect(imported.errors[1]).toMatch(/^Feature 3 at "geometry/);
+    expect(imported.errors[2]).toMatch(/^Feature 4:/);
+  });
+
+  it("rejects files whose coordinates cannot be placed on the map", () => {
+    expect(() => parseLayoutGeoJson("{")).toThrow("not valid JSON");
+    expect(() => parseLayoutGeoJson('{"type":"Feature"}')).toThrow("FeatureCollection");
+    expect(() => parseLayoutGeoJson('{"type":"FeatureCollection","features":[],"coordinateSpace":"wgs84"}')).toThrow(
+      "wgs84"
+    );
+    expect(() => parseLayoutGeoJson('{"type":"FeatureCollection","features":[]}')).toThrow("georeference the map");
+  });
+
+  it("exports and imports longitude/latitude on a georeferenced map", () => {
+    // 1 px per 0.00001°, north up.
+    const georeference = fitGeoreference(
+      [
+        { image: { x: 0, y: 0 }, lat: 10.001, lon: 20 },
+        { image: { x: 100, y: 0 }, lat: 10.001, lon: 20.001 },
+        { image: { x: 0, y: 100 }, lat: 10, lon: 20 },
+      ],
+      "affine"
+    );
+    const original = layout();
+    const collection = layoutToGeoJson(original, 120, georeference);
+    expect(collection.coordinateSpace).toBeUndefined();
+    expect(collection.features[0].geometry.coordinates).toEqual([20.0001, 10.0008]);
+
+    const imported = parseLayoutGeoJson(JSON.stringify(collection), "import", georeference);
+    const restored = applyImportedLayout({ nodes: [], paths: [], obstacles: null }, imported, "replace", blankLayer());
+    restored.nodes.forEach((node, idx) => {
+      expect(node.x).toBeCloseTo(original.nodes[idx].x, 3);
+      expect(node.y).toBeCloseTo(original.nodes[idx].y, 3);
+    });
+    expect(restored.obstacles?.cells).toEqual(original.obstacles?.cells);
+  });
+
+  it("merges into the current layout, renaming colliding ids", () => {
+    const current = layout();
+    const imported = parseLayoutGeoJson(JSON.stringify(layoutToGeoJson(current, 120)));
+    const merged = applyImportedLayout(current, imported, "merge", current.obstacles!);
+    expect(merged.nodes.map((node) => node.id)).toEqual(["v1", "e1", "b1", "v1-2", "e1-2", "b1-2"]);
+    expect(merged.paths.map((path) => path.id)).toEqual(["p1", "p1-2"]);
+    expect(merged.obstacles?.cells).toEqual(current.obstacles?.cells);
+  });
+});
@@ -0,0 +1,386 @@
+// GeoJSON exchange of venue layouts. On a georeferenced map coordinates are
+// standard [longitude, latitude]; otherwise they are [x, y] in image pixels of
+// the project map, marked by a FeatureCollection foreign member,
+// `coordinateSpace: "image-pixels"`. Every feature carries a `kind` property:
+//
+//   kind "vendor"     Point       id, label, menuType?, purchaseProbability?
+//   kind "entry-exit" Point       id, label
+//   kind "bin"        Point       id, label, stream?, capacityLiters?, crewId?, emptyEveryMinutes?
+//   kind "walkway"    LineString  id, label, capacity (people per minute)
+//   kind "obstacle"   Polygon     material ("wall" | "no-go" | "walkable")
+//
+// `capacityLiters` is exported from the planning inputs for other tools; on
+// import bins keep sharing the project's bin capacity. Obstacles are painted
+// cells merged into rectangles on export and re-painted cell by cell on import.
+// Pure: no React, no I/O.
+
+import { z } from "zod";
+import {
+  CELL_NO_GO,
+  CELL_UNPAINTED,
+  CELL_WALKABLE,
+  CELL_WALL,
+  type CellKind,
+  type Georeference,
+  type MapState,
+  type Node,
+  type ObstacleLayer,
+  type Path,
+  type Point,
+} from "@/utils/mapTypes";
+import { paintPolygon, paintPolyline } from "@/utils/obstacleLayer";
+import { geoToImage, imageToGeo } from "@/utils/georeference";
+
+export const LAYOUT_COORDINATE_SPACE = "image-pixels";
+
+export type ObstacleMaterial = "wall" | "no-go" | "walkable";
+
+const MATERIAL_CELLS: Record<ObstacleMaterial, CellKind> = {
+  wall: CELL_WALL,
+  "no-go": CELL_NO_GO,
+  walkable: CELL_WALKABLE,
+};
+
+type Position = [number, number];
+
+export interface LayoutFeature {
+  type: "Feature";
+  geometry:
+    | { type: "Point"; coordinates: Position }
+    | { type: "LineString"; coordinates: Position[] }
+    | { type: "Polygon"; coordinates: Position[][] };
+  properties: Record<string, string | number>;
+}
+
+export interface LayoutFeatureCollection {
+  type: "FeatureCollection";
+  // Absent for geographic coordinates.
+  coordinateSpace?: typeof LAYOUT_COORDINATE_SPACE;
+  features: LayoutFeature[];
+}
+
+export interface ImportedObstacle {
+  material: ObstacleMaterial;
+  polygon: Point[];
+  // Paint only the cells along the outline (fences, walls drawn as lines).
+  outline?: boolean;
+}
+
+export interface ImportedLayout {
+  nodes: Node[];
+  paths: Path[];
+  obstacles: ImportedObstacle[];
+  // One message per feature that was skipped, e.g. "Feature 3: ...".
+  errors: string[];
+}
+
+// Converts map points to the file's coordinates; seven decimals of a degree are about a centimeter.
+const positionWriter = (georeference: Georeference | null) => (point: Point): Position => {
+  if (!georeference) return [point.x, point.y];
+  const { lat, lon } = imageToGeo(georeference, point);
+  return [Math.round(lon * 1e7) / 1e7, Math.round(lat * 1e7) / 1e7];
+};
+
+// Drops undefined optional fields so the exported properties stay tidy.
+const defined = (properties: Record<string, string | number | undefined>) =>
+  Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined)) as Record<
+    string,
+    string | number
+  >;
+
+const nodeFeature = (node: Node, binCapacity: number, toPosition: (point: Point) => Position): LayoutFeature => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates: toPosition(node) },
+  properties: defined({
+    kind: node.type,
+    id: node.id,
+    label: node.label,
+    menuType: node.menuType,
+    purchaseProbability: node.purchaseProbability,
+    stream: node.stream,
+    capacityLiters: node.type === "bin" ? binCapacity : undefined,
+    crewId: node.crewId,
+    emptyEveryMinutes: node.emptyEveryMinutes,
+  }),
+});
+
+const pathFeature = (path: Path, toPosition: (point: Point) => Position): LayoutFeature => ({
+  type: "Feature",
+  geometry: { type: "LineString", coordinates: path.points.map(toPosition) },
+  properties: { kind: "walkway", id: path.id, label: path.label, capacity: path.capacity },
+});
+
+/**
+ * Merges painted cells into rectangles: runs of one material along a row,
+ * grown downwards while the rows below repeat the exact same run.
+ */
+const obstacleRectangles = (layer: ObstacleLayer) => {
+  const rectangles: { material: ObstacleMaterial; row: number; col: number; rows: number; cols: number }[] = [];
+  const covered = new Uint8Array(layer.cells.length);
+  const materialOf = (cell: CellKind) =>
+    (Object.keys(MATERIAL_CELLS) as ObstacleMaterial[]).find((material) => MATERIAL_CELLS[material] === cell);
+  for (let row = 0; row < layer.rows; row++) {
+    let col = 0;
+    while (col < layer.cols) {
+      const index = row * layer.cols + col;
+      const cell = layer.cells[index];
+      if (cell === CELL_UNPAINTED || covered[index]) {
+        col++;
+        continue;
+      }
+      let cols = 1;
+      while (
+        col + cols < layer.cols &&
+        layer.cells[index + cols] === cell &&
+        !covered[index + cols]
+      ) {
+        cols++;
+      }
+      let rows = 1;
+      const repeatsBelow = (below: number) => {
+        const start = below * layer.cols + col;
+        for (let offset = 0; offset < cols; offset++) {
+          if (layer.cells[start + offset] !== cell || covered[start + offset]) return false;
+        }
+        const before = col > 0 && layer.cells[start - 1] === cell;
+        const after = col + cols < layer.cols && layer.cells[start + cols] === cell;
+        return !before && !after;
+      };
+      while (row + rows < layer.rows && repeatsBelow(row + rows)) rows++;
+      for (let r = row; r < row + rows; r++) {
+        covered.fill(1, r * layer.cols + col, r * layer.cols + col + cols);
+      }
+      rectangles.push({ material: materialOf(cell)!, row, col, rows, cols });
+      col += cols;
+    }
+  }
+  return rectangles;
+};
+
+const obstacleFeatures = (layer: ObstacleLayer, toPosition: (point: Point) => Position): LayoutFeature[] =>
+  obstacleRectangles(layer).map(({ material, row, col, rows, cols }) => {
+    const { gridSize } = layer;
+    const left = col * gridSize;
+    const top = row * gridSize;
+    const right = (col + cols) * gridSize;
+    const bottom = (row + rows) * gridSize;
+    return {
+      type: "Feature",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            { x: left, y: top },
+            { x: right, y: top },
+            { x: right, y: bottom },
+            { x: left, y: bottom },
+            { x: left, y: top },
+          ].map(toPosition),
+        ],
+      },
+      properties: { kind: "obstacle", material },
+    };
+  });
+
+export const layoutToGeoJson = (
+  { nodes, paths, obstacles }: MapState,
+  binCapacity: number,
+  georeference: Georeference | null = null
+): LayoutFeatureCollection => {
+  const toPosition = positionWriter(georeference);
+  return {
+    type: "FeatureCollection",
+    ...(georeference ? {} : { coordinateSpace: LAYOUT_COORDINATE_SPACE }),
+    features: [
+      ...nodes.map((node) => nodeFeature(node, binCapacity, toPosition)),
+      ...paths.map((path) => pathFeature(path, toPosition)),
+      ...(obstacles ? obstacleFeatures(obstacles, toPosition) : []),
+    ],
+  };
+};
+
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+
+const idLabelSchema = {
+  id: z.string().min(1).optional(),
+  label: z.string().optional(),
+};
+
+const pointGeometrySchema = z.object({ type: z.literal("Point"), coordinates: positionSchema });
+
+const featureSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("vendor"),
+    geometry: pointGeometrySchema,
+    properties: z.object({
+      ...idLabelSchema,
+      menuType: z.enum(["general", "beverages", "fast-food", "snacks", "coffee"]).optional(),
+      purchaseProbability: z.number().min(0).max(1).optional(),
+    }),
+  }),
+  z.object({
+    kind: z.literal("entry-exit"),
+    geometry: pointGeometrySchema,
+    properties: z.object(idLabelSchema),
+  }),
+  z.object({
+    kind: z.literal("bin"),
+    geometry: pointGeometrySchema,
+    properties: z.object({
+      ...idLabelSchema,
+      stream: z.enum(["single", "landfill", "recycling", "compost", "deposit", "station"]).optional(),
+      capacityLiters: z.number().positive().optional(),
+      crewId: z.string().optional(),
+      emptyEveryMinutes: z.number().positive().optional(),
+    }),
+  }),
+  z.object({
+    kind: z.literal("walkway"),
+    geometry: z.object({ type: z.literal("LineString"), coordinates: z.array(positionSchema).min(2) }),
+    properties: z.object({ ...idLabelSchema, capacity: z.number().nonnegative().default(50) }),
+  }),
+  z.object({
+    kind: z.literal("obstacle"),
+    geometry: z.object({
+      type: z.literal("Polygon"),
+      coordinates: z.array(z.array(positionSchema).min(4)).min(1),
+    }),
+    properties: z.object({ material: z.enum(["wall", "no-go", "walkable"]) }),
+  }),
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const NODE_LABELS: Record<Node["type"], string> = {
+  vendor: "Vendor",
+  "entry-exit": "Entry/Exit",
+  bin: "Bin",
+};
+
+/**
+ * Reads a layout FeatureCollection. Invalid features are skipped and reported
+ * in `errors`; only a file that is not a FeatureCollection at all, or whose
+ * coordinates cannot be placed on the map, throws. Geographic files need the
+ * map's `georeference`. `idPrefix` keeps generated ids unique across imports.
+ */
+export const parseLayoutGeoJson = (
+  text: string,
+  idPrefix = "import",
+  georeference: Georeference | null = null
+): ImportedLayout => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.type !== "FeatureCollection" || !Array.isArray(raw.features)) {
+    throw new Error("The file is not a GeoJSON FeatureCollection.");
+  }
+  if (raw.coordinateSpace !== undefined && raw.coordinateSpace !== LAYOUT_COORDINATE_SPACE) {
+    throw new Error(
+      `Coordinates in "${String(raw.coordinateSpace)}" are not supported; expected image pixels or longitude/latitude.`
+    );
+  }
+  const isGeographic = raw.coordinateSpace === undefined;
+  if (isGeographic && !georeference) {
+    throw new Error("The file has longitude/latitude coordinates; georeference the map before importing it.");
+  }
+  const toPoint = ([x, y]: number[]): Point => (isGeographic ? geoToImage(georeference!, { lat: y, lon: x }) : { x, y });
+
+  const layout: ImportedLayout = { nodes: [], paths: [], obstacles: [], errors: [] };
+  raw.features.forEach((feature, idx) => {
+    const featureName = `Feature ${idx + 1}`;
+    if (!isRecord(feature) || feature.type !== "Feature" || !isRecord(feature.geometry)) {
+      layout.errors.push(`${featureName}: not a GeoJSON feature with a geometry.`);
+      return;
+    }
+    const properties = isRecord(feature.properties) ? feature.properties : {};
+    const result = featureSchema.safeParse({
+      kind: properties.kind,
+      geometry: feature.geometry,
+      properties,
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const at = issue.path.length > 0 ? ` at "${issue.path.join(".")}"` : "";
+      layout.errors.push(`${featureName}${at}: ${issue.message}`);
+      return;
+    }
+
+    const parsed = result.data;
+    const id = "id" in parsed.properties && parsed.properties.id ? parsed.properties.id : `${idPrefix}-${idx + 1}`;
+    if (parsed.kind === "walkway") {
+      layout.paths.push({
+        id,
+        points: parsed.geometry.coordinates.map(toPoint),
+        type: "walkway",
+        label: parsed.properties.label ?? `Walkway ${layout.paths.length + 1}`,
+        capacity: parsed.properties.capacity,
+      });
+    } else if (parsed.kind === "obstacle") {
+      layout.obstacles.push({
+        material: parsed.properties.material,
+        polygon: parsed.geometry.coordinates[0].map(toPoint),
+      });
+    } else {
+      const { x, y } = toPoint(parsed.geometry.coordinates);
+      const sameType = layout.nodes.filter((node) => node.type === parsed.kind).length;
+      const node: Node = {
+        id,
+        x,
+        y,
+        type: parsed.kind,
+        label: parsed.properties.label ?? `${NODE_LABELS[parsed.kind]} ${sameType + 1}`,
+      };
+      if (parsed.kind === "vendor") {
+        const { menuType, purchaseProbability } = parsed.properties;
+        if (menuType) node.menuType = menuType;
+        if (purchaseProbability !== undefined) node.purchaseProbability = purchaseProbability;
+      } else if (parsed.kind === "bin") {
+        const { stream, crewId, emptyEveryMinutes } = parsed.properties;
+        if (stream) node.stream = stream;
+        if (crewId) node.crewId = crewId;
+        if (emptyEveryMinutes !== undefined) node.emptyEveryMinutes = emptyEveryMinutes;
+      }
+      layout.nodes.push(node);
+    }
+  });
+  return layout;
+};
+
+/**
+ * Applies an import to the current layout. "replace" swaps out every node,
+ * walkway and painted cell; "merge" keeps them and renames imported ids that
+ * collide. `baseLayer` is the blank or current obstacle layer to paint into.
+ */
+export const applyImportedLayout = (
+  current: MapState,
+  imported: ImportedLayout,
+  mode: "merge" | "replace",
+  baseLayer: ObstacleLayer
+): MapState => {
+  const keep = mode === "merge";
+  const taken = new Set(keep ? [...current.nodes, ...current.paths].map((item) => item.id) : []);
+  const uniqueId = (id: string) => {
+    let candidate = id;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${id}-${n}`;
+    taken.add(candidate);
+    return candidate;
+  };
+  const nodes = imported.nodes.map((node) => ({ ...node, id: uniqueId(node.id) }));
+  const paths = imported.paths.map((path) => ({ ...path, id: uniqueId(path.id) }));
+
+  const obstacles = imported.obstacles.reduce(
+    (layer, { material, polygon, outline }) =>
+      (outline ? paintPolyline : paintPolygon)(layer, polygon, MATERIAL_CELLS[material]),
+    keep ? baseLayer : { ...baseLayer, cells: baseLayer.cells.map((): CellKind => CELL_UNPAINTED) }
+  );
+
+  return {
+    nodes: keep ? [...current.nodes, ...nodes] : nodes,
+    paths: keep ? [...current.paths, ...paths] : paths,
+    obstacles: imported.obstacles.length > 0 ? obstacles : keep ? current.obstacles : null,
+  };
+};
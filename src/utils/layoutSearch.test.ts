@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectCandidateSites,
+  layoutBinLimit,
+  scoreLayout,
+  searchLayouts,
+  type LayoutSearchContext,
+  type LayoutSearchProgress,
+} from "@/utils/layoutSearch";
+import type { Path } from "@/utils/mapTypes";
+
+// A 10x3 corridor: entry on the left, stall on the right.
+const context = (overrides: Partial<LayoutSearchContext> = {}): LayoutSearchContext => ({
+  simulation: {
+    gridSize: 10,
+    mapWidth: 100,
+    mapHeight: 30,
+    numAgents: 10,
+    staticWeight: 1,
+    dynamicWeight: 0,
+    randomness: 0.2,
+    decayRate: 0.95,
+    diffusionRate: 0.1,
+  },
+  littering: { carryStepsMin: 1, carryStepsMax: 5, willingnessToWalk: 40 },
+  nodes: [
+    { id: "entry", x: 5, y: 15, type: "entry-exit" },
+    { id: "stall", x: 95, y: 15, type: "vendor", purchaseProbability: 1 },
+  ],
+  obstacles: new Uint8Array(30),
+  sites: [
+    { x: 15, y: 15 },
+    { x: 55, y: 15 },
+    { x: 85, y: 15 },
+  ],
+  maxBins: 3,
+  costPerBin: 100,
+  budget: 300,
+  binCapacityPerHour: 100,
+  wastePerHour: 50,
+  ...overrides,
+});
+
+const options = { seed: 3, iterations: 4, replications: 1, stepsPerReplication: 200 };
+
+describe("layoutSearch", () => {
+  it("places sites along walkways and skips blocked cells", () => {
+    const obstacles = new Uint8Array(30);
+    obstacles[16] = 1;
+    const sites = collectCandidateSites(
+      [{ id: "walk", type: "walkway", label: "Main", capacity: 60, points: [{ x: 0, y: 15 }, { x: 80, y: 15 }] }],
+      obstacles,
+      10,
+      10
+    );
+
+    expect(sites).toEqual([{ x: 20, y: 15 }]);
+  });
+
+  it("spaces sites in meters on a calibrated map", () => {
+    const walk: Path = {
+      id: "walk",
+      type: "walkway",
+      label: "Main",
+      capacity: 60,
+      points: [{ x: 0, y: 15 }, { x: 80, y: 15 }],
+    };
+    // 5 px per meter: sites every 20 px instead of 40.
+    const scale = { start: { x: 0, y: 0 }, end: { x: 50, y: 0 }, meters: 10 };
+
+    expect(collectCandidateSites([walk], new Uint8Array(30), 10, 10)).toHaveLength(2);
+    expect(collectCandidateSites([walk], new Uint8Array(30), 10, 10, scale)).toHaveLength(4);
+  });
+
+  it("limits bins by count and budget", () => {
+    expect(layoutBinLimit(context())).toBe(3);
+    expect(layoutBinLimit(context({ budget: 150 }))).toBe(1);
+    expect(layoutBinLimit(context({ maxBins: 2 }))).toBe(2);
+  });
+
+  it("scores a bin near the stall above no bins", () => {
+    const withBin = scoreLayout(context(), [{ x: 85, y: 15 }], options);
+    const withoutBins = scoreLayout(context(), [], options);
+
+    expect(withBin.captureRate).toBeGreaterThan(0);
+    expect(withoutBins.litterRate).toBe(1);
+    expect(withBin.objective).toBeLessThan(withoutBins.objective);
+  });
+
+  it("reports progress and returns a layout within the limit", async () => {
+    const progress: LayoutSearchProgress[] = [];
+    const result = await searchLayouts(context({ budget: 200 }), options, [{ x: 10, y: 15 }], {
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(progress.map((update) => update.iteration)).toEqual([1, 2, 3, 4]);
+    expect(result.iterations).toBe(4);
+    expect(result.cancelled).toBe(false);
+    expect(result.best.bins.length).toBeLessThanOrEqual(2);
+    expect(result.best.score.objective).toBeLessThanOrEqual(progress[0].current.objective);
+  });
+
+  it("stops when cancelled and keeps the best layout so far", async () => {
+    let checks = 0;
+    const result = await searchLayouts(context(), options, [{ x: 55, y: 15 }], {
+      isCancelled: () => ++checks > 2,
+    });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.iterations).toBe(2);
+    expect(result.best.bins.length).toBeGreaterThan(0);
+  });
+});
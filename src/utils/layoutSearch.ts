@@ -0,0 +1,294 @@
+// Simulation-in-the-loop bin layout search. Candidate layouts are scored by
+// running a batch of SimulationEngine replications with littering on, and a
+// simulated-annealing search moves, adds and removes bins within the bin and
+// cost budget. Every candidate is scored on the same replication seeds so
+// differences come from the layout, not the noise. Pure apart from yielding
+// to the event loop between iterations so callers can cancel.
+
+import type { MapScale, Path, Point } from "@/utils/mapTypes";
+import { pixelsPerMeter } from "@/utils/mapScale";
+import { createRandom, normalizeSeed, type Random } from "@/utils/random";
+import {
+  SimulationEngine,
+  type LitteringParams,
+  type Node as EngineNode,
+  type SimulationParams,
+} from "@/utils/simulationEngine";
+
+export interface LayoutSearchContext {
+  simulation: Omit<SimulationParams, "seed" | "timeline" | "littering">;
+  littering: LitteringParams;
+  // Vendors and entries; bins come from the candidate layout.
+  nodes: EngineNode[];
+  obstacles: Uint8Array;
+  sites: Point[];
+  maxBins: number;
+  costPerBin: number;
+  budget: number;
+  binCapacityPerHour: number; // liters
+  wastePerHour: number; // liters, spread over simulated items by share
+  // Calibrated map scale; the default pixels per meter applies without one.
+  scale?: MapScale | null;
+}
+
+export interface LayoutSearchOptions {
+  seed: number;
+  iterations: number;
+  replications: number;
+  stepsPerReplication: number;
+}
+
+export interface LayoutScore {
+  binCount: number;
+  cost: number;
+  captureRate: number; // share of simulated items that reached a bin
+  litterRate: number;
+  overflowPerHour: number; // liters beyond hourly bin capacity
+  avgWalkToBin: number; // px
+  // Lower is better.
+  objective: number;
+}
+
+export interface LayoutCandidate {
+  bins: Point[];
+  score: LayoutScore;
+}
+
+export interface LayoutSearchProgress {
+  iteration: number;
+  iterations: number;
+  best: LayoutCandidate;
+  current: LayoutScore;
+}
+
+export interface LayoutSearchResult {
+  best: LayoutCandidate;
+  iterations: number;
+  cancelled: boolean;
+}
+
+export interface LayoutSearchCallbacks {
+  onProgress?: (progress: LayoutSearchProgress) => void;
+  isCancelled?: () => boolean;
+}
+
+// Distances in meters.
+const SITE_SPACING_M = 4;
+// A moved bin jumps to a site within four site spacings when it can.
+const MOVE_RADIUS_M = SITE_SPACING_M * 4;
+// Free-cell stride (in cells) used for sites when no walkways are drawn.
+const FALLBACK_SITE_STRIDE = 4;
+// Objective weights relative to the litter rate.
+const OVERFLOW_WEIGHT = 1;
+const WALK_WEIGHT = 0.2;
+const COST_WEIGHT = 0.1;
+const INITIAL_TEMPERATURE = 0.05;
+
+/**
+ * Bin sites every SITE_SPACING_M meters along the walkways, skipping blocked
+ * cells. Without walkways every few free cells become a site.
+ */
+export const collectCandidateSites = (
+  paths: Path[],
+  obstacles: Uint8Array,
+  gridSize: number,
+  cols: number,
+  scale: MapScale | null = null
+): Point[] => {
+  const siteSpacing = SITE_SPACING_M * pixelsPerMeter(scale);
+  const isFree = (point: Point) => {
+    const cell = Math.floor(point.y / gridSize) * cols + Math.floor(point.x / gridSize);
+    return cell >= 0 && cell < obstacles.length && !obstacles[cell];
+  };
+  const sites: Point[] = [];
+  paths.forEach((path) => {
+    for (let i = 0; i < path.points.length - 1; i++) {
+      const start = path.points[i];
+      const end = path.points[i + 1];
+      const steps = Math.max(1, Math.round(Math.hypot(end.x - start.x, end.y - start.y) / siteSpacing));
+      for (let step = 0; step < steps; step++) {
+        const t = (step + 0.5) / steps;
+        const point = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+        if (isFree(point)) sites.push(point);
+      }
+    }
+  });
+  if (sites.length > 0 || cols === 0) return sites;
+
+  const rows = Math.floor(obstacles.length / cols);
+  for (let row = 0; row < rows; row += FALLBACK_SITE_STRIDE) {
+    for (let col = 0; col < cols; col += FALLBACK_SITE_STRIDE) {
+      if (!obstacles[row * cols + col]) sites.push({ x: (col + 0.5) * gridSize, y: (row + 0.5) * gridSize });
+    }
+  }
+  return sites;
+};
+
+// Bins allowed by both the bin count and the cost budget.
+export const layoutBinLimit = (context: LayoutSearchContext) =>
+  Math.max(
+    0,
+    Math.min(
+      context.maxBins,
+      context.sites.length,
+      context.costPerBin > 0 ? Math.floor(context.budget / context.costPerBin) : context.maxBins
+    )
+  );
+
+export const scoreLayout = (
+  context: LayoutSearchContext,
+  bins: Point[],
+  { seed, replications, stepsPerReplication }: Omit<LayoutSearchOptions, "iterations">
+): LayoutScore => {
+  const nodes: EngineNode[] = [
+    ...context.nodes.filter((node) => node.type !== "bin"),
+    ...bins.map((bin, idx): EngineNode => ({ id: `candidate-${idx}`, x: bin.x, y: bin.y, type: "bin" })),
+  ];
+  const runs = Math.max(1, replications);
+  let captureRate = 0;
+  let litterRate = 0;
+  let overflowPerHour = 0;
+  let avgWalkToBin = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const engine = new SimulationEngine(
+      { ...context.simulation, seed: normalizeSeed(seed + run), timeline: null, littering: context.littering },
+      nodes,
+      context.obstacles
+    );
+    for (let step = 0; step < stepsPerReplication; step++) engine.step();
+
+    const statistics = engine.getStatistics();
+    const items = statistics.itemsDeposited + statistics.itemsLittered;
+    if (items === 0) continue;
+    captureRate += statistics.itemsDeposited / items;
+    litterRate += statistics.itemsLittered / items;
+    avgWalkToBin += statistics.avgWalkToBin;
+    // Each bin's share of simulated items carries the same share of hourly waste.
+    engine.getBinDeposits().forEach((count) => {
+      overflowPerHour += Math.max(0, (context.wastePerHour * count) / items - context.binCapacityPerHour);
+    });
+  }
+
+  const cost = bins.length * context.costPerBin;
+  const score = {
+    binCount: bins.length,
+    cost,
+    captureRate: captureRate / runs,
+    litterRate: litterRate / runs,
+    overflowPerHour: overflowPerHour / runs,
+    avgWalkToBin: avgWalkToBin / runs,
+  };
+  return {
+    ...score,
+    objective:
+      score.litterRate +
+      (context.wastePerHour > 0 ? (OVERFLOW_WEIGHT * score.overflowPerHour) / context.wastePerHour : 0) +
+      (context.littering.willingnessToWalk > 0
+        ? (WALK_WEIGHT * score.avgWalkToBin) / context.littering.willingnessToWalk
+        : 0) +
+      (context.budget > 0 ? (COST_WEIGHT * cost) / context.budget : 0),
+  };
+};
+
+const nearestSite = (sites: Point[], point: Point) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  sites.forEach((site, idx) => {
+    const dist = Math.hypot(site.x - point.x, site.y - point.y);
+    if (dist < bestDistance) {
+      bestDistance = dist;
+      best = idx;
+    }
+  });
+  return best;
+};
+
+// Proposes a neighbouring layout: add, remove or move one bin.
+const mutateLayout = (
+  layout: number[],
+  sites: Point[],
+  limit: number,
+  moveRadius: number,
+  random: Random
+): number[] => {
+  const next = [...layout];
+  const unused = () => {
+    const free = sites.map((_, idx) => idx).filter((idx) => !next.includes(idx));
+    return free.length === 0 ? -1 : free[Math.floor(random() * free.length)];
+  };
+  const roll = random();
+
+  if ((next.length === 0 || roll < 0.2) && next.length < limit) {
+    const site = unused();
+    if (site >= 0) next.push(site);
+    return next;
+  }
+  if (roll < 0.4 && next.length > 1) {
+    next.splice(Math.floor(random() * next.length), 1);
+    return next;
+  }
+  if (next.length === 0) return next;
+
+  const moving = Math.floor(random() * next.length);
+  const from = sites[next[moving]];
+  const nearby = sites
+    .map((site, idx) => ({ idx, dist: Math.hypot(site.x - from.x, site.y - from.y) }))
+    .filter(({ idx, dist }) => dist > 0 && dist <= moveRadius && !next.includes(idx));
+  const target = nearby.length > 0 ? nearby[Math.floor(random() * nearby.length)].idx : unused();
+  if (target >= 0) next[moving] = target;
+  return next;
+};
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Simulated annealing over bin sites. Starts from `initialBins` snapped to the
+ * nearest sites (or a random half-budget layout) and returns the best layout
+ * seen, including when cancelled part-way.
+ */
+export const searchLayouts = async (
+  context: LayoutSearchContext,
+  options: LayoutSearchOptions,
+  initialBins: Point[],
+  { onProgress, isCancelled }: LayoutSearchCallbacks = {}
+): Promise<LayoutSearchResult> => {
+  const random = createRandom(options.seed);
+  const limit = layoutBinLimit(context);
+  const toPoints = (layout: number[]) => layout.map((idx) => context.sites[idx]);
+  const evaluate = (layout: number[]) => scoreLayout(context, toPoints(layout), options);
+  const moveRadius = MOVE_RADIUS_M * pixelsPerMeter(context.scale ?? null);
+
+  let current = Array.from(new Set(initialBins.map((bin) => nearestSite(context.sites, bin)))).slice(0, limit);
+  while (current.length < Math.ceil(limit / 2) && initialBins.length === 0) {
+    const site = Math.floor(random() * context.sites.length);
+    if (!current.includes(site)) current.push(site);
+  }
+  let currentScore = evaluate(current);
+  let best: LayoutCandidate = { bins: toPoints(current), score: currentScore };
+
+  let iteration = 0;
+  let cancelled = false;
+  while (iteration < options.iterations) {
+    await yieldToEventLoop();
+    if (isCancelled?.()) {
+      cancelled = true;
+      break;
+    }
+    iteration += 1;
+    const temperature = INITIAL_TEMPERATURE * (1 - iteration / options.iterations);
+    const candidate = mutateLayout(current, context.sites, limit, moveRadius, random);
+    const score = evaluate(candidate);
+    const delta = score.objective - currentScore.objective;
+    if (delta <= 0 || (temperature > 0 && random() < Math.exp(-delta / temperature))) {
+      current = candidate;
+      currentScore = score;
+    }
+    if (score.objective < best.score.objective) {
+      best = { bins: toPoints(candidate), score };
+    }
+    onProgress?.({ iteration, iterations: options.iterations, best, current: currentScore });
+  }
+
+  return { best, iterations: iteration, cancelled };
+};
@@ -0,0 +1,380 @@
+// Versioned map document persisted in projects.map_data.
+// Bump MAP_DOCUMENT_VERSION whenever the stored shape changes and add a
+// migration step in migrateMapDocument so older projects keep loading.
+
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_PLANNING_PARAMS,
+  type BaseLayer,
+  type DistanceUnit,
+  type EventTimeline,
+  type Georeference,
+  type MapScale,
+  type Node,
+  type ObstacleLayer,
+  type OptimizationReport,
+  type Path,
+  type PlanningParams,
+  type ServiceCrew,
+  type TrafficHeatmap,
+} from "@/utils/mapTypes";
+import {
+  decodeObstacleLayer,
+  encodeObstacleLayer,
+  type EncodedObstacleLayer,
+} from "@/utils/obstacleLayer";
+
+export const MAP_DOCUMENT_VERSION = 8;
+
+export interface MapDocument {
+  version: number;
+  nodes: Node[];
+  paths: Path[];
+  planningParams: PlanningParams;
+  obstacles: ObstacleLayer | null;
+  timeline: EventTimeline | null;
+  crews: ServiceCrew[];
+  heatmap: TrafficHeatmap | null;
+  scale: MapScale | null;
+  distanceUnit: DistanceUnit;
+  baseLayer: BaseLayer | null;
+  georeference: Georeference | null;
+  report: OptimizationReport | null;
+}
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+// JSON has no Infinity; distances with no reference point are stored as null.
+const distanceSchema = z
+  .number()
+  .nullable()
+  .transform((value) => (value === null ? Infinity : value));
+
+const wasteStreamSchema = z.enum(["landfill", "recycling", "compost", "deposit"]);
+const binStreamSchema = z.enum(["single", "landfill", "recycling", "compost", "deposit", "station"]);
+
+const nodeSchema = z.object({
+  id: z.string(),
+  x: z.number(),
+  y: z.number(),
+  type: z.enum(["vendor", "entry-exit", "bin"]),
+  label: z.string(),
+  stream: binStreamSchema.optional(),
+  menuType: z.enum(["general", "beverages", "fast-food", "snacks", "coffee"]).optional(),
+  purchaseProbability: z.number().min(0).max(1).optional(),
+  crewId: z.string().optional(),
+  emptyEveryMinutes: z.number().positive().optional(),
+});
+
+const pathSchema = z.object({
+  id: z.string(),
+  points: z.array(pointSchema),
+  type: z.literal("walkway"),
+  label: z.string(),
+  capacity: z.number(),
+});
+
+const obstacleLayerSchema = z
+  .object({
+    gridSize: z.number().positive(),
+    rows: z.number().int().nonnegative(),
+    cols: z.number().int().nonnegative(),
+    runs: z.array(z.number().int().nonnegative()),
+  })
+  .transform((encoded, ctx) => {
+    try {
+      return decodeObstacleLayer(encoded as EncodedObstacleLayer);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      return z.NEVER;
+    }
+  });
+
+const timelineSchema = z.object({
+  startTime: z.string().regex(/^\d{1,2}:\d{2}$/),
+  endTime: z.string().regex(/^\d{1,2}:\d{2}$/),
+  intervalMinutes: z.number().int().positive(),
+  intervals: z.array(
+    z.object({
+      phase: z.string(),
+      attendanceMultiplier: z.number().nonnegative(),
+      salesMultiplier: z.number().nonnegative(),
+      vendorSalesMultipliers: z.record(z.number().nonnegative()).default({}),
+    })
+  ),
+});
+
+const crewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  emptyEveryMinutes: z.number().positive(),
+  firstEmptyingMinutes: z.number().nonnegative(),
+});
+
+const heatmapSchema = z
+  .object({
+    name: z.string(),
+    source: z.enum(["image", "csv"]),
+    rows: z.number().int().positive(),
+    cols: z.number().int().positive(),
+    values: z.array(z.number().min(0).max(1)),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  })
+  .refine((heatmap) => heatmap.values.length === heatmap.rows * heatmap.cols, {
+    message: "Heatmap values do not match its rows and columns.",
+    path: ["values"],
+  });
+
+const scaleSchema = z.object({
+  start: pointSchema,
+  end: pointSchema,
+  meters: z.number().positive(),
+});
+
+const baseLayerSchema = z.object({
+  name: z.string(),
+  shapes: z.array(
+    z.object({
+      kind: z.enum(["building", "barrier", "footway", "pedestrian-area"]),
+      points: z.array(pointSchema),
+      closed: z.boolean(),
+    })
+  ),
+});
+
+const geoPositionSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+});
+
+const georeferenceSchema = z.object({
+  kind: z.enum(["affine", "projective"]),
+  controlPoints: z.array(geoPositionSchema.extend({ image: pointSchema })),
+  origin: geoPositionSchema,
+  matrix: z.array(z.number()).length(9),
+});
+
+const planningParamsSchema = z.object({
+  peoplePerHour: z.number(),
+  costPerBin: z.number(),
+  binCapacity: z.number(),
+  vendorSalesPerHour: z.number(),
+  maxBins: z.number(),
+  targetUtilization: z.number(),
+  binStream: binStreamSchema.default("single"),
+  emptyEveryMinutes: z.number().positive().default(60),
+});
+
+const recommendedBinSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  capacity: z.number(),
+  averageDistanceToVendors: distanceSchema,
+  nearestEntryDistance: distanceSchema,
+  walkwayDistance: distanceSchema,
+  capturePerHour: z.number(),
+  utilization: z.number(),
+  position: pointSchema,
+  source: z.enum(["user", "auto"]),
+  stream: binStreamSchema.default("single"),
+  contaminationRisk: z.number().default(0),
+  missingStreams: z.array(wasteStreamSchema).default([]),
+  peakOverflowPerHour: z.number().default(0),
+  fillTimeline: z.array(z.number()).default([]),
+  loadTimeline: z.array(z.number()).default([]),
+  emptyEveryMinutes: z.number().default(60),
+  timeToFullMinutes: z.number().nullable().default(null),
+  overflowMinutes: z.number().default(0),
+  overflowLiters: z.number().default(0),
+  litterLiters: z.number().default(0),
+});
+
+const streamCaptureSchema = z.object({
+  stream: wasteStreamSchema,
+  generatedPerHour: z.number(),
+  capturedPerHour: z.number(),
+  mixedPerHour: z.number(),
+  contaminationPerHour: z.number(),
+  captureRate: z.number(),
+});
+
+const streamDemandSchema = z.object({
+  point: pointSchema,
+  binIndex: z.number().int(),
+  streamWaste: z.object({ landfill: z.number(), recycling: z.number(), compost: z.number(), deposit: z.number() }),
+});
+
+const timelineReportSchema = z.object({
+  intervals: z.array(
+    z.object({
+      phase: z.string(),
+      startMinutes: z.number(),
+      durationMinutes: z.number(),
+      wastePerHour: z.number(),
+      overflowLiters: z.number(),
+    })
+  ),
+  peakIntervalIndex: z.number().int(),
+  totalOverflowLiters: z.number(),
+});
+
+const overflowIncidentSchema = z.object({
+  binId: z.string(),
+  label: z.string(),
+  startMinutes: z.number(),
+  durationMinutes: z.number(),
+  overflowLiters: z.number(),
+});
+
+const walkwayFlowSchema = z.object({
+  pathId: z.string(),
+  label: z.string(),
+  flowPerMinute: z.number(),
+  capacityPerMinute: z.number(),
+  loadRatio: z.number(),
+});
+
+const reportSchema = z.object({
+  totalVendors: z.number(),
+  totalEntries: z.number(),
+  totalBinsAvailable: z.number(),
+  binsNeeded: z.number(),
+  maxBinsAllowed: z.number(),
+  capacityDrivenBins: z.number(),
+  totalWastePerHour: z.number(),
+  vendorWastePerHour: z.number().default(0),
+  attendeeWastePerHour: z.number().default(0),
+  estimatedCapturePerHour: z.number(),
+  captureRate: z.number(),
+  totalCost: z.number(),
+  walkwayLength: z.number(),
+  averageUtilization: z.number(),
+  targetUtilization: z.number(),
+  recommendedBins: z.array(recommendedBinSchema),
+  streams: z.array(streamCaptureSchema).default([]),
+  diversionRate: z.number().default(0),
+  streamDemand: z.array(streamDemandSchema).default([]),
+  timeline: timelineReportSchema.nullable().default(null),
+  walkwayFlows: z.array(walkwayFlowSchema).default([]),
+  serviceHorizonMinutes: z.number().default(0),
+  overflowIncidents: z.array(overflowIncidentSchema).default([]),
+  overflowLiters: z.number().default(0),
+  litterLiters: z.number().default(0),
+  notes: z.array(z.string()),
+  seed: z.number().nullable().default(null),
+});
+
+const mapDocumentSchema = z.object({
+  version: z.literal(MAP_DOCUMENT_VERSION),
+  nodes: z.array(nodeSchema).default([]),
+  paths: z.array(pathSchema).default([]),
+  planningParams: planningParamsSchema.default(DEFAULT_PLANNING_PARAMS),
+  obstacles: obstacleLayerSchema.nullable().default(null),
+  timeline: timelineSchema.nullable().default(null),
+  crews: z.array(crewSchema).default([]),
+  heatmap: heatmapSchema.nullable().default(null),
+  scale: scaleSchema.nullable().default(null),
+  distanceUnit: z.enum(["meters", "feet"]).default("meters"),
+  baseLayer: baseLayerSchema.nullable().default(null),
+  georeference: georeferenceSchema.nullable().default(null),
+  report: reportSchema.nullable().default(null),
+});
+
+export class MapDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MapDocumentError";
+  }
+}
+
+export const createEmptyMapDocument = (): MapDocument => ({
+  version: MAP_DOCUMENT_VERSION,
+  nodes: [],
+  paths: [],
+  planningParams: { ...DEFAULT_PLANNING_PARAMS },
+  obstacles: null,
+  timeline: null,
+  crews: [],
+  heatmap: null,
+  scale: null,
+  distanceUnit: "meters",
+  baseLayer: null,
+  georeference: null,
+  report: null,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Upgrades older stored documents one version at a time.
+const migrateMapDocument = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const version = typeof raw.version === "number" ? raw.version : 0;
+  if (version > MAP_DOCUMENT_VERSION) {
+    throw new MapDocumentError(
+      `Map data was saved by a newer version (v${version}); please refresh the app.`
+    );
+  }
+  let current = raw;
+  if (version < 1) {
+    // Unversioned rows only ever held the `{}` column default.
+    current = { ...current, version: 1 };
+  }
+  if (version < 2) {
+    // v2 added the painted obstacle layer.
+    current = { ...current, version: 2, obstacles: null };
+  }
+  if (version < 3) {
+    // v3 added the event timeline; older projects model a single steady hour.
+    current = { ...current, version: 3, timeline: null };
+  }
+  if (version < 4) {
+    // v4 added service crews; bins without one use the default emptying interval.
+    current = { ...current, version: 4, crews: [] };
+  }
+  if (version < 5) {
+    // v5 added the uploaded foot-traffic heatmap.
+    current = { ...current, version: 5, heatmap: null };
+  }
+  if (version < 6) {
+    // v6 added scale calibration; older maps assume the default pixels per meter.
+    current = { ...current, version: 6, scale: null, distanceUnit: "meters" };
+  }
+  if (version < 7) {
+    // v7 added the OpenStreetMap base layer.
+    current = { ...current, version: 7, baseLayer: null };
+  }
+  if (version < 8) {
+    // v8 added georeferencing; older maps stay in image pixels only.
+    current = { ...current, version: 8, georeference: null };
+  }
+  return current;
+};
+
+export const parseMapDocument = (raw: Json | null | undefined): MapDocument => {
+  if (raw === null || raw === undefined) return createEmptyMapDocument();
+  if (!isRecord(raw)) {
+    throw new MapDocumentError("Map data is not an object.");
+  }
+  if (Object.keys(raw).length === 0) return createEmptyMapDocument();
+
+  const result = mapDocumentSchema.safeParse(migrateMapDocument(raw));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new MapDocumentError(
+      `Map data is invalid at "${issue.path.join(".") || "root"}": ${issue.message}`
+    );
+  }
+  return result.data as MapDocument;
+};
+
+export const serializeMapDocument = (document: MapDocument): Json =>
+  JSON.parse(
+    JSON.stringify({
+      ...document,
+      obstacles: document.obstacles ? encodeObstacleLayer(document.obstacles) : null,
+    })
+  ) as Json;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PIXELS_PER_METER,
+  formatDistance,
+  pixelsPerMeter,
+  pixelsToUnit,
+  unitToPixels,
+} from "@/utils/mapScale";
+import type { MapScale } from "@/utils/mapTypes";
+
+// A 100 px line that is 4 m long: 25 px per meter.
+const scale: MapScale = { start: { x: 0, y: 0 }, end: { x: 60, y: 80 }, meters: 4 };
+
+describe("mapScale", () => {
+  it("derives pixels per meter from the reference line", () => {
+    expect(pixelsPerMeter(scale)).toBe(25);
+    expect(pixelsPerMeter(null)).toBe(DEFAULT_PIXELS_PER_METER);
+  });
+
+  it("falls back to the default for a degenerate reference line", () => {
+    expect(pixelsPerMeter({ ...scale, end: scale.start })).toBe(DEFAULT_PIXELS_PER_METER);
+    expect(pixelsPerMeter({ ...scale, meters: 0 })).toBe(DEFAULT_PIXELS_PER_METER);
+  });
+
+  it("converts between pixels and meters or feet", () => {
+    expect(pixelsToUnit(50, scale, "meters")).toBe(2);
+    expect(pixelsToUnit(50, scale, "feet")).toBeCloseTo(6.562, 3);
+    expect(unitToPixels(pixelsToUnit(37, scale, "feet"), scale, "feet")).toBeCloseTo(37);
+  });
+
+  it("formats distances in the preferred unit", () => {
+    expect(formatDistance(50, scale, "meters")).toBe("2 m");
+    expect(formatDistance(30, scale, "meters")).toBe("1.2 m");
+    expect(formatDistance(2500, scale, "feet")).toBe("328 ft");
+    expect(formatDistance(Number.POSITIVE_INFINITY, scale, "meters")).toBe("n/a");
+  });
+});
@@ -0,0 +1,45 @@
+// Converts between map pixels and real-world distances. Distances are stored
+// and computed in image pixels; a calibrated reference line turns them into
+// meters, and the project's unit preference decides how they are shown.
+// Pure: no React, no I/O.
+
+import type { DistanceUnit, MapScale } from "@/utils/mapTypes";
+
+// Assumed until the map is calibrated: 10 px per meter.
+export const DEFAULT_PIXELS_PER_METER = 10;
+export const FEET_PER_METER = 3.28084;
+
+export const UNIT_LABELS: Record<DistanceUnit, { short: string; long: string }> = {
+  meters: { short: "m", long: "meters" },
+  feet: { short: "ft", long: "feet" },
+};
+
+export const referenceLength = (scale: MapScale) =>
+  Math.hypot(scale.end.x - scale.start.x, scale.end.y - scale.start.y);
+
+// A reference line needs some length on the map and a positive real length.
+export const isValidScale = (scale: MapScale) => referenceLength(scale) > 0 && scale.meters > 0;
+
+export const pixelsPerMeter = (scale: MapScale | null) =>
+  scale && isValidScale(scale) ? referenceLength(scale) / scale.meters : DEFAULT_PIXELS_PER_METER;
+
+export const metersToUnit = (meters: number, unit: DistanceUnit) =>
+  unit === "feet" ? meters * FEET_PER_METER : meters;
+
+export const unitToMeters = (value: number, unit: DistanceUnit) =>
+  unit === "feet" ? value / FEET_PER_METER : value;
+
+// Map pixels to the display unit, and back for editable distances.
+export const pixelsToUnit = (pixels: number, scale: MapScale | null, unit: DistanceUnit) =>
+  metersToUnit(pixels / pixelsPerMeter(scale), unit);
+
+export const unitToPixels = (value: number, scale: MapScale | null, unit: DistanceUnit) =>
+  unitToMeters(value, unit) * pixelsPerMeter(scale);
+
+// "12 m" / "39 ft"; one decimal below ten so short walks stay readable.
+export const formatDistance = (pixels: number, scale: MapScale | null, unit: DistanceUnit) => {
+  if (!Number.isFinite(pixels)) return "n/a";
+  const value = pixelsToUnit(pixels, scale, unit);
+  const rounded = Math.abs(value) < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+  return `${rounded.toLocaleString()} ${UNIT_LABELS[unit].short}`;
+};
@@ -0,0 +1,279 @@
+// Shared map and planning types used by the editor, persistence and analysis code.
+
+export type Point = { x: number; y: number };
+
+export type NodeType = "vendor" | "entry-exit" | "bin";
+
+// Material streams waste is sorted into.
+export type WasteStream = "landfill" | "recycling" | "compost" | "deposit";
+
+// What a bin accepts: one mixed container, a single sorted stream, or a
+// co-located station with a container per stream.
+export type BinStream = "single" | WasteStream | "station";
+
+// Vendor menu categories, each with its own waste composition profile.
+export type MenuType = "general" | "beverages" | "fast-food" | "snacks" | "coffee";
+
+export interface Node {
+  id: string;
+  x: number;
+  y: number;
+  type: NodeType;
+  label: string;
+  stream?: BinStream; // bins only; defaults to "single"
+  menuType?: MenuType; // vendors only; defaults to "general"
+  purchaseProbability?: number; // vendors only; chance a simulated visitor buys an item
+  crewId?: string; // bins only; service crew that empties it
+  emptyEveryMinutes?: number; // bins only; overrides the crew's or default interval
+}
+
+export interface Path {
+  id: string;
+  points: Point[];
+  type: "walkway";
+  label: string;
+  capacity: number; // people per minute
+}
+
+// Painted cell classes, stored row-major at the project's grid size.
+export const CELL_UNPAINTED = 0;
+export const CELL_WALL = 1;
+export const CELL_NO_GO = 2;
+export const CELL_WALKABLE = 3;
+
+export type CellKind =
+  | typeof CELL_UNPAINTED
+  | typeof CELL_WALL
+  | typeof CELL_NO_GO
+  | typeof CELL_WALKABLE;
+
+export interface ObstacleLayer {
+  gridSize: number;
+  rows: number;
+  cols: number;
+  cells: CellKind[];
+}
+
+// Foot-traffic density registered onto the venue map. Values are row-major
+// and normalised so the busiest cell is 1.
+export interface TrafficHeatmap {
+  name: string;
+  source: "image" | "csv";
+  rows: number;
+  cols: number;
+  values: number[];
+  // Where the grid's bounding box sits on the map, in image pixels.
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Reference line drawn on the map with its real-world length; sets the
+// project's pixels-per-meter.
+export interface MapScale {
+  start: Point;
+  end: Point;
+  meters: number;
+}
+
+export type DistanceUnit = "meters" | "feet";
+
+export interface GeoPosition {
+  lat: number;
+  lon: number;
+}
+
+// An image point pinned to its real-world position.
+export interface GeoControlPoint extends GeoPosition {
+  image: Point;
+}
+
+// Maps image pixels to meters east/north of `origin` (a 3x3 row-major
+// homography; affine fits keep the last row at 0 0 1), fitted to the pins.
+export interface Georeference {
+  kind: "affine" | "projective";
+  controlPoints: GeoControlPoint[];
+  origin: GeoPosition;
+  matrix: number[];
+}
+
+// Outlines imported from OpenStreetMap, drawn under the layout in image pixels.
+export type BaseLayerKind = "building" | "barrier" | "footway" | "pedestrian-area";
+
+export interface BaseLayerShape {
+  kind: BaseLayerKind;
+  points: Point[];
+  closed: boolean;
+}
+
+export interface BaseLayer {
+  name: string;
+  shapes: BaseLayerShape[];
+}
+
+export interface MapState {
+  nodes: Node[];
+  paths: Path[];
+  obstacles: ObstacleLayer | null;
+}
+
+// One slice of the event timeline. Multipliers scale the steady-state
+// planning inputs (peoplePerHour, vendorSalesPerHour) for that interval.
+export interface TimelineInterval {
+  phase: string; // e.g. "ingress", "halftime", "egress"
+  attendanceMultiplier: number;
+  salesMultiplier: number;
+  // Per-vendor overrides of salesMultiplier, keyed by vendor node id.
+  vendorSalesMultipliers: Record<string, number>;
+}
+
+export interface EventTimeline {
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM"; earlier than startTime means the event runs past midnight
+  intervalMinutes: number;
+  intervals: TimelineInterval[];
+}
+
+// A service crew empties its bins on a fixed round, counted from the event start.
+export interface ServiceCrew {
+  id: string;
+  name: string;
+  emptyEveryMinutes: number;
+  firstEmptyingMinutes: number;
+}
+
+export interface PlanningParams {
+  peoplePerHour: number;
+  costPerBin: number;
+  binCapacity: number;
+  vendorSalesPerHour: number;
+  maxBins: number;
+  targetUtilization: number; // percentage
+  binStream: BinStream; // setup used for optimizer-placed bins
+  emptyEveryMinutes: number; // default emptying interval for bins without a crew
+}
+
+export interface RecommendedBin {
+  id: string;
+  label: string;
+  capacity: number; // liters per hour
+  // Walking distances along the walkways; Infinity when none connect.
+  averageDistanceToVendors: number;
+  nearestEntryDistance: number;
+  walkwayDistance: number; // straight-line offset to the closest walkway
+  capturePerHour: number; // liters
+  utilization: number; // share of hourly capacity
+  position: Point;
+  source: "user" | "auto";
+  stream: BinStream;
+  // Share of the bin's captured load that belongs in a stream it does not accept.
+  contaminationRisk: number;
+  // Streams its catchment produces with no accepting bin close by.
+  missingStreams: WasteStream[];
+  // Worst overflow rate across timeline intervals (liters per hour); 0 without a timeline.
+  peakOverflowPerHour: number;
+  // Fill level (share of capacity) at the end of each timeline interval.
+  fillTimeline: number[];
+  // Liters per hour arriving during each timeline interval; empty without a timeline.
+  loadTimeline: number[];
+  // Results of the fill simulation on the bin's emptying schedule.
+  emptyEveryMinutes: number;
+  timeToFullMinutes: number | null; // minutes after the event start
+  overflowMinutes: number;
+  overflowLiters: number;
+  litterLiters: number;
+}
+
+export interface StreamCapture {
+  stream: WasteStream;
+  generatedPerHour: number; // liters
+  capturedPerHour: number; // liters sorted into the right stream
+  mixedPerHour: number; // liters captured by single-stream bins, so landfilled
+  contaminationPerHour: number; // liters put into another stream's bin
+  captureRate: number;
+}
+
+// Waste arriving at one walkway sample, kept so sorting can be re-scored
+// when bin streams change after a run.
+export interface StreamDemand {
+  point: Point;
+  binIndex: number; // nearest recommended bin; -1 when the sample has none
+  streamWaste: Record<WasteStream, number>; // liters per hour
+}
+
+export interface TimelineIntervalResult {
+  phase: string;
+  startMinutes: number; // minutes after midnight on the event day
+  durationMinutes: number;
+  wastePerHour: number; // liters
+  overflowLiters: number;
+}
+
+export interface TimelineReport {
+  intervals: TimelineIntervalResult[];
+  peakIntervalIndex: number;
+  totalOverflowLiters: number;
+}
+
+// A run of consecutive minutes during which a full bin kept receiving waste.
+export interface OverflowIncident {
+  binId: string;
+  label: string;
+  startMinutes: number; // minutes after the event start
+  durationMinutes: number;
+  overflowLiters: number;
+}
+
+// Modelled foot traffic on one walkway against its drawn capacity.
+export interface WalkwayFlow {
+  pathId: string;
+  label: string;
+  flowPerMinute: number; // people, on the walkway's busiest stretch
+  capacityPerMinute: number;
+  loadRatio: number; // flow / capacity; above 1 is a bottleneck
+}
+
+export interface OptimizationReport {
+  totalVendors: number;
+  totalEntries: number;
+  totalBinsAvailable: number;
+  binsNeeded: number;
+  maxBinsAllowed: number;
+  capacityDrivenBins: number;
+  totalWastePerHour: number; // liters
+  vendorWastePerHour: number;
+  attendeeWastePerHour: number;
+  estimatedCapturePerHour: number;
+  captureRate: number;
+  totalCost: number;
+  walkwayLength: number;
+  averageUtilization: number;
+  targetUtilization: number;
+  recommendedBins: RecommendedBin[];
+  streams: StreamCapture[];
+  // Share of all generated waste captured into recycling, compost or deposit.
+  diversionRate: number;
+  streamDemand: StreamDemand[];
+  timeline: TimelineReport | null;
+  walkwayFlows: WalkwayFlow[];
+  // Length of the simulated event the fill figures cover.
+  serviceHorizonMinutes: number;
+  overflowIncidents: OverflowIncident[];
+  overflowLiters: number;
+  litterLiters: number;
+  notes: string[];
+  // Seed the run used, so it can be replayed; null on reports saved before seeding.
+  seed: number | null;
+}
+
+export const DEFAULT_PLANNING_PARAMS: PlanningParams = {
+  peoplePerHour: 300,
+  costPerBin: 450,
+  binCapacity: 120,
+  vendorSalesPerHour: 60,
+  maxBins: 3,
+  targetUtilization: 80,
+  binStream: "single",
+  emptyEveryMinutes: 60,
+};
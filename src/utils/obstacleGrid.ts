@@ -0,0 +1,160 @@
+// Rasterizes the editor layout into the boolean obstacle grid used by SimulationEngine.
+// Grid cells are `gridSize` image pixels square; `true` marks a blocked cell.
+
+import {
+  CELL_NO_GO,
+  CELL_WALKABLE,
+  CELL_WALL,
+  type Node,
+  type ObstacleLayer,
+  type Path,
+  type Point,
+} from "@/utils/mapTypes";
+
+export type ObstacleGrid = boolean[][];
+
+// Half-width of a walkway corridor, in grid cells either side of the centre line.
+const WALKWAY_CORRIDOR_CELLS = 1;
+
+export const createGrid = (rows: number, cols: number, blocked: boolean): ObstacleGrid =>
+  Array(rows)
+    .fill(0)
+    .map(() => Array(cols).fill(blocked));
+
+export const gridDimensions = (width: number, height: number, gridSize: number) => ({
+  rows: Math.ceil(height / gridSize),
+  cols: Math.ceil(width / gridSize),
+});
+
+const closestPointOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (dx === 0 && dy === 0) return a;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy)));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const closest = closestPointOnSegment(p, a, b);
+  return Math.hypot(p.x - closest.x, p.y - closest.y);
+};
+
+// Clears every cell crossed by the straight line from `from` to `to`.
+const carveLine = (grid: ObstacleGrid, from: Point, to: Point, gridSize: number) => {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / (gridSize / 2)));
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const row = Math.floor((from.y + (to.y - from.y) * t) / gridSize);
+    const col = Math.floor((from.x + (to.x - from.x) * t) / gridSize);
+    if (row >= 0 && row < grid.length && col >= 0 && col < grid[row].length) {
+      grid[row][col] = false;
+    }
+  }
+};
+
+/**
+ * Builds an obstacle grid where only cells along the drawn walkways are walkable.
+ * Each node is joined to its nearest walkway by a one-cell spur so agents can
+ * always reach it. With no walkways the whole map is walkable, matching the
+ * engine's default.
+ */
+export const rasterizeWalkways = (
+  paths: Path[],
+  nodes: Node[],
+  width: number,
+  height: number,
+  gridSize: number
+): ObstacleGrid => {
+  const { rows, cols } = gridDimensions(width, height, gridSize);
+  const segments = paths.flatMap((path) =>
+    path.points.slice(1).map((point, index) => [path.points[index], point] as const)
+  );
+  if (segments.length === 0) return createGrid(rows, cols, false);
+
+  const grid = createGrid(rows, cols, true);
+  const reach = gridSize * (WALKWAY_CORRIDOR_CELLS + 0.5);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = { x: (col + 0.5) * gridSize, y: (row + 0.5) * gridSize };
+      if (segments.some(([a, b]) => distanceToSegment(center, a, b) <= reach)) {
+        grid[row][col] = false;
+      }
+    }
+  }
+
+  nodes.forEach((node) => {
+    let nearest: Point = node;
+    let nearestDistance = Infinity;
+    segments.forEach(([a, b]) => {
+      const candidate = closestPointOnSegment(node, a, b);
+      const dist = Math.hypot(node.x - candidate.x, node.y - candidate.y);
+      if (dist < nearestDistance) {
+        nearestDistance = dist;
+        nearest = candidate;
+      }
+    });
+    carveLine(grid, node, nearest, gridSize);
+  });
+
+  return grid;
+};
+
+/**
+ * Combines the walkway corridors with the painted obstacle layer. Walls and
+ * no-go zones always block; painted walkable cells always open. Once any
+ * walkable area is painted, unpainted cells off the walkways count as blocked.
+ */
+export const buildObstacleMap = (
+  layer: ObstacleLayer | null,
+  paths: Path[],
+  nodes: Node[],
+  width: number,
+  height: number,
+  gridSize: number
+): ObstacleGrid => {
+  const grid = rasterizeWalkways(paths, nodes, width, height, gridSize);
+  if (!layer || layer.gridSize !== gridSize) return grid;
+
+  const hasWalkways = paths.some((path) => path.points.length >= 2);
+  const hasWalkableCells = layer.cells.includes(CELL_WALKABLE);
+  const rows = Math.min(grid.length, layer.rows);
+
+  for (let row = 0; row < grid.length; row++) {
+    for (let col = 0; col < grid[row].length; col++) {
+      const cell = row < rows && col < layer.cols ? layer.cells[row * layer.cols + col] : undefined;
+      if (cell === CELL_WALL || cell === CELL_NO_GO) {
+        grid[row][col] = true;
+      } else if (cell === CELL_WALKABLE) {
+        grid[row][col] = false;
+      } else if (hasWalkableCells && !hasWalkways) {
+        grid[row][col] = true;
+      }
+    }
+  }
+
+  if (hasWalkableCells && !hasWalkways) {
+    // Keep nodes reachable when they sit just outside a painted area.
+    nodes.forEach((node) => {
+      const row = Math.floor(node.y / gridSize);
+      const col = Math.floor(node.x / gridSize);
+      const cell = row < rows && col < layer.cols ? layer.cells[row * layer.cols + col] : undefined;
+      if (grid[row]?.[col] !== undefined && cell !== CELL_WALL && cell !== CELL_NO_GO) {
+        grid[row][col] = false;
+      }
+    });
+  }
+  return grid;
+};
+
+// Flattens a grid into the row-major mask SimulationEngine consumes (1 = blocked).
+export const toObstacleMask = (grid: ObstacleGrid): Uint8Array => {
+  const cols = grid[0]?.length ?? 0;
+  const mask = new Uint8Array(grid.length * cols);
+  grid.forEach((row, r) => {
+    row.forEach((blocked, c) => {
+      if (blocked) mask[r * cols + c] = 1;
+    });
+  });
+  return mask;
+};
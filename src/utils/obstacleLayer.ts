@@ -0,0 +1,183 @@
+// Editing helpers for the painted obstacle layer. Every operation returns a new
+// layer so the result can go straight into React state and the undo history.
+
+import {
+  CELL_UNPAINTED,
+  type CellKind,
+  type ObstacleLayer,
+  type Point,
+} from "@/utils/mapTypes";
+import { gridDimensions } from "@/utils/obstacleGrid";
+
+export interface Cell {
+  row: number;
+  col: number;
+}
+
+export const createObstacleLayer = (width: number, height: number, gridSize: number): ObstacleLayer => {
+  const { rows, cols } = gridDimensions(width, height, gridSize);
+  return { gridSize, rows, cols, cells: Array(rows * cols).fill(CELL_UNPAINTED) };
+};
+
+export const pointToCell = (layer: ObstacleLayer, point: Point): Cell => ({
+  row: Math.min(layer.rows - 1, Math.max(0, Math.floor(point.y / layer.gridSize))),
+  col: Math.min(layer.cols - 1, Math.max(0, Math.floor(point.x / layer.gridSize))),
+});
+
+export const getCell = (layer: ObstacleLayer, row: number, col: number): CellKind =>
+  layer.cells[row * layer.cols + col];
+
+export const isLayerEmpty = (layer: ObstacleLayer) =>
+  layer.cells.every((cell) => cell === CELL_UNPAINTED);
+
+// Nearest-neighbour resample, used when the map image turns out to have a different size.
+export const resizeObstacleLayer = (layer: ObstacleLayer, rows: number, cols: number): ObstacleLayer => {
+  if (layer.rows === rows && layer.cols === cols) return layer;
+  const cells: CellKind[] = Array(rows * cols).fill(CELL_UNPAINTED);
+  for (let row = 0; row < rows; row++) {
+    const sourceRow = Math.min(layer.rows - 1, Math.floor((row * layer.rows) / rows));
+    for (let col = 0; col < cols; col++) {
+      const sourceCol = Math.min(layer.cols - 1, Math.floor((col * layer.cols) / cols));
+      cells[row * cols + col] = getCell(layer, sourceRow, sourceCol);
+    }
+  }
+  return { ...layer, rows, cols, cells };
+};
+
+// Paints a square brush of `size` cells centred on `center`.
+export const paintBrush = (
+  layer: ObstacleLayer,
+  center: Cell,
+  size: number,
+  value: CellKind
+): ObstacleLayer => {
+  const cells = [...layer.cells];
+  const before = Math.floor((size - 1) / 2);
+  const after = size - 1 - before;
+  for (let row = center.row - before; row <= center.row + after; row++) {
+    if (row < 0 || row >= layer.rows) continue;
+    for (let col = center.col - before; col <= center.col + after; col++) {
+      if (col < 0 || col >= layer.cols) continue;
+      cells[row * layer.cols + col] = value;
+    }
+  }
+  return { ...layer, cells };
+};
+
+export const paintRectangle = (
+  layer: ObstacleLayer,
+  from: Cell,
+  to: Cell,
+  value: CellKind
+): ObstacleLayer => {
+  const cells = [...layer.cells];
+  for (let row = Math.min(from.row, to.row); row <= Math.max(from.row, to.row); row++) {
+    for (let col = Math.min(from.col, to.col); col <= Math.max(from.col, to.col); col++) {
+      cells[row * layer.cols + col] = value;
+    }
+  }
+  return { ...layer, cells };
+};
+
+const isInsidePolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Paints every cell whose centre falls inside the polygon (image-space vertices).
+export const paintPolygon = (layer: ObstacleLayer, polygon: Point[], value: CellKind): ObstacleLayer => {
+  if (polygon.length < 3) return layer;
+  const cells = [...layer.cells];
+  const { gridSize } = layer;
+  for (let row = 0; row < layer.rows; row++) {
+    for (let col = 0; col < layer.cols; col++) {
+      const center = { x: (col + 0.5) * gridSize, y: (row + 0.5) * gridSize };
+      if (isInsidePolygon(center, polygon)) {
+        cells[row * layer.cols + col] = value;
+      }
+    }
+  }
+  return { ...layer, cells };
+};
+
+// Paints every cell an open or closed line (image-space vertices) passes through.
+export const paintPolyline = (layer: ObstacleLayer, points: Point[], value: CellKind): ObstacleLayer => {
+  const cells = [...layer.cells];
+  const step = layer.gridSize / 2;
+  const width = layer.cols * layer.gridSize;
+  const height = layer.rows * layer.gridSize;
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const steps = Math.max(1, Math.ceil(Math.hypot(end.x - start.x, end.y - start.y) / step));
+    for (let s = 0; s <= steps; s++) {
+      const point = { x: start.x + ((end.x - start.x) * s) / steps, y: start.y + ((end.y - start.y) * s) / steps };
+      if (point.x < 0 || point.y < 0 || point.x >= width || point.y >= height) continue;
+      const { row, col } = pointToCell(layer, point);
+      cells[row * layer.cols + col] = value;
+    }
+  }
+  return { ...layer, cells };
+};
+
+// 4-connected flood fill of the region sharing the start cell's value.
+export const floodFill = (layer: ObstacleLayer, start: Cell, value: CellKind): ObstacleLayer => {
+  const target = getCell(layer, start.row, start.col);
+  if (target === value) return layer;
+  const cells = [...layer.cells];
+  const stack = [start.row * layer.cols + start.col];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (cells[index] !== target) continue;
+    cells[index] = value;
+    const row = Math.floor(index / layer.cols);
+    const col = index % layer.cols;
+    if (row > 0) stack.push(index - layer.cols);
+    if (row < layer.rows - 1) stack.push(index + layer.cols);
+    if (col > 0) stack.push(index - 1);
+    if (col < layer.cols - 1) stack.push(index + 1);
+  }
+  return { ...layer, cells };
+};
+
+// Run-length encoding keeps large, mostly unpainted grids small in map_data.
+export interface EncodedObstacleLayer {
+  gridSize: number;
+  rows: number;
+  cols: number;
+  runs: number[]; // [value, count, value, count, ...]
+}
+
+export const encodeObstacleLayer = (layer: ObstacleLayer): EncodedObstacleLayer => {
+  const runs: number[] = [];
+  layer.cells.forEach((cell, index) => {
+    if (index > 0 && runs[runs.length - 2] === cell) {
+      runs[runs.length - 1] += 1;
+    } else {
+      runs.push(cell, 1);
+    }
+  });
+  return { gridSize: layer.gridSize, rows: layer.rows, cols: layer.cols, runs };
+};
+
+export const decodeObstacleLayer = (encoded: EncodedObstacleLayer): ObstacleLayer => {
+  const cells: CellKind[] = [];
+  for (let i = 0; i < encoded.runs.length; i += 2) {
+    const value = encoded.runs[i] as CellKind;
+    for (let n = 0; n < encoded.runs[i + 1]; n++) {
+      cells.push(value);
+    }
+  }
+  const total = encoded.rows * encoded.cols;
+  if (cells.length !== total) {
+    throw new Error(`Obstacle layer has ${cells.length} cells, expected ${total}.`);
+  }
+  return { gridSize: encoded.gridSize, rows: encoded.rows, cols: encoded.cols, cells };
+};
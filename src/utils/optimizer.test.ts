@@ -0,0 +1,322 @@
+import { describe, expect, it } from "vitest";
+import { evaluateReportStreams, optimizeBinPlacement } from "@/utils/optimizer";
+import { DEFAULT_PLANNING_PARAMS, type MapState, type Node, type Path, type PlanningParams } from "@/utils/mapTypes";
+
+const vendor = (id: string, x: number, y: number): Node => ({ id, x, y, type: "vendor", label: id });
+const entry = (id: string, x: number, y: number): Node => ({ id, x, y, type: "entry-exit", label: id });
+const walkway = (id: string, points: { x: number; y: number }[]): Path => ({
+  id,
+  points,
+  type: "walkway",
+  label: id,
+  capacity: 50,
+});
+
+const map = (nodes: Node[], paths: Path[]): MapState => ({ nodes, paths, obstacles: null });
+
+const params = (overrides: Partial<PlanningParams> = {}): PlanningParams => ({
+  ...DEFAULT_PLANNING_PARAMS,
+  ...overrides,
+});
+
+const concourse = map(
+  [vendor("v1", 100, 10), vendor("v2", 600, 10), entry("e1", 0, 0)],
+  [walkway("w1", [{ x: 0, y: 0 }, { x: 800, y: 0 }])]
+);
+
+describe("optimizeBinPlacement", () => {
+  it("returns an empty plan when there is nothing to sample", () => {
+    const report = optimizeBinPlacement(map([], []), params({ peoplePerHour: 0 }));
+
+    expect(report.recommendedBins).toEqual([]);
+    expect(report.totalWastePerHour).toBe(0);
+    expect(report.captureRate).toBe(0);
+    expect(report.notes).toContain("Add at least one vendor/source to estimate waste generation.");
+  });
+
+  it("models vendor and attendee waste in liters", () => {
+    const report = optimizeBinPlacement(concourse, params({ vendorSalesPerHour: 60, peoplePerHour: 300 }));
+
+    expect(report.vendorWastePerHour).toBeCloseTo(2 * 60 * 0.5);
+    expect(report.attendeeWastePerHour).toBeCloseTo(300 * 0.2);
+    expect(report.totalWastePerHour).toBeCloseTo(120);
+  });
+
+  it("attributes waste to walkways even without vendors", () => {
+    const report = optimizeBinPlacement(
+      map([], [walkway("w1", [{ x: 0, y: 0 }, { x: 400, y: 0 }])]),
+      params({ peoplePerHour: 1000, binCapacity: 100 })
+    );
+
+    expect(report.vendorWastePerHour).toBe(0);
+    expect(report.recommendedBins.length).toBeGreaterThan(0);
+    report.recommendedBins.forEach((bin) => expect(bin.position.y).toBe(0));
+  });
+
+  it("falls back to vendor positions when no walkways are drawn", () => {
+    const report = optimizeBinPlacement(
+      map([vendor("v1", 50, 50)], []),
+      params({ vendorSalesPerHour: 200, peoplePerHour: 0, binCapacity: 120 })
+    );
+
+    expect(report.notes).toContain(
+      "Using vendor positions as provisional sampling points until walkways are drawn."
+    );
+    expect(report.recommendedBins).toHaveLength(1);
+    expect(report.recommendedBins[0].position).toEqual({ x: 50, y: 50 });
+    expect(report.recommendedBins[0].walkwayDistance).toBe(Infinity);
+  });
+
+  it("skips deployment when demand is below half a bin", () => {
+    const report = optimizeBinPlacement(
+      concourse,
+      params({ vendorSalesPerHour: 1, peoplePerHour: 0, binCapacity: 120 })
+    );
+
+    expect(report.recommendedBins).toEqual([]);
+    expect(report.notes).toContain(
+      "Projected waste is below 50% of a bin; deployment skipped per utilization rule."
+    );
+  });
+
+  it("reports overloads when the bin budget is exhausted", () => {
+    const report = optimizeBinPlacement(
+      concourse,
+      params({ vendorSalesPerHour: 400, peoplePerHour: 2000, binCapacity: 100, maxBins: 1 })
+    );
+
+    expect(report.recommendedBins).toHaveLength(1);
+    expect(report.capacityDrivenBins).toBeGreaterThan(1);
+    expect(report.recommendedBins[0].utilization).toBeGreaterThan(1);
+    expect(report.recommendedBins[0].capturePerHour).toBe(100);
+    expect(report.captureRate).toBeLessThan(1);
+    expect(report.notes.some((note) => note.includes("because the bin budget is exhausted"))).toBe(true);
+    expect(
+      report.notes.some((note) => note.startsWith("Current bin budget (1) is below the"))
+    ).toBe(true);
+  });
+
+  it("stays within the budget and capacity limits", () => {
+    const report = optimizeBinPlacement(
+      concourse,
+      params({ vendorSalesPerHour: 150, peoplePerHour: 500, binCapacity: 80, maxBins: 4 })
+    );
+
+    expect(report.recommendedBins.length).toBeLessThanOrEqual(4);
+    expect(report.totalCost).toBe(report.recommendedBins.length * DEFAULT_PLANNING_PARAMS.costPerBin);
+    report.recommendedBins.forEach((bin) => {
+      expect(bin.capacity).toBe(80);
+      expect(bin.capturePerHour).toBeLessThanOrEqual(bin.capacity);
+    });
+    expect(report.captureRate).toBeLessThanOrEqual(1);
+  });
+
+  it("uses the target utilization as the balancing threshold", () => {
+    const report = optimizeBinPlacement(concourse, params({ targetUtilization: 65 }));
+
+    expect(report.targetUtilization).toBeCloseTo(0.65);
+  });
+
+  it("is deterministic when seeded", () => {
+    const first = optimizeBinPlacement(concourse, params(), { seed: 42 });
+    const second = optimizeBinPlacement(concourse, params(), { seed: 42 });
+
+    expect(second).toEqual(first);
+    expect(first.seed).toBe(42);
+    first.recommendedBins.forEach((bin, idx) => expect(bin.id).toBe(`auto-bin-42-${idx + 1}`));
+  });
+
+  it("records a fresh seed that replays the run", () => {
+    const first = optimizeBinPlacement(concourse, params());
+    const replay = optimizeBinPlacement(concourse, params(), { seed: first.seed });
+
+    expect(Number.isInteger(first.seed)).toBe(true);
+    expect(replay).toEqual(first);
+  });
+
+  it("measures vendor distances along the walkways", () => {
+    // The vendor faces the walkway's far end across a gap the walkway goes around.
+    const report = optimizeBinPlacement(
+      map(
+        [vendor("v1", 10, 110)],
+        [walkway("w1", [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }])]
+      ),
+      params({ vendorSalesPerHour: 200, peoplePerHour: 0, maxBins: 1 }),
+      { seed: 1, binCount: 1 }
+    );
+    const [bin] = report.recommendedBins;
+
+    expect(bin.averageDistanceToVendors).toBeGreaterThanOrEqual(
+      Math.hypot(bin.position.x - 10, bin.position.y - 110) - 1e-6
+    );
+    expect(bin.nearestEntryDistance).toBe(Infinity);
+  });
+
+  it("notes vendors no walkway connects to a bin", () => {
+    const report = optimizeBinPlacement(
+      map(
+        [vendor("v1", 50, 10), vendor("v2", 50, 310)],
+        [walkway("w1", [{ x: 0, y: 0 }, { x: 100, y: 0 }]), walkway("w2", [{ x: 0, y: 300 }, { x: 100, y: 300 }])]
+      ),
+      params({ maxBins: 1 }),
+      { seed: 1, binCount: 1 }
+    );
+
+    expect(report.notes.some((note) => note.includes("not connected to any bin by walkways"))).toBe(true);
+  });
+
+  it("places a forced bin count regardless of the utilization rules", () => {
+    const report = optimizeBinPlacement(concourse, params({ maxBins: 4 }), { seed: 1, binCount: 4 });
+
+    expect(report.recommendedBins).toHaveLength(4);
+    expect(optimizeBinPlacement(concourse, params({ maxBins: 4 }), { seed: 1 }).recommendedBins.length).toBeLessThan(4);
+  });
+
+  describe("waste streams", () => {
+    const streamOf = (report: ReturnType<typeof optimizeBinPlacement>, stream: string) =>
+      report.streams.find((entry) => entry.stream === stream);
+
+    it("diverts nothing with single-stream bins", () => {
+      const report = optimizeBinPlacement(concourse, params({ binStream: "single" }));
+
+      expect(report.diversionRate).toBe(0);
+      expect(streamOf(report, "recycling").mixedPerHour).toBeGreaterThan(0);
+      report.recommendedBins.forEach((bin) => {
+        expect(bin.stream).toBe("single");
+        expect(bin.contaminationRisk).toBe(0);
+      });
+    });
+
+    it("sorts every stream at co-located stations", () => {
+      const report = optimizeBinPlacement(concourse, params({ binStream: "station", maxBins: 10 }));
+      const generated = report.streams.reduce((sum, entry) => sum + entry.generatedPerHour, 0);
+      const landfill = streamOf(report, "landfill").generatedPerHour;
+
+      expect(generated).toBeCloseTo(report.totalWastePerHour);
+      expect(report.diversionRate).toBeCloseTo((generated - landfill) / generated);
+      report.streams.forEach((entry) => expect(entry.contaminationPerHour).toBe(0));
+    });
+
+    it("flags contamination when a stream has no bin nearby", () => {
+      const report = optimizeBinPlacement(concourse, params({ binStream: "recycling" }));
+
+      expect(streamOf(report, "compost").contaminationPerHour).toBeGreaterThan(0);
+      expect(report.recommendedBins[0].contaminationRisk).toBeGreaterThan(0.5);
+      expect(report.recommendedBins[0].missingStreams).toEqual(["landfill", "compost", "deposit"]);
+      expect(report.notes.some((note) => note.includes("risks contaminating"))).toBe(true);
+    });
+
+    it("keeps the stream set on a bin when a run is replayed", () => {
+      const first = optimizeBinPlacement(concourse, params({ binStream: "station", maxBins: 2 }), { seed: 5 });
+      const [recycling, ...rest] = first.recommendedBins;
+      const placed = map(
+        [
+          ...concourse.nodes,
+          { id: recycling.id, ...recycling.position, type: "bin", label: recycling.label, stream: "recycling" },
+        ],
+        concourse.paths
+      );
+      const report = optimizeBinPlacement(placed, params({ binStream: "station", maxBins: 2 }), { seed: 5 });
+
+      expect(report.recommendedBins[0].stream).toBe("recycling");
+      rest.forEach((bin, idx) => expect(report.recommendedBins[idx + 1].stream).toBe("station"));
+      expect(report.notes.some((note) => note.includes("mixed bin streams"))).toBe(true);
+    });
+
+    it("re-scores sorting when a bin's stream changes after the run", () => {
+      const report = optimizeBinPlacement(concourse, params({ binStream: "station" }), { seed: 3 });
+      const nodes: Node[] = report.recommendedBins.map((bin) => ({
+        id: bin.id,
+        ...bin.position,
+        type: "bin",
+        label: bin.label,
+        stream: "recycling",
+      }));
+      const rescored = evaluateReportStreams(report, { defaultStream: "station", nodes, scale: null });
+      const fresh = optimizeBinPlacement(concourse, params({ binStream: "recycling" }), { seed: 3 });
+
+      expect(report.diversionRate).toBeGreaterThan(rescored.diversionRate);
+      expect(rescored.streams).toEqual(fresh.streams);
+      rescored.recommendedBins.forEach((bin, idx) => {
+        expect(bin.stream).toBe("recycling");
+        expect(bin.contaminationRisk).toBeCloseTo(fresh.recommendedBins[idx].contaminationRisk);
+        expect(bin.missingStreams).toEqual(fresh.recommendedBins[idx].missingStreams);
+      });
+    });
+
+    it("falls back to the default stream for bins without a node", () => {
+      const report = optimizeBinPlacement(concourse, params({ binStream: "recycling" }), { seed: 3 });
+      const rescored = evaluateReportStreams(report, { defaultStream: "station", nodes: [], scale: null });
+
+      rescored.recommendedBins.forEach((bin) => expect(bin.stream).toBe("station"));
+      rescored.streams.forEach((entry) => expect(entry.contaminationPerHour).toBe(0));
+    });
+
+    it("uses the vendor's menu profile", () => {
+      const drinks = map(
+        [{ ...vendor("v1", 100, 10), menuType: "beverages" }],
+        [walkway("w1", [{ x: 0, y: 0 }, { x: 400, y: 0 }])]
+      );
+      const report = optimizeBinPlacement(drinks, params({ peoplePerHour: 0, vendorSalesPerHour: 100 }));
+
+      expect(streamOf(report, "deposit").generatedPerHour).toBeCloseTo(100 * 0.5 * 0.55);
+    });
+  });
+
+  describe("event timeline", () => {
+    const timeline = (salesMultipliers: number[], vendorOverrides: Record<string, number> = {}) => ({
+      startTime: "18:00",
+      endTime: `${18 + salesMultipliers.length}:00`,
+      intervalMinutes: 60,
+      intervals: salesMultipliers.map((salesMultiplier, idx) => ({
+        phase: idx === 1 ? "halftime" : "main",
+        attendanceMultiplier: 1,
+        salesMultiplier,
+        vendorSalesMultipliers: idx === 1 ? vendorOverrides : {},
+      })),
+    });
+
+    it("reports demand and fill levels per interval", () => {
+      const report = optimizeBinPlacement(concourse, params({ maxBins: 10 }), {
+        seed: 1,
+        timeline: timeline([1, 3, 0.5]),
+      });
+
+      expect(report.timeline.intervals).toHaveLength(3);
+      expect(report.timeline.peakIntervalIndex).toBe(1);
+      expect(report.timeline.intervals[0].wastePerHour).toBeCloseTo(report.totalWastePerHour);
+      expect(report.timeline.intervals[1].startMinutes).toBe(19 * 60);
+      report.recommendedBins.forEach((bin) => expect(bin.fillTimeline).toHaveLength(3));
+    });
+
+    it("flags peak overflow when a rush exceeds bin capacity", () => {
+      const steady = optimizeBinPlacement(concourse, params(), { seed: 1, timeline: timeline([1, 1]) });
+      const rush = optimizeBinPlacement(concourse, params(), { seed: 1, timeline: timeline([1, 4]) });
+
+      expect(Math.max(...rush.recommendedBins.map((bin) => bin.peakOverflowPerHour))).toBeGreaterThan(
+        Math.max(...steady.recommendedBins.map((bin) => bin.peakOverflowPerHour))
+      );
+      expect(rush.timeline.totalOverflowLiters).toBeGreaterThan(0);
+      expect(Math.max(...rush.recommendedBins.flatMap((bin) => bin.fillTimeline))).toBe(1);
+    });
+
+    it("applies per-vendor sales multipliers", () => {
+      const base = optimizeBinPlacement(concourse, params({ peoplePerHour: 0 }), { timeline: timeline([1, 1]) });
+      const closed = optimizeBinPlacement(concourse, params({ peoplePerHour: 0 }), {
+        timeline: timeline([1, 1], { v1: 0 }),
+      });
+
+      expect(closed.timeline.intervals[1].wastePerHour).toBeCloseTo(base.timeline.intervals[1].wastePerHour / 2);
+    });
+
+    it("omits the timeline report without a timeline", () => {
+      const report = optimizeBinPlacement(concourse, params());
+
+      expect(report.timeline).toBeNull();
+      report.recommendedBins.forEach((bin) => {
+        expect(bin.fillTimeline).toEqual([]);
+        expect(bin.peakOverflowPerHour).toBe(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,997 @@
+// Bin placement optimizer. Samples the walkways, spreads projected waste over
+// the samples with a vendor-weighted gradient (attendee waste by an uploaded
+// foot-traffic heatmap, or else the traffic routed from entries to vendors),
+// greedily picks well-spaced bin sites, re-centres them on their catchments,
+// and then adds partner bins or relocates under-used bins to relieve
+// overloads. Each sample also carries a per-stream breakdown so sorted
+// capture, contamination and diversion can be scored against the placed bins'
+// stream setup. The placed bins are then run through the fill simulation
+// (interval by interval with an event timeline) to report overflow and litter.
+// Distances to vendors and entries are walked along the walkway graph.
+// Distance constants are in meters and converted with the map's calibrated
+// scale. Pure: no React, no I/O.
+
+import type {
+  BinStream,
+  DistanceUnit,
+  EventTimeline,
+  MapScale,
+  MapState,
+  Node,
+  OptimizationReport,
+  Path,
+  PlanningParams,
+  Point,
+  RecommendedBin,
+  StreamCapture,
+  TimelineReport,
+  TrafficHeatmap,
+  WasteStream,
+} from "@/utils/mapTypes";
+import {
+  formatClockTime,
+  intervalDurationMinutes,
+  intervalStartMinutes,
+  vendorSalesMultiplier,
+} from "@/utils/eventTimeline";
+import { evaluateBinService, resolveSchedule } from "@/utils/binFill";
+import { normalizeSeed, randomSeed } from "@/utils/random";
+import { buildWalkwayGraph, nearestEdge, walkingDistancesFrom } from "@/utils/walkwayGraph";
+import { assignPedestrianFlow, isBottleneck, summarizeWalkwayFlows } from "@/utils/walkwayFlow";
+import { heatmapDensityAt } from "@/utils/trafficHeatmap";
+import { formatDistance, pixelsPerMeter } from "@/utils/mapScale";
+import {
+  ATTENDEE_COMPOSITION,
+  BIN_STREAM_OPTIONS,
+  DIVERTED_STREAMS,
+  WASTE_STREAMS,
+  WASTE_STREAM_LABELS,
+  acceptsStream,
+  emptyStreamAmounts,
+  menuProfileOf,
+  type StreamAmounts,
+} from "@/utils/wasteStreams";
+
+interface WalkwaySample {
+  pathId: string | null;
+  point: Point;
+  distanceAlong: number;
+  // Gradient weight of each vendor (index into the vendor list) at this sample.
+  vendorWeights: number[];
+  wasteUnits: number; // liters per hour
+  streamWaste: StreamAmounts; // liters per hour by stream
+}
+
+// Utilization thresholds are ratios of a bin's hourly capacity.
+const OVERLOAD_THRESHOLD = 1;
+const MIN_NEW_BIN_UTILIZATION = 0.5;
+const MIN_TARGET_UTILIZATION = 0.1;
+// Distances in meters.
+export const MAX_PARTNER_DISTANCE_M = 5;
+const WALKWAY_SAMPLE_SPACING_M = 2;
+const VENDOR_INFLUENCE_RADIUS_M = 20;
+const WEIGHT_DISTANCE_FACTOR_M = 12;
+// Keeps sampling tractable on maps calibrated to very few pixels per meter.
+const MIN_SAMPLE_SPACING_PX = 4;
+// Waste volumes in liters: roughly one cup/wrapper per sale and a little
+// incidental waste (tickets, bottles brought in) per attendee.
+const WASTE_PER_SALE_LITERS = 0.5;
+const WASTE_PER_ATTENDEE_LITERS = 0.2;
+// Extra distance (m) people will walk past the nearest bin to find the right stream.
+const STREAM_DETOUR_TOLERANCE_M = 6;
+// Bins whose load is at least this contaminated get a note.
+const CONTAMINATION_NOTE_THRESHOLD = 0.15;
+
+export interface OptimizerOptions {
+  // Seeds generated bin ids so repeated runs produce identical reports.
+  // A fresh seed is drawn when omitted and returned on the report.
+  seed?: number;
+  // Evaluates the placed bins across each interval of the event.
+  timeline?: EventTimeline | null;
+  // Places exactly this many bins (fewer only when walkway samples run out),
+  // bypassing the utilization rules. Used by the budget sweep.
+  binCount?: number;
+  // Measured foot traffic; attendee waste follows it instead of routed flow.
+  heatmap?: TrafficHeatmap | null;
+  // Calibrated map scale; the default pixels per meter applies without one.
+  scale?: MapScale | null;
+  // Unit distances are written in within the report notes.
+  distanceUnit?: DistanceUnit;
+}
+
+// Hourly waste (liters) the planning inputs imply for a set of vendors.
+export const estimateHourlyWaste = (vendorCount: number, planningParams: PlanningParams) => {
+  const vendorWastePerHour = vendorCount * planningParams.vendorSalesPerHour * WASTE_PER_SALE_LITERS;
+  const attendeeWastePerHour = planningParams.peoplePerHour * WASTE_PER_ATTENDEE_LITERS;
+  return { vendorWastePerHour, attendeeWastePerHour, totalWastePerHour: vendorWastePerHour + attendeeWastePerHour };
+};
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+// Averages over the vendors the walkways connect to the point; Infinity when none are.
+const computeAverageDistanceToVendors = (walkFrom: (target: Point) => number, vendorNodes: Node[]) => {
+  if (vendorNodes.length === 0) return 0;
+  const reachable = vendorNodes.map(walkFrom).filter((dist) => Number.isFinite(dist));
+  if (reachable.length === 0) return Infinity;
+  return reachable.reduce((sum, dist) => sum + dist, 0) / reachable.length;
+};
+
+const computeWalkwayLength = (pathList: Path[]) =>
+  pathList.reduce((total, path) => {
+    if (path.points.length < 2) return total;
+    const length = path.points.slice(1).reduce((sum, point, index) => {
+      const prev = path.points[index];
+      return sum + distance(prev, point);
+    }, 0);
+    return total + length;
+  }, 0);
+
+const distancePointToSegment = (
+  px: number,
+  py: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  if (dx === 0 && dy === 0) {
+    return Math.hypot(px - x1, py - y1);
+  }
+  const t = Math.max(
+    0,
+    Math.min(1, ((px - x1) * dx + (py - y1) * dy) / (dx * dx + dy * dy))
+  );
+  const closestX = x1 + t * dx;
+  const closestY = y1 + t * dy;
+  return Math.hypot(px - closestX, py - closestY);
+};
+
+const computeClosestWalkwayDistance = (point: Point, pathList: Path[]) => {
+  if (pathList.length === 0) return Infinity;
+  let minDistance = Infinity;
+  pathList.forEach((path) => {
+    if (path.points.length < 2) return;
+    for (let i = 0; i < path.points.length - 1; i++) {
+      const start = path.points[i];
+      const end = path.points[i + 1];
+      const dist = distancePointToSegment(point.x, point.y, start.x, start.y, end.x, end.y);
+      if (dist < minDistance) {
+        minDistance = dist;
+      }
+    }
+  });
+  return minDistance;
+};
+
+const computeNearestEntryDistance = (walkFrom: (target: Point) => number, entryNodes: Node[]) => {
+  if (entryNodes.length === 0) return Infinity;
+  return entryNodes.reduce((min, entry) => {
+    const dist = walkFrom(entry);
+    return dist < min ? dist : min;
+  }, Infinity);
+};
+
+interface StreamEvaluation {
+  streams: StreamCapture[];
+  diversionRate: number;
+  binContamination: number[];
+  binMissingStreams: WasteStream[][];
+}
+
+/**
+ * Scores sorting for a set of placed bins. Each sample's waste heads for its
+ * nearest bin; items that bin does not accept go to the nearest bin that does
+ * if the detour is within `detourTolerance` (px), and otherwise contaminate
+ * the nearest bin. `captureRatios` scales each bin's intake for overloads.
+ */
+const evaluateStreams = (
+  samples: Pick<WalkwaySample, "point" | "streamWaste">[],
+  assignments: number[],
+  binPoints: Point[],
+  binStreams: BinStream[],
+  captureRatios: number[],
+  detourTolerance: number
+): StreamEvaluation => {
+  const generated = emptyStreamAmounts();
+  const captured = emptyStreamAmounts();
+  const mixed = emptyStreamAmounts();
+  const contamination = emptyStreamAmounts();
+  const binCaptured = binPoints.map(() => 0);
+  const binContaminated = binPoints.map(() => 0);
+  const binMissing = binPoints.map(() => new Set<WasteStream>());
+
+  samples.forEach((sample, sampleIdx) => {
+    WASTE_STREAMS.forEach((stream) => {
+      generated[stream] += sample.streamWaste[stream];
+    });
+    const nearest = assignments[sampleIdx];
+    if (nearest === undefined || nearest < 0) return;
+    const nearestDistance = distance(sample.point, binPoints[nearest]);
+
+    WASTE_STREAMS.forEach((stream) => {
+      const amount = sample.streamWaste[stream];
+      if (amount <= 0) return;
+      let target = nearest;
+      if (!acceptsStream(binStreams[nearest], stream)) {
+        let alternative = -1;
+        let alternativeDistance = Infinity;
+        binPoints.forEach((point, binIdx) => {
+          if (!acceptsStream(binStreams[binIdx], stream)) return;
+          const dist = distance(sample.point, point);
+          if (dist < alternativeDistance) {
+            alternativeDistance = dist;
+            alternative = binIdx;
+          }
+        });
+        if (alternative !== -1 && alternativeDistance <= nearestDistance + detourTolerance) {
+          target = alternative;
+        } else {
+          binMissing[nearest].add(stream);
+        }
+      }
+
+      const intake = amount * captureRatios[target];
+      binCaptured[target] += intake;
+      if (!acceptsStream(binStreams[target], stream)) {
+        contamination[stream] += intake;
+        binContaminated[target] += intake;
+      } else if (!BIN_STREAM_OPTIONS[binStreams[target]].sorted && stream !== "landfill") {
+        mixed[stream] += intake;
+      } else {
+        captured[stream] += intake;
+      }
+    });
+  });
+
+  const totalGenerated = WASTE_STREAMS.reduce((sum, stream) => sum + generated[stream], 0);
+  const totalDiverted = DIVERTED_STREAMS.reduce((sum, stream) => sum + captured[stream], 0);
+
+  return {
+    streams: WASTE_STREAMS.map((stream) => ({
+      stream,
+      generatedPerHour: generated[stream],
+      capturedPerHour: captured[stream],
+      mixedPerHour: mixed[stream],
+      contaminationPerHour: contamination[stream],
+      captureRate: generated[stream] === 0 ? 0 : captured[stream] / generated[stream],
+    })),
+    diversionRate: totalGenerated === 0 ? 0 : totalDiverted / totalGenerated,
+    binContamination: binCaptured.map((total, binIdx) =>
+      total === 0 ? 0 : binContaminated[binIdx] / total
+    ),
+    binMissingStreams: binMissing.map((missing) => WASTE_STREAMS.filter((stream) => missing.has(stream))),
+  };
+};
+
+// Stream of the report bin's node, or `defaultStream` when there is no such node or it sets none.
+const reportBinStream = (nodes: Node[], binId: string, defaultStream: BinStream): BinStream =>
+  nodes.find((node) => node.type === "bin" && node.id === binId)?.stream ?? defaultStream;
+
+export interface BinStreamContext {
+  // Stream for bins whose node sets none.
+  defaultStream: BinStream;
+  // Current bin nodes, for streams changed per bin after the run.
+  nodes: Node[];
+  scale: MapScale | null;
+}
+
+/**
+ * Re-scores sorting on a report against each bin's current stream, as
+ * `evaluateBinService` does for emptying schedules. Reports saved before the
+ * demand was kept have none to re-score and only pick up the new streams.
+ */
+export const evaluateReportStreams = (report: OptimizationReport, context: BinStreamContext): OptimizationReport => {
+  const binStreams = report.recommendedBins.map((bin) => reportBinStream(context.nodes, bin.id, context.defaultStream));
+  if (report.streamDemand.length === 0) {
+    return {
+      ...report,
+      recommendedBins: report.recommendedBins.map((bin, binIdx) => ({ ...bin, stream: binStreams[binIdx] })),
+    };
+  }
+  const evaluation = evaluateStreams(
+    report.streamDemand.map((demand) => ({ point: demand.point, streamWaste: demand.streamWaste })),
+    report.streamDemand.map((demand) => demand.binIndex),
+    report.recommendedBins.map((bin) => bin.position),
+    binStreams,
+    report.recommendedBins.map((bin) => (bin.utilization <= 0 ? 0 : Math.min(1, 1 / bin.utilization))),
+    STREAM_DETOUR_TOLERANCE_M * pixelsPerMeter(context.scale)
+  );
+  return {
+    ...report,
+    recommendedBins: report.recommendedBins.map((bin, binIdx) => ({
+      ...bin,
+      stream: binStreams[binIdx],
+      contaminationRisk: evaluation.binContamination[binIdx] ?? 0,
+      missingStreams: evaluation.binMissingStreams[binIdx] ?? [],
+    })),
+    streams: evaluation.streams,
+    diversionRate: evaluation.diversionRate,
+  };
+};
+
+interface TimelineEvaluation {
+  report: TimelineReport;
+  // Liters per hour arriving at each bin during each interval.
+  binLoads: number[][];
+}
+
+/**
+ * Scales each sample's demand by the interval multipliers and totals what
+ * arrives at each placed bin. Overflow is filled in by the bin fill simulation.
+ */
+const evaluateTimeline = (
+  timeline: EventTimeline,
+  samples: WalkwaySample[],
+  assignments: number[],
+  binCount: number,
+  vendorIds: string[],
+  // Liters per hour per unit of each vendor's gradient weight.
+  vendorWastePerWeight: number[],
+  attendeeWastePerSample: number[]
+): TimelineEvaluation => {
+  const binLoads = Array.from({ length: binCount }, () => [] as number[]);
+
+  const intervals = timeline.intervals.map((interval, intervalIdx) => {
+    const durationMinutes = intervalDurationMinutes(timeline, intervalIdx);
+    const multipliers = vendorIds.map((id) => vendorSalesMultiplier(interval, id));
+    const inflow = new Array(binCount).fill(0);
+    let wastePerHour = 0;
+    samples.forEach((sample, sampleIdx) => {
+      const vendorRate = sample.vendorWeights.reduce(
+        (sum, weight, vendorIdx) => sum + weight * vendorWastePerWeight[vendorIdx] * multipliers[vendorIdx],
+        0
+      );
+      const rate = vendorRate + attendeeWastePerSample[sampleIdx] * interval.attendanceMultiplier;
+      wastePerHour += rate;
+      const binIdx = assignments[sampleIdx];
+      if (binIdx !== undefined && binIdx >= 0) inflow[binIdx] += rate;
+    });
+
+    inflow.forEach((rate, binIdx) => binLoads[binIdx].push(rate));
+
+    return {
+      phase: interval.phase,
+      startMinutes: intervalStartMinutes(timeline, intervalIdx),
+      durationMinutes,
+      wastePerHour,
+      overflowLiters: 0,
+    };
+  });
+
+  const peakIntervalIndex = intervals.reduce(
+    (best, interval, idx) => (interval.wastePerHour > intervals[best].wastePerHour ? idx : best),
+    0
+  );
+
+  return {
+    report: { intervals, peakIntervalIndex, totalOverflowLiters: 0 },
+    binLoads,
+  };
+};
+
+export const optimizeBinPlacement = (
+  { nodes, paths }: MapState,
+  planningParams: PlanningParams,
+  options: OptimizerOptions = {}
+): OptimizationReport => {
+  const seed = options.seed === undefined ? randomSeed() : normalizeSeed(options.seed);
+  const vendors = nodes.filter((node) => node.type === "vendor");
+  const existingBins = nodes.filter((node) => node.type === "bin");
+  const entries = nodes.filter((node) => node.type === "entry-exit");
+
+  const walkwayLength = computeWalkwayLength(paths);
+  const scale = options.scale ?? null;
+  const walkwayGraph = buildWalkwayGraph(paths, scale);
+  const metersToPixels = (meters: number) => meters * pixelsPerMeter(scale);
+  const formatLength = (pixels: number) => formatDistance(pixels, scale, options.distanceUnit ?? "meters");
+  const sampleSpacing = Math.max(MIN_SAMPLE_SPACING_PX, metersToPixels(WALKWAY_SAMPLE_SPACING_M));
+  const vendorInfluenceRadius = metersToPixels(VENDOR_INFLUENCE_RADIUS_M);
+  const maxPartnerDistance = metersToPixels(MAX_PARTNER_DISTANCE_M);
+  const weightDistanceFactor = metersToPixels(WEIGHT_DISTANCE_FACTOR_M);
+  const { vendorWastePerHour, attendeeWastePerHour, totalWastePerHour: totalWasteUnits } = estimateHourlyWaste(
+    vendors.length,
+    planningParams
+  );
+  const { emptyEveryMinutes } = resolveSchedule(undefined, [], planningParams.emptyEveryMinutes);
+  const binCapacityPerHour = (planningParams.binCapacity * 60) / emptyEveryMinutes;
+  const targetUtilization = Math.min(
+    1,
+    Math.max(MIN_TARGET_UTILIZATION, planningParams.targetUtilization / 100)
+  );
+  const targetPercent = Math.round(targetUtilization * 100);
+
+  const notes: string[] = [];
+
+  if (vendors.length === 0) {
+    notes.push("Add at least one vendor/source to estimate waste generation.");
+  }
+  if (entries.length === 0) {
+    notes.push("Entry/exit points help contextualize pedestrian distribution.");
+  }
+  if (paths.length === 0) {
+    notes.push("Draw walkways to outline pedestrian flow for more realistic coverage.");
+  }
+  if (existingBins.length === 0) {
+    notes.push("No existing bins were detected; the optimizer will propose fresh placements.");
+  }
+
+  notes.push(
+    `Waste is estimated at ${WASTE_PER_SALE_LITERS} L per vendor sale and ${WASTE_PER_ATTENDEE_LITERS} L per attendee (${vendorWastePerHour.toFixed(1)} L/h from vendors, ${attendeeWastePerHour.toFixed(1)} L/h from attendees).`
+  );
+  notes.push(
+    `Each ${planningParams.binCapacity} L bin is assumed to be emptied every ${emptyEveryMinutes} min.`
+  );
+  notes.push(`Bins below the ${targetPercent}% utilization target are nudged toward supporting overloaded bins.`);
+
+  const samples: WalkwaySample[] = [];
+
+  const addSample = (sample: WalkwaySample) => {
+    samples.push(sample);
+  };
+
+  paths.forEach((path) => {
+    if (path.points.length < 2) return;
+    let cumulative = 0;
+    for (let i = 0; i < path.points.length - 1; i++) {
+      const start = path.points[i];
+      const end = path.points[i + 1];
+      const segmentLength = distance(start, end);
+      if (segmentLength === 0) continue;
+      const segmentSteps = Math.max(1, Math.round(segmentLength / sampleSpacing));
+      for (let step = 0; step < segmentSteps; step++) {
+        const t = (step + 0.5) / segmentSteps;
+        addSample({
+          pathId: path.id,
+          point: {
+            x: start.x + (end.x - start.x) * t,
+            y: start.y + (end.y - start.y) * t,
+          },
+          distanceAlong: cumulative + segmentLength * t,
+          vendorWeights: vendors.map(() => 0),
+          wasteUnits: 0,
+          streamWaste: emptyStreamAmounts(),
+        });
+      }
+      cumulative += segmentLength;
+    }
+  });
+
+  if (samples.length === 0 && vendors.length > 0) {
+    vendors.forEach((vendor) => {
+      addSample({
+        pathId: null,
+        point: { x: vendor.x, y: vendor.y },
+        distanceAlong: 0,
+        vendorWeights: vendors.map(() => 0),
+        wasteUnits: 0,
+        streamWaste: emptyStreamAmounts(),
+      });
+    });
+    notes.push("Using vendor positions as provisional sampling points until walkways are drawn.");
+  }
+
+  samples.forEach((sample) => {
+    vendors.forEach((vendor, vendorIdx) => {
+      const dist = distance(sample.point, vendor);
+      if (dist <= vendorInfluenceRadius) {
+        sample.vendorWeights[vendorIdx] += Math.max(0, 1 - dist / vendorInfluenceRadius);
+      }
+    });
+  });
+
+  // A vendor with no sample in range drops its waste at the closest sample.
+  const vendorTotals = vendors.map((vendor, vendorIdx) => {
+    const total = samples.reduce((sum, sample) => sum + sample.vendorWeights[vendorIdx], 0);
+    if (total > 0 || samples.length === 0) return total;
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    samples.forEach((sample, idx) => {
+      const dist = distance(sample.point, vendor);
+      if (dist < bestDistance) {
+        bestDistance = dist;
+        bestIndex = idx;
+      }
+    });
+    samples[bestIndex].vendorWeights[vendorIdx] = 1;
+    return 1;
+  });
+  const wastePerVendor = planningParams.vendorSalesPerHour * WASTE_PER_SALE_LITERS;
+
+  // Attendee waste follows the uploaded heatmap's density at each sample, else
+  // the modelled foot traffic on its stretch of walkway, or spreads evenly
+  // when neither reaches any sample.
+  const edgeFlows = assignPedestrianFlow(walkwayGraph, entries, vendors, planningParams.peoplePerHour);
+  const walkwayFlows = summarizeWalkwayFlows(walkwayGraph, edgeFlows, paths);
+  const heatmapTraffic = options.heatmap
+    ? samples.map((sample) => heatmapDensityAt(options.heatmap, sample.point))
+    : [];
+  const usesHeatmap = heatmapTraffic.some((density) => density > 0);
+  const sampleTraffic = usesHeatmap
+    ? heatmapTraffic
+    : samples.map((sample) =>
+      sample.pathId === null ? 0 : edgeFlows[nearestEdge(walkwayGraph, sample.point)] ?? 0
+    );
+  const totalTraffic = sampleTraffic.reduce((sum, traffic) => sum + traffic, 0);
+  const attendeeWastePerSample = sampleTraffic.map((traffic) =>
+    totalTraffic > 0 ? (attendeeWastePerHour * traffic) / totalTraffic : attendeeWastePerHour / samples.length
+  );
+  if (usesHeatmap) {
+    notes.push(`Attendee waste follows the foot-traffic heatmap "${options.heatmap.name}".`);
+  } else if (options.heatmap) {
+    notes.push(`The foot-traffic heatmap "${options.heatmap.name}" does not cover any walkway; it was ignored.`);
+  }
+  if (!usesHeatmap && totalTraffic > 0) {
+    notes.push(
+      `Attendee waste follows foot traffic routed from ${entries.length} ${entries.length === 1 ? "entry" : "entries"} to ${vendors.length} ${vendors.length === 1 ? "vendor" : "vendors"} along the walkways.`
+    );
+  }
+  walkwayFlows.filter(isBottleneck).forEach((flow) => {
+    notes.push(
+      `${flow.label} is a bottleneck: about ${Math.round(flow.flowPerMinute)} people/min against a capacity of ${flow.capacityPerMinute} (${Math.round(flow.loadRatio * 100)}%).`
+    );
+  });
+
+  // Each vendor's waste follows its own gradient, split by its menu profile.
+  samples.forEach((sample, sampleIdx) => {
+    const attendeeShare = attendeeWastePerSample[sampleIdx];
+    let vendorShare = 0;
+    WASTE_STREAMS.forEach((stream) => {
+      sample.streamWaste[stream] = attendeeShare * ATTENDEE_COMPOSITION[stream];
+    });
+    sample.vendorWeights.forEach((weight, vendorIdx) => {
+      if (weight === 0) return;
+      const share = (weight / vendorTotals[vendorIdx]) * wastePerVendor;
+      const { composition } = menuProfileOf(vendors[vendorIdx]);
+      vendorShare += share;
+      WASTE_STREAMS.forEach((stream) => {
+        sample.streamWaste[stream] += share * composition[stream];
+      });
+    });
+    sample.wasteUnits = vendorShare + attendeeShare;
+  });
+
+  if (samples.length === 0) {
+    notes.push("No sampling points available; add walkways and vendors to evaluate bin placement.");
+  }
+
+  const capacityDrivenBins =
+    totalWasteUnits <= 0 ? 0 : Math.ceil(totalWasteUnits / binCapacityPerHour);
+
+  let plannedBinCount = 0;
+  if (options.binCount !== undefined) {
+    plannedBinCount = totalWasteUnits > 0 ? Math.min(Math.max(0, options.binCount), samples.length) : 0;
+  } else if (totalWasteUnits > 0 && samples.length > 0) {
+    const requiredBins = Math.ceil(totalWasteUnits / (binCapacityPerHour * targetUtilization));
+    const utilLimitedBins = Math.floor(
+      totalWasteUnits / (binCapacityPerHour * MIN_NEW_BIN_UTILIZATION)
+    );
+    plannedBinCount = Math.min(planningParams.maxBins, requiredBins);
+    if (utilLimitedBins > 0) {
+      plannedBinCount = Math.min(plannedBinCount, utilLimitedBins);
+    } else if (totalWasteUnits < binCapacityPerHour * MIN_NEW_BIN_UTILIZATION) {
+      plannedBinCount = 0;
+      notes.push("Projected waste is below 50% of a bin; deployment skipped per utilization rule.");
+    }
+    plannedBinCount = Math.min(plannedBinCount, samples.length);
+  }
+
+  const selectedIndices: number[] = [];
+  const sampleIndices = samples.map((_, idx) => idx);
+
+  if (plannedBinCount > 0 && samples.length > 0) {
+    const byDemand = [...sampleIndices].sort(
+      (a, b) => samples[b].wasteUnits - samples[a].wasteUnits
+    );
+    if (byDemand.length > 0) {
+      selectedIndices.push(byDemand[0]);
+    }
+    while (selectedIndices.length < plannedBinCount) {
+      let bestCandidate: number | null = null;
+      let bestScore = -Infinity;
+      for (const idx of sampleIndices) {
+        if (selectedIndices.includes(idx)) continue;
+        const sample = samples[idx];
+        const spacingScore = selectedIndices.reduce((minDist, selectedIdx) => {
+          const dist = distance(sample.point, samples[selectedIdx].point);
+          return dist < minDist ? dist : minDist;
+        }, Number.POSITIVE_INFINITY);
+        const weightRatio = totalWasteUnits === 0 ? 0 : sample.wasteUnits / totalWasteUnits;
+        const score =
+          (Number.isFinite(spacingScore) ? spacingScore : 0) + weightRatio * weightDistanceFactor;
+        if (score > bestScore) {
+          bestScore = score;
+          bestCandidate = idx;
+        }
+      }
+      if (bestCandidate === null) break;
+      selectedIndices.push(bestCandidate);
+    }
+  }
+
+  const assignSamplesToBins = (indices: number[]) => {
+    const assignments = new Array(samples.length).fill(-1);
+    const loads = indices.map(() => 0);
+    const grouped = indices.map(() => [] as number[]);
+    if (indices.length === 0) {
+      return { loads, assignments, grouped };
+    }
+    samples.forEach((sample, sampleIdx) => {
+      if (sample.wasteUnits <= 0) return;
+      let closestBin = 0;
+      let closestDistance = Infinity;
+      indices.forEach((selectedIdx, binIdx) => {
+        const dist = distance(sample.point, samples[selectedIdx].point);
+        if (dist < closestDistance) {
+          closestDistance = dist;
+          closestBin = binIdx;
+        }
+      });
+      assignments[sampleIdx] = closestBin;
+      loads[closestBin] += sample.wasteUnits;
+      grouped[closestBin].push(sampleIdx);
+    });
+    return { loads, assignments, grouped };
+  };
+
+  let assignment = assignSamplesToBins(selectedIndices);
+
+  let repositionAttempts = 0;
+  while (selectedIndices.length > 0 && repositionAttempts < 5) {
+    let moved = false;
+    selectedIndices.forEach((sampleIndex, binIdx) => {
+      const assignedSamples = assignment.grouped[binIdx];
+      if (!assignedSamples || assignedSamples.length === 0) return;
+      let sumX = 0;
+      let sumY = 0;
+      let sumWeight = 0;
+      assignedSamples.forEach((sampleIdx) => {
+        const sample = samples[sampleIdx];
+        sumX += sample.point.x * sample.wasteUnits;
+        sumY += sample.point.y * sample.wasteUnits;
+        sumWeight += sample.wasteUnits;
+      });
+      if (sumWeight === 0) return;
+      const centroid = { x: sumX / sumWeight, y: sumY / sumWeight };
+      let bestCandidate = sampleIndex;
+      let bestDistance = Math.hypot(
+        samples[sampleIndex].point.x - centroid.x,
+        samples[sampleIndex].point.y - centroid.y
+      );
+      assignedSamples.forEach((sampleIdx) => {
+        if (
+          selectedIndices.some(
+            (otherIdx, otherBinIdx) => otherBinIdx !== binIdx && otherIdx === sampleIdx
+          )
+        ) {
+          return;
+        }
+        const sample = samples[sampleIdx];
+        const dist = Math.hypot(sample.point.x - centroid.x, sample.point.y - centroid.y);
+        if (dist < bestDistance) {
+          bestDistance = dist;
+          bestCandidate = sampleIdx;
+        }
+      });
+      if (bestCandidate !== sampleIndex) {
+        selectedIndices[binIdx] = bestCandidate;
+        moved = true;
+      }
+    });
+    if (!moved) break;
+    assignment = assignSamplesToBins(selectedIndices);
+    repositionAttempts += 1;
+  }
+
+  let extraCapacity = Math.max(0, planningParams.maxBins - selectedIndices.length);
+  const unmatchedOverloads: number[] = [];
+
+  const tryAddPartner = (overloadedIdx: number) => {
+    if (extraCapacity <= 0) return false;
+    const overloadedSampleIdx = selectedIndices[overloadedIdx];
+    if (overloadedSampleIdx === undefined) return false;
+    const overloadedSample = samples[overloadedSampleIdx];
+    const candidates = samples
+      .map((sample, idx) => ({
+        idx,
+        waste: sample.wasteUnits,
+        dist: distance(sample.point, overloadedSample.point),
+      }))
+      .filter(
+        (candidate) =>
+          candidate.dist > 0 &&
+          candidate.dist <= maxPartnerDistance &&
+          !selectedIndices.includes(candidate.idx) &&
+          candidate.waste > 0
+      )
+      .sort((a, b) => {
+        if (b.waste !== a.waste) return b.waste - a.waste;
+        return a.dist - b.dist;
+      });
+    for (const candidate of candidates) {
+      const nextSelection = [...selectedIndices, candidate.idx];
+      const nextAssignment = assignSamplesToBins(nextSelection);
+      const newBinLoad = nextAssignment.loads[nextSelection.length - 1];
+      if (newBinLoad >= binCapacityPerHour * MIN_NEW_BIN_UTILIZATION) {
+        selectedIndices.push(candidate.idx);
+        assignment = nextAssignment;
+        extraCapacity -= 1;
+        notes.push(
+          `Added a partner bin ${formatLength(candidate.dist)} from overloaded bin ${overloadedIdx + 1}.`
+        );
+        return true;
+      }
+    }
+    if (candidates.length > 0) {
+      notes.push(
+        `Skipped adding a partner near bin ${overloadedIdx + 1} because projected utilization stayed under 50%.`
+      );
+    }
+    return false;
+  };
+
+  const tryRelocateUnderutilized = (overloaded: number[], underutilized: number[]) => {
+    for (const overloadedIdx of overloaded) {
+      const overloadedSampleIdx = selectedIndices[overloadedIdx];
+      if (overloadedSampleIdx === undefined) continue;
+      const overloadedSample = samples[overloadedSampleIdx];
+      const orderedUnder = [...underutilized].sort((a, b) => {
+        const aIdx = selectedIndices[a];
+        const bIdx = selectedIndices[b];
+        const aDist =
+          aIdx === undefined ? Infinity : distance(samples[aIdx].point, overloadedSample.point);
+        const bDist =
+          bIdx === undefined ? Infinity : distance(samples[bIdx].point, overloadedSample.point);
+        return aDist - bDist;
+      });
+      for (const underIdx of orderedUnder) {
+        const originalSampleIdx = selectedIndices[underIdx];
+        const candidatePositions = samples
+          .map((sample, idx) => ({
+            idx,
+            waste: sample.wasteUnits,
+            dist: distance(sample.point, overloadedSample.point),
+          }))
+          .filter(
+            (candidate) =>
+              candidate.dist <= maxPartnerDistance &&
+              !selectedIndices.some(
+                (selIdx, selBinIdx) => selBinIdx !== underIdx && selIdx === candidate.idx
+              )
+          )
+          .sort((a, b) => {
+            if (b.waste !== a.waste) return b.waste - a.waste;
+            return a.dist - b.dist;
+          });
+        for (const candidate of candidatePositions) {
+          if (candidate.idx === originalSampleIdx) continue;
+          selectedIndices[underIdx] = candidate.idx;
+          const nextAssignment = assignSamplesToBins(selectedIndices);
+          const newUnderLoad = nextAssignment.loads[underIdx];
+          const newOverLoad = nextAssignment.loads[overloadedIdx];
+          if (
+            newUnderLoad >= binCapacityPerHour * MIN_NEW_BIN_UTILIZATION &&
+            newOverLoad <= assignment.loads[overloadedIdx]
+          ) {
+            assignment = nextAssignment;
+            notes.push(
+              `Relocated bin ${underIdx + 1} toward overloaded bin ${overloadedIdx + 1} to balance demand.`
+            );
+            return true;
+          }
+        }
+        selectedIndices[underIdx] = originalSampleIdx;
+      }
+    }
+    return false;
+  };
+
+  if (selectedIndices.length > 0) {
+    let safety = 0;
+    while (safety < 10) {
+      safety += 1;
+      const overloadedIndices = assignment.loads
+        .map((load, idx) =>
+          load > binCapacityPerHour * OVERLOAD_THRESHOLD + 1e-6 ? idx : -1
+        )
+        .filter((idx) => idx !== -1);
+      if (overloadedIndices.length === 0) break;
+      let handled = false;
+      if (extraCapacity > 0) {
+        for (const overloadedIdx of overloadedIndices) {
+          if (tryAddPartner(overloadedIdx)) {
+            handled = true;
+            break;
+          }
+        }
+        if (handled) continue;
+      }
+      const underutilizedIndices = assignment.loads
+        .map((load, idx) =>
+          load > 0 && load < binCapacityPerHour * targetUtilization ? idx : -1
+        )
+        .filter((idx) => idx !== -1);
+      if (underutilizedIndices.length > 0 && tryRelocateUnderutilized(overloadedIndices, underutilizedIndices)) {
+        handled = true;
+      }
+      if (!handled) {
+        overloadedIndices.forEach((idx) => {
+          if (!unmatchedOverloads.includes(idx)) {
+            unmatchedOverloads.push(idx);
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  const binStream = planningParams.binStream ?? "single";
+  const binIds = selectedIndices.map((_, binIdx) => `auto-bin-${seed}-${binIdx + 1}`);
+  // A bin already on the map under the same id (a replayed run) keeps the stream set on it.
+  const binStreams = binIds.map((id) => reportBinStream(nodes, id, binStream));
+  const streamEvaluation = evaluateStreams(
+    samples,
+    assignment.assignments,
+    selectedIndices.map((sampleIdx) => samples[sampleIdx].point),
+    binStreams,
+    assignment.loads.map((load) => (load <= 0 ? 0 : Math.min(1, binCapacityPerHour / load))),
+    metersToPixels(STREAM_DETOUR_TOLERANCE_M)
+  );
+
+  const timelineEvaluation =
+    options.timeline && options.timeline.intervals.length > 0 && samples.length > 0
+      ? evaluateTimeline(
+        options.timeline,
+        samples,
+        assignment.assignments,
+        selectedIndices.length,
+        vendors.map((vendor) => vendor.id),
+        vendorTotals.map((total) => (total === 0 ? 0 : wastePerVendor / total)),
+        attendeeWastePerSample
+      )
+      : null;
+
+  const binWalks = selectedIndices.map((sampleIdx) => walkingDistancesFrom(walkwayGraph, samples[sampleIdx].point));
+  const recommendedBins: RecommendedBin[] = selectedIndices.map((sampleIdx, binIdx) => {
+    const sample = samples[sampleIdx];
+    const walkFrom = binWalks[binIdx];
+    const loadUnits = assignment.loads[binIdx] ?? 0;
+    const capturedUnits = Math.min(loadUnits, binCapacityPerHour);
+    return {
+      id: binIds[binIdx],
+      label: `Bin ${binIdx + 1}`,
+      capacity: binCapacityPerHour,
+      averageDistanceToVendors: computeAverageDistanceToVendors(walkFrom, vendors),
+      nearestEntryDistance: computeNearestEntryDistance(walkFrom, entries),
+      walkwayDistance: computeClosestWalkwayDistance(sample.point, paths),
+      capturePerHour: capturedUnits,
+      utilization: loadUnits / binCapacityPerHour,
+      position: { x: sample.point.x, y: sample.point.y },
+      source: "auto",
+      stream: binStreams[binIdx],
+      contaminationRisk: streamEvaluation.binContamination[binIdx] ?? 0,
+      missingStreams: streamEvaluation.binMissingStreams[binIdx] ?? [],
+      peakOverflowPerHour: 0,
+      fillTimeline: [],
+      loadTimeline: timelineEvaluation?.binLoads[binIdx] ?? [],
+      emptyEveryMinutes,
+      timeToFullMinutes: null,
+      overflowMinutes: 0,
+      overflowLiters: 0,
+      litterLiters: 0,
+    };
+  });
+
+  const unconnectedVendors = vendors.filter(
+    (vendor) => binWalks.length > 0 && binWalks.every((walkFrom) => !Number.isFinite(walkFrom(vendor)))
+  );
+  if (unconnectedVendors.length > 0) {
+    notes.push(
+      `${unconnectedVendors.map((vendor) => vendor.label || vendor.id).join(", ")} ${unconnectedVendors.length === 1 ? "is" : "are"} not connected to any bin by walkways and ${unconnectedVendors.length === 1 ? "is" : "are"} left out of walking distances.`
+    );
+  }
+
+  recommendedBins.forEach((bin) => {
+    if (bin.contaminationRisk < CONTAMINATION_NOTE_THRESHOLD) return;
+    const missing = bin.missingStreams.map((stream) => WASTE_STREAM_LABELS[stream].toLowerCase()).join(", ");
+    notes.push(
+      `${bin.label} has no ${missing} option nearby; about ${Math.round(bin.contaminationRisk * 100)}% of its load risks contaminating it.`
+    );
+  });
+  if (timelineEvaluation) {
+    const { intervals, peakIntervalIndex } = timelineEvaluation.report;
+    const peak = intervals[peakIntervalIndex];
+    notes.push(
+      `Peak demand is ${peak.wastePerHour.toFixed(1)} L/h during ${peak.phase} at ${formatClockTime(peak.startMinutes)}.`
+    );
+  }
+  if (recommendedBins.length > 0) {
+    const placedStreams = new Set(binStreams);
+    if (!binStreams.some((stream) => BIN_STREAM_OPTIONS[stream].sorted)) {
+      notes.push("Single-stream bins send everything to landfill; use co-located stations to divert recycling, compost and deposit waste.");
+    } else {
+      const setup =
+        placedStreams.size === 1 ? `${BIN_STREAM_OPTIONS[binStreams[0]].label.toLowerCase()} bins` : "mixed bin streams";
+      notes.push(
+        `Estimated diversion rate is ${Math.round(streamEvaluation.diversionRate * 100)}% of generated waste with ${setup}.`
+      );
+    }
+  }
+
+  unmatchedOverloads.forEach((idx) => {
+    const overload = (assignment.loads[idx] ?? 0) / binCapacityPerHour;
+    if (overload > 1) {
+      notes.push(
+        `Bin ${idx + 1} remains overloaded by ${Math.round((overload - 1) * 100)}% because the bin budget is exhausted.`
+      );
+    }
+  });
+
+  if (capacityDrivenBins > planningParams.maxBins) {
+    notes.push(
+      `Current bin budget (${planningParams.maxBins}) is below the ${capacityDrivenBins} bins required to capture all projected waste.`
+    );
+  } else if (selectedIndices.length < capacityDrivenBins) {
+    notes.push(
+      `Only ${selectedIndices.length} bins meet the 50% utilization rule; ${capacityDrivenBins} bins would cover the full demand.`
+    );
+  }
+
+  const totalCapturedUnits = assignment.loads.reduce(
+    (sum, load) => sum + Math.min(load, binCapacityPerHour),
+    0
+  );
+  const estimatedCapturePerHour = totalCapturedUnits;
+  const captureRate =
+    totalWasteUnits === 0 ? 0 : Math.min(1, estimatedCapturePerHour / totalWasteUnits);
+  const averageUtilization =
+    assignment.loads.length === 0
+      ? 0
+      : assignment.loads.reduce((sum, load) => sum + Math.min(load / binCapacityPerHour, 1), 0) /
+      assignment.loads.length;
+  const totalCost = recommendedBins.length * planningParams.costPerBin;
+
+  const report = evaluateBinService(
+    {
+      totalVendors: vendors.length,
+      totalEntries: entries.length,
+      totalBinsAvailable: existingBins.length,
+      binsNeeded: recommendedBins.length,
+      maxBinsAllowed: planningParams.maxBins,
+      capacityDrivenBins,
+      totalWastePerHour: totalWasteUnits,
+      vendorWastePerHour,
+      attendeeWastePerHour,
+      estimatedCapturePerHour,
+      captureRate,
+      totalCost,
+      walkwayLength,
+      averageUtilization,
+      targetUtilization,
+      recommendedBins,
+      streams: streamEvaluation.streams,
+      diversionRate: streamEvaluation.diversionRate,
+      streamDemand: samples.flatMap((sample, sampleIdx) =>
+        sample.wasteUnits > 0
+          ? [{ point: sample.point, binIndex: assignment.assignments[sampleIdx], streamWaste: sample.streamWaste }]
+          : []
+      ),
+      timeline: timelineEvaluation?.report ?? null,
+      walkwayFlows,
+      notes,
+      seed,
+    },
+    { binCapacityLiters: planningParams.binCapacity, defaultEmptyEveryMinutes: emptyEveryMinutes, crews: [], nodes: [] }
+  );
+
+  const overflowingBins = report.recommendedBins.filter((bin) => bin.overflowLiters > 0);
+  if (overflowingBins.length > 0) {
+    report.notes.push(
+      `${overflowingBins.map((bin) => bin.label).join(", ")} overflow on the default ${emptyEveryMinutes} min emptying round (${report.overflowIncidents.length} incidents, ${report.overflowLiters.toFixed(1)} L in total, about ${report.litterLiters.toFixed(1)} L of it littered).`
+    );
+  }
+
+  return report;
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { osmToLayout, parseOsmXml } from "@/utils/osmImport";
+import { parseOsmPbf } from "@/utils/osmPbf";
+import { pixelsPerMeter } from "@/utils/mapScale";
+import { fitGeoreference } from "@/utils/georeference";
+
+// A 0.001° square near the equator, about 111 m a side.
+const OSM_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6" generator="test">
+  <bounds minlat="0" minlon="0" maxlat="0.001" maxlon="0.001"/>
+  <node id="1" lat="0.0005" lon="0"/>
+  <node id="2" lat="0.0005" lon="0.001"/>
+  <node id="3" lat="0.0008" lon="0.0002"/>
+  <node id="4" lat="0.0008" lon="0.0004"/>
+  <node id="5" lat="0.0006" lon="0.0004"/>
+  <node id="6" lat="0.0006" lon="0.0002"/>
+  <node id="7" lat="0.0002" lon="0.0005">
+    <tag k="amenity" v="waste_basket"/>
+  </node>
+  <node id="8" lat="0.0003" lon="0.0006">
+    <tag k="amenity" v="cafe"/>
+    <tag k="name" v="Joe &amp; Co"/>
+  </node>
+  <node id="9" lat="0.002" lon="0.002">
+    <tag k="amenity" v="recycling"/>
+  </node>
+  <way id="10">
+    <nd ref="1"/><nd ref="2"/>
+    <tag k="highway" v="footway"/>
+    <tag k="width" v="4"/>
+  </way>
+  <way id="11">
+    <nd ref="3"/><nd ref="4"/><nd ref="5"/><nd ref="6"/><nd ref="3"/>
+    <tag k="building" v="yes"/>
+    <tag k="amenity" v="fast_food"/>
+  </way>
+  <way id="12">
+    <nd ref="1"/><nd ref="2"/>
+    <tag k="highway" v="primary"/>
+  </way>
+</osm>`;
+
+const mapSize = { width: 500, height: 250 };
+
+// Protobuf encoding helpers for a hand-built PBF extract.
+const varint = (value: number) => {
+  const bytes: number[] = [];
+  while (value >= 128) {
+    bytes.push((value % 128) | 128);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+};
+const zigzag = (value: number) => (value < 0 ? -2 * value - 1 : 2 * value);
+const field = (number: number, value: number) => [...varint(number * 8), ...varint(value)];
+const bytesField = (number: number, bytes: number[]) => [...varint(number * 8 + 2), ...varint(bytes.length), ...bytes];
+const packed = (number: number, values: number[]) => bytesField(number, values.flatMap(varint));
+const text = (value: string) => [...new TextEncoder().encode(value)];
+
+const blob = (type: string, block: number[]) => {
+  const body = bytesField(1, block);
+  const header = [...bytesField(1, text(type)), ...field(3, body.length)];
+  return [...[0, 0, 0, header.length], ...header, ...body];
+};
+
+const buildPbf = () => {
+  const strings = ["", "highway", "footway", "amenity", "waste_basket"].map((value) => bytesField(1, text(value)));
+  // Granularity 100 nanodegrees: 5000 units = 0.0005°.
+  const dense = [
+    ...packed(1, [1, 1, 1].map(zigzag)),
+    ...packed(8, [5000, 0, -3000].map(zigzag)),
+    ...packed(9, [0, 10000, -5000].map(zigzag)),
+    ...packed(10, [0, 0, 3, 4, 0]),
+  ];
+  const way = [...field(1, 10), ...packed(2, [1]), ...packed(3, [2]), ...packed(8, [1, 1].map(zigzag))];
+  const block = [
+    ...bytesField(1, strings.flat()),
+    ...bytesField(2, bytesField(2, dense)),
+    ...bytesField(2, bytesField(3, way)),
+  ];
+  const bbox = [...field(1, zigzag(0)), ...field(2, zigzag(1e6)), ...field(3, zigzag(1e6)), ...field(4, zigzag(0))];
+  return new Uint8Array([...blob("OSMHeader", bytesField(1, bbox)), ...blob("OSMData", block)]);
+};
+
+describe("osmImport", () => {
+  it("reads nodes, ways, tags and bounds from OSM XML", () => {
+    const data = parseOsmXml(OSM_XML);
+    expect(data.bounds).toEqual({ minLat: 0, minLon: 0, maxLat: 0.001, maxLon: 0.001 });
+    expect(data.nodes.size).toBe(9);
+    expect(data.nodes.get(8)?.tags).toEqual({ amenity: "cafe", name: "Joe & Co" });
+    expect(data.ways.map((way) => way.refs.length)).toEqual([2, 5, 2]);
+    expect(() => parseOsmXml("<html></html>")).toThrow("OpenStreetMap");
+  });
+
+  it("fits the bounding area onto the map and converts features", () => {
+    const layout = osmToLayout(parseOsmXml(OSM_XML), mapSize, "venue.osm");
+
+    // The area fills the map's height and is centred horizontally; a degree
+    // of longitude is slightly longer than one of latitude.
+    expect(layout.paths).toEqual([
+      {
+        id: "osm-way-10",
+        points: [{ x: 124.1, y: 125 }, { x: 375.9, y: 125 }],
+        type: "walkway",
+        label: "Walkway 1",
+        capacity: 100,
+      },
+    ]);
+    expect(layout.nodes.map(({ id, type, stream, menuType, label }) => ({ id, type, stream, menuType, label }))).toEqual([
+      { id: "osm-node-7", type: "bin", stream: "single", menuType: undefined, label: "Bin 1" },
+      { id: "osm-node-8", type: "vendor", stream: undefined, menuType: "coffee", label: "Joe & Co" },
+      { id: "osm-way-11", type: "vendor", stream: undefined, menuType: "fast-food", label: "Vendor 2" },
+    ]);
+    expect(layout.obstacles).toEqual([{ material: "wall", polygon: expect.any(Array), outline: false }]);
+    expect(layout.baseLayer.shapes.map((shape) => shape.kind)).toEqual(["footway", "building"]);
+    expect(pixelsPerMeter(layout.scale)).toBeCloseTo(250 / 110.54, 2);
+  });
+
+  it("limits the import to a chosen bounding area", () => {
+    const layout = osmToLayout(parseOsmXml(OSM_XML), mapSize, "venue.osm", {
+      minLat: 0,
+      minLon: 0.0005,
+      maxLat: 0.0005,
+      maxLon: 0.001,
+    });
+    expect(layout.nodes.map((node) => node.id)).toEqual(["osm-node-7", "osm-node-8"]);
+    expect(layout.paths).toHaveLength(1);
+    expect(layout.baseLayer.shapes).toHaveLength(1);
+  });
+
+  it("places features through the map's georeference", () => {
+    // 1 px per 0.00001° in both directions, north up.
+    const georeference = fitGeoreference(
+      [
+        { image: { x: 0, y: 0 }, lat: 0.001, lon: 0 },
+        { image: { x: 100, y: 0 }, lat: 0.001, lon: 0.001 },
+        { image: { x: 0, y: 100 }, lat: 0, lon: 0 },
+      ],
+      "affine"
+    );
+    const layout = osmToLayout(parseOsmXml(OSM_XML), mapSize, "venue.osm", null, georeference);
+    expect(layout.paths[0].points).toEqual([{ x: 0, y: 50 }, { x: 100, y: 50 }]);
+    expect(layout.nodes[0]).toMatchObject({ id: "osm-node-7", x: 50, y: 80 });
+    expect(layout.scale).toBeNull();
+  });
+
+  it("reads dense nodes and ways from PBF", async () => {
+    const data = await parseOsmPbf(buildPbf());
+    expect(data.bounds).toEqual({ minLat: 0, minLon: 0, maxLat: 0.001, maxLon: 0.001 });
+    expect([...data.nodes.values()]).toEqual([
+      { id: 1, lat: 0.0005, lon: 0, tags: {} },
+      { id: 2, lat: 0.0005, lon: 0.001, tags: {} },
+      { id: 3, lat: expect.closeTo(0.0002, 9), lon: 0.0005, tags: { amenity: "waste_basket" } },
+    ]);
+    expect(data.ways).toEqual([{ id: 10, refs: [1, 2], tags: { highway: "footway" } }]);
+
+    const layout = osmToLayout(data, mapSize, "venue.pbf");
+    expect(layout.paths).toHaveLength(1);
+    expect(layout.nodes[0]).toMatchObject({ type: "bin", stream: "single" });
+  });
+});
@@ -0,0 +1,338 @@
+// Turns an OpenStreetMap extract (XML or PBF) into a base layout: footways
+// become walkways, pedestrian areas walkable cells, buildings and barriers
+// walls, and bins, food vendors and entrances typed nodes. On a georeferenced
+// map features land where they are; otherwise the bounding area is fitted onto
+// the map with a local flat projection, which also yields the map scale.
+// Everything but loadOsmFile is pure.
+
+import type {
+  BaseLayer,
+  BaseLayerKind,
+  BaseLayerShape,
+  BinStream,
+  Georeference,
+  MapScale,
+  MenuType,
+  Node,
+  Path,
+  Point,
+} from "@/utils/mapTypes";
+import type { ImportedLayout, ImportedObstacle } from "@/utils/layoutGeoJson";
+import { parseOsmPbf } from "@/utils/osmPbf";
+import { METERS_PER_DEGREE_LAT, METERS_PER_DEGREE_LON, geoToImage } from "@/utils/georeference";
+
+export interface OsmNode {
+  id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+}
+
+export interface OsmWay {
+  id: number;
+  refs: number[];
+  tags: Record<string, string>;
+}
+
+export interface GeoBounds {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+export interface OsmData {
+  nodes: Map<number, OsmNode>;
+  ways: OsmWay[];
+  // From the file's header, when it has one.
+  bounds: GeoBounds | null;
+}
+
+export interface OsmLayout extends ImportedLayout {
+  baseLayer: BaseLayer;
+  // Reference line along the bottom of the imported area; null when the map
+  // is georeferenced, which already fixes the scale.
+  scale: MapScale | null;
+}
+
+const DEFAULT_WALKWAY_CAPACITY = 50;
+// People per minute per meter of tagged walkway width.
+const WALKWAY_CAPACITY_PER_METER = 25;
+
+const FOOTWAY_HIGHWAYS = new Set(["footway", "pedestrian", "path", "steps", "corridor", "living_street"]);
+// Barriers people walk through rather than around.
+const PASSABLE_BARRIERS = new Set([
+  "gate",
+  "entrance",
+  "bollard",
+  "lift_gate",
+  "kerb",
+  "turnstile",
+  "stile",
+  "swing_gate",
+  "kissing_gate",
+  "cattle_grid",
+]);
+
+const VENDOR_AMENITIES: Record<string, MenuType> = {
+  fast_food: "fast-food",
+  cafe: "coffee",
+  ice_cream: "snacks",
+  bar: "beverages",
+  pub: "beverages",
+  biergarten: "beverages",
+  restaurant: "general",
+  food_court: "general",
+};
+
+const VENDOR_SHOPS: Record<string, MenuType> = {
+  kiosk: "snacks",
+  convenience: "snacks",
+  bakery: "snacks",
+  confectionery: "snacks",
+  beverages: "beverages",
+};
+
+const BIN_AMENITIES: Record<string, BinStream> = {
+  waste_basket: "single",
+  recycling: "recycling",
+  waste_disposal: "landfill",
+};
+
+const NODE_LABELS: Record<Node["type"], string> = {
+  vendor: "Vendor",
+  "entry-exit": "Entry/Exit",
+  bin: "Bin",
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower]!;
+  });
+
+const ELEMENT_PATTERN = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const readAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+/** Reads the nodes, ways and bounds of an OSM XML document. */
+export const parseOsmXml = (text: string): OsmData => {
+  const data: OsmData = { nodes: new Map(), ways: [], bounds: null };
+  let sawRoot = false;
+  let current: OsmNode | OsmWay | null = null;
+
+  for (const [, closing, name, attributeSource, selfClosing] of text.matchAll(ELEMENT_PATTERN)) {
+    if (closing) {
+      if ((name === "node" || name === "way") && current) {
+        if ("refs" in current) data.ways.push(current);
+        else data.nodes.set(current.id, current);
+        current = null;
+      }
+      continue;
+    }
+    const attributes = readAttributes(attributeSource);
+    if (name === "osm") {
+      sawRoot = true;
+    } else if (name === "bounds") {
+      data.bounds = {
+        minLat: Number(attributes.minlat),
+        minLon: Number(attributes.minlon),
+        maxLat: Number(attributes.maxlat),
+        maxLon: Number(attributes.maxlon),
+      };
+    } else if (name === "node") {
+      const node: OsmNode = {
+        id: Number(attributes.id),
+        lat: Number(attributes.lat),
+        lon: Number(attributes.lon),
+        tags: {},
+      };
+      if (selfClosing) data.nodes.set(node.id, node);
+      else current = node;
+    } else if (name === "way") {
+      const way: OsmWay = { id: Number(attributes.id), refs: [], tags: {} };
+      if (selfClosing) data.ways.push(way);
+      else current = way;
+    } else if (name === "nd" && current && "refs" in current) {
+      current.refs.push(Number(attributes.ref));
+    } else if (name === "tag" && current && attributes.k !== undefined) {
+      current.tags[attributes.k] = attributes.v ?? "";
+    }
+  }
+
+  if (!sawRoot) throw new Error("The file is not an OpenStreetMap XML extract.");
+  return data;
+};
+
+const extentOf = (nodes: Iterable<OsmNode>): GeoBounds | null => {
+  let bounds: GeoBounds | null = null;
+  for (const { lat, lon } of nodes) {
+    bounds = bounds
+      ? {
+        minLat: Math.min(bounds.minLat, lat),
+        minLon: Math.min(bounds.minLon, lon),
+        maxLat: Math.max(bounds.maxLat, lat),
+        maxLon: Math.max(bounds.maxLon, lon),
+      }
+      : { minLat: lat, minLon: lon, maxLat: lat, maxLon: lon };
+  }
+  return bounds;
+};
+
+const classifyWay = (tags: Record<string, string>, closed: boolean): BaseLayerKind | null => {
+  if (closed && tags.building && tags.building !== "no") return "building";
+  if (tags.barrier && !PASSABLE_BARRIERS.has(tags.barrier)) return "barrier";
+  const pedestrianArea =
+    tags["area:highway"] === "pedestrian" ||
+    tags["area:highway"] === "footway" ||
+    tags.place === "square" ||
+    ((tags.highway === "pedestrian" || tags.highway === "footway") && tags.area === "yes");
+  if (closed && pedestrianArea) return "pedestrian-area";
+  if (FOOTWAY_HIGHWAYS.has(tags.highway) && tags.area !== "yes") return "footway";
+  return null;
+};
+
+type PointOfInterest = Pick<Node, "type" | "stream" | "menuType">;
+
+const classifyPointOfInterest = (tags: Record<string, string>): PointOfInterest | null => {
+  if (BIN_AMENITIES[tags.amenity]) return { type: "bin", stream: BIN_AMENITIES[tags.amenity] };
+  if (VENDOR_AMENITIES[tags.amenity]) return { type: "vendor", menuType: VENDOR_AMENITIES[tags.amenity] };
+  if (tags.amenity === "vending_machine") {
+    return { type: "vendor", menuType: /drink|coffee/.test(tags.vending ?? "") ? "beverages" : "snacks" };
+  }
+  if (VENDOR_SHOPS[tags.shop]) return { type: "vendor", menuType: VENDOR_SHOPS[tags.shop] };
+  if (tags.entrance && tags.entrance !== "no") return { type: "entry-exit" };
+  return null;
+};
+
+const walkwayCapacity = (tags: Record<string, string>) => {
+  const width = parseFloat(tags.width ?? "");
+  return Number.isFinite(width) && width > 0
+    ? Math.round(width * WALKWAY_CAPACITY_PER_METER)
+    : DEFAULT_WALKWAY_CAPACITY;
+};
+
+const roundPoint = ({ x, y }: Point): Point => ({ x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 });
+
+/**
+ * Converts what lies in `bounds` (the file's bounds or its extent when
+ * omitted). With a georeference features are placed through it; without one
+ * the area is fitted onto a map of `mapSize` pixels, centred with the aspect
+ * kept. Ways crossing the edge are kept and clamped to the map.
+ */
+export const osmToLayout = (
+  data: OsmData,
+  mapSize: { width: number; height: number },
+  name: string,
+  bounds: GeoBounds | null = null,
+  georeference: Georeference | null = null
+): OsmLayout => {
+  const area = bounds ?? data.bounds ?? extentOf(data.nodes.values());
+  if (!area) throw new Error("The extract has no nodes.");
+  const midLat = ((area.minLat + area.maxLat) / 2) * (Math.PI / 180);
+  const widthMeters = (area.maxLon - area.minLon) * Math.cos(midLat) * METERS_PER_DEGREE_LON;
+  const heightMeters = (area.maxLat - area.minLat) * METERS_PER_DEGREE_LAT;
+  if (!(widthMeters > 0) || !(heightMeters > 0)) throw new Error("The bounding area is empty.");
+
+  const pixelsPerMeter = Math.min(mapSize.width / widthMeters, mapSize.height / heightMeters);
+  const offsetX = (mapSize.width - widthMeters * pixelsPerMeter) / 2;
+  const offsetY = (mapSize.height - heightMeters * pixelsPerMeter) / 2;
+  const place = ({ lat, lon }: OsmNode): Point =>
+    georeference
+      ? geoToImage(georeference, { lat, lon })
+      : {
+        x: offsetX + (lon - area.minLon) * Math.cos(midLat) * METERS_PER_DEGREE_LON * pixelsPerMeter,
+        y: offsetY + (area.maxLat - lat) * METERS_PER_DEGREE_LAT * pixelsPerMeter,
+      };
+  const project = (node: OsmNode): Point => {
+    const { x, y } = place(node);
+    return roundPoint({
+      x: Math.min(mapSize.width, Math.max(0, x)),
+      y: Math.min(mapSize.height, Math.max(0, y)),
+    });
+  };
+  const isInside = ({ lat, lon }: OsmNode) =>
+    lat >= area.minLat && lat <= area.maxLat && lon >= area.minLon && lon <= area.maxLon;
+
+  const nodes: Node[] = [];
+  const paths: Path[] = [];
+  const shapes: BaseLayerShape[] = [];
+  const areas: ImportedObstacle[] = [];
+  const walls: ImportedObstacle[] = [];
+
+  const addPointOfInterest = (id: string, tags: Record<string, string>, position: Point) => {
+    const poi = classifyPointOfInterest(tags);
+    if (!poi) return;
+    const sameType = nodes.filter((node) => node.type === poi.type).length;
+    const node: Node = { id, ...position, type: poi.type, label: tags.name ?? `${NODE_LABELS[poi.type]} ${sameType + 1}` };
+    if (poi.stream) node.stream = poi.stream;
+    if (poi.menuType) node.menuType = poi.menuType;
+    nodes.push(node);
+  };
+
+  data.nodes.forEach((node) => {
+    if (isInside(node)) addPointOfInterest(`osm-node-${node.id}`, node.tags, project(node));
+  });
+
+  data.ways.forEach((way) => {
+    const wayNodes = way.refs.map((ref) => data.nodes.get(ref)).filter((node): node is OsmNode => !!node);
+    if (wayNodes.length < 2 || !wayNodes.some(isInside)) return;
+    const points = wayNodes.map(project);
+    const closed = way.refs.length >= 4 && way.refs[0] === way.refs[way.refs.length - 1];
+
+    if (closed) {
+      const centroid = roundPoint({
+        x: points.slice(1).reduce((sum, point) => sum + point.x, 0) / (points.length - 1),
+        y: points.slice(1).reduce((sum, point) => sum + point.y, 0) / (points.length - 1),
+      });
+      addPointOfInterest(`osm-way-${way.id}`, way.tags, centroid);
+    }
+
+    const kind = classifyWay(way.tags, closed);
+    if (!kind) return;
+    shapes.push({ kind, points, closed });
+    if (kind === "footway") {
+      paths.push({
+        id: `osm-way-${way.id}`,
+        points,
+        type: "walkway",
+        label: way.tags.name ?? `Walkway ${paths.length + 1}`,
+        capacity: walkwayCapacity(way.tags),
+      });
+    } else if (kind === "pedestrian-area") {
+      areas.push({ material: "walkable", polygon: points });
+    } else {
+      walls.push({ material: "wall", polygon: points, outline: kind === "barrier" });
+    }
+  });
+
+  const bottom = offsetY + heightMeters * pixelsPerMeter;
+  return {
+    nodes,
+    paths,
+    // Walls painted last so buildings inside plazas stay blocked.
+    obstacles: [...areas, ...walls],
+    errors: [],
+    baseLayer: { name, shapes },
+    scale: georeference
+      ? null
+      : {
+        start: roundPoint({ x: offsetX, y: bottom }),
+        end: roundPoint({ x: offsetX + widthMeters * pixelsPerMeter, y: bottom }),
+        meters: Math.round(widthMeters * 10) / 10,
+      },
+  };
+};
+
+/** Reads an .osm/.xml or .pbf extract chosen by the user. */
+export const loadOsmFile = async (file: File): Promise<OsmData> =>
+  /\.pbf$/i.test(file.name) ? parseOsmPbf(await file.arrayBuffer()) : parseOsmXml(await file.text());
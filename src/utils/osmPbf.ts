@@ -0,0 +1,244 @@
+// Reads OpenStreetMap PBF extracts: a sequence of length-prefixed blobs, each
+// an optionally zlib-compressed HeaderBlock or PrimitiveBlock in protobuf wire
+// format. Only what the venue import needs is decoded (nodes, dense nodes,
+// ways, tags and the header bounding box); relations and metadata are skipped.
+
+import type { GeoBounds, OsmData, OsmNode, OsmWay } from "@/utils/osmImport";
+
+interface WireReader {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+// Nanodegrees in the header bounding box.
+const NANO = 1e-9;
+
+const textDecoder = new TextDecoder();
+
+// Varints are summed in floating point: OSM ids and offsets fit in 53 bits.
+const readVarint = (reader: WireReader) => {
+  let result = 0;
+  let multiplier = 1;
+  for (;;) {
+    if (reader.pos >= reader.bytes.length) throw new Error("The PBF file ends in the middle of a value.");
+    const byte = reader.bytes[reader.pos++];
+    result += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) return result;
+    multiplier *= 128;
+  }
+};
+
+// Negative int64 values arrive as ten-byte two's complement.
+const toSigned = (value: number) => (value >= 2 ** 63 ? value - 2 ** 64 : value);
+
+const zigzag = (value: number) => (value % 2 === 1 ? -(value + 1) / 2 : value / 2);
+
+const readBytes = (reader: WireReader) => {
+  const length = readVarint(reader);
+  const end = reader.pos + length;
+  if (end > reader.bytes.length) throw new Error("The PBF file is truncated.");
+  const bytes = reader.bytes.subarray(reader.pos, end);
+  reader.pos = end;
+  return bytes;
+};
+
+const skipField = (reader: WireReader, wireType: number) => {
+  if (wireType === WIRE_VARINT) readVarint(reader);
+  else if (wireType === WIRE_FIXED64) reader.pos += 8;
+  else if (wireType === WIRE_BYTES) readBytes(reader);
+  else if (wireType === WIRE_FIXED32) reader.pos += 4;
+  else throw new Error(`Unsupported protobuf wire type ${wireType}.`);
+};
+
+/**
+ * Calls `onField` for each field of a message; it returns false for fields it
+ * does not read so they are skipped.
+ */
+const readMessage = (bytes: Uint8Array, onField: (field: number, reader: WireReader) => boolean) => {
+  const reader: WireReader = { bytes, pos: 0 };
+  while (reader.pos < bytes.length) {
+    const key = readVarint(reader);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (!onField(field, reader)) skipField(reader, wireType);
+  }
+};
+
+const readPacked = (reader: WireReader) => {
+  const packed: WireReader = { bytes: readBytes(reader), pos: 0 };
+  const values: number[] = [];
+  while (packed.pos < packed.bytes.length) values.push(readVarint(packed));
+  return values;
+};
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readBlob = async (bytes: Uint8Array) => {
+  let raw: Uint8Array | null = null;
+  let zlib: Uint8Array | null = null;
+  readMessage(bytes, (field, reader) => {
+    if (field === 1) raw = readBytes(reader);
+    else if (field === 3) zlib = readBytes(reader);
+    else return false;
+    return true;
+  });
+  if (raw) return raw as Uint8Array;
+  if (zlib) return inflate(zlib);
+  throw new Error("The PBF file uses a compression other than zlib.");
+};
+
+const readHeaderBounds = (block: Uint8Array): GeoBounds | null => {
+  let bounds: GeoBounds | null = null;
+  readMessage(block, (field, reader) => {
+    if (field !== 1) return false;
+    const box = { left: 0, right: 0, top: 0, bottom: 0 };
+    readMessage(readBytes(reader), (boxField, boxReader) => {
+      const value = zigzag(readVarint(boxReader)) * NANO;
+      if (boxField === 1) box.left = value;
+      else if (boxField === 2) box.right = value;
+      else if (boxField === 3) box.top = value;
+      else if (boxField === 4) box.bottom = value;
+      return true;
+    });
+    bounds = { minLat: box.bottom, maxLat: box.top, minLon: box.left, maxLon: box.right };
+    return true;
+  });
+  return bounds;
+};
+
+const tagsFrom = (keys: number[], values: number[], strings: string[]) => {
+  const tags: Record<string, string> = {};
+  keys.forEach((key, idx) => {
+    tags[strings[key]] = strings[values[idx]];
+  });
+  return tags;
+};
+
+const readPrimitiveBlock = (block: Uint8Array, data: OsmData) => {
+  const strings: string[] = [];
+  const groups: Uint8Array[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+  readMessage(block, (field, reader) => {
+    if (field === 1) {
+      readMessage(readBytes(reader), (stringField, stringReader) => {
+        if (stringField !== 1) return false;
+        strings.push(textDecoder.decode(readBytes(stringReader)));
+        return true;
+      });
+    } else if (field === 2) groups.push(readBytes(reader));
+    else if (field === 17) granularity = readVarint(reader);
+    else if (field === 19) latOffset = toSigned(readVarint(reader));
+    else if (field === 20) lonOffset = toSigned(readVarint(reader));
+    else return false;
+    return true;
+  });
+
+  const toDegrees = (offset: number, value: number) => (offset + granularity * value) * NANO;
+  const addNode = (node: OsmNode) => data.nodes.set(node.id, node);
+
+  groups.forEach((group) =>
+    readMessage(group, (field, reader) => {
+      if (field === 1) {
+        const node: OsmNode = { id: 0, lat: 0, lon: 0, tags: {} };
+        let keys: number[] = [];
+        let values: number[] = [];
+        readMessage(readBytes(reader), (nodeField, nodeReader) => {
+          if (nodeField === 1) node.id = zigzag(readVarint(nodeReader));
+          else if (nodeField === 2) keys = readPacked(nodeReader);
+          else if (nodeField === 3) values = readPacked(nodeReader);
+          else if (nodeField === 8) node.lat = toDegrees(latOffset, zigzag(readVarint(nodeReader)));
+          else if (nodeField === 9) node.lon = toDegrees(lonOffset, zigzag(readVarint(nodeReader)));
+          else return false;
+          return true;
+        });
+        node.tags = tagsFrom(keys, values, strings);
+        addNode(node);
+      } else if (field === 2) {
+        let ids: number[] = [];
+        let lats: number[] = [];
+        let lons: number[] = [];
+        let keysVals: number[] = [];
+        readMessage(readBytes(reader), (denseField, denseReader) => {
+          if (denseField === 1) ids = readPacked(denseReader);
+          else if (denseField === 8) lats = readPacked(denseReader);
+          else if (denseField === 9) lons = readPacked(denseReader);
+          else if (denseField === 10) keysVals = readPacked(denseReader);
+          else return false;
+          return true;
+        });
+        // Ids and coordinates are delta coded; tags are key/value string
+        // indexes with a 0 closing each node.
+        let id = 0;
+        let lat = 0;
+        let lon = 0;
+        let tagPos = 0;
+        ids.forEach((delta, idx) => {
+          id += zigzag(delta);
+          lat += zigzag(lats[idx]);
+          lon += zigzag(lons[idx]);
+          const tags: Record<string, string> = {};
+          while (tagPos < keysVals.length && keysVals[tagPos] !== 0) {
+            tags[strings[keysVals[tagPos]]] = strings[keysVals[tagPos + 1]];
+            tagPos += 2;
+          }
+          tagPos++;
+          addNode({ id, lat: toDegrees(latOffset, lat), lon: toDegrees(lonOffset, lon), tags });
+        });
+      } else if (field === 3) {
+        const way: OsmWay = { id: 0, refs: [], tags: {} };
+        let keys: number[] = [];
+        let values: number[] = [];
+        readMessage(readBytes(reader), (wayField, wayReader) => {
+          if (wayField === 1) way.id = readVarint(wayReader);
+          else if (wayField === 2) keys = readPacked(wayReader);
+          else if (wayField === 3) values = readPacked(wayReader);
+          else if (wayField === 8) {
+            let ref = 0;
+            way.refs = readPacked(wayReader).map((delta) => (ref += zigzag(delta)));
+          } else return false;
+          return true;
+        });
+        way.tags = tagsFrom(keys, values, strings);
+        data.ways.push(way);
+      } else return false;
+      return true;
+    })
+  );
+};
+
+export const parseOsmPbf = async (buffer: ArrayBuffer | Uint8Array): Promise<OsmData> => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data: OsmData = { nodes: new Map(), ways: [], bounds: null };
+  let pos = 0;
+  while (pos < bytes.length) {
+    if (pos + 4 > bytes.length) throw new Error("The PBF file is truncated.");
+    const headerLength = view.getUint32(pos);
+    pos += 4;
+    let type = "";
+    let dataSize = 0;
+    readMessage(bytes.subarray(pos, pos + headerLength), (field, reader) => {
+      if (field === 1) type = textDecoder.decode(readBytes(reader));
+      else if (field === 3) dataSize = readVarint(reader);
+      else return false;
+      return true;
+    });
+    pos += headerLength;
+    if (pos + dataSize > bytes.length) throw new Error("The PBF file is truncated.");
+    const block = await readBlob(bytes.subarray(pos, pos + dataSize));
+    pos += dataSize;
+    if (type === "OSMHeader") data.bounds = readHeaderBounds(block);
+    else if (type === "OSMData") readPrimitiveBlock(block, data);
+  }
+  return data;
+};
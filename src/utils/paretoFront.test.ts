@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SWEEP_BINS, markDominated, sweepBinBudgets } from "@/utils/paretoFront";
+import { DEFAULT_PLANNING_PARAMS, type MapState, type OptimizationReport } from "@/utils/mapTypes";
+
+const concourse: MapState = {
+  nodes: [
+    { id: "v1", x: 100, y: 10, type: "vendor", label: "v1" },
+    { id: "v2", x: 600, y: 10, type: "vendor", label: "v2" },
+    { id: "e1", x: 0, y: 0, type: "entry-exit", label: "e1" },
+  ],
+  paths: [{ id: "w1", type: "walkway", label: "w1", capacity: 50, points: [{ x: 0, y: 0 }, { x: 800, y: 0 }] }],
+  obstacles: null,
+};
+
+const point = (binCount: number, captureRate: number, averageWalkingDistance: number) => ({
+  binCount,
+  totalCost: binCount * 100,
+  captureRate,
+  averageWalkingDistance,
+  report: {} as OptimizationReport,
+});
+
+describe("paretoFront", () => {
+  it("sweeps one layout per bin count past the budget", () => {
+    const points = sweepBinBudgets(concourse, { ...DEFAULT_PLANNING_PARAMS, maxBins: 3 }, { seed: 5 });
+
+    expect(points.map((p) => p.binCount)).toEqual([1, 2, 3, 4, 5]);
+    points.forEach((p) => {
+      expect(p.report.recommendedBins).toHaveLength(p.binCount);
+      expect(p.totalCost).toBe(p.binCount * DEFAULT_PLANNING_PARAMS.costPerBin);
+      expect(p.report.seed).toBe(5);
+    });
+    expect(points[points.length - 1].averageWalkingDistance).toBeLessThanOrEqual(points[0].averageWalkingDistance);
+  });
+
+  it("caps the sweep", () => {
+    const points = sweepBinBudgets(concourse, { ...DEFAULT_PLANNING_PARAMS, maxBins: 30 }, { seed: 5 });
+
+    expect(points).toHaveLength(MAX_SWEEP_BINS);
+  });
+
+  it("marks layouts beaten on every objective as dominated", () => {
+    const marked = markDominated([point(1, 0.5, 100), point(2, 0.8, 60), point(3, 0.8, 70), point(4, 0.9, 40)]);
+
+    expect(marked.map((p) => p.dominated)).toEqual([false, false, true, false]);
+  });
+});
@@ -0,0 +1,104 @@
+// Budget sweep for the report's trade-off chart. Runs the optimizer once per
+// bin count on a shared seed and marks which layouts are Pareto-optimal on
+// cost, capture rate and the walk from each vendor to its nearest bin.
+
+import type {
+  DistanceUnit,
+  EventTimeline,
+  MapScale,
+  MapState,
+  Node,
+  OptimizationReport,
+  PlanningParams,
+  TrafficHeatmap,
+} from "@/utils/mapTypes";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { normalizeSeed, randomSeed } from "@/utils/random";
+import { buildWalkwayGraph, walkingDistancesFrom, type WalkwayGraph } from "@/utils/walkwayGraph";
+
+export interface ParetoPoint {
+  binCount: number;
+  totalCost: number;
+  captureRate: number;
+  averageWalkingDistance: number; // px walked from each vendor to its nearest bin
+  // Another layout is at least as good on every objective and better on one.
+  dominated: boolean;
+  report: OptimizationReport;
+}
+
+export interface BudgetSweepOptions {
+  seed?: number;
+  timeline?: EventTimeline | null;
+  heatmap?: TrafficHeatmap | null;
+  scale?: MapScale | null;
+  distanceUnit?: DistanceUnit;
+}
+
+// Bin counts beyond what capacity or the budget asks for that the sweep still tries.
+const EXTRA_SWEEP_BINS = 2;
+export const MAX_SWEEP_BINS = 12;
+
+// Walk along the walkways from each connected vendor to its nearest bin.
+export const averageWalkToNearestBin = (graph: WalkwayGraph, vendors: Node[], report: OptimizationReport) => {
+  const binWalks = report.recommendedBins.map((bin) => walkingDistancesFrom(graph, bin.position));
+  const walks = vendors
+    .map((vendor) => Math.min(...binWalks.map((walkFrom) => walkFrom(vendor))))
+    .filter((walk) => Number.isFinite(walk));
+  return walks.length === 0 ? 0 : walks.reduce((sum, walk) => sum + walk, 0) / walks.length;
+};
+
+const dominates = (a: ParetoPoint, b: ParetoPoint) =>
+  a.totalCost <= b.totalCost &&
+  a.captureRate >= b.captureRate &&
+  a.averageWalkingDistance <= b.averageWalkingDistance &&
+  (a.totalCost < b.totalCost ||
+    a.captureRate > b.captureRate ||
+    a.averageWalkingDistance < b.averageWalkingDistance);
+
+export const markDominated = (points: Omit<ParetoPoint, "dominated">[]): ParetoPoint[] => {
+  const marked = points.map((point) => ({ ...point, dominated: false }));
+  return marked.map((point) => ({ ...point, dominated: marked.some((other) => dominates(other, point)) }));
+};
+
+/**
+ * Optimizes one layout per bin count from 1 up to a couple past the larger of
+ * the bin budget and the capacity-driven need, capped at MAX_SWEEP_BINS. Bin
+ * counts the walkways cannot fit are dropped.
+ */
+export const sweepBinBudgets = (
+  mapState: MapState,
+  planningParams: PlanningParams,
+  options: BudgetSweepOptions = {}
+): ParetoPoint[] => {
+  const seed = options.seed === undefined ? randomSeed() : normalizeSeed(options.seed);
+  const vendors = mapState.nodes.filter((node) => node.type === "vendor");
+  const graph = buildWalkwayGraph(mapState.paths, options.scale ?? null);
+  const run = (binCount: number) =>
+    optimizeBinPlacement(mapState, { ...planningParams, maxBins: binCount }, {
+      seed,
+      timeline: options.timeline,
+      heatmap: options.heatmap,
+      scale: options.scale,
+      distanceUnit: options.distanceUnit,
+      binCount,
+    });
+
+  const first = run(1);
+  const limit = Math.min(
+    MAX_SWEEP_BINS,
+    Math.max(planningParams.maxBins, first.capacityDrivenBins) + EXTRA_SWEEP_BINS
+  );
+  const points: Omit<ParetoPoint, "dominated">[] = [];
+  for (let binCount = 1; binCount <= limit; binCount++) {
+    const report = binCount === 1 ? first : run(binCount);
+    if (report.recommendedBins.length !== binCount) break;
+    points.push({
+      binCount,
+      totalCost: report.totalCost,
+      captureRate: report.captureRate,
+      averageWalkingDistance: averageWalkToNearestBin(graph, vendors, report),
+      report,
+    });
+  }
+  return markDominated(points);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildPdf, textWidth, wrapText, type PdfImage } from "@/utils/pdfWriter";
+
+const decode = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+describe("pdfWriter", () => {
+  it("writes a cross-reference table that points at every object", () => {
+    const logo: PdfImage = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 2, height: 1 };
+    const image = { type: "image" as const, image: logo, x: 10, y: 10, width: 20, height: 10 };
+    const file = decode(
+      buildPdf(
+        [
+          [image, { type: "text", x: 40, y: 60, text: "Bins (north) \\ 120 L • 5°", size: 10 }],
+          [image, { type: "circle", x: 100, y: 100, radius: 5, fill: [0, 1, 0] }],
+        ],
+        { title: "Plan", createdAt: new Date(Date.UTC(2026, 0, 2, 3, 4, 5)) }
+      )
+    );
+
+    expect(file.startsWith("%PDF-1.4")).toBe(true);
+    expect(file).toContain("/Count 2");
+    expect(file).toContain("/CreationDate (D:20260102030405Z)");
+    // The image is shared by both pages but embedded once.
+    expect(file.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    expect(file).toContain("(Bins \\(north\\) \\\\ 120 L \x95 5\xb0) Tj");
+    // Text sits at 842 - 60 in PDF space.
+    expect(file).toContain("40 782 Td");
+
+    const xref = Number(file.match(/startxref\n(\d+)/)![1]);
+    const offsets = file
+      .slice(xref)
+      .split("\n")
+      .slice(3)
+      .filter((line) => line.endsWith(" n "))
+      .map((line) => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(10);
+    offsets.forEach((offset, idx) => expect(file.slice(offset)).toMatch(new RegExp(`^${idx + 1} 0 obj`)));
+  });
+
+  it("wraps text to the line width, splitting overlong words", () => {
+    const lines = wrapText("Bins near the main gate fill first", 100, 10);
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(textWidth(line, 10)).toBeLessThanOrEqual(100));
+    expect(lines.join(" ")).toBe("Bins near the main gate fill first");
+
+    const split = wrapText("x".repeat(40), 50, 10);
+    expect(split.join("")).toBe("x".repeat(40));
+    split.forEach((line) => expect(textWidth(line, 10)).toBeLessThanOrEqual(50));
+    expect(textWidth("Hi", 10, true)).toBeCloseTo(10 * (0.722 + 0.278));
+  });
+});
@@ -0,0 +1,273 @@
+// Minimal PDF writer for generated handouts: A4 pages of Helvetica text,
+// lines, rectangles, circles and JPEG images. Operations use points from the
+// page's top-left corner; the writer flips them into PDF space. Text is
+// encoded as WinAnsi, so characters outside it print as "?". Pure: no React,
+// no I/O.
+
+import type { Point } from "@/utils/mapTypes";
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// RGB, each 0–1.
+export type PdfColor = [number, number, number];
+
+// Baseline JPEG bytes (RGB) with their pixel size.
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type PdfOperation =
+  | { type: "text"; x: number; y: number; text: string; size: number; bold?: boolean; color?: PdfColor }
+  | { type: "path"; points: Point[]; closed?: boolean; width?: number; stroke?: PdfColor; fill?: PdfColor }
+  | { type: "rect"; x: number; y: number; width: number; height: number; stroke?: PdfColor; fill?: PdfColor }
+  | { type: "circle"; x: number; y: number; radius: number; stroke?: PdfColor; fill?: PdfColor }
+  | { type: "image"; image: PdfImage; x: number; y: number; width: number; height: number };
+
+export type PdfPage = PdfOperation[];
+
+export interface PdfInfo {
+  title: string;
+  createdAt: Date;
+}
+
+// Glyph widths (1/1000 em) for ASCII 32–126, from the standard font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+// Widths outside ASCII are approximated by a digit's.
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi code points that differ from Unicode (the 0x80–0x9F block).
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+
+export const textWidth = (text: string, size: number, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = toWinAnsi(text).reduce(
+    (sum, code) => sum + (code >= 0x20 && code <= 0x7e ? widths[code - 0x20] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+};
+
+/** Breaks text into lines no wider than `maxWidth`; words longer than a line are split. */
+export const wrapText = (text: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (textWidth(candidate, size, bold) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        line = "";
+        let rest = word;
+        while (textWidth(rest, size, bold) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1;
+          while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+          lines.push(rest.slice(0, cut));
+          rest = rest.slice(cut);
+        }
+        line = rest;
+      });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const escapeText = (text: string) =>
+  toWinAnsi(text)
+    .map((code) => {
+      const char = String.fromCharCode(code);
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+      return char;
+    })
+    .join("");
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const color = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+// Strokes and/or fills a shape in its own graphics state.
+const paint = (shape: string, stroke?: PdfColor, fill?: PdfColor) =>
+  [
+    "q",
+    stroke && `${color(stroke)} RG`,
+    fill && `${color(fill)} rg`,
+    shape,
+    stroke && fill ? "B" : fill ? "f" : "S",
+    "Q",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// A circle drawn as four Bézier quarters.
+const circlePath = (x: number, y: number, r: number) => {
+  const k = 0.5523 * r;
+  return [
+    `${num(x + r)} ${num(y)} m`,
+    `${num(x + r)} ${num(y + k)} ${num(x + k)} ${num(y + r)} ${num(x)} ${num(y + r)} c`,
+    `${num(x - k)} ${num(y + r)} ${num(x - r)} ${num(y + k)} ${num(x - r)} ${num(y)} c`,
+    `${num(x - r)} ${num(y - k)} ${num(x - k)} ${num(y - r)} ${num(x)} ${num(y - r)} c`,
+    `${num(x + k)} ${num(y - r)} ${num(x + r)} ${num(y - k)} ${num(x + r)} ${num(y)} c`,
+  ].join(" ");
+};
+
+const pageContent = (page: PdfPage, imageName: (image: PdfImage) => string) =>
+  page
+    .map((op) => {
+      const flip = (y: number) => PAGE_HEIGHT - y;
+      switch (op.type) {
+        case "text": {
+          const font = `/${op.bold ? "F2" : "F1"} ${num(op.size)} Tf`;
+          const fill = `${color(op.color ?? [0, 0, 0])} rg`;
+          return `BT ${font} ${fill} ${num(op.x)} ${num(flip(op.y))} Td (${escapeText(op.text)}) Tj ET`;
+        }
+        case "path": {
+          if (op.points.length < 2) return "";
+          const [first, ...rest] = op.points;
+          const segments = [
+            `${num(op.width ?? 1)} w 1 J 1 j`,
+            `${num(first.x)} ${num(flip(first.y))} m`,
+            ...rest.map((point) => `${num(point.x)} ${num(flip(point.y))} l`),
+          ];
+          if (op.closed) segments.push("h");
+          return paint(segments.join(" "), op.stroke, op.fill);
+        }
+        case "rect":
+          return paint(
+            `${num(op.x)} ${num(flip(op.y + op.height))} ${num(op.width)} ${num(op.height)} re`,
+            op.stroke,
+            op.fill
+          );
+        case "circle":
+          return paint(circlePath(op.x, flip(op.y), op.radius), op.stroke, op.fill);
+        case "image": {
+          const placement = `${num(op.width)} 0 0 ${num(op.height)} ${num(op.x)} ${num(flip(op.y + op.height))} cm`;
+          return `q ${placement} /${imageName(op.image)} Do Q`;
+        }
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+// D:YYYYMMDDHHmmssZ, in UTC.
+const pdfDate = (date: Date) => `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+
+/** Serializes pages into a PDF file. */
+export const buildPdf = (pages: PdfPage[], info: PdfInfo): Uint8Array => {
+  // Objects 1–5 are fixed; images and then pages follow.
+  const images = new Map<PdfImage, number>();
+  pages.forEach((page) =>
+    page.forEach((op) => {
+      if (op.type === "image" && !images.has(op.image)) images.set(op.image, images.size);
+    })
+  );
+  const imageObject = (index: number) => 6 + index;
+  const pageObject = (index: number) => 6 + images.size + index * 2;
+  const imageName = (image: PdfImage) => `Im${images.get(image)! + 1}`;
+
+  const objects: (string | Uint8Array)[][] = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    [`<< /Type /Pages /Kids [${pages.map((_, idx) => `${pageObject(idx)} 0 R`).join(" ")}] /Count ${pages.length} >>`],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"],
+    [`<< /Title (${escapeText(info.title)}) /Producer (CleanFlow) /CreationDate (${pdfDate(info.createdAt)}) >>`],
+  ];
+  images.forEach((_, image) => {
+    objects.push([
+      [
+        "<< /Type /XObject /Subtype /Image",
+        `/Width ${image.width} /Height ${image.height}`,
+        "/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode",
+        `/Length ${image.data.length} >>\nstream\n`,
+      ].join(" "),
+      image.data,
+      "\nendstream",
+    ]);
+  });
+  const xObjects = Array.from(images.values())
+    .map((index) => `/Im${index + 1} ${imageObject(index)} 0 R`)
+    .join(" ");
+  pages.forEach((page, idx) => {
+    const content = latin1(pageContent(page, imageName));
+    objects.push([
+      [
+        "<< /Type /Page /Parent 2 0 R",
+        `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >>`,
+        `/Contents ${pageObject(idx) + 1} 0 R >>`,
+      ].join(" "),
+    ]);
+    objects.push([`<< /Length ${content.length} >>\nstream\n`, content, "\nendstream"]);
+  });
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? latin1(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // The comment's high bytes mark the file as binary for transfer tools.
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  const offsets = objects.map((parts, idx) => {
+    const offset = length;
+    write(`${idx + 1} 0 obj\n`);
+    parts.forEach(write);
+    write("\nendobj\n");
+    return offset;
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, "0")} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const file = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    file.set(chunk, position);
+    position += chunk.length;
+  });
+  return file;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { buildPlanTables, type PlanTablesInput } from "@/utils/planTables";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { fitGeoreference } from "@/utils/georeference";
+import { DEFAULT_PLANNING_PARAMS, type Node, type Path } from "@/utils/mapTypes";
+
+const nodes: Node[] = [
+  { id: "v1", x: 100, y: 10, type: "vendor", label: "Tacos", menuType: "fast-food", purchaseProbability: 0.25 },
+  { id: "v2", x: 600, y: 10, type: "vendor", label: "Coffee" },
+  { id: "e1", x: 0, y: 0, type: "entry-exit", label: "Gate" },
+  { id: "b1", x: 300, y: 0, type: "bin", label: "Bin 1", stream: "station" },
+];
+const paths: Path[] = [
+  {
+    id: "w1",
+    points: [
+      { x: 0, y: 0 },
+      { x: 300, y: 0 },
+      { x: 300, y: 400 },
+    ],
+    type: "walkway",
+    label: "Main",
+    capacity: 50,
+  },
+];
+
+const input = (overrides: Partial<PlanTablesInput> = {}): PlanTablesInput => ({
+  report: null,
+  nodes,
+  paths,
+  scale: null,
+  distanceUnit: "meters",
+  georeference: null,
+  ...overrides,
+});
+
+describe("buildPlanTables", () => {
+  it("lists bins with their metrics, vendors and walkways in the project's unit", () => {
+    const report = optimizeBinPlacement({ nodes, paths, obstacles: null }, DEFAULT_PLANNING_PARAMS, { seed: 3 });
+    const [bins, vendors, walkways] = buildPlanTables(input({ report }));
+
+    expect(bins.columns.map((column) => column.header)).toEqual([
+      "Id",
+      "Label",
+      "Stream",
+      "Image X",
+      "Image Y",
+      "World X",
+      "World Y",
+      "Capacity",
+      "Capture",
+      "Utilization",
+      "Avg distance to vendors",
+      "Nearest entry distance",
+      "Walkway distance",
+      "Source",
+    ]);
+    expect(bins.columns[12].unit).toBe("m");
+    expect(bins.rows).toHaveLength(report.recommendedBins.length);
+    const first = report.recommendedBins[0];
+    expect(bins.rows[0][0]).toBe(first.id);
+    expect(bins.rows[0][9]).toBeCloseTo(first.utilization * 100, 1);
+
+    expect(vendors.rows[0]).toEqual(["v1", "Tacos", "Fast food", 25, 100, 10, 10, 1]);
+    expect(vendors.rows[1][3]).toBeNull();
+    // 700 px at the default 10 px/m.
+    expect(walkways.rows[0].slice(0, 5)).toEqual(["w1", "Main", 50, 70, 3]);
+  });
+
+  it("lists map bins without metrics before a report exists, in feet", () => {
+    const [bins, , walkways] = buildPlanTables(input({ distanceUnit: "feet" }));
+    expect(bins.rows).toEqual([
+      ["b1", "Bin 1", "Co-located station (all streams)", 300, 0, 98.43, 0, null, null, null, null, null, null, "user"],
+    ]);
+    expect(walkways.columns[3].unit).toBe("ft");
+  });
+
+  it("gives latitude/longitude on a georeferenced map", () => {
+    const georeference = fitGeoreference(
+      [
+        { image: { x: 0, y: 0 }, lat: 10.001, lon: 20 },
+        { image: { x: 100, y: 0 }, lat: 10.001, lon: 20.001 },
+        { image: { x: 0, y: 100 }, lat: 10, lon: 20 },
+      ],
+      "affine"
+    );
+    const [, vendors] = buildPlanTables(input({ georeference }));
+    expect(vendors.columns.slice(6).map((column) => `${column.header} (${column.unit})`)).toEqual([
+      "Latitude (deg)",
+      "Longitude (deg)",
+    ]);
+    expect(vendors.rows[0].slice(6)).toEqual([10.0009, 20.001]);
+  });
+});
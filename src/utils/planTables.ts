@@ -0,0 +1,167 @@
+// Tables of the plan for procurement and crew spreadsheets: every bin with its
+// metrics, plus vendors and walkways. Positions are given in image pixels and
+// in world coordinates: latitude/longitude on a georeferenced map, otherwise
+// distance from the map's top-left corner (y pointing down) in the project's
+// unit. Pure: no React, no I/O.
+
+import { imageToGeo } from "@/utils/georeference";
+import { pixelsToUnit, UNIT_LABELS } from "@/utils/mapScale";
+import { BIN_STREAM_OPTIONS, MENU_PROFILES } from "@/utils/wasteStreams";
+import type { CellValue, SheetColumn, SheetTable } from "@/utils/spreadsheet";
+import type { DistanceUnit, Georeference, MapScale, Node, OptimizationReport, Path, Point } from "@/utils/mapTypes";
+
+export interface PlanTablesInput {
+  // Without a report, bins on the map are listed with their metrics left blank.
+  report: OptimizationReport | null;
+  nodes: Node[];
+  paths: Path[];
+  scale: MapScale | null;
+  distanceUnit: DistanceUnit;
+  georeference: Georeference | null;
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const pathLength = (points: Point[]) =>
+  points.slice(1).reduce((sum, point, idx) => sum + Math.hypot(point.x - points[idx].x, point.y - points[idx].y), 0);
+
+/** Builds the Bins, Vendors and Walkways tables. */
+export const buildPlanTables = ({
+  report,
+  nodes,
+  paths,
+  scale,
+  distanceUnit,
+  georeference,
+}: PlanTablesInput): SheetTable[] => {
+  const unit = UNIT_LABELS[distanceUnit].short;
+  // Unreachable distances (Infinity) are left blank.
+  const distance = (pixels: number): CellValue =>
+    Number.isFinite(pixels) ? round(pixelsToUnit(pixels, scale, distanceUnit), 2) : null;
+
+  const positionColumns: SheetColumn[] = [
+    { header: "Image X", unit: "px" },
+    { header: "Image Y", unit: "px" },
+    ...(georeference
+      ? [
+          { header: "Latitude", unit: "deg" },
+          { header: "Longitude", unit: "deg" },
+        ]
+      : [
+          { header: "World X", unit },
+          { header: "World Y", unit },
+        ]),
+  ];
+  const position = (point: Point): CellValue[] => {
+    const image = [round(point.x, 1), round(point.y, 1)];
+    if (georeference) {
+      const { lat, lon } = imageToGeo(georeference, point);
+      return [...image, round(lat, 7), round(lon, 7)];
+    }
+    return [...image, distance(point.x), distance(point.y)];
+  };
+
+  const binRows = report
+    ? report.recommendedBins.map((bin): CellValue[] => [
+        bin.id,
+        bin.label,
+        BIN_STREAM_OPTIONS[bin.stream].label,
+        ...position(bin.position),
+        round(bin.capacity, 2),
+        round(bin.capturePerHour, 2),
+        round(bin.utilization * 100, 1),
+        distance(bin.averageDistanceToVendors),
+        distance(bin.nearestEntryDistance),
+        distance(bin.walkwayDistance),
+        bin.source,
+      ])
+    : nodes
+        .filter((node) => node.type === "bin")
+        .map((node): CellValue[] => [
+          node.id,
+          node.label,
+          BIN_STREAM_OPTIONS[node.stream ?? "single"].label,
+          ...position(node),
+          null,
+          null,
+          null,
+          null,
+          null,
+          null,
+          "user",
+        ]);
+
+  const vendorRows = nodes
+    .filter((node) => node.type === "vendor")
+    .map((node): CellValue[] => [
+      node.id,
+      node.label,
+      MENU_PROFILES[node.menuType ?? "general"].label,
+      node.purchaseProbability === undefined ? null : round(node.purchaseProbability * 100, 1),
+      ...position(node),
+    ]);
+
+  const walkwayRows = paths.map((path): CellValue[] => {
+    const start = path.points[0];
+    const end = path.points[path.points.length - 1];
+    return [
+      path.id,
+      path.label,
+      path.capacity,
+      distance(pathLength(path.points)),
+      path.points.length,
+      ...(start ? position(start) : positionColumns.map(() => null)),
+      ...(end ? position(end) : positionColumns.map(() => null)),
+    ];
+  });
+
+  const prefixed = (prefix: string) =>
+    positionColumns.map((column) => ({ ...column, header: `${prefix} ${column.header.toLowerCase()}` }));
+
+  return [
+    {
+      name: "Bins",
+      columns: [
+        { header: "Id", unit: "" },
+        { header: "Label", unit: "" },
+        { header: "Stream", unit: "" },
+        ...positionColumns,
+        { header: "Capacity", unit: "L/h" },
+        { header: "Capture", unit: "L/h" },
+        { header: "Utilization", unit: "%" },
+        { header: "Avg distance to vendors", unit },
+        { header: "Nearest entry distance", unit },
+        { header: "Walkway distance", unit },
+        { header: "Source", unit: "" },
+      ],
+      rows: binRows,
+    },
+    {
+      name: "Vendors",
+      columns: [
+        { header: "Id", unit: "" },
+        { header: "Label", unit: "" },
+        { header: "Menu", unit: "" },
+        { header: "Purchase probability", unit: "%" },
+        ...positionColumns,
+      ],
+      rows: vendorRows,
+    },
+    {
+      name: "Walkways",
+      columns: [
+        { header: "Id", unit: "" },
+        { header: "Label", unit: "" },
+        { header: "Capacity", unit: "people/min" },
+        { header: "Length", unit },
+        { header: "Vertices", unit: "" },
+        ...prefixed("Start"),
+        ...prefixed("End"),
+      ],
+      rows: walkwayRows,
+    },
+  ];
+};
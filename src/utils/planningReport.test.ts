@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { layoutPlanningReport, planningReportFileName, type PlanningReportInput } from "@/utils/planningReport";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { DEFAULT_PLANNING_PARAMS, type Node, type Path } from "@/utils/mapTypes";
+import type { PdfPage } from "@/utils/pdfWriter";
+
+const nodes: Node[] = [
+  { id: "v1", x: 100, y: 10, type: "vendor", label: "Tacos" },
+  { id: "v2", x: 600, y: 10, type: "vendor", label: "Coffee" },
+  { id: "e1", x: 0, y: 0, type: "entry-exit", label: "Gate" },
+];
+const paths: Path[] = [
+  {
+    id: "w1",
+    points: [
+      { x: 0, y: 0 },
+      { x: 800, y: 0 },
+    ],
+    type: "walkway",
+    label: "Main",
+    capacity: 50,
+  },
+];
+
+const input = (overrides: Partial<PlanningReportInput> = {}): PlanningReportInput => {
+  const report = optimizeBinPlacement({ nodes, paths, obstacles: null }, DEFAULT_PLANNING_PARAMS, { seed: 7 });
+  return {
+    projectName: "Harbor Fest",
+    generatedAt: new Date(Date.UTC(2026, 5, 1, 12)),
+    header: { title: "City Events", logo: null },
+    report,
+    planningParams: DEFAULT_PLANNING_PARAMS,
+    nodes,
+    paths,
+    map: { width: 800, height: 400, background: null },
+    conversation: [{ role: "assistant", content: "Three bins cover the concourse." }],
+    formatLength: (pixels) => `${Math.round(pixels / 10)} m`,
+    ...overrides,
+  };
+};
+
+const texts = (pages: PdfPage[]) =>
+  pages.flatMap((page) => page.flatMap((op) => (op.type === "text" ? [op.text] : [])));
+
+describe("layoutPlanningReport", () => {
+  it("includes the header, metrics, bin table and explanation", () => {
+    const report = input();
+    const text = texts(layoutPlanningReport(report));
+
+    expect(text).toContain("City Events");
+    expect(text).toContain("Optimization snapshot");
+    expect(text).toContain("Recommended bins");
+    expect(text).toContain("Three bins cover the concourse.");
+    expect(text).toContain("7");
+    expect(report.report.recommendedBins.length).toBeGreaterThan(0);
+    report.report.recommendedBins.forEach((bin) => expect(text).toContain(bin.label));
+  });
+
+  it("paginates long tables and numbers every page", () => {
+    const base = input();
+    const bins = Array.from({ length: 80 }, (_, idx) => ({
+      ...base.report.recommendedBins[0],
+      id: `bin-${idx}`,
+      label: `Bin ${idx + 1}`,
+    }));
+    const pages = layoutPlanningReport({ ...base, report: { ...base.report, recommendedBins: bins } });
+
+    expect(pages.length).toBeGreaterThan(2);
+    expect(texts(pages)).toContain(`Page ${pages.length} of ${pages.length}`);
+    // The table header repeats on every page the table spills onto.
+    expect(texts(pages).filter((text) => text === "Capture L/h").length).toBeGreaterThan(1);
+    pages.forEach((page) =>
+      page.forEach((op) => {
+        if (op.type === "text") expect(op.y).toBeLessThanOrEqual(842);
+      })
+    );
+  });
+
+  it("names the file after the project and date", () => {
+    expect(planningReportFileName("Harbor Fest 2026!", new Date(Date.UTC(2026, 5, 1)))).toBe(
+      "harbor-fest-2026-plan-2026-06-01.pdf"
+    );
+  });
+});
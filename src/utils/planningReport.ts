@@ -0,0 +1,405 @@
+// Lays out the printable planning report: the annotated map, the snapshot
+// metrics, planning inputs, a per-bin table, the optimizer's notes and the
+// assistant conversation, under a header with the organizer's logo. Pages
+// come out as pdfWriter operations. Everything but the image loader at the
+// bottom is pure.
+
+import { BIN_STREAM_OPTIONS } from "@/utils/wasteStreams";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  textWidth,
+  wrapText,
+  type PdfColor,
+  type PdfImage,
+  type PdfOperation,
+  type PdfPage,
+} from "@/utils/pdfWriter";
+import type { Node, OptimizationReport, Path, PlanningParams } from "@/utils/mapTypes";
+
+export interface ReportHeader {
+  // Shown next to the logo, e.g. the organizer's name.
+  title: string;
+  logo: PdfImage | null;
+}
+
+export interface ReportMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface PlanningReportInput {
+  projectName: string;
+  generatedAt: Date;
+  header: ReportHeader;
+  report: OptimizationReport;
+  planningParams: PlanningParams;
+  nodes: Node[];
+  paths: Path[];
+  // The project map in image pixels, with its picture when one could be loaded.
+  map: { width: number; height: number; background: PdfImage | null };
+  conversation: ReportMessage[];
+  formatLength: (pixels: number) => string;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 44;
+const FOOTER_Y = PAGE_HEIGHT - 24;
+const MAP_MAX_HEIGHT = 340;
+
+const INK: PdfColor = [0.1, 0.12, 0.16];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.85, 0.87, 0.9];
+const PANEL: PdfColor = [0.96, 0.97, 0.98];
+const WALKWAY: PdfColor = [0.23, 0.51, 0.96];
+const VENDOR: PdfColor = [0.92, 0.35, 0.05];
+const ENTRY: PdfColor = [0.49, 0.23, 0.93];
+const BIN: PdfColor = [0.09, 0.64, 0.29];
+const OTHER_BIN: PdfColor = [0.55, 0.58, 0.62];
+const WHITE: PdfColor = [1, 1, 1];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const formatDate = (date: Date) => date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+export const planningReportFileName = (projectName: string, date: Date) => {
+  const slug = projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "project"}-plan-${date.toISOString().slice(0, 10)}.pdf`;
+};
+
+/** Flows the report onto as many A4 pages as it needs. */
+export const layoutPlanningReport = (input: PlanningReportInput): PdfPage[] => {
+  const { report, formatLength } = input;
+  const pages: PdfPage[] = [];
+  let page: PdfPage = [];
+  let y = 0;
+
+  const startPage = () => {
+    page = [];
+    pages.push(page);
+    const { logo, title } = input.header;
+    let textX = MARGIN;
+    if (logo) {
+      const height = 28;
+      const width = Math.min(120, (logo.width / logo.height) * height);
+      page.push({ type: "image", image: logo, x: MARGIN, y: 20, width, height: (width / logo.width) * logo.height });
+      textX += width + 10;
+    }
+    if (title) page.push({ type: "text", x: textX, y: 38, text: title, size: 11, bold: true, color: INK });
+    const meta = `${input.projectName} • ${formatDate(input.generatedAt)}`;
+    page.push({ type: "text", x: PAGE_WIDTH - MARGIN - textWidth(meta, 9), y: 38, text: meta, size: 9, color: MUTED });
+    page.push({
+      type: "path",
+      points: [
+        { x: MARGIN, y: 54 },
+        { x: PAGE_WIDTH - MARGIN, y: 54 },
+      ],
+      stroke: RULE,
+    });
+    y = MARGIN + HEADER_HEIGHT;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > FOOTER_Y - 16) startPage();
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 10;
+    page.push({ type: "text", x: MARGIN, y: y + 12, text, size: 13, bold: true, color: INK });
+    y += 22;
+  };
+
+  const paragraph = (
+    text: string,
+    options: { size?: number; color?: PdfColor; indent?: number; bold?: boolean } = {}
+  ) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    wrapText(text, CONTENT_WIDTH - indent, size, options.bold).forEach((line) => {
+      ensureSpace(size * 1.4);
+      page.push({
+        type: "text",
+        x: MARGIN + indent,
+        y: y + size,
+        text: line,
+        size,
+        bold: options.bold,
+        color: options.color ?? INK,
+      });
+      y += size * 1.4;
+    });
+  };
+
+  const table = (columns: { label: string; width: number; align?: "right" }[], rows: string[][]) => {
+    const rowHeight = 16;
+    const cell = (text: string, column: number, bold: boolean, color: PdfColor) => {
+      const x = MARGIN + columns.slice(0, column).reduce((sum, col) => sum + col.width, 0);
+      const { width, align } = columns[column];
+      const size = 8.5;
+      let fitted = text;
+      while (fitted.length > 1 && textWidth(fitted, size, bold) > width - 6) fitted = fitted.slice(0, -1);
+      if (fitted !== text) fitted = `${fitted.slice(0, -1)}…`;
+      const textX = align === "right" ? x + width - 3 - textWidth(fitted, size, bold) : x + 3;
+      page.push({ type: "text", x: textX, y: y + 11, text: fitted, size, bold, color });
+    };
+    const headerRow = () => {
+      page.push({ type: "rect", x: MARGIN, y, width: CONTENT_WIDTH, height: rowHeight, fill: PANEL });
+      columns.forEach((column, idx) => cell(column.label, idx, true, MUTED));
+      y += rowHeight;
+    };
+    ensureSpace(rowHeight * 2);
+    headerRow();
+    rows.forEach((row) => {
+      if (y + rowHeight > FOOTER_Y - 16) {
+        startPage();
+        headerRow();
+      }
+      row.forEach((text, idx) => cell(text, idx, false, INK));
+      page.push({
+        type: "path",
+        points: [
+          { x: MARGIN, y: y + rowHeight },
+          { x: PAGE_WIDTH - MARGIN, y: y + rowHeight },
+        ],
+        stroke: RULE,
+        width: 0.5,
+      });
+      y += rowHeight;
+    });
+  };
+
+  startPage();
+  page.push({
+    type: "text",
+    x: MARGIN,
+    y: y + 20,
+    text: "Waste bin planning report",
+    size: 20,
+    bold: true,
+    color: INK,
+  });
+  y += 30;
+  paragraph(`${input.projectName}, generated ${formatDate(input.generatedAt)}.`, { color: MUTED });
+  y += 8;
+
+  // Annotated map, scaled to fit the content box.
+  const fit = Math.min(CONTENT_WIDTH / input.map.width, MAP_MAX_HEIGHT / input.map.height);
+  const mapWidth = input.map.width * fit;
+  const mapHeight = input.map.height * fit;
+  const mapX = MARGIN + (CONTENT_WIDTH - mapWidth) / 2;
+  const mapY = y;
+  const toPage = (point: { x: number; y: number }) => ({ x: mapX + point.x * fit, y: mapY + point.y * fit });
+  const mapOps: PdfOperation[] = [];
+  if (input.map.background) {
+    mapOps.push({ type: "image", image: input.map.background, x: mapX, y: mapY, width: mapWidth, height: mapHeight });
+  } else {
+    mapOps.push({ type: "rect", x: mapX, y: mapY, width: mapWidth, height: mapHeight, fill: PANEL });
+  }
+  input.paths.forEach((path) =>
+    mapOps.push({ type: "path", points: path.points.map(toPage), stroke: WALKWAY, width: 2.5 })
+  );
+  const recommendedIndex = new Map(report.recommendedBins.map((bin, idx) => [bin.id, idx + 1]));
+  input.nodes.forEach((node) => {
+    const { x, y: nodeY } = toPage(node);
+    if (node.type === "vendor") {
+      mapOps.push({ type: "circle", x, y: nodeY, radius: 4, fill: VENDOR, stroke: WHITE });
+    } else if (node.type === "entry-exit") {
+      mapOps.push({ type: "rect", x: x - 4, y: nodeY - 4, width: 8, height: 8, fill: ENTRY, stroke: WHITE });
+    } else if (!recommendedIndex.has(node.id)) {
+      mapOps.push({ type: "circle", x, y: nodeY, radius: 4, fill: OTHER_BIN, stroke: WHITE });
+    }
+  });
+  report.recommendedBins.forEach((bin, idx) => {
+    const { x, y: binY } = toPage(bin.position);
+    const label = String(idx + 1);
+    mapOps.push({ type: "circle", x, y: binY, radius: 7, fill: BIN, stroke: WHITE });
+    mapOps.push({
+      type: "text",
+      x: x - textWidth(label, 7, true) / 2,
+      y: binY + 2.5,
+      text: label,
+      size: 7,
+      bold: true,
+      color: WHITE,
+    });
+  });
+  mapOps.push({ type: "rect", x: mapX, y: mapY, width: mapWidth, height: mapHeight, stroke: RULE });
+  page.push(...mapOps);
+  y += mapHeight + 8;
+
+  const legend: [string, PdfColor][] = [
+    ["Recommended bin (numbered as in the table)", BIN],
+    ["Vendor", VENDOR],
+    ["Entry/exit", ENTRY],
+    ["Walkway", WALKWAY],
+  ];
+  let legendX = MARGIN;
+  legend.forEach(([label, swatch]) => {
+    page.push({ type: "circle", x: legendX + 4, y: y + 5, radius: 3.5, fill: swatch });
+    page.push({ type: "text", x: legendX + 11, y: y + 8, text: label, size: 8, color: MUTED });
+    legendX += 11 + textWidth(label, 8) + 14;
+  });
+  y += 16;
+
+  heading("Optimization snapshot");
+  const metrics: [string, string][] = [
+    ["Capture rate", percent(report.captureRate)],
+    ["Bins recommended", `${report.binsNeeded} / ${report.maxBinsAllowed}`],
+    ["Average utilization", `${percent(report.averageUtilization)} (target ${percent(report.targetUtilization)})`],
+    ["Total cost", `$${report.totalCost.toFixed(2)}`],
+    ["Waste captured", `${report.estimatedCapturePerHour.toFixed(1)} / ${report.totalWastePerHour.toFixed(1)} L/h`],
+    ["Walkway length", formatLength(report.walkwayLength)],
+    ["Capacity need", String(report.capacityDrivenBins)],
+    ["Bins on map", String(report.totalBinsAvailable)],
+    ["Vendors assessed", String(report.totalVendors)],
+    ["Diversion rate", percent(report.diversionRate)],
+  ];
+  const metricColumns = 3;
+  const metricWidth = (CONTENT_WIDTH - (metricColumns - 1) * 8) / metricColumns;
+  for (let start = 0; start < metrics.length; start += metricColumns) {
+    ensureSpace(40);
+    metrics.slice(start, start + metricColumns).forEach(([label, value], idx) => {
+      const x = MARGIN + idx * (metricWidth + 8);
+      page.push({ type: "rect", x, y, width: metricWidth, height: 34, stroke: RULE, fill: PANEL });
+      page.push({ type: "text", x: x + 6, y: y + 12, text: label, size: 8, color: MUTED });
+      page.push({ type: "text", x: x + 6, y: y + 26, text: value, size: 10.5, bold: true, color: INK });
+    });
+    y += 40;
+  }
+
+  heading("Planning inputs");
+  const params = input.planningParams;
+  const inputs: [string, string][] = [
+    ["Attendance", `${params.peoplePerHour} people per hour`],
+    ["Vendor sales", `${params.vendorSalesPerHour} items per vendor per hour`],
+    ["Bin capacity", `${params.binCapacity} L`],
+    ["Cost per bin", `$${params.costPerBin.toFixed(2)}`],
+    ["Bin budget", `${params.maxBins} bins`],
+    ["Target utilization", `${params.targetUtilization}%`],
+    ["Optimizer bin setup", BIN_STREAM_OPTIONS[params.binStream].label],
+    ["Default emptying", `every ${params.emptyEveryMinutes} min`],
+    ["Run seed", report.seed === null ? "not recorded" : String(report.seed)],
+  ];
+  inputs.forEach(([label, value]) => {
+    ensureSpace(14);
+    page.push({ type: "text", x: MARGIN, y: y + 10, text: label, size: 9.5, color: MUTED });
+    page.push({ type: "text", x: MARGIN + 140, y: y + 10, text: value, size: 9.5, color: INK });
+    y += 14;
+  });
+
+  heading("Recommended bins");
+  const distance = (pixels: number) => (Number.isFinite(pixels) ? formatLength(pixels) : "no path");
+  table(
+    [
+      { label: "#", width: 22 },
+      { label: "Bin", width: 90 },
+      { label: "Setup", width: 95 },
+      { label: "Utilization", width: 58, align: "right" },
+      { label: "Capture L/h", width: 62, align: "right" },
+      { label: "To vendors", width: 62, align: "right" },
+      { label: "To entry", width: 62, align: "right" },
+      { label: "To walkway", width: CONTENT_WIDTH - 451, align: "right" },
+    ],
+    report.recommendedBins.map((bin, idx) => [
+      String(idx + 1),
+      bin.label,
+      BIN_STREAM_OPTIONS[bin.stream].label,
+      percent(bin.utilization),
+      bin.capturePerHour.toFixed(1),
+      distance(bin.averageDistanceToVendors),
+      distance(bin.nearestEntryDistance),
+      distance(bin.walkwayDistance),
+    ])
+  );
+  if (report.recommendedBins.length === 0) paragraph("The optimizer recommended no bins.", { color: MUTED });
+
+  if (report.notes.length > 0) {
+    heading("Notes");
+    report.notes.forEach((note) => paragraph(`• ${note}`, { indent: 4 }));
+  }
+
+  if (input.conversation.length > 0) {
+    heading("Assistant explanation");
+    input.conversation.forEach((message) => {
+      if (message.role === "user") {
+        y += 4;
+        paragraph(`Q: ${message.content}`, { bold: true, size: 9.5 });
+      } else {
+        paragraph(message.content, { size: 9.5 });
+      }
+      y += 4;
+    });
+  }
+
+  pages.forEach((ops, idx) => {
+    const footer = `Page ${idx + 1} of ${pages.length}`;
+    ops.push({
+      type: "text",
+      x: (PAGE_WIDTH - textWidth(footer, 8)) / 2,
+      y: FOOTER_Y,
+      text: footer,
+      size: 8,
+      color: MUTED,
+    });
+  });
+  return pages;
+};
+
+/**
+ * Re-encodes an image (a URL or an uploaded file) as JPEG for embedding,
+ * shrunk to at most `maxSize` pixels on its longer side. Transparent areas
+ * become white.
+ */
+export const loadReportImage = (source: string | Blob, maxSize = 1600): Promise<PdfImage> =>
+  new Promise((resolve, reject) => {
+    const url = typeof source === "string" ? source : URL.createObjectURL(source);
+    const release = () => {
+      if (typeof source !== "string") URL.revokeObjectURL(url);
+    };
+    const img = new Image();
+    // Storage serves public images with CORS headers; without this the canvas is tainted.
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      release();
+      const shrink = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * shrink));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * shrink));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context is unavailable."));
+        return;
+      }
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob(
+          (blob) => {
+            if (!blob) {
+              reject(new Error("Could not encode the image."));
+              return;
+            }
+            void blob
+              .arrayBuffer()
+              .then((buffer) => resolve({ data: new Uint8Array(buffer), width: canvas.width, height: canvas.height }))
+              .catch(reject);
+          },
+          "image/jpeg",
+          0.85
+        );
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => {
+      release();
+      reject(new Error("Could not load the image."));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,26 @@
+// Seeded pseudo-random numbers so simulation and optimizer runs can be replayed.
+
+// Returns a float in [0, 1), like Math.random.
+export type Random = () => number;
+
+export type RandomFactory = (seed: number) => Random;
+
+// Seeds are stored and shown to users, so keep them to unsigned 32-bit ints.
+export const MAX_SEED = 0xffffffff;
+
+export const normalizeSeed = (seed: number) =>
+  Number.isFinite(seed) ? Math.abs(Math.trunc(seed)) % (MAX_SEED + 1) : 0;
+
+// mulberry32: tiny, fast and well distributed enough for Monte Carlo use.
+export const createRandom: RandomFactory = (seed) => {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
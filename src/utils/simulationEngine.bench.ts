@@ -0,0 +1,55 @@
+// Steps/sec of SimulationEngine on a synthetic venue; run with `npm run bench`.
+import { bench, describe } from "vitest";
+import { SimulationEngine, type Node } from "@/utils/simulationEngine";
+
+const MAP_WIDTH = 2400;
+const MAP_HEIGHT = 1600;
+const GRID_SIZE = 10;
+const AGENT_COUNTS = [1_000, 5_000, 20_000];
+
+const nodes: Node[] = [
+  { id: "entry-n", x: 1200, y: 20, type: "entry-exit" },
+  { id: "entry-s", x: 1200, y: 1580, type: "entry-exit" },
+  { id: "entry-w", x: 20, y: 800, type: "entry-exit" },
+  ...Array.from({ length: 12 }, (_, i): Node => ({
+    id: `bin-${i}`,
+    x: 200 + (i % 6) * 400,
+    y: i < 6 ? 500 : 1100,
+    type: "bin",
+  })),
+];
+
+// Horizontal wall bands with gaps, roughly like rows of stands.
+const buildObstacles = () => {
+  const cols = Math.ceil(MAP_WIDTH / GRID_SIZE);
+  const rows = Math.ceil(MAP_HEIGHT / GRID_SIZE);
+  const mask = new Uint8Array(rows * cols);
+  for (let row = 30; row < rows; row += 40) {
+    for (let col = 0; col < cols; col++) {
+      if (col % 30 >= 6) mask[row * cols + col] = 1;
+    }
+  }
+  return mask;
+};
+
+describe("SimulationEngine.step", () => {
+  AGENT_COUNTS.forEach((numAgents) => {
+    const engine = new SimulationEngine(
+      {
+        gridSize: GRID_SIZE,
+        mapWidth: MAP_WIDTH,
+        mapHeight: MAP_HEIGHT,
+        numAgents,
+        staticWeight: 1,
+        dynamicWeight: 0.5,
+        randomness: 0.2,
+        decayRate: 0.95,
+        diffusionRate: 0.1,
+        seed: 1,
+      },
+      nodes,
+      buildObstacles()
+    );
+    bench(`${numAgents.toLocaleString("en-US")} agents`, () => engine.step(), { time: 2000 });
+  });
+});
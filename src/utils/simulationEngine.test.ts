@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import { SimulationEngine, type Node, type SimulationParams } from "@/utils/simulationEngine";
+
+const params = (overrides: Partial<SimulationParams> = {}): SimulationParams => ({
+  gridSize: 10,
+  mapWidth: 50,
+  mapHeight: 30,
+  numAgents: 5,
+  staticWeight: 1,
+  dynamicWeight: 0.5,
+  randomness: 0.2,
+  decayRate: 0.95,
+  diffusionRate: 0.1,
+  seed: 7,
+  ...overrides,
+});
+
+const nodes: Node[] = [
+  { id: "entry", x: 5, y: 5, type: "entry-exit" },
+  { id: "bin", x: 45, y: 25, type: "bin" },
+];
+
+describe("SimulationEngine", () => {
+  it("computes BFS distances around obstacles", () => {
+    // 5x3 grid with a wall down column 2 except the bottom row.
+    const obstacles = new Uint8Array(15);
+    obstacles[2] = 1;
+    obstacles[7] = 1;
+    const engine = new SimulationEngine(params(), [nodes[0]], obstacles);
+    const field = engine.getStaticField();
+
+    expect(field[0]).toBe(0);
+    expect(field[1]).toBe(1);
+    expect(field[2]).toBe(Infinity);
+    expect(field[12]).toBe(2);
+    expect(field[3]).toBe(4);
+  });
+
+  it("spawns agents at entries and keeps them off blocked cells", () => {
+    const obstacles = new Uint8Array(15);
+    obstacles[7] = 1;
+    const engine = new SimulationEngine(params(), nodes, obstacles);
+
+    expect(Array.from(engine.getAgentPositions())).toEqual(Array(5).fill([5, 5]).flat());
+    for (let i = 0; i < 50; i++) engine.step();
+
+    const positions = engine.getAgentPositions();
+    for (let i = 0; i < positions.length; i += 2) {
+      const cell = Math.floor(positions[i + 1] / 10) * 5 + Math.floor(positions[i] / 10);
+      expect(cell).not.toBe(7);
+    }
+    expect(engine.getStatistics().stepCount).toBe(50);
+  });
+
+  it("does not spawn agents without an entry", () => {
+    const engine = new SimulationEngine(params(), [nodes[1]]);
+
+    expect(engine.getAgentCount()).toBe(0);
+    expect(engine.snapshot().positions).toHaveLength(0);
+  });
+
+  it("spawns agents where the spawn density is, skipping blocked cells", () => {
+    const spawnDensity = new Float32Array(15);
+    spawnDensity[8] = 1;
+    spawnDensity[13] = 5;
+    const obstacles = new Uint8Array(15);
+    obstacles[13] = 1;
+    const engine = new SimulationEngine(params({ spawnDensity }), [nodes[1]], obstacles);
+
+    expect(engine.getAgentCount()).toBe(5);
+    expect(Array.from(engine.getAgentPositions())).toEqual(Array(5).fill([35, 15]).flat());
+  });
+
+  it("replays identically for the same seed", () => {
+    const run = (seed: number) => {
+      const engine = new SimulationEngine(params({ seed, numAgents: 20 }), nodes);
+      for (let i = 0; i < 30; i++) engine.step();
+      return Array.from(engine.getAgentPositions());
+    };
+
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+
+  it("reset restarts the seeded sequence", () => {
+    const engine = new SimulationEngine(params({ numAgents: 20 }), nodes);
+    for (let i = 0; i < 30; i++) engine.step();
+    const first = Array.from(engine.getAgentPositions());
+
+    engine.reset();
+    for (let i = 0; i < 30; i++) engine.step();
+    expect(Array.from(engine.getAgentPositions())).toEqual(first);
+  });
+
+  it("scales the crowd with timeline attendance", () => {
+    const engine = new SimulationEngine(
+      params({ numAgents: 10, timeline: { attendance: [0.5, 1, 0.2], stepsPerInterval: 3 } }),
+      nodes
+    );
+
+    expect(engine.getAgentCount()).toBe(5);
+    for (let i = 0; i < 4; i++) engine.step();
+    expect(engine.getAgentCount()).toBe(10);
+    expect(engine.getStatistics().intervalIndex).toBe(1);
+    for (let i = 0; i < 10; i++) engine.step();
+    expect(engine.getAgentCount()).toBe(2);
+    expect(engine.getStatistics().intervalIndex).toBe(2);
+  });
+
+  it("snapshots are detached copies", () => {
+    const engine = new SimulationEngine(params(), nodes);
+    const snapshot = engine.snapshot();
+    engine.step();
+
+    expect(snapshot.statistics.stepCount).toBe(0);
+    expect(snapshot.trailField).not.toBe(engine.getDynamicField());
+    expect(snapshot.trailField.every((value) => value === 0)).toBe(true);
+  });
+
+  describe("littering", () => {
+    const venue: Node[] = [
+      { id: "entry", x: 5, y: 15, type: "entry-exit" },
+      { id: "stall", x: 95, y: 15, type: "vendor", purchaseProbability: 1 },
+      { id: "bin", x: 75, y: 15, type: "bin" },
+    ];
+    const littering = (willingnessToWalk: number) =>
+      params({
+        mapWidth: 100,
+        numAgents: 10,
+        // Without trail attraction agents head straight for their targets.
+        dynamicWeight: 0,
+        littering: { carryStepsMin: 1, carryStepsMax: 5, willingnessToWalk },
+      });
+    const run = (engine: SimulationEngine, steps = 400) => {
+      for (let i = 0; i < steps; i++) engine.step();
+      return engine.getStatistics();
+    };
+
+    it("bins items when a bin is within walking reach", () => {
+      const engine = new SimulationEngine(littering(500), venue);
+      const stats = run(engine);
+
+      expect(stats.itemsAcquired).toBeGreaterThan(0);
+      expect(stats.itemsDeposited).toBeGreaterThan(0);
+      expect(stats.itemsLittered).toBe(0);
+      expect(engine.snapshot().binIds).toEqual(["bin"]);
+    });
+
+    it("litters where no bin is close enough", () => {
+      const engine = new SimulationEngine(littering(0), venue);
+      const stats = run(engine);
+      const litter = engine.getLitterField().reduce((sum, value) => sum + value, 0);
+
+      expect(stats.itemsLittered).toBeGreaterThan(0);
+      expect(litter).toBe(stats.itemsLittered);
+    });
+
+    it("averages the walk to a bin over items walked to one", () => {
+      // Agents still counting down after buying often drop the item in the bin
+      // beside the entry on their way past; those drops walk nowhere.
+      const detour: Node[] = [
+        { id: "entry", x: 5, y: 5, type: "entry-exit" },
+        { id: "stall", x: 95, y: 15, type: "vendor", purchaseProbability: 1 },
+        { id: "bin", x: 5, y: 25, type: "bin" },
+      ];
+      const engine = new SimulationEngine(
+        params({
+          mapWidth: 100,
+          numAgents: 10,
+          dynamicWeight: 0,
+          littering: { carryStepsMin: 12, carryStepsMax: 12, willingnessToWalk: 500 },
+        }),
+        detour
+      );
+      const stats = run(engine);
+
+      expect(stats.itemsDeposited).toBeGreaterThan(0);
+      // Counted as zero-length walks, the drops in passing pull this under 16 px.
+      expect(stats.avgWalkToBin).toBeGreaterThan(25);
+    });
+
+    it("leaves walks given up on out of the average", () => {
+      // A 10x1 strip with the bin set into the wall at column 1. Agents from
+      // the gate in the pocket at column 0 pick it (10 px away) but can never
+      // step towards it; agents from the main gate reach it from the stall.
+      const obstacles = new Uint8Array(10);
+      obstacles[1] = 1;
+      const strip: Node[] = [
+        { id: "pocket", x: 5, y: 5, type: "entry-exit" },
+        { id: "pocket-stall", x: 5, y: 5, type: "vendor", purchaseProbability: 1 },
+        { id: "bin", x: 15, y: 5, type: "bin" },
+        { id: "stall", x: 45, y: 5, type: "vendor", purchaseProbability: 1 },
+        { id: "gate", x: 95, y: 5, type: "entry-exit" },
+      ];
+      const engine = new SimulationEngine(
+        params({
+          mapWidth: 100,
+          mapHeight: 10,
+          numAgents: 10,
+          dynamicWeight: 0,
+          littering: { carryStepsMin: 1, carryStepsMax: 1, willingnessToWalk: 500 },
+        }),
+        strip,
+        obstacles
+      );
+      const stats = run(engine);
+
+      expect(stats.itemsLittered).toBeGreaterThan(0);
+      expect(stats.itemsDeposited).toBeGreaterThan(0);
+      // Completed walks start at the stall, 2 to 4 cells from the bin.
+      expect(stats.avgWalkToBin).toBeGreaterThanOrEqual(20);
+      expect(stats.avgWalkToBin).toBeLessThanOrEqual(40);
+    });
+
+    it("skips vendors when littering is off", () => {
+      const engine = new SimulationEngine(params({ mapWidth: 100, numAgents: 10 }), venue);
+      const stats = run(engine);
+
+      expect(stats.itemsAcquired).toBe(0);
+      expect(Array.from(engine.getBinDeposits())).toEqual([0]);
+    });
+  });
+});
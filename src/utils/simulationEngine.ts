@@ -1,7 +1,22 @@
 // Pedestrian Flow Simulation Engine
 // Based on Burstedde et al. (2001) cellular automaton model
+//
+// Fields are flat row-major typed arrays (index = row * cols + col) and agents
+// are stored column-wise so thousands of them can step without allocating.
+// All randomness comes from a PRNG seeded with `params.seed`, so the same
+// layout, parameters and seed always replay the same run. With a timeline the
+// crowd grows and shrinks interval by interval.
+//
+// Each agent walks down the distance field of its own target node. With
+// littering enabled agents also visit vendors, may buy an item there, carry
+// it for a while and then either walk to a bin within reach or drop it.
+//
+// With a spawn density (e.g. an uploaded foot-traffic heatmap) agents appear
+// in cells drawn in proportion to it instead of at the entries.
 
-interface SimulationParams {
+import { createRandom, type Random, type RandomFactory } from "@/utils/random";
+
+export interface SimulationParams {
   gridSize: number;
   mapWidth: number;
   mapHeight: number;
@@ -11,299 +26,569 @@ interface SimulationParams {
   randomness: number;    // ε
   decayRate: number;
   diffusionRate: number;
+  seed: number;
+  timeline?: SimulationTimeline | null;
+  littering?: LitteringParams | null;
+  // Row-major relative crowding per cell; agents spawn in proportion to it.
+  spawnDensity?: Float32Array | null;
 }
 
-interface Agent {
-  id: string;
-  x: number;
-  y: number;
-  targetNodeId: string;
-  path: { x: number; y: number }[];
-  distanceTraveled: number;
+export interface LitteringParams {
+  // An acquired item is carried for a uniformly sampled number of steps.
+  carryStepsMin: number;
+  carryStepsMax: number;
+  // Furthest walking distance (px) to a bin; beyond it the item is littered.
+  willingnessToWalk: number;
 }
 
-interface Node {
+export interface SimulationTimeline {
+  // Relative attendance per interval; the busiest interval runs numAgents agents.
+  attendance: number[];
+  stepsPerInterval: number;
+}
+
+export interface Node {
   id: string;
   x: number;
   y: number;
   type: "vendor" | "entry-exit" | "bin";
+  // Vendors only: chance a visiting agent leaves with an item to discard.
+  purchaseProbability?: number;
+}
+
+export const DEFAULT_PURCHASE_PROBABILITY = 0.5;
+
+// agentItem values besides a positive carry countdown.
+const NO_ITEM = -1;
+const SEEKING_BIN = 0;
+
+export type SimulationStatistics = ReturnType<SimulationEngine["getStatistics"]>;
+
+// Copy of the engine state that is safe to hand to another thread.
+export interface SimulationSnapshot {
+  rows: number;
+  cols: number;
+  // Interleaved agent coordinates: [x0, y0, x1, y1, ...] in image pixels.
+  positions: Float32Array;
+  trailField: Float32Array;
+  // Row-major count of items littered in each cell.
+  litterField: Float32Array;
+  // Items deposited per bin, aligned with binIds.
+  binIds: string[];
+  binDeposits: Uint32Array;
+  statistics: SimulationStatistics;
 }
 
+// Moore neighbourhood (8 neighbours)
+const NEIGHBOR_ROWS = [-1, -1, -1, 0, 0, 1, 1, 1];
+const NEIGHBOR_COLS = [-1, 0, 1, -1, 1, -1, 0, 1];
+
 export class SimulationEngine {
   private params: SimulationParams;
-  private agents: Agent[] = [];
-  private staticField: number[][] = [];
-  private dynamicField: number[][] = [];
-  private obstacleMap: boolean[][] = [];
   private nodes: Node[] = [];
   private gridCols: number;
   private gridRows: number;
   private stepCount: number = 0;
-  private congestionMap: number[][] = [];
+  private createRng: RandomFactory;
+  private random: Random;
+
+  // Distance to the nearest node, and to each node on its own.
+  private staticField: Float32Array;
+  private nodeFields: Float32Array[] = [];
+  private dynamicField: Float32Array;
+  private diffusionBuffer: Float32Array;
+  private congestionMap: Uint32Array;
+  private obstacleMap: Uint8Array;
+  private bfsQueue: Int32Array;
+
+  // Node indices agents can spawn at / walk towards.
+  private entryNodes: number[] = [];
+  private targetNodes: number[] = [];
+  private binNodes: number[] = [];
+  // Walkable cells with spawn density, and the running total of their weights.
+  private spawnCells: Int32Array;
+  private spawnCumulative: Float64Array;
 
-  constructor(params: SimulationParams, nodes: Node[], obstacles?: boolean[][]) {
+  private litterField: Float32Array;
+  private binDeposits: Uint32Array;
+  private itemsAcquired = 0;
+  private itemsLittered = 0;
+  // Walking distance (px) to the chosen bin, summed over every item that
+  // reached it, and those items. Items dropped in a bin the agent was passing
+  // anyway are deposits but no walk, so they stay out of the average.
+  private binWalkTotal = 0;
+  private binWalkDeposits = 0;
+
+  private agentCount = 0;
+  private agentX: Float32Array;
+  private agentY: Float32Array;
+  // Index into targetNodes.
+  private agentTarget: Int32Array;
+  private agentDistance: Float64Array;
+  // Steps left carrying an item, SEEKING_BIN while walking to a bin, or NO_ITEM.
+  private agentItem: Int32Array;
+  // Planned distance (px) to the bin an agent is walking to; counted on arrival.
+  private agentBinWalk: Float32Array;
+
+  // Scratch space for selectNextCell.
+  private candidateCells = new Int32Array(NEIGHBOR_ROWS.length);
+  private candidateWeights = new Float64Array(NEIGHBOR_ROWS.length);
+
+  constructor(
+    params: SimulationParams,
+    nodes: Node[],
+    obstacles?: Uint8Array,
+    createRng: RandomFactory = createRandom
+  ) {
     this.params = params;
     this.nodes = nodes;
+    this.createRng = createRng;
+    this.random = createRng(params.seed);
     this.gridCols = Math.ceil(params.mapWidth / params.gridSize);
     this.gridRows = Math.ceil(params.mapHeight / params.gridSize);
-    
-    this.initializeFields();
-    if (obstacles) {
-      this.obstacleMap = obstacles;
-    } else {
-      this.initializeObstacleMap();
-    }
+
+    const cellCount = this.gridRows * this.gridCols;
+    this.staticField = new Float32Array(cellCount);
+    this.dynamicField = new Float32Array(cellCount);
+    this.diffusionBuffer = new Float32Array(cellCount);
+    this.congestionMap = new Uint32Array(cellCount);
+    this.bfsQueue = new Int32Array(cellCount);
+    // Default: all cells walkable
+    this.obstacleMap = obstacles && obstacles.length === cellCount ? obstacles : new Uint8Array(cellCount);
+
+    const visitsVendors = Boolean(params.littering);
+    nodes.forEach((node, index) => {
+      if (node.type === "entry-exit") this.entryNodes.push(index);
+      if (node.type === "bin") this.binNodes.push(index);
+      if (node.type === "entry-exit" || node.type === "bin" || (visitsVendors && node.type === "vendor")) {
+        this.targetNodes.push(index);
+      }
+    });
+    this.buildSpawnDistribution(params.spawnDensity, cellCount);
+    this.litterField = new Float32Array(cellCount);
+    this.binDeposits = new Uint32Array(this.binNodes.length);
+
+    this.agentX = new Float32Array(params.numAgents);
+    this.agentY = new Float32Array(params.numAgents);
+    this.agentTarget = new Int32Array(params.numAgents);
+    this.agentDistance = new Float64Array(params.numAgents);
+    this.agentItem = new Int32Array(params.numAgents);
+    this.agentBinWalk = new Float32Array(params.numAgents);
+
     this.computeStaticField();
+    this.nodeFields = nodes.map((node) => {
+      const field = new Float32Array(cellCount);
+      this.computeDistanceField(field, [node]);
+      return field;
+    });
     this.spawnAgents();
   }
 
-  private initializeFields() {
-    this.staticField = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(Infinity));
-    this.dynamicField = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(0));
-    this.congestionMap = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(0));
+  private cellAt(x: number, y: number): number {
+    const col = Math.floor(x / this.params.gridSize);
+    const row = Math.floor(y / this.params.gridSize);
+    if (row < 0 || row >= this.gridRows || col < 0 || col >= this.gridCols) return -1;
+    return row * this.gridCols + col;
   }
 
-  private initializeObstacleMap() {
-    // Default: all cells walkable
-    this.obstacleMap = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(false));
-  }
-
-  private worldToGrid(x: number, y: number): { row: number; col: number } {
-    return {
-      col: Math.floor(x / this.params.gridSize),
-      row: Math.floor(y / this.params.gridSize)
-    };
+  private computeStaticField() {
+    this.computeDistanceField(this.staticField, this.nodes);
   }
 
-  private gridToWorld(row: number, col: number): { x: number; y: number } {
-    return {
-      x: (col + 0.5) * this.params.gridSize,
-      y: (row + 0.5) * this.params.gridSize
-    };
-  }
+  private computeDistanceField(field: Float32Array, sources: Node[]) {
+    // BFS from the sources over a ring buffer; each cell is enqueued at most once.
+    field.fill(Infinity);
+    const queue = this.bfsQueue;
+    let head = 0;
+    let tail = 0;
 
-  private computeStaticField() {
-    // Use BFS to compute distance from each cell to nearest node
-    const visited = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(false));
-    const queue: { row: number; col: number; dist: number }[] = [];
-
-    // Initialize with node positions
-    this.nodes.forEach(node => {
-      const { row, col } = this.worldToGrid(node.x, node.y);
-      if (row >= 0 && row < this.gridRows && col >= 0 && col < this.gridCols) {
-        this.staticField[row][col] = 0;
-        queue.push({ row, col, dist: 0 });
-        visited[row][col] = true;
+    sources.forEach(node => {
+      const cell = this.cellAt(node.x, node.y);
+      if (cell >= 0 && field[cell] !== 0) {
+        field[cell] = 0;
+        queue[tail] = cell;
+        tail = (tail + 1) % queue.length;
       }
     });
 
-    // BFS to propagate distances
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const neighbors = this.getNeighbors(current.row, current.col);
-
-      neighbors.forEach(({ row, col }) => {
-        if (!visited[row][col] && !this.obstacleMap[row][col]) {
-          visited[row][col] = true;
-          const newDist = current.dist + 1;
-          this.staticField[row][col] = newDist;
-          queue.push({ row, col, dist: newDist });
-        }
-      });
+    let pending = tail;
+    while (pending > 0) {
+      const cell = queue[head];
+      head = (head + 1) % queue.length;
+      pending--;
+      const row = Math.floor(cell / this.gridCols);
+      const col = cell - row * this.gridCols;
+      const nextDist = field[cell] + 1;
+
+      for (let n = 0; n < NEIGHBOR_ROWS.length; n++) {
+        const r = row + NEIGHBOR_ROWS[n];
+        const c = col + NEIGHBOR_COLS[n];
+        if (r < 0 || r >= this.gridRows || c < 0 || c >= this.gridCols) continue;
+        const neighbor = r * this.gridCols + c;
+        if (field[neighbor] !== Infinity || this.obstacleMap[neighbor]) continue;
+        field[neighbor] = nextDist;
+        queue[tail] = neighbor;
+        tail = (tail + 1) % queue.length;
+        pending++;
+      }
     }
   }
 
-  private getNeighbors(row: number, col: number): { row: number; col: number }[] {
-    // Moore neighborhood (8 neighbors)
-    const neighbors: { row: number; col: number }[] = [];
-    for (let dr = -1; dr <= 1; dr++) {
-      for (let dc = -1; dc <= 1; dc++) {
-        if (dr === 0 && dc === 0) continue;
-        const newRow = row + dr;
-        const newCol = col + dc;
-        if (newRow >= 0 && newRow < this.gridRows && newCol >= 0 && newCol < this.gridCols) {
-          neighbors.push({ row: newRow, col: newCol });
-        }
+  private currentInterval(): number {
+    const { timeline } = this.params;
+    if (!timeline || timeline.attendance.length === 0) return -1;
+    const index = Math.floor(this.stepCount / Math.max(1, timeline.stepsPerInterval));
+    return Math.min(index, timeline.attendance.length - 1);
+  }
+
+  private activeAgentTarget(): number {
+    const { timeline, numAgents } = this.params;
+    const interval = this.currentInterval();
+    if (interval < 0) return numAgents;
+    const peak = Math.max(...timeline.attendance);
+    if (peak <= 0) return 0;
+    return Math.round((numAgents * Math.max(0, timeline.attendance[interval])) / peak);
+  }
+
+  private buildSpawnDistribution(density: Float32Array | null | undefined, cellCount: number) {
+    const cells: number[] = [];
+    const cumulative: number[] = [];
+    let total = 0;
+    if (density && density.length === cellCount) {
+      for (let cell = 0; cell < cellCount; cell++) {
+        if (density[cell] <= 0 || this.obstacleMap[cell]) continue;
+        total += density[cell];
+        cells.push(cell);
+        cumulative.push(total);
       }
     }
-    return neighbors;
+    this.spawnCells = Int32Array.from(cells);
+    this.spawnCumulative = Float64Array.from(cumulative);
   }
 
-  private spawnAgents() {
-    const entryNodes = this.nodes.filter(n => n.type === 'entry-exit');
-    const targetNodes = this.nodes.filter(n => n.type === 'entry-exit' || n.type === 'bin');
-    
-    for (let i = 0; i < this.params.numAgents; i++) {
+  // Cell drawn in proportion to the spawn density (binary search on the totals).
+  private sampleSpawnCell(): number {
+    const cumulative = this.spawnCumulative;
+    const pick = this.random() * cumulative[cumulative.length - 1];
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] <= pick) low = mid + 1;
+      else high = mid;
+    }
+    return this.spawnCells[low];
+  }
+
+  private spawnAgent(i: number) {
+    if (this.spawnCells.length > 0) {
+      const cell = this.sampleSpawnCell();
+      const row = Math.floor(cell / this.gridCols);
+      this.agentX[i] = (cell - row * this.gridCols + 0.5) * this.params.gridSize;
+      this.agentY[i] = (row + 0.5) * this.params.gridSize;
+    } else {
       // Random entry point
-      const entryNode = entryNodes[Math.floor(Math.random() * entryNodes.length)];
-      const targetNode = targetNodes[Math.floor(Math.random() * targetNodes.length)];
-      
-      if (entryNode && targetNode) {
-        this.agents.push({
-          id: `agent-${i}`,
-          x: entryNode.x,
-          y: entryNode.y,
-          targetNodeId: targetNode.id,
-          path: [],
-          distanceTraveled: 0
-        });
-      }
+      const entryNode = this.nodes[this.entryNodes[Math.floor(this.random() * this.entryNodes.length)]];
+      this.agentX[i] = entryNode.x;
+      this.agentY[i] = entryNode.y;
+    }
+    this.agentTarget[i] = Math.floor(this.random() * this.targetNodes.length);
+    this.agentDistance[i] = 0;
+    this.agentItem[i] = NO_ITEM;
+    this.agentBinWalk[i] = 0;
+  }
+
+  // New arrivals enter at an entry (or where the spawn density puts them);
+  // when the crowd thins the newest agents leave.
+  private syncAgentCount() {
+    const canSpawn = this.entryNodes.length > 0 || this.spawnCells.length > 0;
+    if (!canSpawn || this.targetNodes.length === 0) {
+      this.agentCount = 0;
+      return;
+    }
+    const target = Math.min(this.params.numAgents, this.activeAgentTarget());
+    for (let i = this.agentCount; i < target; i++) {
+      this.spawnAgent(i);
     }
+    this.agentCount = target;
   }
 
-  private calculateMoveProbability(row: number, col: number): number {
-    const S = this.staticField[row][col];
-    const D = this.dynamicField[row][col];
+  private spawnAgents() {
+    this.agentCount = 0;
+    this.syncAgentCount();
+  }
+
+  private calculateMoveProbability(field: Float32Array, cell: number): number {
+    const S = field[cell];
+    const D = this.dynamicField[cell];
     const { staticWeight, dynamicWeight, randomness } = this.params;
-    
+
     // P(i,j) ∝ exp(-w_s * S_ij + w_d * D_ij + ε)
-    return Math.exp(-staticWeight * S + dynamicWeight * D + randomness * (Math.random() - 0.5));
+    return Math.exp(-staticWeight * S + dynamicWeight * D + randomness * (this.random() - 0.5));
   }
 
-  private selectNextCell(currentRow: number, currentCol: number): { row: number; col: number } | null {
-    const neighbors = this.getNeighbors(currentRow, currentCol);
-    const probabilities: { row: number; col: number; prob: number }[] = [];
-    
+  private selectNextCell(field: Float32Array, cell: number): number {
+    const row = Math.floor(cell / this.gridCols);
+    const col = cell - row * this.gridCols;
+    let count = 0;
     let totalProb = 0;
-    neighbors.forEach(neighbor => {
-      if (!this.obstacleMap[neighbor.row][neighbor.col]) {
-        const prob = this.calculateMoveProbability(neighbor.row, neighbor.col);
-        probabilities.push({ ...neighbor, prob });
-        totalProb += prob;
-      }
-    });
 
-    if (totalProb === 0) return null;
+    for (let n = 0; n < NEIGHBOR_ROWS.length; n++) {
+      const r = row + NEIGHBOR_ROWS[n];
+      const c = col + NEIGHBOR_COLS[n];
+      if (r < 0 || r >= this.gridRows || c < 0 || c >= this.gridCols) continue;
+      const neighbor = r * this.gridCols + c;
+      if (this.obstacleMap[neighbor]) continue;
+      const prob = this.calculateMoveProbability(field, neighbor);
+      this.candidateCells[count] = neighbor;
+      this.candidateWeights[count] = prob;
+      totalProb += prob;
+      count++;
+    }
+
+    if (totalProb === 0) return -1;
 
     // Normalize and select
-    const rand = Math.random() * totalProb;
+    const rand = this.random() * totalProb;
     let cumulative = 0;
-    for (const p of probabilities) {
-      cumulative += p.prob;
-      if (rand <= cumulative) {
-        return { row: p.row, col: p.col };
-      }
+    for (let i = 0; i < count; i++) {
+      cumulative += this.candidateWeights[i];
+      if (rand <= cumulative) return this.candidateCells[i];
     }
-
-    return probabilities[probabilities.length - 1] || null;
+    return this.candidateCells[count - 1];
   }
 
   private updateDynamicField() {
+    const field = this.dynamicField;
     // Apply decay
+    for (let i = 0; i < field.length; i++) {
+      field[i] *= this.params.decayRate;
+    }
+
+    // Apply diffusion (simple Gaussian-like smoothing)
+    const { diffusionRate } = this.params;
+    if (diffusionRate <= 0) return;
+
+    const next = this.diffusionBuffer;
     for (let r = 0; r < this.gridRows; r++) {
       for (let c = 0; c < this.gridCols; c++) {
-        this.dynamicField[r][c] *= this.params.decayRate;
+        let sum = field[r * this.gridCols + c];
+        let count = 1;
+        for (let n = 0; n < NEIGHBOR_ROWS.length; n++) {
+          const nr = r + NEIGHBOR_ROWS[n];
+          const nc = c + NEIGHBOR_COLS[n];
+          if (nr < 0 || nr >= this.gridRows || nc < 0 || nc >= this.gridCols) continue;
+          sum += field[nr * this.gridCols + nc] * diffusionRate;
+          count += diffusionRate;
+        }
+        next[r * this.gridCols + c] = sum / count;
       }
     }
+    this.diffusionBuffer = field;
+    this.dynamicField = next;
+  }
 
-    // Apply diffusion (simple Gaussian-like smoothing)
-    if (this.params.diffusionRate > 0) {
-      const newField = Array(this.gridRows).fill(0).map(() => Array(this.gridCols).fill(0));
-      
-      for (let r = 0; r < this.gridRows; r++) {
-        for (let c = 0; c < this.gridCols; c++) {
-          let sum = this.dynamicField[r][c];
-          let count = 1;
-          
-          const neighbors = this.getNeighbors(r, c);
-          neighbors.forEach(({ row, col }) => {
-            sum += this.dynamicField[row][col] * this.params.diffusionRate;
-            count += this.params.diffusionRate;
-          });
-          
-          newField[r][c] = sum / count;
-        }
+  private pickTarget(i: number) {
+    if (this.targetNodes.length <= 1) return;
+    const pick = Math.floor(this.random() * (this.targetNodes.length - 1));
+    this.agentTarget[i] = pick >= this.agentTarget[i] ? pick + 1 : pick;
+  }
+
+  // Walk to the closest bin within reach, or drop the item where the agent stands.
+  private disposeItem(i: number, cell: number) {
+    const { littering, gridSize } = this.params;
+    let bestBin = -1;
+    let bestDistance = Infinity;
+    this.binNodes.forEach((nodeIndex) => {
+      const dist = this.nodeFields[nodeIndex][cell] * gridSize;
+      if (dist < bestDistance) {
+        bestDistance = dist;
+        bestBin = nodeIndex;
+      }
+    });
+    if (bestBin >= 0 && bestDistance <= littering.willingnessToWalk) {
+      this.agentItem[i] = SEEKING_BIN;
+      this.agentTarget[i] = this.targetNodes.indexOf(bestBin);
+      this.agentBinWalk[i] = bestDistance;
+    } else {
+      this.agentItem[i] = NO_ITEM;
+      this.litterField[cell] += 1;
+      this.itemsLittered++;
+    }
+  }
+
+  private arriveAt(i: number, nodeIndex: number) {
+    const node = this.nodes[nodeIndex];
+    const { littering } = this.params;
+    if (node.type === "bin" && this.agentItem[i] !== NO_ITEM) {
+      this.binDeposits[this.binNodes.indexOf(nodeIndex)]++;
+      if (this.agentItem[i] === SEEKING_BIN) {
+        this.binWalkTotal += this.agentBinWalk[i];
+        this.binWalkDeposits++;
+        this.agentBinWalk[i] = 0;
+      }
+      this.agentItem[i] = NO_ITEM;
+    } else if (node.type === "vendor" && littering && this.agentItem[i] === NO_ITEM) {
+      if (this.random() < (node.purchaseProbability ?? DEFAULT_PURCHASE_PROBABILITY)) {
+        const min = Math.max(1, Math.round(littering.carryStepsMin));
+        const max = Math.max(min, Math.round(littering.carryStepsMax));
+        this.agentItem[i] = min + Math.floor(this.random() * (max - min + 1));
+        this.itemsAcquired++;
       }
-      
-      this.dynamicField = newField;
     }
+    this.pickTarget(i);
   }
 
   public step() {
+    this.syncAgentCount();
     this.stepCount++;
-    
+    const { gridSize } = this.params;
+    const arrivalRadiusSq = (gridSize * 2) ** 2;
+
     // Move each agent
-    this.agents.forEach(agent => {
-      const { row, col } = this.worldToGrid(agent.x, agent.y);
-      
+    for (let i = 0; i < this.agentCount; i++) {
+      const cell = this.cellAt(this.agentX[i], this.agentY[i]);
+      if (cell < 0) continue;
+
       // Increment trail at current position
-      if (row >= 0 && row < this.gridRows && col >= 0 && col < this.gridCols) {
-        this.dynamicField[row][col] += 1;
-        this.congestionMap[row][col]++;
+      this.dynamicField[cell] += 1;
+      this.congestionMap[cell]++;
+
+      // Carried items count down; at zero the agent decides where it goes.
+      if (this.agentItem[i] > 0) {
+        this.agentItem[i]--;
+        if (this.agentItem[i] === SEEKING_BIN) this.disposeItem(i, cell);
       }
-      
+
       // Select next cell
-      const nextCell = this.selectNextCell(row, col);
-      if (nextCell) {
-        const newPos = this.gridToWorld(nextCell.row, nextCell.col);
-        const dx = newPos.x - agent.x;
-        const dy = newPos.y - agent.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        
-        agent.x = newPos.x;
-        agent.y = newPos.y;
-        agent.distanceTraveled += dist;
-        agent.path.push({ x: agent.x, y: agent.y });
+      const targetNode = this.targetNodes[this.agentTarget[i]];
+      const nextCell = this.selectNextCell(this.nodeFields[targetNode], cell);
+      if (nextCell >= 0) {
+        const row = Math.floor(nextCell / this.gridCols);
+        const x = (nextCell - row * this.gridCols + 0.5) * gridSize;
+        const y = (row + 0.5) * gridSize;
+        this.agentDistance[i] += Math.hypot(x - this.agentX[i], y - this.agentY[i]);
+        this.agentX[i] = x;
+        this.agentY[i] = y;
+      } else if (this.agentItem[i] === SEEKING_BIN) {
+        // The chosen bin cannot be reached from here after all.
+        this.agentItem[i] = NO_ITEM;
+        this.agentBinWalk[i] = 0;
+        this.litterField[cell] += 1;
+        this.itemsLittered++;
+      } else {
+        this.pickTarget(i);
       }
-      
-      // Check if reached target - assign new target
-      const targetNode = this.nodes.find(n => n.id === agent.targetNodeId);
-      if (targetNode) {
-        const distToTarget = Math.sqrt(
-          Math.pow(agent.x - targetNode.x, 2) + Math.pow(agent.y - targetNode.y, 2)
-        );
-        
-        if (distToTarget < this.params.gridSize * 2) {
-          // Reached target, assign new random target
-        const newTargets = this.nodes.filter(n => 
-            (n.type === 'entry-exit' || n.type === 'bin') && n.id !== agent.targetNodeId
-          );
-          if (newTargets.length > 0) {
-            agent.targetNodeId = newTargets[Math.floor(Math.random() * newTargets.length)].id;
-          }
-        }
+
+      // Check if reached target - act on it and pick a different random target
+      const target = this.nodes[targetNode];
+      const dx = this.agentX[i] - target.x;
+      const dy = this.agentY[i] - target.y;
+      if (dx * dx + dy * dy < arrivalRadiusSq) {
+        this.arriveAt(i, targetNode);
       }
-    });
+    }
 
     // Update dynamic field (trails)
     this.updateDynamicField();
   }
 
-  public getAgents(): Agent[] {
-    return this.agents;
+  public getAgentCount(): number {
+    return this.agentCount;
+  }
+
+  public getAgentPositions(): Float32Array {
+    const positions = new Float32Array(this.agentCount * 2);
+    for (let i = 0; i < this.agentCount; i++) {
+      positions[i * 2] = this.agentX[i];
+      positions[i * 2 + 1] = this.agentY[i];
+    }
+    return positions;
   }
 
-  public getDynamicField(): number[][] {
+  public getGridSize() {
+    return { rows: this.gridRows, cols: this.gridCols };
+  }
+
+  public getDynamicField(): Float32Array {
     return this.dynamicField;
   }
 
-  public getStaticField(): number[][] {
+  public getStaticField(): Float32Array {
     return this.staticField;
   }
 
-  public getCongestionMap(): number[][] {
+  public getCongestionMap(): Uint32Array {
     return this.congestionMap;
   }
 
+  public getLitterField(): Float32Array {
+    return this.litterField;
+  }
+
+  public getBinDeposits(): Uint32Array {
+    return this.binDeposits;
+  }
+
   public getStatistics() {
-    const avgDistance = this.agents.reduce((sum, a) => sum + a.distanceTraveled, 0) / this.agents.length;
-    const maxCongestion = Math.max(...this.congestionMap.flat());
-    const avgCongestion = this.congestionMap.flat().reduce((a, b) => a + b, 0) / (this.gridRows * this.gridCols);
-    
+    let totalDistance = 0;
+    for (let i = 0; i < this.agentCount; i++) {
+      totalDistance += this.agentDistance[i];
+    }
+    let maxCongestion = 0;
+    let totalCongestion = 0;
+    for (let i = 0; i < this.congestionMap.length; i++) {
+      const value = this.congestionMap[i];
+      totalCongestion += value;
+      if (value > maxCongestion) maxCongestion = value;
+    }
+    const avgDistance = this.agentCount === 0 ? 0 : totalDistance / this.agentCount;
+    const avgCongestion = this.congestionMap.length === 0 ? 0 : totalCongestion / this.congestionMap.length;
+
+    let itemsDeposited = 0;
+    for (let i = 0; i < this.binDeposits.length; i++) {
+      itemsDeposited += this.binDeposits[i];
+    }
+
     return {
       stepCount: this.stepCount,
-      totalAgents: this.agents.length,
+      totalAgents: this.agentCount,
+      intervalIndex: this.currentInterval(),
       avgDistanceTraveled: avgDistance.toFixed(2),
       maxCongestion: maxCongestion,
-      avgCongestion: avgCongestion.toFixed(2)
+      avgCongestion: avgCongestion.toFixed(2),
+      itemsAcquired: this.itemsAcquired,
+      itemsDeposited,
+      itemsLittered: this.itemsLittered,
+      avgWalkToBin: this.binWalkDeposits === 0 ? 0 : this.binWalkTotal / this.binWalkDeposits,
+    };
+  }
+
+  public snapshot(): SimulationSnapshot {
+    return {
+      rows: this.gridRows,
+      cols: this.gridCols,
+      positions: this.getAgentPositions(),
+      trailField: this.dynamicField.slice(),
+      litterField: this.litterField.slice(),
+      binIds: this.binNodes.map((nodeIndex) => this.nodes[nodeIndex].id),
+      binDeposits: this.binDeposits.slice(),
+      statistics: this.getStatistics(),
     };
   }
 
+  // Restarts from the seed, so the next steps repeat the run exactly.
   public reset() {
     this.stepCount = 0;
-    this.agents = [];
-    this.initializeFields();
-    this.computeStaticField();
+    this.random = this.createRng(this.params.seed);
+    this.dynamicField.fill(0);
+    this.congestionMap.fill(0);
+    this.litterField.fill(0);
+    this.binDeposits.fill(0);
+    this.itemsAcquired = 0;
+    this.itemsLittered = 0;
+    this.binWalkTotal = 0;
+    this.binWalkDeposits = 0;
     this.spawnAgents();
   }
 }
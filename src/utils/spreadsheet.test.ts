@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildXlsx, crc32, tableToCsv, type SheetTable } from "@/utils/spreadsheet";
+
+const table: SheetTable = {
+  name: "Bins",
+  columns: [
+    { header: "Label", unit: "" },
+    { header: "Capture", unit: "L/h" },
+  ],
+  rows: [
+    ['Gate "A", north', 12.5],
+    ["Food court", null],
+  ],
+};
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("spreadsheet", () => {
+  it("writes CSV with a units row and quoted fields", () => {
+    expect(tableToCsv(table)).toBe('Label,Capture\n,L/h\n"Gate ""A"", north",12.5\nFood court,\n');
+  });
+
+  it("keeps CSV text from being read as a formula", () => {
+    const labels: SheetTable = {
+      name: "Walkways",
+      columns: [
+        { header: "Label", unit: "" },
+        { header: "Offset", unit: "m" },
+      ],
+      rows: [
+        ['=HYPERLINK("http://example.com")', -2],
+        ["@SUM(A1:A2)", null],
+        ["+1", null],
+        ["-1", null],
+        ["\tTab", null],
+        ["\rReturn", null],
+        ["Main - east", null],
+      ],
+    };
+
+    expect(tableToCsv(labels).split("\n").slice(2, 6)).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")",-2',
+      "'@SUM(A1:A2),",
+      "'+1,",
+      "'-1,",
+    ]);
+    expect(tableToCsv(labels)).toContain("'\tTab,\n\"'\rReturn\",\nMain - east,\n");
+  });
+
+  it("packs one worksheet per table into a zip", () => {
+    const file = buildXlsx([table, { ...table, name: "Bins" }]);
+    const text = decode(file);
+
+    expect(Array.from(file.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('<sheet name="Bins" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<sheet name="Bins 2" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain("xl/worksheets/sheet2.xml");
+    expect(text).toContain('<c r="B2" t="inlineStr" s="2"><is><t xml:space="preserve">L/h</t></is></c>');
+    expect(text).toContain("Gate &quot;A&quot;, north");
+    expect(text).toContain('<c r="B3"><v>12.5</v></c>');
+    // The blank capture cell is left out rather than written empty.
+    expect(text).toContain(
+      '<row r="4"><c r="A4" t="inlineStr"><is><t xml:space="preserve">Food court</t></is></c></row>'
+    );
+  });
+
+  it("checksums entries with the zip CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,235 @@
+// Tabular exports for spreadsheets. Every table has a header row and a units
+// row above its data, in both CSV and XLSX. The XLSX writer emits the minimal
+// SpreadsheetML package (one worksheet per table) in an uncompressed zip.
+// Pure: no React, no I/O.
+
+export type CellValue = string | number | null;
+
+export interface SheetColumn {
+  header: string;
+  unit: string; // "" when the column has none
+}
+
+export interface SheetTable {
+  name: string;
+  columns: SheetColumn[];
+  rows: CellValue[][];
+}
+
+// Text a spreadsheet would read as a formula, e.g. a label imported from a
+// GeoJSON or OSM file. Numbers are written as numbers and never match.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue) => {
+  if (value === null) return "";
+  const text = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tableToCsv = ({ columns, rows }: SheetTable) =>
+  [columns.map((column) => column.header), columns.map((column) => column.unit), ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n") + "\n";
+
+// Drops characters XML 1.0 cannot hold.
+// eslint-disable-next-line no-control-regex
+const INVALID_XML = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(INVALID_XML, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Style ids from STYLES: 0 plain, 1 bold header, 2 muted italic units.
+const STYLE_HEADER = 1;
+const STYLE_UNITS = 2;
+
+const cellXml = (value: CellValue, ref: string, style: number) => {
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (value === null || value === "") return "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : "";
+  }
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const worksheetXml = ({ columns, rows }: SheetTable) => {
+  const allRows: [CellValue[], number][] = [
+    [columns.map((column) => column.header), STYLE_HEADER],
+    [columns.map((column) => column.unit), STYLE_UNITS],
+    ...rows.map((row): [CellValue[], number] => [row, 0]),
+  ];
+  const body = allRows
+    .map(([row, style], rowIdx) => {
+      const cells = row.map((value, colIdx) => cellXml(value, `${columnName(colIdx)}${rowIdx + 1}`, style)).join("");
+      return `<row r="${rowIdx + 1}">${cells}</row>`;
+    })
+    .join("");
+  // Header and units stay in view while scrolling.
+  const frozen =
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="2" topLeftCell="A3" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>';
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">${frozen}<sheetData>${body}</sheetData></worksheet>`;
+};
+
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}"><fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><i/><sz val="11"/><color rgb="FF6B7280"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+// Excel sheet names: at most 31 characters, none of []:*?/\ and unique.
+const sheetNames = (tables: SheetTable[]) => {
+  const used = new Set<string>();
+  return tables.map((table, idx) => {
+    const base =
+      table.name
+        .replace(/[[\]:*?/\\]/g, " ")
+        .trim()
+        .slice(0, 31) || `Sheet${idx + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// A zip of stored (uncompressed) entries, all dated 1980-01-01.
+const zip = (files: { name: string; data: Uint8Array }[]) => {
+  const encoder = new TextEncoder();
+  const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  const push = (bytes: Uint8Array) => {
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+  const header = (fields: [number, 2 | 4][]) => {
+    const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+    const view = new DataView(bytes.buffer);
+    let position = 0;
+    fields.forEach(([value, size]) => {
+      if (size === 2) view.setUint16(position, value, true);
+      else view.setUint32(position, value, true);
+      position += size;
+    });
+    return bytes;
+  };
+
+  const central: Uint8Array[] = [];
+  files.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+    const localOffset = offset;
+    const common: [number, 2 | 4][] = [
+      [20, 2], // version needed
+      [0x0800, 2], // UTF-8 names
+      [0, 2], // stored
+      [0, 2], // time
+      [DOS_DATE, 2],
+      [crc, 4],
+      [data.length, 4],
+      [data.length, 4],
+      [nameBytes.length, 2],
+      [0, 2], // extra length
+    ];
+    push(header([[0x04034b50, 4], ...common]));
+    push(nameBytes);
+    push(data);
+    central.push(
+      header([[0x02014b50, 4], [20, 2], ...common, [0, 2], [0, 2], [0, 2], [0, 4], [localOffset, 4]]),
+      nameBytes
+    );
+  });
+  const centralOffset = offset;
+  central.forEach(push);
+  const centralSize = offset - centralOffset;
+  push(
+    header([
+      [0x06054b50, 4],
+      [0, 2],
+      [0, 2],
+      [files.length, 2],
+      [files.length, 2],
+      [centralSize, 4],
+      [centralOffset, 4],
+      [0, 2],
+    ])
+  );
+
+  const file = new Uint8Array(offset);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    file.set(chunk, position);
+    position += chunk.length;
+  });
+  return file;
+};
+
+/** Packs the tables into an .xlsx workbook, one worksheet each. */
+export const buildXlsx = (tables: SheetTable[]): Uint8Array => {
+  const names = sheetNames(tables);
+  const sheets = names
+    .map((name, idx) => `<sheet name="${escapeXml(name)}" sheetId="${idx + 1}" r:id="rId${idx + 1}"/>`)
+    .join("");
+  const sheetRels = tables
+    .map(
+      (_, idx) =>
+        `<Relationship Id="rId${idx + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${idx + 1}.xml"/>`
+    )
+    .join("");
+  const sheetTypes = tables
+    .map(
+      (_, idx) =>
+        `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+
+  const encoder = new TextEncoder();
+  const files: [string, string][] = [
+    [
+      "[Content_Types].xml",
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetTypes}</Types>`,
+    ],
+    [
+      "_rels/.rels",
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    ],
+    [
+      "xl/workbook.xml",
+      `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${sheets}</sheets></workbook>`,
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">${sheetRels}<Relationship Id="rId${
+        tables.length + 1
+      }" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`,
+    ],
+    ["xl/styles.xml", STYLES],
+    ...tables.map((table, idx): [string, string] => [`xl/worksheets/sheet${idx + 1}.xml`, worksheetXml(table)]),
+  ];
+  return zip(files.map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
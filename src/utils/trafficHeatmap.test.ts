@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTrafficHeatmap,
+  heatmapCellDensity,
+  heatmapDensityAt,
+  heatmapGridFromPixels,
+  MAX_HEATMAP_CELLS,
+  parseHeatmapCsv,
+} from "@/utils/trafficHeatmap";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { DEFAULT_PLANNING_PARAMS, type Node, type Path } from "@/utils/mapTypes";
+
+const mapSize = { width: 200, height: 100 };
+
+describe("trafficHeatmap", () => {
+  it("parses CSV grids and rejects ragged or non-numeric rows", () => {
+    expect(parseHeatmapCsv("1,2\n3;4\n\n5\t-6\n")).toEqual({ rows: 3, cols: 2, values: [1, 2, 3, 4, 5, 0] });
+    expect(() => parseHeatmapCsv("1,2\n3")).toThrow("Row 2");
+    expect(() => parseHeatmapCsv("1,busy")).toThrow('"busy"');
+    expect(() => parseHeatmapCsv(" \n")).toThrow("empty");
+  });
+
+  it("reads heat from colour ramps and grayscale, downsampling large images", () => {
+    const pixels = (rgba: number[][], width: number) => ({
+      data: Uint8ClampedArray.from(rgba.flat()),
+      width,
+      height: rgba.length / width,
+    });
+    const { values } = heatmapGridFromPixels(
+      pixels([[255, 0, 0, 255], [0, 0, 255, 255], [255, 255, 255, 255], [255, 0, 0, 0]], 4)
+    );
+    expect(values[0]).toBeCloseTo(1);
+    expect(values[1]).toBeCloseTo(0);
+    expect(values[2]).toBeCloseTo(1);
+    expect(values[3]).toBe(0);
+
+    const size = MAX_HEATMAP_CELLS * 2;
+    const large = heatmapGridFromPixels(pixels(Array(size * size).fill([255, 0, 0, 255]), size));
+    expect([large.rows, large.cols]).toEqual([MAX_HEATMAP_CELLS, MAX_HEATMAP_CELLS]);
+  });
+
+  it("normalises the grid and samples it within its registered bounds", () => {
+    const heatmap = createTrafficHeatmap({ rows: 1, cols: 2, values: [2, 8] }, "Friday", "csv", mapSize);
+
+    expect(heatmap.values).toEqual([0.25, 1]);
+    expect(heatmapDensityAt(heatmap, { x: 50, y: 50 })).toBe(0.25);
+    expect(heatmapDensityAt(heatmap, { x: 150, y: 50 })).toBe(1);
+    expect(heatmapDensityAt({ ...heatmap, x: 100 }, { x: 50, y: 50 })).toBe(0);
+    expect(Array.from(heatmapCellDensity(heatmap, 1, 2, 100))).toEqual([0.25, 1]);
+    expect(() => createTrafficHeatmap({ rows: 1, cols: 1, values: [0] }, "Empty", "csv", mapSize)).toThrow();
+  });
+
+  it("places attendee waste where the heatmap is busiest", () => {
+    const walkway: Path = {
+      id: "main",
+      points: [{ x: 0, y: 50 }, { x: 200, y: 50 }],
+      type: "walkway",
+      label: "Main",
+      capacity: 50,
+    };
+    const vendor: Node = { id: "v1", x: 10, y: 50, type: "vendor", label: "Stall" };
+    const heatmap = createTrafficHeatmap({ rows: 1, cols: 4, values: [0, 0, 0, 1] }, "Gate rush", "csv", mapSize);
+    const report = optimizeBinPlacement(
+      { nodes: [vendor], paths: [walkway], obstacles: null },
+      { ...DEFAULT_PLANNING_PARAMS, vendorSalesPerHour: 0, peoplePerHour: 600, maxBins: 1 },
+      { seed: 1, heatmap }
+    );
+
+    expect(report.notes).toContain('Attendee waste follows the foot-traffic heatmap "Gate rush".');
+    report.recommendedBins.forEach((bin) => expect(bin.position.x).toBeGreaterThanOrEqual(150));
+  });
+});
@@ -0,0 +1,172 @@
+// Turns an uploaded foot-traffic heatmap (image or CSV grid) into a normalised
+// density field registered onto the venue map, and samples that field for the
+// optimizer and the simulation. Everything but loadTrafficHeatmap is pure.
+
+import type { Point, TrafficHeatmap } from "@/utils/mapTypes";
+import { loadImagePixels, type PixelSource } from "@/utils/walkableExtraction";
+
+export interface DensityGrid {
+  rows: number;
+  cols: number;
+  values: number[]; // row-major
+}
+
+// Stored grids are averaged down to at most this many cells per side.
+export const MAX_HEATMAP_CELLS = 64;
+// Below this saturation a pixel is read as grayscale brightness, not hue.
+const GRAYSCALE_SATURATION = 0.15;
+// Heat colour ramps run from blue (cold) to red (hot).
+const COLD_HUE = 240;
+
+/**
+ * Parses a CSV (or tab/semicolon/space separated) grid of non-negative
+ * numbers, one row per line. Throws on ragged rows or non-numeric cells.
+ */
+export const parseHeatmapCsv = (text: string): DensityGrid => {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => line.split(/[,;\t ]+/).filter((cell) => cell.length > 0));
+  if (rows.length === 0) throw new Error("The heatmap CSV is empty.");
+
+  const cols = rows[0].length;
+  const values: number[] = [];
+  rows.forEach((row, rowIdx) => {
+    if (row.length !== cols) {
+      throw new Error(`Row ${rowIdx + 1} of the heatmap CSV has ${row.length} values; expected ${cols}.`);
+    }
+    row.forEach((cell) => {
+      const value = Number(cell);
+      if (!Number.isFinite(value)) {
+        throw new Error(`"${cell}" in row ${rowIdx + 1} of the heatmap CSV is not a number.`);
+      }
+      values.push(Math.max(0, value));
+    });
+  });
+  return { rows: rows.length, cols, values };
+};
+
+// 0-1 heat of one pixel: hue along a blue-to-red ramp, or brightness when grey.
+const pixelHeat = (r: number, g: number, b: number, a: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const alpha = a / 255;
+  if (max === 0) return 0;
+  if ((max - min) / max < GRAYSCALE_SATURATION) return (max / 255) * alpha;
+
+  const delta = max - min;
+  let hue: number;
+  if (max === r) hue = 60 * (((g - b) / delta + 6) % 6);
+  else if (max === g) hue = 60 * ((b - r) / delta + 2);
+  else hue = 60 * ((r - g) / delta + 4);
+  // Magenta past blue wraps back toward red; treat it as cold.
+  if (hue > COLD_HUE) hue = COLD_HUE;
+  return (1 - hue / COLD_HUE) * alpha;
+};
+
+// Averages a grid down so neither side exceeds MAX_HEATMAP_CELLS.
+export const downsampleGrid = ({ rows, cols, values }: DensityGrid): DensityGrid => {
+  const factor = Math.max(1, Math.ceil(Math.max(rows, cols) / MAX_HEATMAP_CELLS));
+  if (factor === 1) return { rows, cols, values: [...values] };
+  const outRows = Math.ceil(rows / factor);
+  const outCols = Math.ceil(cols / factor);
+  const out = new Array(outRows * outCols).fill(0);
+  const counts = new Array(outRows * outCols).fill(0);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const target = Math.floor(row / factor) * outCols + Math.floor(col / factor);
+      out[target] += values[row * cols + col];
+      counts[target] += 1;
+    }
+  }
+  return { rows: outRows, cols: outCols, values: out.map((sum, idx) => sum / counts[idx]) };
+};
+
+export const heatmapGridFromPixels = ({ data, width, height }: PixelSource): DensityGrid => {
+  const values = new Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    values[i] = pixelHeat(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]);
+  }
+  return downsampleGrid({ rows: height, cols: width, values });
+};
+
+/**
+ * Normalises a density grid (busiest cell = 1) and stretches it over the
+ * whole map as a starting registration. Throws when the grid has no traffic.
+ */
+export const createTrafficHeatmap = (
+  grid: DensityGrid,
+  name: string,
+  source: TrafficHeatmap["source"],
+  mapSize: { width: number; height: number }
+): TrafficHeatmap => {
+  const { rows, cols, values } = downsampleGrid(grid);
+  const peak = Math.max(0, ...values);
+  if (peak <= 0) throw new Error("The heatmap has no foot traffic in it.");
+  return {
+    name,
+    source,
+    rows,
+    cols,
+    values: values.map((value) => value / peak),
+    x: 0,
+    y: 0,
+    width: mapSize.width,
+    height: mapSize.height,
+  };
+};
+
+// Density (0-1) at a map point; 0 outside the registered bounds.
+export const heatmapDensityAt = (heatmap: TrafficHeatmap, point: Point) => {
+  if (heatmap.width <= 0 || heatmap.height <= 0) return 0;
+  const col = Math.floor(((point.x - heatmap.x) / heatmap.width) * heatmap.cols);
+  const row = Math.floor(((point.y - heatmap.y) / heatmap.height) * heatmap.rows);
+  if (row < 0 || row >= heatmap.rows || col < 0 || col >= heatmap.cols) return 0;
+  return heatmap.values[row * heatmap.cols + col];
+};
+
+// Density at the centre of every simulation grid cell, row-major.
+export const heatmapCellDensity = (heatmap: TrafficHeatmap, rows: number, cols: number, gridSize: number) => {
+  const density = new Float32Array(rows * cols);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      density[row * cols + col] = heatmapDensityAt(heatmap, {
+        x: (col + 0.5) * gridSize,
+        y: (row + 0.5) * gridSize,
+      });
+    }
+  }
+  return density;
+};
+
+// RGBA for a 0-1 density: blue for quiet cells through green to red for the
+// busiest, fading out as the density drops.
+export const heatColor = (value: number): [number, number, number, number] => [
+  Math.round(255 * value),
+  Math.round(255 * (1 - Math.abs(2 * value - 1))),
+  Math.round(255 * (1 - value)),
+  Math.round(200 * value),
+];
+
+const isCsvFile = (file: File) => /\.(csv|tsv|txt)$/i.test(file.name) || file.type === "text/csv";
+
+// Reads an uploaded heatmap image or CSV grid and fits it over the map.
+export const loadTrafficHeatmap = async (
+  file: File,
+  mapSize: { width: number; height: number }
+): Promise<TrafficHeatmap> => {
+  const name = file.name.replace(/\.[^.]+$/, "") || "Heatmap";
+  if (isCsvFile(file)) {
+    return createTrafficHeatmap(parseHeatmapCsv(await file.text()), name, "csv", mapSize);
+  }
+  if (!file.type.startsWith("image/")) {
+    throw new Error("Upload a heatmap image or a CSV grid of numbers.");
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return createTrafficHeatmap(heatmapGridFromPixels(await loadImagePixels(url)), name, "image", mapSize);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
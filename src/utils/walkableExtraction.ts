@@ -0,0 +1,165 @@
+// Proposes an obstacle layer from the venue image by colour thresholding and/or
+// Sobel edge detection. Runs entirely client-side on the decoded image pixels.
+
+import { CELL_WALKABLE, CELL_WALL, type CellKind, type ObstacleLayer, type Point } from "@/utils/mapTypes";
+import { gridDimensions } from "@/utils/obstacleGrid";
+
+export type RGB = [number, number, number];
+
+export type ExtractionMethod = "color" | "edges" | "combined";
+
+export interface ExtractionOptions {
+  gridSize: number;
+  method: ExtractionMethod;
+  walkableColors: RGB[];
+  // 0-100: how far (as % of the RGB cube diagonal) a pixel may be from a picked colour.
+  colorTolerance: number;
+  // 0-100: higher values treat fainter edges as barriers.
+  edgeSensitivity: number;
+  // Share of sampled pixels in a cell that must be walkable for the cell to be walkable.
+  minWalkableShare: number;
+}
+
+export const DEFAULT_EXTRACTION_OPTIONS: Omit<ExtractionOptions, "gridSize"> = {
+  method: "color",
+  walkableColors: [],
+  colorTolerance: 15,
+  edgeSensitivity: 50,
+  minWalkableShare: 0.5,
+};
+
+export interface PixelSource {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Pixels sampled per cell edge; larger grids are subsampled to keep analysis fast.
+const MAX_SAMPLES_PER_CELL_EDGE = 16;
+const RGB_DIAGONAL = Math.sqrt(3 * 255 * 255);
+const MAX_SOBEL_MAGNITUDE = 4 * 255 * Math.SQRT2;
+// Share of edge pixels above which a cell is treated as a barrier.
+const EDGE_CELL_SHARE = 0.15;
+
+export const loadImagePixels = (url: string): Promise<PixelSource> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    // Storage serves public images with CORS headers; without this the canvas is tainted.
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context is unavailable."));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      try {
+        const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        resolve({ data, width, height });
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => reject(new Error("Failed to load the map image for analysis."));
+    img.src = url;
+  });
+
+// Averages a 3x3 neighbourhood so a single noisy pixel doesn't skew the pick.
+export const sampleColor = (pixels: PixelSource, point: Point): RGB => {
+  const cx = Math.round(point.x);
+  const cy = Math.round(point.y);
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let y = cy - 1; y <= cy + 1; y++) {
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+      const offset = (y * pixels.width + x) * 4;
+      sum[0] += pixels.data[offset];
+      sum[1] += pixels.data[offset + 1];
+      sum[2] += pixels.data[offset + 2];
+      count++;
+    }
+  }
+  if (count === 0) return [0, 0, 0];
+  return [Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)];
+};
+
+const toGrayscale = (pixels: PixelSource) => {
+  const gray = new Float32Array(pixels.width * pixels.height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    gray[i] = 0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2];
+  }
+  return gray;
+};
+
+const sobelMagnitude = (gray: Float32Array, width: number, height: number, x: number, y: number) => {
+  if (x <= 0 || y <= 0 || x >= width - 1 || y >= height - 1) return 0;
+  const at = (dx: number, dy: number) => gray[(y + dy) * width + (x + dx)];
+  const gx = -at(-1, -1) - 2 * at(-1, 0) - at(-1, 1) + at(1, -1) + 2 * at(1, 0) + at(1, 1);
+  const gy = -at(-1, -1) - 2 * at(0, -1) - at(1, -1) + at(-1, 1) + 2 * at(0, 1) + at(1, 1);
+  return Math.hypot(gx, gy);
+};
+
+const matchesColor = (pixels: PixelSource, offset: number, colors: RGB[], maxDistance: number) =>
+  colors.some(([r, g, b]) => {
+    const dr = pixels.data[offset] - r;
+    const dg = pixels.data[offset + 1] - g;
+    const db = pixels.data[offset + 2] - b;
+    return Math.sqrt(dr * dr + dg * dg + db * db) <= maxDistance;
+  });
+
+/**
+ * Classifies every grid cell as walkable or wall. Colour mode marks cells whose
+ * pixels mostly match a picked walkable colour; edge mode blocks cells crossed by
+ * strong edges (walls, fences, stand outlines); combined mode requires both.
+ */
+export const extractWalkableLayer = (pixels: PixelSource, options: ExtractionOptions): ObstacleLayer => {
+  const { gridSize, method, walkableColors } = options;
+  const { rows, cols } = gridDimensions(pixels.width, pixels.height, gridSize);
+  const useColor = method !== "edges";
+  const useEdges = method !== "color";
+  if (useColor && walkableColors.length === 0) {
+    throw new Error("Pick at least one walkable colour first.");
+  }
+
+  const maxColorDistance = (options.colorTolerance / 100) * RGB_DIAGONAL;
+  const edgeThreshold = (1 - options.edgeSensitivity / 100) * MAX_SOBEL_MAGNITUDE * 0.5;
+  const gray = useEdges ? toGrayscale(pixels) : null;
+  const stride = Math.max(1, Math.floor(gridSize / MAX_SAMPLES_PER_CELL_EDGE));
+  const cells: CellKind[] = Array(rows * cols).fill(CELL_WALL);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x0 = col * gridSize;
+      const y0 = row * gridSize;
+      const x1 = Math.min(pixels.width, x0 + gridSize);
+      const y1 = Math.min(pixels.height, y0 + gridSize);
+      let samples = 0;
+      let colorHits = 0;
+      let edgeHits = 0;
+      for (let y = y0; y < y1; y += stride) {
+        for (let x = x0; x < x1; x += stride) {
+          samples++;
+          if (useColor && matchesColor(pixels, (y * pixels.width + x) * 4, walkableColors, maxColorDistance)) {
+            colorHits++;
+          }
+          if (gray && sobelMagnitude(gray, pixels.width, pixels.height, x, y) > edgeThreshold) {
+            edgeHits++;
+          }
+        }
+      }
+      if (samples === 0) continue;
+      const colorOk = !useColor || colorHits / samples >= options.minWalkableShare;
+      const edgesOk = !useEdges || edgeHits / samples < EDGE_CELL_SHARE;
+      if (colorOk && edgesOk) {
+        cells[row * cols + col] = CELL_WALKABLE;
+      }
+    }
+  }
+
+  return { gridSize, rows, cols, cells };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { assignPedestrianFlow, isBottleneck, summarizeWalkwayFlows } from "@/utils/walkwayFlow";
+import { buildWalkwayGraph } from "@/utils/walkwayGraph";
+import { optimizeBinPlacement } from "@/utils/optimizer";
+import { DEFAULT_PLANNING_PARAMS, type Node, type Path, type Point } from "@/utils/mapTypes";
+
+const walkway = (id: string, points: Point[], capacity = 50): Path => ({
+  id,
+  points,
+  type: "walkway",
+  label: id,
+  capacity,
+});
+const entry: Node = { id: "e1", x: 0, y: 0, type: "entry-exit", label: "Gate" };
+const vendor: Node = { id: "v1", x: 200, y: 10, type: "vendor", label: "Stall" };
+
+// A main concourse to the stall with a dead-end spur nobody needs to walk.
+const paths = [
+  walkway("main", [{ x: 0, y: 0 }, { x: 200, y: 0 }], 2),
+  walkway("spur", [{ x: 100, y: 0 }, { x: 100, y: 200 }]),
+];
+
+describe("walkwayFlow", () => {
+  it("routes attendees there and back along the shortest route", () => {
+    const graph = buildWalkwayGraph(paths);
+    const flows = summarizeWalkwayFlows(graph, assignPedestrianFlow(graph, [entry], [vendor], 300), paths);
+
+    expect(flows.map((flow) => flow.pathId)).toEqual(["main", "spur"]);
+    expect(flows[0].flowPerMinute).toBeCloseTo(10);
+    expect(flows[0].loadRatio).toBeCloseTo(5);
+    expect(isBottleneck(flows[0])).toBe(true);
+    expect(flows[1].flowPerMinute).toBe(0);
+    expect(isBottleneck(flows[1])).toBe(false);
+  });
+
+  it("routes nobody without vendors", () => {
+    const graph = buildWalkwayGraph(paths);
+
+    expect(Array.from(assignPedestrianFlow(graph, [entry], [], 300)).every((flow) => flow === 0)).toBe(true);
+  });
+
+  it("puts attendee waste where the foot traffic is and flags bottlenecks", () => {
+    const report = optimizeBinPlacement(
+      { nodes: [entry, vendor], paths, obstacles: null },
+      { ...DEFAULT_PLANNING_PARAMS, vendorSalesPerHour: 0, peoplePerHour: 600, maxBins: 1 },
+      { seed: 1 }
+    );
+
+    expect(report.walkwayFlows.find((flow) => flow.pathId === "main").loadRatio).toBeGreaterThan(1);
+    expect(report.notes.some((note) => note.startsWith("main is a bottleneck"))).toBe(true);
+    report.recommendedBins.forEach((bin) => expect(bin.position.y).toBe(0));
+  });
+});
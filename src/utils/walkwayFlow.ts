@@ -0,0 +1,63 @@
+// Pedestrian flow assignment over the walkway graph. Each hour's attendees are
+// split evenly across the entries, and each entry's share walks to every
+// vendor and back along the shortest route (all-or-nothing assignment).
+// Per-walkway peaks are compared with the capacity drawn on each walkway.
+// Pure: no React, no I/O.
+
+import type { Node, Path, WalkwayFlow } from "@/utils/mapTypes";
+import { walkingRoute, type WalkwayGraph } from "@/utils/walkwayGraph";
+
+// Walkways carrying more than their capacity are bottlenecks.
+export const BOTTLENECK_LOAD_RATIO = 1;
+
+/**
+ * People per hour on each graph edge. Without entries or vendors nobody is
+ * routed and every edge carries zero.
+ */
+export const assignPedestrianFlow = (
+  graph: WalkwayGraph,
+  entries: Node[],
+  vendors: Node[],
+  peoplePerHour: number
+): Float64Array => {
+  const edgeFlows = new Float64Array(graph.edges.length);
+  if (entries.length === 0 || vendors.length === 0 || peoplePerHour <= 0) return edgeFlows;
+
+  const tripsPerRoute = peoplePerHour / (entries.length * vendors.length);
+  entries.forEach((entry) => {
+    vendors.forEach((vendor) => {
+      // There and back over the same route.
+      walkingRoute(graph, entry, vendor)?.forEach((edgeIdx) => {
+        edgeFlows[edgeIdx] += tripsPerRoute * 2;
+      });
+    });
+  });
+  return edgeFlows;
+};
+
+// Busiest stretch of each drawn walkway against its capacity.
+export const summarizeWalkwayFlows = (
+  graph: WalkwayGraph,
+  edgeFlows: Float64Array,
+  paths: Path[]
+): WalkwayFlow[] => {
+  const peaks = new Map<string, number>();
+  graph.edges.forEach((edge, idx) => {
+    peaks.set(edge.pathId, Math.max(peaks.get(edge.pathId) ?? 0, edgeFlows[idx]));
+  });
+  return paths
+    .filter((path) => peaks.has(path.id))
+    .map((path) => {
+      const flowPerMinute = (peaks.get(path.id) ?? 0) / 60;
+      return {
+        pathId: path.id,
+        label: path.label || path.id,
+        flowPerMinute,
+        capacityPerMinute: path.capacity,
+        // A capacity of 0 leaves the walkway unconstrained.
+        loadRatio: path.capacity > 0 ? flowPerMinute / path.capacity : 0,
+      };
+    });
+};
+
+export const isBottleneck = (flow: WalkwayFlow) => flow.loadRatio > BOTTLENECK_LOAD_RATIO;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { buildWalkwayGraph, walkingDistance } from "@/utils/walkwayGraph";
+import type { Path, Point } from "@/utils/mapTypes";
+
+const walkway = (id: string, points: Point[]): Path => ({ id, points, type: "walkway", label: id, capacity: 50 });
+
+describe("walkwayGraph", () => {
+  it("snaps nearby endpoints into one junction", () => {
+    const graph = buildWalkwayGraph([
+      walkway("a", [{ x: 0, y: 0 }, { x: 100, y: 0 }]),
+      walkway("b", [{ x: 105, y: 4 }, { x: 105, y: 100 }]),
+    ]);
+
+    expect(graph.vertices).toHaveLength(3);
+    expect(graph.edges).toHaveLength(2);
+    expect(walkingDistance(graph, { x: 0, y: 0 }, { x: 105, y: 100 })).toBeCloseTo(200, 0);
+  });
+
+  it("sizes the snap tolerance in meters", () => {
+    const paths = [
+      walkway("a", [{ x: 0, y: 0 }, { x: 100, y: 0 }]),
+      walkway("b", [{ x: 110, y: 0 }, { x: 200, y: 0 }]),
+    ];
+    // 2 px per meter leaves the 10 px gap wider than the snap tolerance.
+    const coarse = { start: { x: 0, y: 0 }, end: { x: 20, y: 0 }, meters: 10 };
+
+    expect(buildWalkwayGraph(paths).vertices).toHaveLength(3);
+    expect(buildWalkwayGraph(paths, coarse).vertices).toHaveLength(4);
+  });
+
+  it("splits crossing walkways and T-junctions", () => {
+    const graph = buildWalkwayGraph([
+      walkway("h", [{ x: 0, y: 50 }, { x: 100, y: 50 }]),
+      walkway("v", [{ x: 50, y: 0 }, { x: 50, y: 100 }]),
+      walkway("t", [{ x: 80, y: 50 }, { x: 80, y: 0 }]),
+    ]);
+
+    expect(graph.edges).toHaveLength(6);
+    expect(walkingDistance(graph, { x: 50, y: 0 }, { x: 80, y: 0 })).toBeCloseTo(130);
+  });
+
+  it("measures around corners rather than as the crow flies", () => {
+    const graph = buildWalkwayGraph([
+      walkway("l", [{ x: 0, y: 100 }, { x: 0, y: 0 }, { x: 100, y: 0 }]),
+    ]);
+
+    // Both points sit 10px off the walkway.
+    expect(walkingDistance(graph, { x: 10, y: 100 }, { x: 100, y: 10 })).toBeCloseTo(220);
+  });
+
+  it("walks straight along a single edge between two points on it", () => {
+    const graph = buildWalkwayGraph([walkway("a", [{ x: 0, y: 0 }, { x: 100, y: 0 }])]);
+
+    expect(walkingDistance(graph, { x: 20, y: 0 }, { x: 70, y: 0 })).toBeCloseTo(50);
+  });
+
+  it("reports unconnected walkways as unreachable", () => {
+    const graph = buildWalkwayGraph([
+      walkway("a", [{ x: 0, y: 0 }, { x: 100, y: 0 }]),
+      walkway("b", [{ x: 0, y: 200 }, { x: 100, y: 200 }]),
+    ]);
+
+    expect(walkingDistance(graph, { x: 10, y: 0 }, { x: 10, y: 200 })).toBe(Infinity);
+  });
+
+  it("falls back to straight-line distance without walkways", () => {
+    const graph = buildWalkwayGraph([]);
+
+    expect(walkingDistance(graph, { x: 0, y: 0 }, { x: 30, y: 40 })).toBe(50);
+  });
+});
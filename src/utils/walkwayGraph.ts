@@ -0,0 +1,249 @@
+// Routable graph of the drawn walkways. Walkway endpoints that land near each
+// other or on another walkway are snapped together and crossing walkways are
+// split at the crossing, so people can turn at every junction. Off-walkway
+// points (vendors, entries, bins) join the graph at the nearest point on a
+// walkway, and the step out to it counts toward their walking distance.
+// Pure: no React, no I/O.
+
+import type { MapScale, Path, Point } from "@/utils/mapTypes";
+import { pixelsPerMeter } from "@/utils/mapScale";
+
+export interface WalkwayEdge {
+  from: number;
+  to: number;
+  length: number;
+  pathId: string;
+}
+
+export interface WalkwayGraph {
+  vertices: Point[];
+  edges: WalkwayEdge[];
+  // Edge indices leaving each vertex.
+  adjacency: number[][];
+}
+
+// Where an off-graph point joins the graph.
+interface Attachment {
+  edge: number;
+  t: number; // 0 at edge.from, 1 at edge.to
+  offset: number; // straight-line step from the point onto the edge
+}
+
+// Endpoints within this many meters of a vertex or another walkway are joined to it.
+export const WALKWAY_SNAP_TOLERANCE_M = 1.2;
+const EPSILON = 1e-9;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const projectOntoSegment = (point: Point, start: Point, end: Point) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  const projected = { x: start.x + t * dx, y: start.y + t * dy };
+  return { t, projected, offset: distance(point, projected) };
+};
+
+// Parameter along a->b where it properly crosses c->d, or null.
+const crossingParameter = (a: Point, b: Point, c: Point, d: Point) => {
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+  const sx = d.x - c.x;
+  const sy = d.y - c.y;
+  const denominator = rx * sy - ry * sx;
+  if (Math.abs(denominator) < EPSILON) return null;
+  const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denominator;
+  const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denominator;
+  return t > EPSILON && t < 1 - EPSILON && u >= -EPSILON && u <= 1 + EPSILON ? t : null;
+};
+
+export const buildWalkwayGraph = (paths: Path[], scale: MapScale | null = null): WalkwayGraph => {
+  const snapTolerance = WALKWAY_SNAP_TOLERANCE_M * pixelsPerMeter(scale);
+  const segments: [Point, Point, string][] = [];
+  paths.forEach((path) => {
+    for (let i = 0; i < path.points.length - 1; i++) {
+      if (distance(path.points[i], path.points[i + 1]) > 0) {
+        segments.push([path.points[i], path.points[i + 1], path.id]);
+      }
+    }
+  });
+
+  const vertices: Point[] = [];
+  const edges: WalkwayEdge[] = [];
+  const adjacency: number[][] = [];
+  const edgeKeys = new Set<string>();
+
+  const addVertex = (point: Point) => {
+    const existing = vertices.findIndex((vertex) => distance(vertex, point) <= snapTolerance);
+    if (existing !== -1) return existing;
+    vertices.push({ x: point.x, y: point.y });
+    adjacency.push([]);
+    return vertices.length - 1;
+  };
+
+  // Register every endpoint first so later splits snap onto them.
+  segments.forEach(([start, end]) => {
+    addVertex(start);
+    addVertex(end);
+  });
+
+  segments.forEach(([start, end, pathId], segmentIdx) => {
+    const splits = [0, 1];
+    segments.forEach(([otherStart, otherEnd], otherIdx) => {
+      if (otherIdx === segmentIdx) return;
+      const crossing = crossingParameter(start, end, otherStart, otherEnd);
+      if (crossing !== null) splits.push(crossing);
+      // T-junctions: another walkway ends on (or just short of) this one.
+      [otherStart, otherEnd].forEach((endpoint) => {
+        const { t, offset } = projectOntoSegment(endpoint, start, end);
+        if (offset <= snapTolerance && t > EPSILON && t < 1 - EPSILON) splits.push(t);
+      });
+    });
+
+    const stops = Array.from(new Set(splits))
+      .sort((a, b) => a - b)
+      .map((t) => addVertex({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t }));
+    for (let i = 0; i < stops.length - 1; i++) {
+      const from = stops[i];
+      const to = stops[i + 1];
+      const key = from < to ? `${from}:${to}` : `${to}:${from}`;
+      if (from === to || edgeKeys.has(key)) continue;
+      edgeKeys.add(key);
+      edges.push({ from, to, length: distance(vertices[from], vertices[to]), pathId });
+      adjacency[from].push(edges.length - 1);
+      adjacency[to].push(edges.length - 1);
+    }
+  });
+
+  return { vertices, edges, adjacency };
+};
+
+const attach = (graph: WalkwayGraph, point: Point): Attachment | null => {
+  let best: Attachment | null = null;
+  graph.edges.forEach((edge, idx) => {
+    const { t, offset } = projectOntoSegment(point, graph.vertices[edge.from], graph.vertices[edge.to]);
+    if (!best || offset < best.offset) best = { edge: idx, t, offset };
+  });
+  return best;
+};
+
+// Index of the edge an off-graph point joins, or -1 without walkways.
+export const nearestEdge = (graph: WalkwayGraph, point: Point) => attach(graph, point)?.edge ?? -1;
+
+// Dijkstra from an attachment, returning the distance to every vertex and the
+// edge each vertex was reached through (-1 for the attachment edge's ends).
+const shortestPaths = (graph: WalkwayGraph, source: Attachment) => {
+  const distances = new Float64Array(graph.vertices.length).fill(Infinity);
+  const previousEdge = new Int32Array(graph.vertices.length).fill(-1);
+  const edge = graph.edges[source.edge];
+  distances[edge.from] = source.offset + source.t * edge.length;
+  distances[edge.to] = Math.min(distances[edge.to], source.offset + (1 - source.t) * edge.length);
+
+  // Binary heap of [distance, vertex]; stale entries are skipped on pop.
+  const heap: [number, number][] = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  push([distances[edge.from], edge.from]);
+  push([distances[edge.to], edge.to]);
+  while (heap.length > 0) {
+    const [dist, vertex] = pop();
+    if (dist > distances[vertex]) continue;
+    graph.adjacency[vertex].forEach((edgeIdx) => {
+      const next = graph.edges[edgeIdx];
+      const neighbour = next.from === vertex ? next.to : next.from;
+      const candidate = dist + next.length;
+      if (candidate < distances[neighbour]) {
+        distances[neighbour] = candidate;
+        previousEdge[neighbour] = edgeIdx;
+        push([candidate, neighbour]);
+      }
+    });
+  }
+  return { distances, previousEdge };
+};
+
+/**
+ * Walking distances from `origin` along the walkways. The returned function
+ * gives the distance to any point, or Infinity when no walkway connects them.
+ * Without walkways it falls back to straight-line distance.
+ */
+export const walkingDistancesFrom = (graph: WalkwayGraph, origin: Point): ((target: Point) => number) => {
+  const source = attach(graph, origin);
+  if (!source) return (target) => distance(origin, target);
+  const { distances } = shortestPaths(graph, source);
+
+  return (target) => {
+    const destination = attach(graph, target);
+    if (!destination) return distance(origin, target);
+    const edge = graph.edges[destination.edge];
+    let best = Math.min(
+      distances[edge.from] + destination.t * edge.length,
+      distances[edge.to] + (1 - destination.t) * edge.length
+    );
+    if (destination.edge === source.edge) {
+      best = Math.min(best, source.offset + Math.abs(destination.t - source.t) * edge.length);
+    }
+    return best + destination.offset;
+  };
+};
+
+export const walkingDistance = (graph: WalkwayGraph, a: Point, b: Point) => walkingDistancesFrom(graph, a)(b);
+
+/**
+ * Edges walked on the shortest route between two points, attachment edges
+ * included; null when no walkway connects them.
+ */
+export const walkingRoute = (graph: WalkwayGraph, origin: Point, target: Point): number[] | null => {
+  const source = attach(graph, origin);
+  const destination = attach(graph, target);
+  if (!source || !destination) return null;
+  const { distances, previousEdge } = shortestPaths(graph, source);
+  const edge = graph.edges[destination.edge];
+  const viaFrom = distances[edge.from] + destination.t * edge.length;
+  const viaTo = distances[edge.to] + (1 - destination.t) * edge.length;
+  if (destination.edge === source.edge && Math.abs(destination.t - source.t) * edge.length <= Math.min(viaFrom, viaTo)) {
+    return [source.edge];
+  }
+  if (!Number.isFinite(Math.min(viaFrom, viaTo))) return null;
+
+  const route = [destination.edge];
+  let vertex = viaFrom <= viaTo ? edge.from : edge.to;
+  while (previousEdge[vertex] !== -1) {
+    const step = graph.edges[previousEdge[vertex]];
+    route.push(previousEdge[vertex]);
+    vertex = step.from === vertex ? step.to : step.from;
+  }
+  if (route[route.length - 1] !== source.edge) route.push(source.edge);
+  return route.reverse();
+};
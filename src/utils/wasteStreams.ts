@@ -0,0 +1,85 @@
+// Waste stream catalogue: what each bin setup accepts and what each vendor
+// menu type throws away. Composition shares are by volume and sum to 1.
+
+import type { BinStream, MenuType, WasteStream } from "@/utils/mapTypes";
+
+export type StreamAmounts = Record<WasteStream, number>;
+
+export const WASTE_STREAMS: WasteStream[] = ["landfill", "recycling", "compost", "deposit"];
+
+// Streams that count towards the diversion rate.
+export const DIVERTED_STREAMS: WasteStream[] = ["recycling", "compost", "deposit"];
+
+export const WASTE_STREAM_LABELS: Record<WasteStream, string> = {
+  landfill: "Landfill",
+  recycling: "Recycling",
+  compost: "Compost",
+  deposit: "Deposit return",
+};
+
+export interface BinStreamOption {
+  label: string;
+  accepts: WasteStream[];
+  // Sorted bins keep streams apart; a single-stream bin mixes everything into landfill.
+  sorted: boolean;
+}
+
+export const BIN_STREAM_OPTIONS: Record<BinStream, BinStreamOption> = {
+  single: { label: "Single stream (mixed)", accepts: WASTE_STREAMS, sorted: false },
+  landfill: { label: "Landfill only", accepts: ["landfill"], sorted: true },
+  recycling: { label: "Recycling only", accepts: ["recycling"], sorted: true },
+  compost: { label: "Compost only", accepts: ["compost"], sorted: true },
+  deposit: { label: "Deposit return (bottles & cans)", accepts: ["deposit"], sorted: true },
+  station: { label: "Co-located station (all streams)", accepts: WASTE_STREAMS, sorted: true },
+};
+
+export interface MenuProfile {
+  label: string;
+  composition: StreamAmounts;
+}
+
+export const MENU_PROFILES: Record<MenuType, MenuProfile> = {
+  general: {
+    label: "General",
+    composition: { landfill: 0.35, recycling: 0.3, compost: 0.25, deposit: 0.1 },
+  },
+  beverages: {
+    label: "Beverages",
+    composition: { landfill: 0.1, recycling: 0.3, compost: 0.05, deposit: 0.55 },
+  },
+  "fast-food": {
+    label: "Fast food",
+    composition: { landfill: 0.3, recycling: 0.2, compost: 0.4, deposit: 0.1 },
+  },
+  snacks: {
+    label: "Snacks",
+    composition: { landfill: 0.5, recycling: 0.35, compost: 0.1, deposit: 0.05 },
+  },
+  coffee: {
+    label: "Coffee & tea",
+    composition: { landfill: 0.25, recycling: 0.15, compost: 0.55, deposit: 0.05 },
+  },
+};
+
+// Incidental attendee waste: tickets, wrappers and drinks brought in.
+export const ATTENDEE_COMPOSITION: StreamAmounts = {
+  landfill: 0.4,
+  recycling: 0.35,
+  compost: 0.1,
+  deposit: 0.15,
+};
+
+export const emptyStreamAmounts = (): StreamAmounts => ({
+  landfill: 0,
+  recycling: 0,
+  compost: 0,
+  deposit: 0,
+});
+
+export const binStreamOf = (node: { stream?: BinStream }): BinStream => node.stream ?? "single";
+
+export const menuProfileOf = (node: { menuType?: MenuType }): MenuProfile =>
+  MENU_PROFILES[node.menuType ?? "general"];
+
+export const acceptsStream = (bin: BinStream, stream: WasteStream) =>
+  BIN_STREAM_OPTIONS[bin].accepts.includes(stream);
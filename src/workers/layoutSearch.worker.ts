@@ -0,0 +1,28 @@
+// Runs the simulation-in-the-loop layout search off the UI thread.
+import { searchLayouts } from "@/utils/layoutSearch";
+import type { LayoutSearchWorkerRequest, LayoutSearchWorkerResponse } from "@/workers/layoutSearchMessages";
+
+let cancelled = false;
+
+const post = (message: LayoutSearchWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<LayoutSearchWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start":
+      cancelled = false;
+      try {
+        const result = await searchLayouts(message.context, message.options, message.initialBins, {
+          onProgress: (progress) => post({ type: "progress", progress }),
+          isCancelled: () => cancelled,
+        });
+        post({ type: "done", result });
+      } catch (error) {
+        post({ type: "error", message: error instanceof Error ? error.message : "Layout search failed." });
+      }
+      break;
+    case "cancel":
+      cancelled = true;
+      break;
+  }
+};
@@ -0,0 +1,18 @@
+// Message protocol between useLayoutSearch and layoutSearch.worker.
+import type { Point } from "@/utils/mapTypes";
+import type {
+  LayoutSearchContext,
+  LayoutSearchOptions,
+  LayoutSearchProgress,
+  LayoutSearchResult,
+} from "@/utils/layoutSearch";
+
+export type LayoutSearchWorkerRequest =
+  | { type: "start"; context: LayoutSearchContext; options: LayoutSearchOptions; initialBins: Point[] }
+  // Stops after the replication batch in flight and reports the best layout so far.
+  | { type: "cancel" };
+
+export type LayoutSearchWorkerResponse =
+  | { type: "progress"; progress: LayoutSearchProgress }
+  | { type: "done"; result: LayoutSearchResult }
+  | { type: "error"; message: string };
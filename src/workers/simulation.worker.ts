@@ -0,0 +1,85 @@
+// Runs SimulationEngine off the UI thread and streams snapshots back with
+// their buffers transferred rather than copied.
+import { SimulationEngine } from "@/utils/simulationEngine";
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from "@/workers/simulationMessages";
+
+let engine: SimulationEngine | null = null;
+let generation = 0;
+let stepsPerFrame = 1;
+let isRunning = false;
+let awaitingAck = false;
+let tickTimer: ReturnType<typeof setTimeout> | null = null;
+
+const postFrame = () => {
+  if (!engine) return;
+  const snapshot = engine.snapshot();
+  const message: SimulationWorkerResponse = { type: "frame", generation, snapshot };
+  awaitingAck = true;
+  self.postMessage(message, {
+    transfer: [
+      snapshot.positions.buffer,
+      snapshot.trailField.buffer,
+      snapshot.litterField.buffer,
+      snapshot.binDeposits.buffer,
+    ],
+  });
+};
+
+const tick = () => {
+  tickTimer = null;
+  if (!engine || !isRunning) return;
+  for (let i = 0; i < stepsPerFrame; i++) {
+    engine.step();
+  }
+  postFrame();
+};
+
+const scheduleTick = () => {
+  if (isRunning && !awaitingAck && tickTimer === null) {
+    tickTimer = setTimeout(tick, 0);
+  }
+};
+
+const stop = () => {
+  isRunning = false;
+  if (tickTimer !== null) {
+    clearTimeout(tickTimer);
+    tickTimer = null;
+  }
+};
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init":
+      stop();
+      generation = message.generation;
+      engine = new SimulationEngine(message.params, message.nodes, message.obstacles);
+      postFrame();
+      break;
+    case "start":
+      stepsPerFrame = message.stepsPerFrame;
+      isRunning = true;
+      scheduleTick();
+      break;
+    case "pause":
+      stop();
+      break;
+    case "step":
+      engine?.step();
+      postFrame();
+      break;
+    case "reset":
+      stop();
+      engine?.reset();
+      postFrame();
+      break;
+    case "set-steps-per-frame":
+      stepsPerFrame = message.stepsPerFrame;
+      break;
+    case "ack":
+      awaitingAck = false;
+      scheduleTick();
+      break;
+  }
+};
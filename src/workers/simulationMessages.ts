@@ -0,0 +1,19 @@
+// Message protocol between useSimulation and simulation.worker.
+import type { Node, SimulationParams, SimulationSnapshot } from "@/utils/simulationEngine";
+
+export type SimulationWorkerRequest =
+  // `generation` tags frames so the UI can drop ones from a superseded layout.
+  | { type: "init"; generation: number; params: SimulationParams; nodes: Node[]; obstacles: Uint8Array }
+  | { type: "start"; stepsPerFrame: number }
+  | { type: "pause" }
+  | { type: "step" }
+  | { type: "reset" }
+  | { type: "set-steps-per-frame"; stepsPerFrame: number }
+  // Sent once a frame has been drawn; the worker holds the next one until then.
+  | { type: "ack" };
+
+export type SimulationWorkerResponse = {
+  type: "frame";
+  generation: number;
+  snapshot: SimulationSnapshot;
+};